@@ -1,17 +1,19 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Login from './components/Login';
 import MagicInput from './components/MagicInput';
 import TransactionForm from './components/TransactionForm';
 import Dashboard from './components/Dashboard';
 import Settings from './components/Settings';
 import BankSyncModal from './components/BankSyncModal';
+import ReconcileModal from './components/ReconcileModal';
 import BudgetAssistant from './components/BudgetAssistant';
 import EventPlanner from './components/EventPlanner';
 import Projections from './components/Projections';
 import Calendar from './components/Calendar';
 import VerificationQueue from './components/VerificationQueue';
+import DuplicateSweep from './components/DuplicateSweep';
+import Ledger from './components/Ledger';
 import { 
   Transaction, 
   AIAnalysisResult, 
@@ -25,49 +27,102 @@ import {
   Contact, 
   InvestmentGoal, 
   CalendarItem,
+  ImportProfile,
+  CategoryRule,
+  Category,
+  FxRate,
+  Reconciliation,
+  SyncLogEntry,
+  PricePoint,
+  NetWorthSnapshot,
+  Liability,
+  QueuedItem,
+  InvestmentTrade,
+  BudgetCycle,
+  StoredUser,
   STORAGE_KEYS 
 } from './types';
 import { getStoredVaultHandle, storeMirrorHandle, clearVaultHandle } from './services/fileStorageService';
+import { openVault, closeVault, loadVault, loadCollection, loadSetting, persistCollection, persistSetting, subscribeToVaultChanges, purgeVault, purgeUserVault, CollectionName, VaultCollections, VaultSnapshot, DEFAULT_SETTINGS } from './services/vaultRepository';
+import { authenticate, createStoredUser, validateRegistration, changePassword } from './services/authService';
+import { generateVaultKey, unwrapVaultKey } from './services/vaultCrypto';
+import { findDuplicates, mergeTransactions } from './services/duplicateDetectionService';
+import { applyCategoryRules, proposeRule, CategoryRuleDraft } from './services/categoryRulesService';
+import { isDue, runSync, SCHEDULER_TICK_MS, SYNC_LOG_LIMIT } from './services/syncScheduler';
+import RuleProposalToast from './components/RuleProposalToast';
+import { PROTECTED_CATEGORY_NAMES } from './services/categoryService';
+import { HOME_CURRENCY, INVESTMENT_CURRENCY, toBaseCurrency, transactionCurrency, connectionCurrency, currencySymbol, convertAmount } from './services/currencyService';
+import { buildBalanceSheet } from './services/balanceService';
+import { lockedTransactionIds } from './services/reconciliationService';
+import { withTrades, applyPositionUpdate } from './services/costBasisService';
+import { assetClassOf } from './services/assetAllocationService';
+import { snapshotFromSheet, recordSnapshot, backfillSnapshots, mergeBackfill, snapshotsIn } from './services/netWorthService';
+import { todayKey } from './services/budgetCycleService';
+import { localFeedProvider, recordPrices, quoteToPoint, latestPrices, isStale, describeAge, PRICE_REFRESH_MS } from './services/priceService';
 
-const ADMIN_USER = "nsv"; 
-
-const safeParse = (key: string, fallback: any) => {
-  try {
-    const saved = localStorage.getItem(key);
-    return saved ? JSON.parse(saved) : fallback;
-  } catch (e) {
-    return fallback;
-  }
+// Writes one collection back to IndexedDB whenever its state changes (after hydration).
+const useVaultPersistence = <K extends CollectionName>(name: K, value: VaultCollections[K], isReady: boolean) => {
+  useEffect(() => {
+    if (!isReady) return;
+    persistCollection(name, value).catch(err => console.error(`Vault write failed (${name})`, err));
+  }, [name, value, isReady]);
 };
 
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart'];
+
 const generateId = () => Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
 
-const MarketTicker = ({ prices, quotaExhausted }: { prices: MarketPrice[], quotaExhausted: boolean }) => {
+const investmentAccountFor = (investments: InvestmentAccount[], provider: InvestmentAccount['provider']): InvestmentAccount =>
+  investments.find(inv => inv.provider === provider) || { id: generateId(), provider, name: `${provider} Portfolio`, assetClass: assetClassOf({ provider }), holdings: [] };
+
+// Quote ages are shown as they are: a feed outage leaves prices visibly old, never "live"
+const MarketTicker = ({ prices, heldSymbols, feedError, feedLabel }: { prices: MarketPrice[], heldSymbols: string[], feedError: string | null, feedLabel: string }) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const symbols = Array.from(new Set<string>([...heldSymbols, ...prices.map(p => p.symbol)]));
+  const newest = prices.reduce<string | undefined>((acc, p) => !acc || (p.asOf && p.asOf > acc) ? p.asOf : acc, undefined);
+  const healthy = !feedError && !isStale(newest, now);
+
   return (
     <div className="fixed top-0 left-0 right-0 z-[120] bg-slate-900 text-white py-1.5 shadow-md border-b border-slate-800">
       <div className="flex items-center">
-        <div className="px-4 border-r border-slate-800 flex items-center gap-2 whitespace-nowrap bg-slate-900 z-10">
+        <div className="px-4 border-r border-slate-800 flex items-center gap-2 whitespace-nowrap bg-slate-900 z-10" title={feedError || undefined}>
           <span className="flex h-2 w-2 relative">
-            <span className={`animate-ping absolute inline-flex h-full w-full rounded-full ${quotaExhausted ? 'bg-amber-400' : 'bg-emerald-400'} opacity-75`}></span>
-            <span className={`relative inline-flex rounded-full h-2 w-2 ${quotaExhausted ? 'bg-amber-500' : 'bg-emerald-500'}`}></span>
+            {healthy && <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>}
+            <span className={`relative inline-flex rounded-full h-2 w-2 ${healthy ? 'bg-emerald-500' : 'bg-amber-500'}`}></span>
           </span>
           <span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-400">
-            {quotaExhausted ? 'Cached Data' : 'Live Market Feed'}
+            {feedError ? 'Feed Offline' : feedLabel} • {newest ? `Updated ${describeAge(newest, now)}` : 'No Quotes'}
           </span>
         </div>
         <div className="overflow-hidden relative flex-1">
           <div className="animate-marquee whitespace-nowrap flex items-center gap-12">
-            {[...prices, ...prices].map((p, idx) => (
-              <div key={idx} className="flex items-center gap-3">
-                 <div className="w-5 h-5 rounded bg-white/10 flex items-center justify-center text-[8px] font-black text-white">{p.symbol.substring(0, 1)}</div>
-                 <span className="font-black text-[9px] text-slate-400 tracking-[0.2em] uppercase">{p.symbol}</span>
-                 <span className="font-black text-[10px] text-white tracking-tight">${p.price.toLocaleString()}</span>
-                 <div className={`flex items-center gap-1 text-[8px] font-black px-1.5 py-0.5 rounded ${p.change24h >= 0 ? 'bg-emerald-500/10 text-emerald-400' : 'bg-rose-500/10 text-rose-400'}`}>
-                   <i className={`fas fa-caret-${p.change24h >= 0 ? 'up' : 'down'}`}></i>
-                   {Math.abs(p.change24h).toFixed(2)}%
-                 </div>
-              </div>
-            ))}
+            {[...symbols, ...symbols].map((symbol, idx) => {
+              const p = prices.find(q => q.symbol === symbol);
+              return (
+                <div key={idx} className="flex items-center gap-3">
+                   <div className="w-5 h-5 rounded bg-white/10 flex items-center justify-center text-[8px] font-black text-white">{symbol.substring(0, 1)}</div>
+                   <span className="font-black text-[9px] text-slate-400 tracking-[0.2em] uppercase">{symbol}</span>
+                   {p ? (
+                     <>
+                       <span className="font-black text-[10px] text-white tracking-tight">{currencySymbol(p.currency || INVESTMENT_CURRENCY)}{p.price.toLocaleString()}</span>
+                       <div className={`flex items-center gap-1 text-[8px] font-black px-1.5 py-0.5 rounded ${p.change24h >= 0 ? 'bg-emerald-500/10 text-emerald-400' : 'bg-rose-500/10 text-rose-400'}`}>
+                         <i className={`fas fa-caret-${p.change24h >= 0 ? 'up' : 'down'}`}></i>
+                         {Math.abs(p.change24h).toFixed(2)}%
+                       </div>
+                       {isStale(p.asOf, now) && <span className="text-[8px] font-black uppercase tracking-widest text-amber-400">{describeAge(p.asOf, now)}</span>}
+                     </>
+                   ) : (
+                     <span className="text-[8px] font-black uppercase tracking-widest text-amber-400">No Quote</span>
+                   )}
+                </div>
+              );
+            })}
           </div>
         </div>
       </div>
@@ -78,69 +133,166 @@ const MarketTicker = ({ prices, quotaExhausted }: { prices: MarketPrice[], quota
 const App: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => localStorage.getItem(STORAGE_KEYS.AUTH) === 'true');
   const [currentUsername, setCurrentUsername] = useState<string>(() => localStorage.getItem(STORAGE_KEYS.AUTH_USER) || '');
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'calendar' | 'events' | 'projections'>(() => {
-    const user = localStorage.getItem(STORAGE_KEYS.AUTH_USER);
-    return user === ADMIN_USER ? 'dashboard' : 'events';
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'ledger' | 'calendar' | 'events' | 'projections'>('events');
+  const [users, setUsers] = useState<StoredUser[]>([]);
+  const [isUsersReady, setIsUsersReady] = useState(false);
+  // In memory only: a reload or auto-lock keeps the session but requires the password again
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number>(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.AUTO_LOCK);
+    return stored === null ? DEFAULT_AUTO_LOCK_MINUTES : parseInt(stored, 10) || 0;
   });
 
-  const [transactions, setTransactions] = useState<Transaction[]>(() => safeParse(STORAGE_KEYS.TRANSACTIONS, []));
-  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>(() => safeParse(STORAGE_KEYS.RECURRING_EXPENSES, []));
-  const [recurringIncomes, setRecurringIncomes] = useState<RecurringIncome[]>(() => safeParse(STORAGE_KEYS.RECURRING_INCOMES, []));
-  const [savingGoals, setSavingGoals] = useState<SavingGoal[]>(() => safeParse(STORAGE_KEYS.SAVINGS_GOALS, []));
-  const [investmentGoals, setInvestmentGoals] = useState<InvestmentGoal[]>(() => safeParse(STORAGE_KEYS.INVESTMENT_GOALS, []));
-  const [categoryBudgets, setCategoryBudgets] = useState<Record<string, number>>(() => safeParse(STORAGE_KEYS.CATEGORY_LIMITS, {}));
-  const [bankConnections, setBankConnections] = useState<BankConnection[]>(() => safeParse(STORAGE_KEYS.BANK_CONNECTIONS, []));
-  const [investments, setInvestments] = useState<InvestmentAccount[]>(() => safeParse(STORAGE_KEYS.INVESTMENTS, []));
-  const [events, setEvents] = useState<BudgetEvent[]>(() => safeParse(STORAGE_KEYS.EVENTS, []));
-  const [calendarItems, setCalendarItems] = useState<CalendarItem[]>(() => safeParse(STORAGE_KEYS.CALENDAR_ITEMS, []));
-  const [contacts, setContacts] = useState<Contact[]>(() => safeParse(STORAGE_KEYS.CONTACTS, []));
-  const [cashOpeningBalance, setCashOpeningBalance] = useState<number>(() => parseFloat(localStorage.getItem(STORAGE_KEYS.CASH_OPENING) || '0'));
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [recurringIncomes, setRecurringIncomes] = useState<RecurringIncome[]>([]);
+  const [savingGoals, setSavingGoals] = useState<SavingGoal[]>([]);
+  const [investmentGoals, setInvestmentGoals] = useState<InvestmentGoal[]>([]);
+  const [categoryBudgets, setCategoryBudgets] = useState<Record<string, number>>({});
+  const [bankConnections, setBankConnections] = useState<BankConnection[]>([]);
+  const [investments, setInvestments] = useState<InvestmentAccount[]>([]);
+  const [events, setEvents] = useState<BudgetEvent[]>([]);
+  const [calendarItems, setCalendarItems] = useState<CalendarItem[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [ruleProposal, setRuleProposal] = useState<CategoryRuleDraft | null>(null);
+  const [cashOpeningBalance, setCashOpeningBalance] = useState<number>(0);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [syncLog, setSyncLog] = useState<SyncLogEntry[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState<string>(HOME_CURRENCY);
+  const [budgetCycle, setBudgetCycle] = useState<BudgetCycle>(DEFAULT_SETTINGS.budgetCycle);
+  const [isVaultReady, setIsVaultReady] = useState(false);
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [hydrationAttempt, setHydrationAttempt] = useState(0);
   
-  const [marketPrices, setMarketPrices] = useState<MarketPrice[]>([
-    { symbol: 'BTC', price: 95420.00, change24h: 1.2 },
-    { symbol: 'ETH', price: 2850.50, change24h: -0.5 },
-    { symbol: 'SOL', price: 165.20, change24h: 3.4 },
-    { symbol: 'VOO', price: 548.12, change24h: 0.2 },
-    { symbol: 'VOOG', price: 312.45, change24h: 0.1 }
-  ]);
-  const [quotaExhausted, setQuotaExhausted] = useState(false);
-
-  const [pendingApprovals, setPendingApprovals] = useState<AIAnalysisResult[]>([]);
+  const [priceHistory, setPriceHistory] = useState<PricePoint[]>([]);
+  const [priceFeedError, setPriceFeedError] = useState<string | null>(null);
+  const [netWorthHistory, setNetWorthHistory] = useState<NetWorthSnapshot[]>([]);
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
+  const marketPrices = useMemo(() => latestPrices(priceHistory), [priceHistory]);
+
+  const [pendingApprovals, setPendingApprovals] = useState<QueuedItem[]>([]);
   const [showForm, setShowForm] = useState(false);
+  const [editingQueueIndex, setEditingQueueIndex] = useState<number | null>(null);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showBankSync, setShowBankSync] = useState(false);
+  const [reconcilingInstitution, setReconcilingInstitution] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [directoryHandle, setDirectoryHandle] = useState<FileSystemDirectoryHandle | null>(null);
 
-  const isAdmin = currentUsername === ADMIN_USER;
+  const currentUser = users.find(u => u.username === currentUsername);
+  const isAdmin = currentUser?.role === 'admin';
+
+  // Collection setters shared by hydration and cross-tab sync
+  const applyCollection = <K extends CollectionName>(name: K, value: VaultCollections[K]) => {
+    const setters: { [C in CollectionName]?: (v: VaultCollections[C]) => void } = {
+      transactions: setTransactions,
+      recurringExpenses: setRecurringExpenses,
+      recurringIncomes: setRecurringIncomes,
+      savingGoals: setSavingGoals,
+      investmentGoals: setInvestmentGoals,
+      categoryBudgets: setCategoryBudgets,
+      bankConnections: setBankConnections,
+      investments: setInvestments,
+      events: setEvents,
+      calendarItems: setCalendarItems,
+      contacts: setContacts,
+      importProfiles: setImportProfiles,
+      categoryRules: setCategoryRules,
+      categories: setCategories,
+      fxRates: setFxRates,
+      reconciliations: setReconciliations,
+      syncLog: setSyncLog,
+      priceHistory: setPriceHistory,
+      netWorthHistory: setNetWorthHistory,
+      liabilities: setLiabilities,
+      verificationQueue: setPendingApprovals,
+      users: setUsers
+    };
+    setters[name]?.(value);
+  };
+
+  const applySnapshot = (vault: VaultSnapshot) => {
+    (Object.keys(vault) as (keyof VaultSnapshot)[]).forEach(key => {
+      if (!(key in DEFAULT_SETTINGS)) applyCollection(key as CollectionName, vault[key] as any);
+    });
+    setCashOpeningBalance(vault.cashOpeningBalance);
+    setBaseCurrency(vault.baseCurrency);
+    setBudgetCycle(vault.budgetCycle);
+  };
+
+  // Accounts are shared across the device and needed before anyone signs in
+  useEffect(() => {
+    loadCollection('users')
+      .then(setUsers)
+      .catch(err => console.error("User registry load failed", err))
+      .finally(() => setIsUsersReady(true));
+  }, []);
+
+  // A restored session is only valid while its account still exists
+  useEffect(() => {
+    if (isUsersReady && isAuthenticated && !currentUser) handleLogout();
+  }, [isUsersReady, isAuthenticated, currentUser]);
+
+  // Hydrate the signed-in user's vault from IndexedDB (running any pending schema migrations first).
+  // Nothing is saved until this succeeds, so a failed open can never overwrite the stored vault.
+  useEffect(() => {
+    if (!isAuthenticated || !currentUsername || !vaultKey) return;
+    setVaultError(null);
+    openVault(currentUsername, vaultKey)
+      .then(vault => {
+        applySnapshot(vault);
+        setIsVaultReady(true);
+      })
+      .catch(err => {
+        console.error("Vault hydration failed", err);
+        setVaultError(err instanceof Error ? err.message : String(err));
+      });
+  }, [isAuthenticated, currentUsername, vaultKey, hydrationAttempt]);
+
+  // Auto-lock: drop the vault key after a period without user activity
+  useEffect(() => {
+    if (!vaultKey || autoLockMinutes <= 0) return;
+    let lastActivity = Date.now();
+    const markActive = () => { lastActivity = Date.now(); };
+    ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60000) lockVault();
+    }, 15000);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, markActive));
+    };
+  }, [vaultKey, autoLockMinutes]);
 
   // Synchronization Listener: Pull updates from other tabs
   useEffect(() => {
-    const handleSync = (e: StorageEvent) => {
-      if (!e.newValue || e.key === null) return;
+    const unsubscribe = subscribeToVaultChanges(async ({ collection, setting }) => {
       try {
-        const val = JSON.parse(e.newValue);
-        switch (e.key) {
-          case STORAGE_KEYS.TRANSACTIONS: setTransactions(val); break;
-          case STORAGE_KEYS.RECURRING_EXPENSES: setRecurringExpenses(val); break;
-          case STORAGE_KEYS.RECURRING_INCOMES: setRecurringIncomes(val); break;
-          case STORAGE_KEYS.SAVINGS_GOALS: setSavingGoals(val); break;
-          case STORAGE_KEYS.BANK_CONNECTIONS: setBankConnections(val); break;
-          case STORAGE_KEYS.INVESTMENTS: setInvestments(val); break;
-          case STORAGE_KEYS.EVENTS: setEvents(val); break;
-          case STORAGE_KEYS.CALENDAR_ITEMS: setCalendarItems(val); break;
-          case STORAGE_KEYS.CONTACTS: setContacts(val); break;
-          case STORAGE_KEYS.CATEGORY_LIMITS: setCategoryBudgets(val); break;
-          case STORAGE_KEYS.CASH_OPENING: setCashOpeningBalance(parseFloat(e.newValue) || 0); break;
-          case STORAGE_KEYS.AUTH: setIsAuthenticated(e.newValue === 'true'); break;
-          case STORAGE_KEYS.AUTH_USER: setCurrentUsername(e.newValue || ''); break;
-        }
+        if (collection) applyCollection(collection, await loadCollection(collection));
+        if (setting === 'cashOpeningBalance') setCashOpeningBalance(await loadSetting('cashOpeningBalance'));
+        if (setting === 'baseCurrency') setBaseCurrency(await loadSetting('baseCurrency'));
+        if (setting === 'budgetCycle') setBudgetCycle(await loadSetting('budgetCycle'));
       } catch (err) {
-        console.warn("Storage Sync Parse Error", err);
+        console.warn("Vault Sync Read Error", err);
       }
+    });
+    // Another tab signing in or out never carries its vault key over to this one
+    const handleAuthSync = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEYS.AUTH && e.key !== STORAGE_KEYS.AUTH_USER) return;
+      lockVault();
+      if (e.key === STORAGE_KEYS.AUTH) setIsAuthenticated(e.newValue === 'true');
+      if (e.key === STORAGE_KEYS.AUTH_USER) setCurrentUsername(e.newValue || '');
+    };
+    window.addEventListener('storage', handleAuthSync);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleAuthSync);
     };
-    window.addEventListener('storage', handleSync);
-    return () => window.removeEventListener('storage', handleSync);
   }, []);
 
   // Restore Directory Handle on Mount
@@ -154,76 +306,338 @@ const App: React.FC = () => {
     restoreHandle();
   }, []);
 
+  useVaultPersistence('users', users, isUsersReady);
+  useVaultPersistence('transactions', transactions, isVaultReady);
+  useVaultPersistence('recurringExpenses', recurringExpenses, isVaultReady);
+  useVaultPersistence('recurringIncomes', recurringIncomes, isVaultReady);
+  useVaultPersistence('savingGoals', savingGoals, isVaultReady);
+  useVaultPersistence('investmentGoals', investmentGoals, isVaultReady);
+  useVaultPersistence('categoryBudgets', categoryBudgets, isVaultReady);
+  useVaultPersistence('bankConnections', bankConnections, isVaultReady);
+  useVaultPersistence('investments', investments, isVaultReady);
+  useVaultPersistence('events', events, isVaultReady);
+  useVaultPersistence('calendarItems', calendarItems, isVaultReady);
+  useVaultPersistence('contacts', contacts, isVaultReady);
+  useVaultPersistence('importProfiles', importProfiles, isVaultReady);
+  useVaultPersistence('categoryRules', categoryRules, isVaultReady);
+  useVaultPersistence('categories', categories, isVaultReady);
+  useVaultPersistence('fxRates', fxRates, isVaultReady);
+  useVaultPersistence('reconciliations', reconciliations, isVaultReady);
+  useVaultPersistence('syncLog', syncLog, isVaultReady);
+  useVaultPersistence('priceHistory', priceHistory, isVaultReady);
+  useVaultPersistence('netWorthHistory', netWorthHistory, isVaultReady);
+  useVaultPersistence('liabilities', liabilities, isVaultReady);
+  useVaultPersistence('verificationQueue', pendingApprovals, isVaultReady);
+
+  useEffect(() => {
+    if (isVaultReady) persistSetting('cashOpeningBalance', cashOpeningBalance);
+  }, [cashOpeningBalance, isVaultReady]);
+
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
-    localStorage.setItem(STORAGE_KEYS.RECURRING_EXPENSES, JSON.stringify(recurringExpenses));
-    localStorage.setItem(STORAGE_KEYS.RECURRING_INCOMES, JSON.stringify(recurringIncomes));
-    localStorage.setItem(STORAGE_KEYS.SAVINGS_GOALS, JSON.stringify(savingGoals));
-    localStorage.setItem(STORAGE_KEYS.BANK_CONNECTIONS, JSON.stringify(bankConnections));
-    localStorage.setItem(STORAGE_KEYS.INVESTMENTS, JSON.stringify(investments));
-    localStorage.setItem(STORAGE_KEYS.EVENTS, JSON.stringify(events));
-    localStorage.setItem(STORAGE_KEYS.CALENDAR_ITEMS, JSON.stringify(calendarItems));
-    localStorage.setItem(STORAGE_KEYS.CONTACTS, JSON.stringify(contacts));
-    localStorage.setItem(STORAGE_KEYS.CATEGORY_LIMITS, JSON.stringify(categoryBudgets));
-    localStorage.setItem(STORAGE_KEYS.CASH_OPENING, cashOpeningBalance.toString());
-  }, [transactions, recurringExpenses, recurringIncomes, savingGoals, bankConnections, investments, events, calendarItems, contacts, categoryBudgets, cashOpeningBalance]);
-
-  const fetchMarketData = async () => {
+    if (isVaultReady) persistSetting('baseCurrency', baseCurrency);
+  }, [baseCurrency, isVaultReady]);
+
+  useEffect(() => {
+    if (isVaultReady) persistSetting('budgetCycle', budgetCycle);
+  }, [budgetCycle, isVaultReady]);
+
+  const heldSymbols = useMemo(() => Array.from(new Set<string>(
+    investments.flatMap(inv => inv.holdings.filter(h => h.quantity > 0).map(h => h.symbol))
+  )).sort(), [investments]);
+
+  const refreshPrices = async (symbols: string[]) => {
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: "Provide current market prices and 24h change for BTC, ETH, SOL, VOO, and VOOG.",
-        config: { tools: [{ googleSearch: {} }] }
-      });
-      
-      const text = response.text || "";
-      const newPrices = marketPrices.map(p => {
-        const regex = new RegExp(`${p.symbol}:?\\s*\\$?([\\d,.]+)`, 'i');
-        const match = text.match(regex);
-        if (match) {
-          return { ...p, price: parseFloat(match[1].replace(/,/g, '')) };
-        }
-        return { ...p, price: p.price * (1 + (Math.random() * 0.002 - 0.001)) }; 
-      });
-      
-      setMarketPrices(newPrices);
-      setQuotaExhausted(false);
+      const quotes = await localFeedProvider.fetchQuotes(symbols);
+      setPriceHistory(prev => recordPrices(prev, quotes.map(q => quoteToPoint(q, 'feed'))));
+      setPriceFeedError(null);
     } catch (e) {
-      setQuotaExhausted(true);
+      setPriceFeedError(e instanceof Error ? e.message : 'The price feed returned something unexpected.');
     }
   };
 
   useEffect(() => {
-    fetchMarketData();
-    const interval = setInterval(fetchMarketData, 60000 * 5);
+    if (!isVaultReady || heldSymbols.length === 0) return;
+    refreshPrices(heldSymbols);
+    const interval = setInterval(() => refreshPrices(heldSymbols), PRICE_REFRESH_MS);
     return () => clearInterval(interval);
-  }, []);
+  }, [isVaultReady, heldSymbols.join(',')]);
+
+  const startSession = (user: StoredUser, key: CryptoKey) => {
+    setVaultKey(key);
+    setIsAuthenticated(true);
+    setCurrentUsername(user.username);
+    localStorage.setItem(STORAGE_KEYS.AUTH, 'true');
+    localStorage.setItem(STORAGE_KEYS.AUTH_USER, user.username);
+    setActiveTab(user.role === 'admin' ? 'dashboard' : 'events');
+  };
 
-  const handleLogin = (user: string, pass: string) => {
-    const success = user.length > 2;
-    if (success) {
-      setIsAuthenticated(true);
-      setCurrentUsername(user);
-      localStorage.setItem(STORAGE_KEYS.AUTH, 'true');
-      localStorage.setItem(STORAGE_KEYS.AUTH_USER, user);
-      setActiveTab(user === ADMIN_USER ? 'dashboard' : 'events');
+  const handleLogin = async (user: string, pass: string): Promise<string | null> => {
+    const account = await authenticate(users, user, pass);
+    if (!account) return 'Access Denied';
+    if (account.wrappedVaultKey) {
+      startSession(account, await unwrapVaultKey(account, pass));
+      return null;
     }
-    return success;
+    if (users.some(u => u.wrappedVaultKey)) return 'No vault key issued to this account. Ask an admin to re-create it.';
+    // Upgrading a pre-encryption vault: the first account to sign in creates the vault key
+    const key = await generateVaultKey();
+    const upgraded = await changePassword(account, pass, key);
+    setUsers(prev => prev.map(u => u.username === account.username ? upgraded : u));
+    startSession(upgraded, key);
+    return null;
+  };
+
+  // Only the first account is self-registered (as admin); it also creates the vault key.
+  const handleRegister = async (user: string, pass: string): Promise<string | null> => {
+    if (users.length > 0) return 'Accounts are created by a vault admin';
+    const error = validateRegistration(users, user, pass);
+    if (error) return error;
+    const key = await generateVaultKey();
+    const account = await createStoredUser(user, pass, 'admin', key);
+    setUsers([account]);
+    startSession(account, key);
+    return null;
+  };
+
+  // Forgets the vault key and every decrypted record; the session itself stays signed in.
+  const lockVault = () => {
+    setIsVaultReady(false);
+    setVaultError(null);
+    closeVault();
+    setVaultKey(null);
+    setTransactions([]);
+    setRecurringExpenses([]);
+    setRecurringIncomes([]);
+    setSavingGoals([]);
+    setInvestmentGoals([]);
+    setCategoryBudgets({});
+    setBankConnections([]);
+    setInvestments([]);
+    setCalendarItems([]);
+    setEvents([]);
+    setContacts([]);
+    setImportProfiles([]);
+    setCategoryRules([]);
+    setCategories([]);
+    setRuleProposal(null);
+    setCashOpeningBalance(0);
+    setFxRates([]);
+    setReconciliations([]);
+    setSyncLog([]);
+    setPriceHistory([]);
+    setPriceFeedError(null);
+    setNetWorthHistory([]);
+    setLiabilities([]);
+    setReconcilingInstitution(null);
+    setBaseCurrency(HOME_CURRENCY);
+    setBudgetCycle(DEFAULT_SETTINGS.budgetCycle);
+    setPendingApprovals([]);
+    setShowSettings(false);
+    setShowForm(false);
+    setEditingQueueIndex(null);
+    setEditingTransaction(null);
+    setShowBankSync(false);
   };
 
   const handleLogout = () => {
+    lockVault();
     setIsAuthenticated(false);
+    setCurrentUsername('');
     localStorage.removeItem(STORAGE_KEYS.AUTH);
     localStorage.removeItem(STORAGE_KEYS.AUTH_USER);
   };
 
-  const onAddTransaction = (t: Omit<Transaction, 'id'>) => {
+  // The vault key is re-wrapped under the new password alongside the new hash; the data is not
+  // re-encrypted. Resolves false when the current password does not match.
+  const handleUpdatePassword = async (currentPass: string, newPass: string) => {
+    if (!currentUser || !vaultKey) throw new Error('Vault is locked');
+    if (!(await authenticate(users, currentUser.username, currentPass))) return false;
+    const updated = await changePassword(currentUser, newPass, vaultKey);
+    setUsers(prev => prev.map(u => u.username === updated.username ? updated : u));
+    return true;
+  };
+
+  const handleUpdateAutoLock = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    localStorage.setItem(STORAGE_KEYS.AUTO_LOCK, minutes.toString());
+  };
+
+  const handleUpdateUsers = (next: StoredUser[]) => {
+    users
+      .filter(u => !next.some(n => n.username === u.username))
+      .forEach(u => purgeUserVault(u.username).catch(err => console.error(`Vault purge failed (${u.username})`, err)));
+    setUsers(next);
+  };
+
+  // A restore rewrites the stores directly, so state (and the persist baselines) are reloaded from disk.
+  const handleVaultRestored = async () => {
+    applySnapshot(await loadVault());
+  };
+
+  const handleFactoryReset = async () => {
+    await purgeVault();
+    localStorage.clear();
+    window.location.reload();
+  };
+
+  const addTransaction = (t: Omit<Transaction, 'id'>) => {
     const newT = { ...t, id: generateId() };
     setTransactions(prev => [newT, ...prev]);
+  };
+
+  // The queue is saved with the vault, so synced items survive a reload until they are reviewed
+  const enqueue = (items: AIAnalysisResult[]) => {
+    setPendingApprovals(prev => {
+      const next = prev.reduce((max, item) => Math.max(max, item.position), -1) + 1;
+      return [...prev, ...items.map((item, i) => ({ ...item, id: generateId(), position: next + i }))];
+    });
+  };
+
+  // Manual entries that look like something already in the ledger go through verification first
+  const onAddTransaction = (t: Omit<Transaction, 'id'>) => {
+    if (findDuplicates(t, transactions).length > 0) {
+      enqueue([{ updateType: 'transaction', transaction: t }]);
+    } else {
+      addTransaction(t);
+    }
     setShowForm(false);
   };
 
+  // Single intake for AI results, statement imports and bank sync: local rules run before review
+  const queueForVerification = (items: AIAnalysisResult[]) => {
+    enqueue(applyCategoryRules(items, categoryRules));
+  };
+
+  const learnFromCorrection = (original: { description: string; vendor?: string; type: Transaction['type']; category: string }, category: string) => {
+    if (original.category === category) return;
+    const proposal = proposeRule(original, category, categoryRules);
+    if (proposal) setRuleProposal(proposal);
+  };
+
+  const categoryNames = useMemo(() => categories.filter(c => !c.archived).map(c => c.name), [categories]);
+
+  const categoryUsage = useMemo(() => transactions.reduce((acc, t) => {
+    acc[t.category] = (acc[t.category] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>), [transactions]);
+
+  // Everything that stores a category by name follows a rename or merge; returns false when
+  // the user declines to change reconciled transactions
+  const remapCategory = (from: string, to: string) => {
+    if (!confirmUnlock(transactions.filter(t => t.category === from).map(t => t.id))) return false;
+    const swap = <T extends { category: string }>(item: T): T => item.category === from ? { ...item, category: to } : item;
+    setTransactions(prev => prev.map(swap));
+    setRecurringExpenses(prev => prev.map(swap));
+    setRecurringIncomes(prev => prev.map(swap));
+    setSavingGoals(prev => prev.map(swap));
+    setCategoryRules(prev => prev.map(swap));
+    setPendingApprovals(prev => prev.map(item => item.transaction?.category === from ? { ...item, transaction: { ...item.transaction, category: to } } : item));
+    setCategoryBudgets(prev => {
+      if (!(from in prev)) return prev;
+      const { [from]: moved, ...rest } = prev;
+      return { ...rest, [to]: (rest[to] || 0) + moved };
+    });
+    return true;
+  };
+
+  const onAddCategory = (category: Omit<Category, 'id' | 'createdAt' | 'archived'>) => {
+    setCategories(prev => [...prev, { ...category, id: generateId(), archived: false, createdAt: new Date().toISOString() }]);
+  };
+
+  const handleUpdateCategory = (category: Category) => {
+    const previous = categories.find(c => c.id === category.id);
+    if (previous && previous.name !== category.name && !remapCategory(previous.name, category.name)) return;
+    setCategories(prev => prev.map(c => c.id === category.id ? category : c));
+  };
+
+  const handleMergeCategory = (sourceId: string, targetId: string) => {
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target || PROTECTED_CATEGORY_NAMES.includes(source.name)) return;
+    if (!remapCategory(source.name, target.name)) return;
+    // Sub-categories move under the target, or its parent when the target is itself a sub-category
+    const newParentId = target.parentId || target.id;
+    setCategories(prev => prev
+      .filter(c => c.id !== sourceId)
+      .map(c => c.parentId === sourceId ? { ...c, parentId: newParentId } : c));
+  };
+
+  const onAddCategoryRule = (draft: CategoryRuleDraft) => {
+    const samePattern = (r: CategoryRule) => r.field === draft.field && r.operator === draft.operator && r.pattern.toLowerCase() === draft.pattern.toLowerCase();
+    setCategoryRules(prev => [...prev.filter(r => !samePattern(r)), { ...draft, id: generateId(), createdAt: new Date().toISOString() }]);
+  };
+
+  const syncInFlight = useRef(new Set<string>());
+
+  const syncConnection = async (institution: string, trigger: SyncLogEntry['trigger']) => {
+    const connection = bankConnections.find(c => c.institution === institution);
+    if (!connection || syncInFlight.current.has(institution)) return;
+    syncInFlight.current.add(institution);
+    setBankConnections(prev => prev.map(c => c.institution === institution ? { ...c, status: 'syncing' } : c));
+    try {
+      const { patch, items, entry } = await runSync(connection, trigger);
+      if (items.length > 0) queueForVerification(items);
+      setBankConnections(prev => prev.map(c => c.institution === institution ? { ...c, ...patch } : c));
+      setSyncLog(prev => [{ ...entry, id: generateId() }, ...prev].slice(0, SYNC_LOG_LIMIT));
+      return entry;
+    } finally {
+      syncInFlight.current.delete(institution);
+    }
+  };
+
+  const handleSyncBank = async (institution: string) => {
+    setIsLoading(true);
+    try {
+      const entry = await syncConnection(institution, 'manual');
+      if (entry?.outcome === 'failure') alert(entry.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The scheduler timer outlives renders, so each tick runs the latest closure
+  const runDueSyncs = useRef<() => void>(() => {});
+  runDueSyncs.current = () => bankConnections.filter(c => isDue(c)).forEach(c => syncConnection(c.institution, 'scheduled'));
+
+  useEffect(() => {
+    if (!isVaultReady) return;
+    runDueSyncs.current();
+    const timer = setInterval(() => runDueSyncs.current(), SCHEDULER_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isVaultReady]);
+
+  const lockedIds = useMemo(() => lockedTransactionIds(transactions, reconciliations), [transactions, reconciliations]);
+
+  // Reconciled transactions only change after an explicit go-ahead
+  const confirmUnlock = (ids: string[]) => {
+    const count = ids.filter(id => lockedIds.has(id)).length;
+    return count === 0 || confirm(`${count} reconciled transaction${count === 1 ? '' : 's'} will change and no longer match ${count === 1 ? 'its' : 'their'} bank statement. Continue?`);
+  };
+
+  const handleEditTransaction = (t: Transaction) => {
+    if (confirmUnlock([t.id])) setEditingTransaction(t);
+  };
+
+  const handleSaveTransactionEdit = (edited: Omit<Transaction, 'id'>) => {
+    if (!editingTransaction) return;
+    learnFromCorrection(editingTransaction, edited.category);
+    const id = editingTransaction.id;
+    setTransactions(prev => prev.map(t => t.id === id ? { ...t, ...edited, id } : t));
+    setEditingTransaction(null);
+  };
+
+  const handleRecategorizeTransactions = (ids: string[], category: string) => {
+    if (!confirmUnlock(ids)) return;
+    const corrected = transactions.find(t => ids.includes(t.id) && t.category !== category);
+    if (corrected) learnFromCorrection(corrected, category);
+    setTransactions(prev => prev.map(t => ids.includes(t.id) && t.type !== 'transfer' ? { ...t, category } : t));
+  };
+
+  const handleDeleteTransactions = (ids: string[]) => {
+    if (!confirmUnlock(ids)) return;
+    setTransactions(prev => prev.filter(t => !ids.includes(t.id)));
+  };
+
   const onUpdateRecurring = (item: RecurringExpense) => {
     setRecurringExpenses(prev => prev.map(e => e.id === item.id ? item : e));
   };
@@ -233,33 +647,60 @@ const App: React.FC = () => {
     setRecurringExpenses(prev => [...prev, newRec]);
   };
 
+  // A debt plan's bills replace the previous plan's; other recurring expenses are kept.
+  // The plan is worked out in the base currency, so each bill is stored in its debt's own
+  const handleApplyDebtPlan = (bills: Omit<RecurringExpense, 'id' | 'accumulatedOverdue'>[]) => {
+    setRecurringExpenses(prev => [
+      ...prev.filter(e => !e.liabilityId),
+      ...bills.map(b => {
+        const currency = liabilities.find(l => l.id === b.liabilityId)?.currency || HOME_CURRENCY;
+        const amount = Math.round(convertAmount(b.amount, baseCurrency, currency, fxRates) * 100) / 100;
+        return { ...b, amount, currency, id: generateId(), accumulatedOverdue: 0 };
+      })
+    ]);
+  };
+
+  // Bills and incomes are paid from the Dashboard in the base currency; the transaction is
+  // booked in the currency of the account the money moves through
+  const inAccountCurrency = (amount: number, institution: string) => {
+    const currency = transactionCurrency({ institution }, bankConnections, investments, liabilities);
+    return { amount: convertAmount(amount, baseCurrency, currency, fxRates), currency };
+  };
+
   const onPayRecurring = (bill: RecurringExpense, amount: number) => {
-    const newT: Transaction = {
-      id: generateId(),
-      date: new Date().toISOString().split('T')[0],
-      amount,
-      category: bill.category,
-      description: `Payment: ${bill.description}`,
-      type: 'expense',
-      recurringId: bill.id,
-      institution: 'Cash in Hand'
-    };
-    setTransactions(prev => [newT, ...prev]);
+    // Planned debt payments go into the liability rather than out as an expense
+    const liability = bill.liabilityId ? liabilities.find(l => l.id === bill.liabilityId) : undefined;
+    if (liability) {
+      handlePayLiability(liability, amount, 'Cash in Hand', bill.id);
+    } else {
+      const newT: Transaction = {
+        id: generateId(),
+        date: new Date().toISOString().split('T')[0],
+        ...inAccountCurrency(amount, 'Cash in Hand'),
+        category: bill.category,
+        description: `Payment: ${bill.description}`,
+        type: 'expense',
+        recurringId: bill.id,
+        institution: 'Cash in Hand'
+      };
+      setTransactions(prev => [newT, ...prev]);
+    }
 
+    // The bill passed in is the base-currency copy, so only the dates are written back
     const nextDue = new Date(bill.nextDueDate);
     nextDue.setMonth(nextDue.getMonth() + 1);
-    onUpdateRecurring({ 
-      ...bill, 
+    setRecurringExpenses(prev => prev.map(e => e.id === bill.id ? {
+      ...e,
       nextDueDate: nextDue.toISOString().split('T')[0],
       lastBilledDate: new Date().toISOString().split('T')[0]
-    });
+    } : e));
   };
 
   const onReceiveRecurringIncome = (inc: RecurringIncome, amount: number, destination: string) => {
     const newT: Transaction = {
       id: generateId(),
       date: new Date().toISOString().split('T')[0],
-      amount,
+      ...inAccountCurrency(amount, destination),
       category: inc.category,
       description: `Income: ${inc.description}`,
       type: 'income',
@@ -277,8 +718,7 @@ const App: React.FC = () => {
     } : i));
   };
 
-  const handleApproveQueue = (idx: number) => {
-    const item = pendingApprovals[idx];
+  const commitQueueItem = (item: AIAnalysisResult, notDuplicateOf?: string[]) => {
     if (item.updateType === 'transaction' && item.transaction) {
       const transactionToSave: Omit<Transaction, 'id'> = {
         amount: item.transaction.amount,
@@ -288,50 +728,163 @@ const App: React.FC = () => {
         notes: item.transaction.notes,
         vendor: item.transaction.vendor,
         lineItems: item.transaction.lineItems,
+        institution: item.transaction.institution,
+        destinationInstitution: item.transaction.destinationInstitution,
+        externalId: item.transaction.externalId,
+        notDuplicateOf,
         date: item.transaction.date || new Date().toISOString().split('T')[0]
       };
-      onAddTransaction(transactionToSave);
+      addTransaction(transactionToSave);
     } else if (item.updateType === 'portfolio' && item.portfolio) {
-      setInvestments(prev => prev.map(inv => {
-        if (inv.provider === item.portfolio?.provider) {
-          const existing = inv.holdings.find(h => h.symbol === item.portfolio?.symbol);
-          if (existing) {
-            return {
-              ...inv,
-              holdings: inv.holdings.map(h => h.symbol === item.portfolio?.symbol ? { ...h, quantity: item.portfolio?.quantity || 0 } : h)
-            };
-          } else {
-            return {
-              ...inv,
-              holdings: [...inv.holdings, { symbol: item.portfolio?.symbol || '', quantity: item.portfolio?.quantity || 0, purchasePrice: 0 }]
-            };
-          }
-        }
-        return inv;
-      }));
+      const { symbol, quantity, provider } = item.portfolio;
+      const quote = marketPrices.find(m => m.symbol === symbol);
+      const today = new Date().toISOString().split('T')[0];
+      setInvestments(prev => {
+        const account = investmentAccountFor(prev, provider);
+        const updated = applyPositionUpdate(account, symbol, quantity, quote?.price || 0, quote?.currency || INVESTMENT_CURRENCY, today);
+        return prev.some(inv => inv.id === account.id) ? prev.map(inv => inv.id === account.id ? updated : inv) : [...prev, updated];
+      });
     }
+  };
+
+  // Imported trades are the source of truth for the symbols they cover; lots and cost basis are rebuilt from them
+  const handleImportTrades = (provider: InvestmentAccount['provider'], trades: InvestmentTrade[]) => {
+    setInvestments(prev => {
+      const account = investmentAccountFor(prev, provider);
+      const updated = withTrades(account, trades);
+      return prev.some(inv => inv.id === account.id) ? prev.map(inv => inv.id === account.id ? updated : inv) : [...prev, updated];
+    });
+  };
+
+  const handleAddInvestment = (account: Omit<InvestmentAccount, 'id' | 'holdings'>) => {
+    setInvestments(prev => [...prev, { ...account, id: generateId(), holdings: [] }]);
+  };
+
+  // Changing the cost basis method re-matches every sale against the account's lots
+  const handleUpdateInvestment = (id: string, updates: Partial<InvestmentAccount>) => {
+    setInvestments(prev => prev.map(inv => inv.id === id ? withTrades({ ...inv, ...updates }, []) : inv));
+  };
+
+  const handleDeleteInvestment = (id: string) => {
+    const account = investments.find(inv => inv.id === id);
+    if (!account || !confirm(`Remove ${account.name} and its ${account.trades?.length || 0} recorded trades?`)) return;
+    setInvestments(prev => prev.filter(inv => inv.id !== id));
+  };
+
+  const handleAddTrade = (accountId: string, trade: Omit<InvestmentTrade, 'id'>) => {
+    setInvestments(prev => prev.map(inv => inv.id === accountId ? withTrades(inv, [{ ...trade, id: generateId() }]) : inv));
+  };
+
+  const handleAddLiability = (liability: Omit<Liability, 'id'>) => {
+    setLiabilities(prev => [...prev, { ...liability, id: generateId() }]);
+  };
+
+  const handleDeleteLiability = (id: string) => {
+    const liability = liabilities.find(l => l.id === id);
+    if (!liability || !confirm(`Remove ${liability.name}? Payments already booked to it stay in the ledger.`)) return;
+    setLiabilities(prev => prev.filter(l => l.id !== id));
+  };
+
+  // A payment is a transfer into the liability, entered in the dashboard's currency and booked
+  // in the liability's own; the interest/principal split is derived from it
+  const handlePayLiability = (liability: Liability, amount: number, from: string, recurringId?: string) => {
+    const currency = liabilities.find(l => l.id === liability.id)?.currency || HOME_CURRENCY;
+    const payment: Transaction = {
+      id: generateId(),
+      date: todayKey(),
+      amount: convertAmount(amount, baseCurrency, currency, fxRates),
+      category: 'Transfer',
+      description: `Payment: ${liability.name}`,
+      type: 'transfer',
+      currency,
+      institution: from,
+      destinationInstitution: liability.name,
+      ...(recurringId ? { recurringId } : {})
+    };
+    setTransactions(prev => [payment, ...prev]);
+  };
+
+  const handleApproveQueue = (idx: number, notDuplicateOf?: string[]) => {
+    commitQueueItem(pendingApprovals[idx], notDuplicateOf);
     setPendingApprovals(prev => prev.filter((_, i) => i !== idx));
   };
 
-  const liquidFunds = useMemo(() => {
-    const bankSum = bankConnections
-      .filter(c => c.institutionType === 'bank')
-      .reduce((acc, c) => acc + (c.openingBalance || 0), 0);
-    
-    const flow = transactions.reduce((acc, t) => {
-      const isBank = t.institution && bankConnections.some(bc => bc.institution === t.institution && bc.institutionType === 'bank');
-      const isToBank = t.destinationInstitution && bankConnections.some(bc => bc.institution === t.institution && bc.institutionType === 'bank');
-      
-      if (isBank) {
-        if (t.type === 'income') return acc + t.amount;
-        if (t.type === 'expense' || t.type === 'transfer' || t.type === 'savings') return acc - t.amount;
-      }
-      if (isToBank && (t.type === 'transfer' || t.type === 'withdrawal')) return acc + t.amount;
-      return acc;
-    }, 0);
+  const handleApproveAllQueue = (indices: number[]) => {
+    indices.forEach(idx => commitQueueItem(pendingApprovals[idx]));
+    setPendingApprovals(prev => prev.filter((_, i) => !indices.includes(i)));
+  };
+
+  const handleUpdateQueueItems = (updates: { index: number; item: AIAnalysisResult }[]) => {
+    setPendingApprovals(prev => prev.map((item, i) => {
+      const update = updates.find(u => u.index === i);
+      return update ? { ...update.item, id: item.id, position: item.position } : item;
+    }));
+  };
+
+  // Form edits replace the AI's reading while keeping fields the form doesn't show (e.g. externalId)
+  const handleSaveQueueEdit = (edited: Omit<Transaction, 'id'>) => {
+    if (editingQueueIndex === null) return;
+    const item = pendingApprovals[editingQueueIndex];
+    if (item.transaction) learnFromCorrection(item.transaction, edited.category);
+    handleUpdateQueueItems([{ index: editingQueueIndex, item: { ...item, transaction: { ...item.transaction, ...edited } } }]);
+    setEditingQueueIndex(null);
+  };
+
+  const handleMergeQueue = (idx: number, transactionId: string) => {
+    const incoming = pendingApprovals[idx].transaction;
+    if (incoming && !confirmUnlock([transactionId])) return;
+    if (incoming) setTransactions(prev => prev.map(t => t.id === transactionId ? mergeTransactions(t, incoming) : t));
+    setPendingApprovals(prev => prev.filter((_, i) => i !== idx));
+  };
 
-    return bankSum + flow + cashOpeningBalance;
-  }, [bankConnections, transactions, cashOpeningBalance]);
+  const handleMergeDuplicate = (keepId: string, duplicateId: string) => {
+    const duplicate = transactions.find(t => t.id === duplicateId);
+    if (!duplicate || !confirmUnlock([keepId, duplicateId])) return;
+    setTransactions(prev => prev
+      .filter(t => t.id !== duplicateId)
+      .map(t => t.id === keepId ? mergeTransactions(t, duplicate) : t));
+  };
+
+  const handleKeepBothDuplicates = (firstId: string, secondId: string) => {
+    setTransactions(prev => prev.map(t => t.id === firstId ? { ...t, notDuplicateOf: [...(t.notDuplicateOf || []), secondId] } : t));
+  };
+
+  // Totals are computed over the vault restated in the base currency
+  const baseView = useMemo(
+    () => toBaseCurrency({ transactions, bankConnections, investments, marketPrices, liabilities, recurringExpenses, recurringIncomes, savingGoals, investmentGoals, categoryBudgets, cashOpeningBalance }, baseCurrency, fxRates),
+    [transactions, bankConnections, investments, marketPrices, liabilities, recurringExpenses, recurringIncomes, savingGoals, investmentGoals, categoryBudgets, cashOpeningBalance, baseCurrency, fxRates]
+  );
+
+  const currenciesInUse = useMemo(() => [
+    HOME_CURRENCY,
+    ...transactions.map(t => transactionCurrency(t, bankConnections, investments, liabilities)),
+    ...bankConnections.map(connectionCurrency),
+    ...investments.flatMap(inv => inv.holdings.map(h => h.currency || inv.currency || INVESTMENT_CURRENCY)),
+    ...marketPrices.map(p => p.currency || INVESTMENT_CURRENCY),
+    ...liabilities.map(l => l.currency || HOME_CURRENCY),
+    ...[...recurringExpenses, ...recurringIncomes, ...savingGoals, ...investmentGoals].map(r => r.currency || HOME_CURRENCY)
+  ], [transactions, bankConnections, investments, marketPrices, liabilities, recurringExpenses, recurringIncomes, savingGoals, investmentGoals]);
+
+  const balanceSheet = useMemo(() => buildBalanceSheet(baseView), [baseView]);
+  const liquidFunds = balanceSheet.liquid;
+
+  // Today's snapshot follows the live balance sheet until the day is over
+  useEffect(() => {
+    if (!isVaultReady) return;
+    setNetWorthHistory(prev => recordSnapshot(prev, snapshotFromSheet(balanceSheet, todayKey(), baseCurrency)));
+  }, [isVaultReady, balanceSheet, baseCurrency]);
+
+  const rebuildNetWorthHistory = () => {
+    setNetWorthHistory(prev => mergeBackfill(prev, backfillSnapshots(baseView, priceHistory, baseCurrency, fxRates, todayKey())));
+  };
+
+  // A vault with a ledger but no past snapshots gets its history replayed once
+  const hasLedger = transactions.length > 0 || investments.some(inv => (inv.trades || []).length > 0);
+  useEffect(() => {
+    if (isVaultReady && hasLedger && !netWorthHistory.some(s => s.date < todayKey())) rebuildNetWorthHistory();
+  }, [isVaultReady, hasLedger]);
+
+  const baseNetWorthHistory = useMemo(() => snapshotsIn(netWorthHistory, baseCurrency, fxRates), [netWorthHistory, baseCurrency, fxRates]);
 
   const handleUpdateCalendarItems = (items: CalendarItem[]) => {
     setCalendarItems(items);
@@ -339,11 +892,36 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
-      {!isAuthenticated ? (
-        <Login onLogin={handleLogin} onReset={() => { localStorage.clear(); window.location.reload(); }} />
+      {!isAuthenticated || !vaultKey ? (
+        <Login 
+          key={isAuthenticated ? currentUsername : 'signin'}
+          onLogin={handleLogin} 
+          onRegister={handleRegister} 
+          isFirstRun={isUsersReady && users.length === 0} 
+          onReset={handleFactoryReset} 
+          lockedUsername={isAuthenticated ? currentUsername : undefined}
+          onSwitchAccount={handleLogout}
+        />
+      ) : vaultError ? (
+        <div className="min-h-screen flex items-center justify-center p-6">
+          <div className="max-w-md w-full bg-white p-10 rounded-[3rem] border border-slate-100 shadow-2xl text-center space-y-6">
+            <div className="w-16 h-16 mx-auto bg-rose-50 text-rose-500 rounded-2xl flex items-center justify-center">
+              <i className="fas fa-triangle-exclamation text-2xl"></i>
+            </div>
+            <div>
+              <h2 className="text-xl font-black text-slate-800 tracking-tight">The vault could not be opened</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-2">Nothing has been changed or saved</p>
+            </div>
+            <p className="p-4 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-mono text-slate-600 break-words">{vaultError}</p>
+            <div className="flex gap-3">
+              <button onClick={() => setHydrationAttempt(n => n + 1)} className="flex-1 py-3 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-600 transition">Try Again</button>
+              <button onClick={lockVault} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition">Lock</button>
+            </div>
+          </div>
+        </div>
       ) : (
         <>
-          <MarketTicker prices={marketPrices} quotaExhausted={quotaExhausted} />
+          <MarketTicker prices={marketPrices} heldSymbols={heldSymbols} feedError={priceFeedError} feedLabel={localFeedProvider.label} />
           
           <header className="fixed top-8 left-0 right-0 z-[110] px-4 print:hidden">
             <div className="max-w-6xl mx-auto bg-white/80 backdrop-blur-xl border border-slate-100 rounded-[2.5rem] shadow-2xl p-2 flex items-center justify-between">
@@ -355,6 +933,13 @@ const App: React.FC = () => {
                   <i className="fas fa-chart-pie text-sm"></i>
                   <span className="text-[11px] font-black uppercase tracking-widest">Dashboard</span>
                 </button>
+                <button 
+                  onClick={() => setActiveTab('ledger')} 
+                  className={`flex items-center gap-2 px-6 py-3 rounded-[1.5rem] transition-all ${activeTab === 'ledger' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-800 hover:bg-slate-50'}`}
+                >
+                  <i className="fas fa-list-ul text-sm"></i>
+                  <span className="text-[11px] font-black uppercase tracking-widest">Ledger</span>
+                </button>
                 <button 
                   onClick={() => setActiveTab('calendar')} 
                   className={`flex items-center gap-2 px-6 py-3 rounded-[1.5rem] transition-all ${activeTab === 'calendar' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-800 hover:bg-slate-50'}`}
@@ -403,47 +988,90 @@ const App: React.FC = () => {
                    </div>
                    <div className="w-full md:w-[400px]">
                       <MagicInput 
-                        onSuccess={(item) => setPendingApprovals(prev => [...prev, item])}
-                        onBulkSuccess={(items) => setPendingApprovals(prev => [...prev, ...items])}
+                        onSuccess={(item) => queueForVerification([item])}
+                        onBulkSuccess={queueForVerification}
                         onLoading={setIsLoading}
                         onManualEntry={() => setShowForm(true)}
+                        bankConnections={bankConnections}
+                        importProfiles={importProfiles}
+                        onSaveImportProfile={(profile) => setImportProfiles(prev => [...prev.filter(p => p.institution !== profile.institution), profile])}
+                        investments={investments}
+                        onImportTrades={handleImportTrades}
+                        categoryNames={categoryNames}
                       />
                    </div>
                 </header>
 
                 <VerificationQueue 
                   pendingItems={pendingApprovals}
-                  onApprove={handleApproveQueue}
+                  transactions={transactions}
+                  categories={categories}
+                  onApprove={(idx) => handleApproveQueue(idx)}
                   onDiscard={(idx) => setPendingApprovals(prev => prev.filter((_, i) => i !== idx))}
-                  onEdit={() => {}} 
+                  onEdit={setEditingQueueIndex}
                   onDiscardAll={() => setPendingApprovals([])}
+                  onMerge={handleMergeQueue}
+                  onKeepBoth={handleApproveQueue}
+                  onUpdateItems={handleUpdateQueueItems}
+                  onApproveAll={handleApproveAllQueue}
+                  providerNames={investments.map(inv => inv.provider)}
                 />
 
-                <Dashboard 
+                <DuplicateSweep
                   transactions={transactions}
-                  recurringExpenses={recurringExpenses}
-                  recurringIncomes={recurringIncomes}
-                  savingGoals={savingGoals}
-                  investmentGoals={investmentGoals}
-                  investments={investments}
-                  marketPrices={marketPrices}
-                  bankConnections={bankConnections}
+                  onMerge={handleMergeDuplicate}
+                  onKeepBoth={handleKeepBothDuplicates}
+                  onDiscard={(id) => handleDeleteTransactions([id])}
+                />
+
+                <Dashboard 
+                  transactions={baseView.transactions}
+                  recurringExpenses={baseView.recurringExpenses}
+                  recurringIncomes={baseView.recurringIncomes}
+                  savingGoals={baseView.savingGoals}
+                  investmentGoals={baseView.investmentGoals}
+                  investments={baseView.investments}
+                  marketPrices={baseView.marketPrices}
+                  bankConnections={baseView.bankConnections}
                   targetMargin={0} 
-                  cashOpeningBalance={cashOpeningBalance}
-                  categoryBudgets={categoryBudgets}
-                  onEdit={() => {}}
-                  onDelete={(id) => setTransactions(prev => prev.filter(t => t.id !== id))}
+                  cashOpeningBalance={baseView.cashOpeningBalance}
+                  baseCurrency={baseCurrency}
+                  budgetCycle={budgetCycle}
+                  categoryBudgets={baseView.categoryBudgets}
+                  categories={categories}
+                  onEdit={handleEditTransaction}
+                  onDelete={(id) => handleDeleteTransactions([id])}
                   onPayRecurring={onPayRecurring}
                   onReceiveRecurringIncome={onReceiveRecurringIncome}
                   onContributeSaving={() => {}}
                   onWithdrawSaving={() => {}}
                   onWithdrawal={() => {}}
                   onAddIncome={() => {}}
-                  onUpdateCategoryBudget={(cat, amt) => setCategoryBudgets(prev => ({ ...prev, [cat]: amt }))}
+                  onUpdateCategoryBudget={(cat, amt) => setCategoryBudgets(prev => ({ ...prev, [cat]: convertAmount(amt, baseCurrency, HOME_CURRENCY, fxRates) }))}
+                  onUpdateInvestment={handleUpdateInvestment}
+                  netWorthHistory={baseNetWorthHistory}
+                  onRebuildNetWorthHistory={rebuildNetWorthHistory}
+                  liabilities={baseView.liabilities}
+                  onPayLiability={handlePayLiability}
                 />
               </div>
             )}
 
+            {activeTab === 'ledger' && isAdmin && (
+              <Ledger
+                transactions={transactions}
+                bankConnections={bankConnections}
+                investments={investments}
+                categories={categories}
+                baseCurrency={baseCurrency}
+                fxRates={fxRates}
+                lockedIds={lockedIds}
+                onEdit={handleEditTransaction}
+                onRecategorize={handleRecategorizeTransactions}
+                onDeleteMany={handleDeleteTransactions}
+              />
+            )}
+
             {activeTab === 'calendar' && (
               <Calendar 
                 events={events}
@@ -451,6 +1079,7 @@ const App: React.FC = () => {
                 transactions={transactions}
                 recurringExpenses={recurringExpenses}
                 recurringIncomes={recurringIncomes}
+                liabilities={liabilities}
                 onUpdateItems={handleUpdateCalendarItems}
               />
             )}
@@ -471,13 +1100,16 @@ const App: React.FC = () => {
 
             {activeTab === 'projections' && isAdmin && (
               <Projections 
-                transactions={transactions}
-                recurringExpenses={recurringExpenses}
-                recurringIncomes={recurringIncomes}
-                investments={investments}
-                marketPrices={marketPrices}
-                categoryBudgets={categoryBudgets}
-                currentNetWorth={liquidFunds + investments.reduce((acc, inv) => acc + inv.holdings.reduce((hAcc, h) => hAcc + (h.quantity * (marketPrices.find(m => m.symbol === h.symbol)?.price || 0)), 0), 0)}
+                transactions={baseView.transactions}
+                recurringExpenses={baseView.recurringExpenses}
+                recurringIncomes={baseView.recurringIncomes}
+                investments={baseView.investments}
+                marketPrices={baseView.marketPrices}
+                categoryBudgets={baseView.categoryBudgets}
+                baseCurrency={baseCurrency}
+                currentNetWorth={balanceSheet.netWorth}
+                liabilities={baseView.liabilities}
+                onApplyDebtPlan={handleApplyDebtPlan}
               />
             )}
           </main>
@@ -487,7 +1119,42 @@ const App: React.FC = () => {
           {showForm && (
             <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
               <div className="w-full max-w-xl">
-                <TransactionForm onAdd={onAddTransaction} onCancel={() => setShowForm(false)} bankConnections={bankConnections} />
+                <TransactionForm onAdd={onAddTransaction} onCancel={() => setShowForm(false)} bankConnections={bankConnections} investments={investments} liabilities={liabilities} categories={categories} />
+              </div>
+            </div>
+          )}
+
+          {editingTransaction && (
+            <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+              <div className="w-full max-w-xl max-h-[90vh] overflow-y-auto no-scrollbar">
+                <TransactionForm
+                  key={editingTransaction.id}
+                  onAdd={handleSaveTransactionEdit}
+                  onCancel={() => setEditingTransaction(null)}
+                  initialData={editingTransaction}
+                  bankConnections={bankConnections}
+                  investments={investments}
+                  liabilities={liabilities}
+                  categories={categories}
+                />
+              </div>
+            </div>
+          )}
+
+          {editingQueueIndex !== null && pendingApprovals[editingQueueIndex]?.transaction && (
+            <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+              <div className="w-full max-w-xl max-h-[90vh] overflow-y-auto no-scrollbar">
+                <TransactionForm
+                  key={editingQueueIndex}
+                  onAdd={handleSaveQueueEdit}
+                  onCancel={() => setEditingQueueIndex(null)}
+                  initialData={pendingApprovals[editingQueueIndex].transaction}
+                  bankConnections={bankConnections}
+                  investments={investments}
+                  liabilities={liabilities}
+                  categories={categories}
+                  submitLabel="Update Queue Item"
+                />
               </div>
             </div>
           )}
@@ -515,8 +1182,42 @@ const App: React.FC = () => {
               investmentGoals={investmentGoals}
               onAddInvestmentGoal={(i) => setInvestmentGoals(prev => [...prev, {...i, id: generateId()}])}
               onDeleteInvestmentGoal={(id) => setInvestmentGoals(prev => prev.filter(i => i.id !== id))}
+              investments={investments}
+              onAddInvestment={handleAddInvestment}
+              onUpdateInvestment={handleUpdateInvestment}
+              onDeleteInvestment={handleDeleteInvestment}
+              onAddTrade={handleAddTrade}
+              categories={categories}
+              categoryUsage={categoryUsage}
+              onAddCategory={onAddCategory}
+              onUpdateCategory={handleUpdateCategory}
+              onMergeCategory={handleMergeCategory}
+              categoryRules={categoryRules}
+              onAddCategoryRule={onAddCategoryRule}
+              onUpdateCategoryRule={(rule) => setCategoryRules(prev => prev.map(r => r.id === rule.id ? rule : r))}
+              onDeleteCategoryRule={(id) => setCategoryRules(prev => prev.filter(r => r.id !== id))}
+              baseCurrency={baseCurrency}
+              onUpdateBaseCurrency={setBaseCurrency}
+              budgetCycle={budgetCycle}
+              onUpdateBudgetCycle={setBudgetCycle}
+              fxRates={fxRates}
+              currenciesInUse={currenciesInUse}
+              onAddFxRate={(r) => setFxRates(prev => [...prev, { ...r, id: generateId() }])}
+              onDeleteFxRate={(id) => setFxRates(prev => prev.filter(r => r.id !== id))}
+              priceHistory={priceHistory}
+              heldSymbols={heldSymbols}
+              priceFeedLabel={localFeedProvider.label}
+              priceFeedError={priceFeedError}
+              onRecordPrices={(points) => setPriceHistory(prev => recordPrices(prev, points))}
+              onDeletePrice={(id) => setPriceHistory(prev => prev.filter(p => p.id !== id))}
+              onRefreshPrices={() => refreshPrices(heldSymbols)}
+              liabilities={liabilities}
+              transactions={transactions}
+              onAddLiability={handleAddLiability}
+              onUpdateLiability={(liability) => setLiabilities(prev => prev.map(l => l.id === liability.id ? liability : l))}
+              onDeleteLiability={handleDeleteLiability}
               onExportData={() => {}}
-              onResetData={() => { if (confirm("Purge vault?")) { localStorage.clear(); window.location.reload(); }}}
+              onResetData={() => { if (confirm("Purge vault?")) handleFactoryReset(); }}
               onClose={() => setShowSettings(false)}
               onLogout={handleLogout}
               remindersEnabled={false}
@@ -532,31 +1233,67 @@ const App: React.FC = () => {
                 }
               }}
               directoryHandle={directoryHandle}
-              onUpdatePassword={() => {}}
-              users={[]}
-              onUpdateUsers={() => {}}
+              onUpdatePassword={handleUpdatePassword}
+              autoLockMinutes={autoLockMinutes}
+              onUpdateAutoLock={handleUpdateAutoLock}
+              users={users}
+              onUpdateUsers={handleUpdateUsers}
+              currentUsername={currentUsername}
+              onVaultRestored={handleVaultRestored}
               isAdmin={isAdmin}
               onOpenBankSync={() => setShowBankSync(true)}
               onUnlinkBank={(inst) => setBankConnections(prev => prev.filter(c => c.institution !== inst))}
+              onUpdateBankConnection={(conn) => setBankConnections(prev => prev.map(c => c.institution === conn.institution ? conn : c))}
+              onSyncBank={handleSyncBank}
+              onReconcileBank={setReconcilingInstitution}
+              syncLog={syncLog}
+            />
+          )}
+
+          {ruleProposal && (
+            <RuleProposalToast
+              proposal={ruleProposal}
+              onAccept={() => { onAddCategoryRule(ruleProposal); setRuleProposal(null); }}
+              onDismiss={() => setRuleProposal(null)}
+            />
+          )}
+
+          {reconcilingInstitution && bankConnections.some(c => c.institution === reconcilingInstitution) && (
+            <ReconcileModal
+              connection={bankConnections.find(c => c.institution === reconcilingInstitution)!}
+              transactions={transactions}
+              bankConnections={bankConnections}
+              reconciliations={reconciliations}
+              fxRates={fxRates}
+              onAddReconciliation={(r) => setReconciliations(prev => [...prev, { ...r, id: generateId() }])}
+              onDeleteReconciliation={(id) => setReconciliations(prev => prev.filter(r => r.id !== id))}
+              onClose={() => setReconcilingInstitution(null)}
             />
           )}
 
           {showBankSync && (
             <BankSyncModal 
-              onSuccess={(inst, last4, bal, type) => {
-                setBankConnections(prev => [...prev, { institution: inst, institutionType: type, status: 'linked', accountLastFour: last4, openingBalance: bal, lastSynced: new Date().toISOString() }]);
+              onSuccess={(inst, last4, bal, type, currency, link) => {
+                const { holdings, ...session } = link;
+                setBankConnections(prev => {
+                  const existing = prev.find(c => c.institution === inst);
+                  if (!existing) return [...prev, { institution: inst, institutionType: type, status: 'linked', accountLastFour: last4, openingBalance: bal, currency, ...session, lastSynced: new Date().toISOString() }];
+                  // Re-linking renews the session and takes its feed position; the opening balance carries on
+                  return prev.map(c => c === existing ? { ...c, ...session, status: 'linked', syncFailures: 0, nextSyncAt: undefined, lastError: undefined, syncCursor: session.syncCursor } : c);
+                });
+                queueForVerification(holdings.map(portfolio => ({ updateType: 'portfolio', portfolio })));
                 setShowBankSync(false);
               }}
               onClose={() => setShowBankSync(false)}
             />
           )}
 
-          {isLoading && (
+          {(isLoading || !isVaultReady) && (
             <div className="fixed inset-0 z-[200] flex items-center justify-center bg-slate-900/40 backdrop-blur-md">
               <div className="bg-white p-10 rounded-[3rem] text-center shadow-2xl">
                  <div className="w-16 h-16 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-6"></div>
-                 <h3 className="text-xl font-black text-slate-800 mb-2">Parsing Intelligence</h3>
-                 <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Applying Financial Logic...</p>
+                 <h3 className="text-xl font-black text-slate-800 mb-2">{isVaultReady ? 'Parsing Intelligence' : 'Opening Vault'}</h3>
+                 <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{isVaultReady ? 'Applying Financial Logic...' : 'Migrating Ledger Storage...'}</p>
               </div>
             </div>
           )}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { ParsedBackup, RestorePreview, RestoreMode } from '../services/backupService';
+
+interface Props {
+  fileName: string;
+  parsed: ParsedBackup;
+  preview: RestorePreview;
+  onApply: (mode: RestoreMode) => Promise<void>;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<string, string> = {
+  transactions: 'Transactions',
+  recurringExpenses: 'Recurring Bills',
+  recurringIncomes: 'Recurring Income',
+  savingGoals: 'Savings Goals',
+  investmentGoals: 'Investment Goals',
+  categoryBudgets: 'Category Limits',
+  bankConnections: 'Bank Connections',
+  investments: 'Investment Accounts',
+  events: 'Projects',
+  calendarItems: 'Calendar Items',
+  contacts: 'Contacts',
+  netWorthHistory: 'Net Worth History',
+  importProfiles: 'Import Profiles',
+  categoryRules: 'Category Rules',
+  categories: 'Categories',
+  fxRates: 'FX Rates',
+  reconciliations: 'Reconciliations',
+  syncLog: 'Sync Log',
+  priceHistory: 'Price History',
+  liabilities: 'Liabilities',
+  verificationQueue: 'Verification Queue'
+};
+
+const BackupRestoreModal: React.FC<Props> = ({ fileName, parsed, preview, onApply, onClose }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [applying, setApplying] = useState(false);
+  const { backup, sourceVersion, issues } = parsed;
+
+  const handleApply = async () => {
+    const warning = mode === 'replace'
+      ? "REPLACE WARNING: Local records missing from the backup will be deleted. Proceed?"
+      : "Merge the backup into your vault? Records with the same id will take the backup's version.";
+    if (!confirm(warning)) return;
+    setApplying(true);
+    try {
+      await onApply(mode);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[210] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-md">
+      <div className="bg-white w-full max-w-2xl rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-800 mb-1 flex items-center gap-3"><i className="fas fa-code-compare text-indigo-600"></i> Restore Preview</h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest truncate">
+            {fileName} • Format v{sourceVersion}
+            {backup.createdAt && ` • ${new Date(backup.createdAt).toLocaleString()}`}
+            {backup.createdBy && ` • by ${backup.createdBy}`}
+          </p>
+          <p className="text-[9px] text-amber-600 font-bold uppercase tracking-widest mt-2">
+            <i className="fas fa-triangle-exclamation mr-1"></i> This file is unencrypted • bank connections must be re-linked after restoring
+          </p>
+        </div>
+
+        <div className="p-8 overflow-y-auto no-scrollbar space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            {(['merge', 'replace'] as RestoreMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`p-4 rounded-2xl border text-left transition ${mode === m ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg' : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-white'}`}
+              >
+                <p className="text-[11px] font-black uppercase tracking-widest">{m === 'merge' ? 'Merge by ID' : 'Replace Everything'}</p>
+                <p className={`text-[9px] font-bold mt-1 ${mode === m ? 'text-indigo-100' : 'text-slate-400'}`}>
+                  {m === 'merge' ? 'Combine ledgers, keep local-only records' : 'Vault becomes an exact copy of the backup'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="pb-3">Collection</th>
+                <th className="pb-3 text-right">New</th>
+                <th className="pb-3 text-right">Changed</th>
+                <th className="pb-3 text-right">Same</th>
+                <th className="pb-3 text-right">{mode === 'merge' ? 'Kept' : 'Removed'}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {preview.diffs.map(d => (
+                <tr key={d.collection} className="text-xs font-bold text-slate-700">
+                  <td className="py-2">{COLLECTION_LABELS[d.collection] || d.collection}</td>
+                  <td className="py-2 text-right text-emerald-600">{d.added || '—'}</td>
+                  <td className="py-2 text-right text-amber-600">{d.updated || '—'}</td>
+                  <td className="py-2 text-right text-slate-400">{d.unchanged || '—'}</td>
+                  <td className={`py-2 text-right ${mode === 'replace' && d.localOnly ? 'text-rose-600' : 'text-slate-400'}`}>{d.localOnly || '—'}</td>
+                </tr>
+              ))}
+              <tr className="text-xs font-bold text-slate-700">
+                <td className="py-2">Vault Documents</td>
+                <td className="py-2 text-right text-emerald-600">{preview.documents.added || '—'}</td>
+                <td className="py-2 text-right text-slate-400" colSpan={2}>{preview.documents.incoming - preview.documents.added || '—'}</td>
+                <td className={`py-2 text-right ${mode === 'replace' && preview.documents.localOnly ? 'text-rose-600' : 'text-slate-400'}`}>{preview.documents.localOnly || '—'}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {preview.settingsChanged && (
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              <i className="fas fa-sliders mr-2 text-indigo-500"></i>
+              {mode === 'replace' ? 'Opening balance, salary, currency & budget cycle will be taken from the backup' : 'Local opening balance, salary, currency & budget cycle are kept'}
+            </p>
+          )}
+
+          {backup.mirror.directoryName && (
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              <i className="fas fa-hard-drive mr-2 text-indigo-500"></i>
+              Mirrored files lived in "{backup.mirror.directoryName}" — re-link that folder under Storage
+            </p>
+          )}
+
+          {issues.length > 0 && (
+            <div className="p-5 bg-rose-50 rounded-2xl border border-rose-100">
+              <p className="text-[10px] text-rose-700 font-black uppercase tracking-widest mb-2">
+                <i className="fas fa-triangle-exclamation mr-2"></i>{issues.length} invalid {issues.length === 1 ? 'entry' : 'entries'} will be skipped
+              </p>
+              <ul className="space-y-1 max-h-32 overflow-y-auto no-scrollbar">
+                {issues.map((issue, i) => (
+                  <li key={i} className="text-[10px] text-rose-900 font-medium">
+                    {COLLECTION_LABELS[issue.collection] || issue.collection}{issue.index !== undefined && ` #${issue.index + 1}`}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-8 border-t border-slate-100 flex gap-3">
+          <button onClick={onClose} disabled={applying} className="flex-1 py-4 text-slate-400 font-black text-[11px] uppercase tracking-widest">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={applying}
+            className={`flex-1 py-4 ${mode === 'replace' ? 'bg-rose-600 hover:bg-rose-700' : 'bg-indigo-600 hover:bg-indigo-700'} text-white font-black rounded-2xl shadow-xl uppercase tracking-widest text-[11px] transition flex items-center justify-center gap-2 disabled:opacity-50`}
+          >
+            {applying ? <i className="fas fa-circle-notch fa-spin"></i> : <>{mode === 'replace' ? 'Replace Vault' : 'Merge Into Vault'}</>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestoreModal;
@@ -1,10 +1,20 @@
 
-import React, { useState } from 'react';
-import { InstitutionType } from '../types';
-import { verifyApiConnection } from '../services/bankApiService';
+import React, { useEffect, useState } from 'react';
+import { InstitutionType, CurrencyCode, PortfolioUpdate } from '../types';
+import { CONNECTORS, InstitutionConnector, ConnectorSession, ConnectorAccount, readFeed, describeConnectorError } from '../services/institutionConnectors';
+import { CURRENCIES } from '../services/currencyService';
+
+// What the app keeps to sync the account later
+export interface ConnectorLink {
+  externalAccountId: string;
+  accessToken: string;
+  tokenExpiresAt?: string;
+  syncCursor?: string;
+  holdings: PortfolioUpdate[];
+}
 
 interface Props {
-  onSuccess: (institution: string, accountLastFour: string, openingBalance: number, institutionType: InstitutionType) => void;
+  onSuccess: (institution: string, accountLastFour: string, openingBalance: number, institutionType: InstitutionType, currency: CurrencyCode, link: ConnectorLink) => void;
   onClose: () => void;
 }
 
@@ -12,53 +22,88 @@ type Step = 'bank-select' | 'api-handshake' | 'credentials' | 'balance-init' | '
 
 const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
   const [step, setStep] = useState<Step>('bank-select');
-  const [selectedBank, setSelectedBank] = useState<{name: string, color: string, icon: string, type: InstitutionType, apiType: string} | null>(null);
+  const [selectedBank, setSelectedBank] = useState<InstitutionConnector | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [session, setSession] = useState<ConnectorSession | null>(null);
+  const [accounts, setAccounts] = useState<ConnectorAccount[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [link, setLink] = useState<ConnectorLink | null>(null);
   const [openingBalance, setOpeningBalance] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>('XCD');
 
-  const platforms = [
-    { name: '1st National Bank St. Lucia', color: 'bg-emerald-600', icon: 'fa-landmark', type: 'bank' as const, apiType: 'Direct Connect' },
-    { name: 'Laborie Cooperative Credit Union', color: 'bg-teal-600', icon: 'fa-users-rectangle', type: 'credit_union' as const, apiType: 'Laborie-Connect' },
-    { name: 'St. Lucia Workers Credit Union', color: 'bg-indigo-600', icon: 'fa-users', type: 'credit_union' as const, apiType: 'CU-Sync' },
-    { name: 'Binance', color: 'bg-yellow-500', icon: 'fa-coins', type: 'investment' as const, apiType: 'REST API' },
-    { name: 'Vanguard', color: 'bg-rose-700', icon: 'fa-chart-pie', type: 'investment' as const, apiType: 'Brokerage-API' }
-  ];
+  const platforms = CONNECTORS;
+  const selectedAccount = accounts.find(a => a.id === accountId);
 
-  const handleBankSelect = (bank: typeof platforms[0]) => {
+  const handleBankSelect = (bank: InstitutionConnector) => {
     setSelectedBank(bank);
+    setCurrency(bank.currency);
+    setCredentials({});
+    setError(null);
     setStep('api-handshake');
   };
 
-  const startApiLink = async () => {
-    setLoading(true);
-    // Simulate API authorization flow
-    await new Promise(r => setTimeout(r, 1500));
-    setLoading(false);
+  const startApiLink = () => {
     setStep('credentials');
   };
 
+  const chooseAccount = (account: ConnectorAccount) => {
+    setAccountId(account.id);
+    setOpeningBalance(String(account.balance));
+    setCurrency(account.currency);
+  };
+
   const handleCredentialsSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!selectedBank) return;
     setLoading(true);
-    const success = await verifyApiConnection({}, selectedBank?.name || '');
-    setLoading(false);
-    if (success) {
-      // For investments, we skip the manual balance entry if we're pulling portfolio data
-      if (selectedBank?.type === 'investment') {
-        setStep('syncing');
-      } else {
-        setStep('balance-init');
-      }
+    setError(null);
+    try {
+      const opened = await selectedBank.authenticate(credentials);
+      const found = await selectedBank.fetchAccounts(opened);
+      if (found.length === 0) throw new Error('No accounts are available under these credentials.');
+      setSession(opened);
+      setAccounts(found);
+      chooseAccount(found[0]);
+      // Investment balances come from their holdings, so there is no ledger balance to confirm
+      setStep(selectedBank.institutionType === 'investment' ? 'syncing' : 'balance-init');
+    } catch (err) {
+      setError(describeConnectorError(err));
+    } finally {
+      setLoading(false);
     }
   };
 
+  // The opening balance already reflects the feed so far, so linking only records the cursor
+  useEffect(() => {
+    if (step !== 'syncing' || !selectedBank || !session || !accountId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const { cursor } = await readFeed(selectedBank, session, accountId, undefined, false);
+        const holdings = selectedBank.fetchHoldings ? await selectedBank.fetchHoldings(session, accountId) : [];
+        if (cancelled) return;
+        setLink({ externalAccountId: accountId, accessToken: session.token, tokenExpiresAt: session.expiresAt, syncCursor: cursor, holdings });
+        setStep('success');
+      } catch (err) {
+        if (cancelled) return;
+        setError(describeConnectorError(err));
+        setStep('credentials');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [step, selectedBank, session, accountId]);
+
   const handleFinish = () => {
-    if (selectedBank) {
+    if (selectedBank && link) {
       onSuccess(
-        selectedBank.name, 
-        selectedBank.type === 'investment' ? 'API-KEY' : '8821',
-        parseFloat(openingBalance) || 0,
-        selectedBank.type
+        selectedBank.institution,
+        selectedAccount?.lastFour || '',
+        selectedBank.institutionType === 'investment' ? 0 : parseFloat(openingBalance) || 0,
+        selectedBank.institutionType,
+        currency,
+        link
       );
     }
     onClose();
@@ -75,7 +120,7 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
             <div className="space-y-3 max-h-[400px] overflow-y-auto no-scrollbar">
               {platforms.map(bank => (
                 <button 
-                  key={bank.name}
+                  key={bank.institution}
                   onClick={() => handleBankSelect(bank)}
                   className="w-full p-4 flex items-center gap-4 bg-slate-50 hover:bg-white hover:ring-2 hover:ring-indigo-500 border border-slate-200 rounded-2xl transition group"
                 >
@@ -83,10 +128,10 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
                     <i className={`fas ${bank.icon}`}></i>
                   </div>
                   <div className="flex-1 text-left">
-                    <p className="font-black text-slate-800 text-sm truncate">{bank.name}</p>
+                    <p className="font-black text-slate-800 text-sm truncate">{bank.institution}</p>
                     <div className="flex items-center gap-2">
                       <span className="text-[8px] bg-emerald-100 text-emerald-700 px-1.5 py-0.5 rounded font-black uppercase">{bank.apiType}</span>
-                      <span className="text-[8px] text-slate-400 font-bold uppercase tracking-widest">{bank.type}</span>
+                      <span className="text-[8px] text-slate-400 font-bold uppercase tracking-widest">{bank.institutionType}</span>
                     </div>
                   </div>
                 </button>
@@ -109,13 +154,13 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
               </div>
             </div>
             <h3 className="text-xl font-black text-slate-800 mb-2">Establishing Connection</h3>
-            <p className="text-slate-500 text-sm mb-8">Linking to <b>{selectedBank.name}</b> via encrypted {selectedBank.apiType} protocol.</p>
+            <p className="text-slate-500 text-sm mb-8">Linking to <b>{selectedBank.institution}</b> via encrypted {selectedBank.apiType} protocol.</p>
             <button 
               onClick={startApiLink}
               disabled={loading}
               className="w-full py-4 bg-slate-900 text-white font-black rounded-2xl shadow-xl flex items-center justify-center gap-3 transition active:scale-95"
             >
-              {loading ? <i className="fas fa-circle-notch fa-spin"></i> : 'Begin API Handshake'}
+              Begin API Handshake
             </button>
           </div>
         )}
@@ -127,31 +172,27 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
               API Authorization
             </h3>
             <form onSubmit={handleCredentialsSubmit} className="space-y-4">
-              {selectedBank.type === 'investment' ? (
-                <>
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase ml-1">API Key</label>
-                    <input type="text" required className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 font-mono text-xs" placeholder="x-api-key-..." />
-                  </div>
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase ml-1">API Secret</label>
-                    <input type="password" required className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 font-mono text-xs" placeholder="••••••••••••" />
-                  </div>
-                </>
-              ) : (
-                <>
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Net-Banking ID</label>
-                    <input type="text" required className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 font-bold" placeholder="Customer 001" />
-                  </div>
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Digital Password</label>
-                    <input type="password" required className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 font-bold" placeholder="••••••••" />
-                  </div>
-                </>
+              {selectedBank.credentialFields.map((field, i) => (
+                <div key={field.key}>
+                  <label className="text-[10px] font-black text-slate-400 uppercase ml-1">{field.label}</label>
+                  <input
+                    type={field.secret ? 'password' : 'text'}
+                    required
+                    autoFocus={i === 0}
+                    value={credentials[field.key] || ''}
+                    onChange={(e) => setCredentials({ ...credentials, [field.key]: e.target.value })}
+                    className={`w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 ${field.monospace ? 'font-mono text-xs' : 'font-bold'}`}
+                    placeholder={field.placeholder}
+                  />
+                </div>
+              ))}
+              {error && (
+                <div className="p-4 bg-rose-50 border border-rose-100 rounded-2xl text-[10px] font-black text-rose-600 uppercase tracking-widest">
+                  <i className="fas fa-triangle-exclamation mr-2"></i>{error}
+                </div>
               )}
               <button disabled={loading} className={`w-full py-4 ${selectedBank.color} text-white font-black rounded-2xl transition shadow-lg flex items-center justify-center gap-2 active:scale-95`}>
-                {loading ? <i className="fas fa-circle-notch fa-spin"></i> : (selectedBank.type === 'investment' ? 'Connect Portfolio' : 'Authorize API')}
+                {loading ? <i className="fas fa-circle-notch fa-spin"></i> : (selectedBank.institutionType === 'investment' ? 'Connect Portfolio' : 'Authorize API')}
               </button>
             </form>
           </div>
@@ -160,10 +201,22 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
         {step === 'balance-init' && (
           <div className="p-8">
             <h3 className="text-xl font-black text-slate-800 mb-2 text-center">Initial Sync</h3>
-            <p className="text-slate-500 text-xs text-center mb-8 uppercase tracking-widest font-bold">API Data Fetch Pending</p>
+            <p className="text-slate-500 text-xs text-center mb-8 uppercase tracking-widest font-bold">{selectedAccount ? `${selectedAccount.name} reports ${selectedAccount.balance.toFixed(2)} ${selectedAccount.currency}` : 'API Data Fetch Pending'}</p>
             <div className="space-y-4">
+              {accounts.length > 1 && (
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-1">Account</label>
+                  <select
+                    value={accountId}
+                    onChange={(e) => { const account = accounts.find(a => a.id === e.target.value); if (account) chooseAccount(account); }}
+                    className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-black text-sm text-slate-700 appearance-none"
+                  >
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name} • {a.lastFour}</option>)}
+                  </select>
+                </div>
+              )}
               <div>
-                <label className="block text-[10px] font-black text-slate-400 uppercase mb-1">Enter Current Ledger Balance</label>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-1">Confirm Current Ledger Balance</label>
                 <input 
                   type="number" 
                   autoFocus
@@ -174,6 +227,16 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
                   placeholder="0.00" 
                 />
               </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 uppercase mb-1">Account Currency</label>
+                <select
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-black text-sm text-slate-700 appearance-none"
+                >
+                  {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.name}</option>)}
+                </select>
+              </div>
               <button 
                 onClick={() => setStep('syncing')}
                 className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl"
@@ -188,12 +251,11 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
           <div className="p-12 text-center">
             <div className="w-20 h-20 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-8"></div>
             <h3 className="text-xl font-black text-slate-800 mb-2">
-              {selectedBank?.type === 'investment' ? 'Extracting Portfolio' : 'Standardizing Feed'}
+              {selectedBank?.institutionType === 'investment' ? 'Extracting Portfolio' : 'Standardizing Feed'}
             </h3>
             <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.2em] animate-pulse">
-              {selectedBank?.type === 'investment' ? 'Polling Asset Balances...' : 'JSON Pipeline Processing...'}
+              {selectedBank?.institutionType === 'investment' ? 'Polling Asset Balances...' : 'JSON Pipeline Processing...'}
             </p>
-            {setTimeout(() => setStep('success'), 4000) && null}
           </div>
         )}
 
@@ -204,9 +266,9 @@ const BankSyncModal: React.FC<Props> = ({ onSuccess, onClose }) => {
             </div>
             <h3 className="text-2xl font-black text-slate-800 mb-2">API Linked!</h3>
             <p className="text-slate-500 text-sm mb-8">
-              {selectedBank?.type === 'investment' 
-                ? `Total amounts for ${selectedBank.name} have been retrieved. Approve them in the Verification Queue.`
-                : `Real-time webhooks are now active for ${selectedBank?.name}.`}
+              {selectedBank?.institutionType === 'investment' 
+                ? `${link?.holdings.length || 0} holdings from ${selectedBank.institution} have been retrieved. Approve them in the Verification Queue.`
+                : `${selectedBank?.institution} is linked. New transactions arrive in the Verification Queue on each sync.`}
             </p>
             <button onClick={handleFinish} className="w-full py-4 bg-slate-900 text-white font-black rounded-2xl shadow-xl transition active:scale-95">
               Go to Dashboard
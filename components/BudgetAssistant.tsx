@@ -12,7 +12,7 @@ interface Props {
 const BudgetAssistant: React.FC<Props> = ({ transactions, investments, marketPrices, availableFunds }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<{ role: 'user' | 'ai'; text: string }[]>([
-    { role: 'ai', text: "Hi! I'm your SmartBudget Pro Advisor. I'm currently tracking your Binance and Vanguard portfolios. How can I help you today?" }
+    { role: 'ai', text: "Hi! I'm your SmartBudget Pro Advisor. I'm currently tracking your investment portfolios. How can I help you today?" }
   ]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
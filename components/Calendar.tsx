@@ -1,6 +1,9 @@
 
 import React, { useState, useMemo } from 'react';
-import { BudgetEvent, Transaction, RecurringExpense, RecurringIncome, ProjectTask, CalendarItem } from '../types';
+import { BudgetEvent, Transaction, RecurringExpense, RecurringIncome, ProjectTask, CalendarItem, Liability } from '../types';
+import { liabilityOutlook } from '../services/liabilityService';
+import { HOME_CURRENCY, currencySymbol } from '../services/currencyService';
+import { todayKey } from '../services/budgetCycleService';
 
 interface Props {
   events: BudgetEvent[];
@@ -8,12 +11,13 @@ interface Props {
   transactions: Transaction[];
   recurringExpenses: RecurringExpense[];
   recurringIncomes: RecurringIncome[];
+  liabilities: Liability[];
   onUpdateItems: (items: CalendarItem[]) => void;
 }
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
-const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurringExpenses, recurringIncomes, onUpdateItems }) => {
+const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurringExpenses, recurringIncomes, liabilities, onUpdateItems }) => {
   const [viewDate, setViewDate] = useState(new Date());
   const [selectedDay, setSelectedDay] = useState<Date | null>(new Date());
   const [showEditor, setShowEditor] = useState(false);
@@ -82,6 +86,17 @@ const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurr
     return tasks;
   }, [events]);
 
+  // Each debt's minimum payments on their due dates, up to the one that pays it off. A debt
+  // with a planned payment already shows as a bill, so only its payoff is marked.
+  const debtPayments = useMemo(() => liabilities.flatMap(l => {
+    const { schedule } = liabilityOutlook(l, transactions, todayKey());
+    const symbol = currencySymbol(l.currency || HOME_CURRENCY);
+    const isPlanned = recurringExpenses.some(re => re.liabilityId === l.id);
+    return schedule.rows
+      .map(row => ({ id: `${l.id}-${row.date}`, liability: l, symbol, row, isPayoff: row.date === schedule.payoffDate }))
+      .filter(dp => !isPlanned || dp.isPayoff);
+  }), [liabilities, transactions, recurringExpenses]);
+
   const getDayDetails = (day: number) => {
     const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
     
@@ -100,7 +115,9 @@ const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurr
         return nextConf.getDate() === day && nextConf.getMonth() === month && nextConf.getFullYear() === year;
     });
 
-    return { dayProjects, dayTransactions, dayTasks, dayRecurringEx, dayRecurringIn, dayCalendarItems };
+    const dayDebts = debtPayments.filter(dp => dp.row.date === dateStr);
+
+    return { dayProjects, dayTransactions, dayTasks, dayRecurringEx, dayRecurringIn, dayCalendarItems, dayDebts };
   };
 
   const calendarDays = useMemo(() => {
@@ -186,7 +203,7 @@ const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurr
             {calendarDays.map((day, idx) => {
               if (day === null) return <div key={`empty-${idx}`} className="bg-slate-50/50 min-h-[140px]"></div>;
               
-              const { dayProjects, dayTasks, dayRecurringEx, dayRecurringIn, dayCalendarItems } = getDayDetails(day);
+              const { dayProjects, dayTasks, dayRecurringEx, dayRecurringIn, dayCalendarItems, dayDebts } = getDayDetails(day);
               const isToday = day === new Date().getDate() && month === new Date().getMonth() && year === new Date().getFullYear();
               const isSelected = selectedDay?.getDate() === day && selectedDay?.getMonth() === month && selectedDay?.getFullYear() === year;
 
@@ -223,6 +240,11 @@ const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurr
                     {dayRecurringEx.map(re => (
                       <div key={re.id} className="px-2 py-0.5 bg-rose-100 text-rose-700 text-[8px] font-black uppercase rounded truncate border border-rose-200">Bill: {re.description}</div>
                     ))}
+                    {dayDebts.map(dp => dp.isPayoff ? (
+                      <div key={dp.id} className="px-2 py-0.5 bg-emerald-100 text-emerald-700 text-[8px] font-black uppercase rounded truncate border border-emerald-200"><i className="fas fa-flag-checkered text-[6px] mr-1"></i>Payoff: {dp.liability.name}</div>
+                    ) : (
+                      <div key={dp.id} className="px-2 py-0.5 bg-rose-100 text-rose-700 text-[8px] font-black uppercase rounded truncate border border-rose-200">Due: {dp.liability.name}</div>
+                    ))}
                   </div>
                 </div>
               );
@@ -320,7 +342,7 @@ const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurr
                       </div>
                     )}
 
-                    {(selectedDayData.dayRecurringEx.length > 0 || selectedDayData.dayRecurringIn.length > 0) && (
+                    {(selectedDayData.dayRecurringEx.length > 0 || selectedDayData.dayRecurringIn.length > 0 || selectedDayData.dayDebts.length > 0) && (
                       <div className="space-y-2">
                         <p className="text-[8px] font-black text-indigo-400 uppercase tracking-widest">Financial Obligations</p>
                         {selectedDayData.dayRecurringEx.map(re => (
@@ -341,6 +363,15 @@ const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurr
                              <span className="text-sm font-black text-emerald-500">+${ri.amount}</span>
                           </div>
                         ))}
+                        {selectedDayData.dayDebts.map(dp => (
+                          <div key={dp.id} className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-[2rem] flex justify-between items-center">
+                             <div>
+                               <p className="text-xs font-black text-rose-400">{dp.liability.name}</p>
+                               <p className="text-[9px] text-slate-500 uppercase font-black">{dp.isPayoff ? 'Final Payment • Paid Off' : `Minimum Payment • ${dp.symbol}${dp.row.balance.toLocaleString(undefined, { maximumFractionDigits: 0 })} Left`}</p>
+                             </div>
+                             <span className="text-sm font-black text-rose-500">-{dp.symbol}{dp.row.payment.toFixed(2)}</span>
+                          </div>
+                        ))}
                       </div>
                     )}
 
@@ -348,7 +379,8 @@ const Calendar: React.FC<Props> = ({ events, calendarItems, transactions, recurr
                      selectedDayData.dayProjects.length === 0 && 
                      selectedDayData.dayTasks.length === 0 && 
                      selectedDayData.dayRecurringEx.length === 0 && 
-                     selectedDayData.dayRecurringIn.length === 0 && (
+                     selectedDayData.dayRecurringIn.length === 0 && 
+                     selectedDayData.dayDebts.length === 0 && (
                       <div className="py-20 text-center opacity-20">
                          <i className="fas fa-shield-blank text-4xl mb-4"></i>
                          <p className="text-[10px] font-black uppercase tracking-widest">Zero Operations Logged</p>
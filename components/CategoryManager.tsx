@@ -0,0 +1,154 @@
+
+import React, { useState } from 'react';
+import { Category, CategoryKind } from '../types';
+import { orderCategories, childrenOf, PROTECTED_CATEGORY_NAMES, CATEGORY_COLORS, CATEGORY_ICONS } from '../services/categoryService';
+
+interface Props {
+  categories: Category[];
+  usage: Record<string, number>; // transactions per category name
+  onAdd: (category: Omit<Category, 'id' | 'createdAt' | 'archived'>) => void;
+  onUpdate: (category: Category) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+}
+
+interface CategoryDraft {
+  id?: string;
+  name: string;
+  parentId: string;
+  kind: CategoryKind;
+  color: string;
+  icon: string;
+}
+
+const EMPTY_DRAFT: CategoryDraft = { name: '', parentId: '', kind: 'expense', color: CATEGORY_COLORS[0], icon: 'fa-tag' };
+
+const KIND_LABELS: Record<CategoryKind, string> = { expense: 'Spending', income: 'Income', transfer: 'Movement' };
+
+const CategoryManager: React.FC<Props> = ({ categories, usage, onAdd, onUpdate, onMerge }) => {
+  const [draft, setDraft] = useState<CategoryDraft>(EMPTY_DRAFT);
+  const [merging, setMerging] = useState<{ sourceId: string; targetId: string } | null>(null);
+
+  const ordered = orderCategories(categories, true);
+  const editing = draft.id ? categories.find(c => c.id === draft.id) : undefined;
+  // One level of nesting: parents are active top-level categories, never the one being edited
+  const parentChoices = categories.filter(c => !c.parentId && !c.archived && c.id !== draft.id);
+  const canHaveParent = !editing || childrenOf(categories, editing.id).length === 0;
+
+  const startEdit = (c: Category) => {
+    setMerging(null);
+    setDraft({ id: c.id, name: c.name, parentId: c.parentId || '', kind: c.kind, color: c.color, icon: c.icon });
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    if (!name) return alert('Give the category a name.');
+    if (categories.some(c => c.id !== draft.id && c.name.toLowerCase() === name.toLowerCase())) return alert(`"${name}" already exists.`);
+    if (editing && PROTECTED_CATEGORY_NAMES.includes(editing.name) && name !== editing.name) return alert(`"${editing.name}" is used by the app and can't be renamed.`);
+
+    const fields = { name, parentId: canHaveParent ? draft.parentId || undefined : undefined, kind: draft.kind, color: draft.color, icon: draft.icon };
+    if (editing) onUpdate({ ...editing, ...fields });
+    else onAdd(fields);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleMerge = () => {
+    if (!merging?.targetId) return;
+    const source = categories.find(c => c.id === merging.sourceId);
+    const target = categories.find(c => c.id === merging.targetId);
+    if (!source || !target) return;
+    if (!confirm(`Move ${usage[source.name] || 0} transactions, budgets and rules from "${source.name}" into "${target.name}" and remove "${source.name}"?`)) return;
+    onMerge(source.id, target.id);
+    setMerging(null);
+  };
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-black text-slate-800">Categories</h3>
+        <span className="text-[10px] font-black bg-indigo-100 text-indigo-600 px-3 py-1 rounded-full uppercase tracking-widest">{categories.filter(c => !c.archived).length} Active</span>
+      </div>
+
+      <div className="grid grid-cols-1 gap-2 mb-6">
+        {ordered.map(c => {
+          const isChild = !!c.parentId && categories.some(p => p.id === c.parentId);
+          const isProtected = PROTECTED_CATEGORY_NAMES.includes(c.name);
+          return (
+            <div key={c.id} className={`${isChild ? 'ml-8' : ''} ${c.archived ? 'opacity-50' : ''}`}>
+              <div className={`p-4 bg-slate-50 border ${draft.id === c.id ? 'border-indigo-300' : 'border-slate-100'} rounded-2xl flex items-center justify-between group`}>
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-9 h-9 rounded-xl flex items-center justify-center text-white shadow-sm" style={{ backgroundColor: c.color }}>
+                    <i className={`fas ${c.icon} text-xs`}></i>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-black text-slate-800 truncate">{c.name}</p>
+                    <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">
+                      {KIND_LABELS[c.kind]} • {usage[c.name] || 0} txns{c.archived && ' • Archived'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => startEdit(c)} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-indigo-500 transition-colors" title="Edit"><i className="fas fa-pen text-xs"></i></button>
+                  {!isProtected && (
+                    <>
+                      <button onClick={() => setMerging({ sourceId: c.id, targetId: '' })} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-amber-500 transition-colors" title="Merge into another category"><i className="fas fa-code-merge text-xs"></i></button>
+                      <button onClick={() => onUpdate({ ...c, archived: !c.archived })} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-slate-600 transition-colors" title={c.archived ? 'Restore' : 'Archive'}>
+                        <i className={`fas ${c.archived ? 'fa-box-open' : 'fa-box-archive'} text-xs`}></i>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {merging?.sourceId === c.id && (
+                <div className="mt-2 p-3 bg-amber-50 border border-amber-100 rounded-2xl flex items-center gap-2 animate-in fade-in duration-200">
+                  <span className="text-[9px] font-black text-amber-700 uppercase tracking-widest whitespace-nowrap">Merge into</span>
+                  <select
+                    value={merging.targetId}
+                    onChange={e => setMerging({ ...merging, targetId: e.target.value })}
+                    className="flex-1 bg-white border border-amber-200 rounded-xl p-2 text-xs font-bold outline-none"
+                  >
+                    <option value="">Choose category…</option>
+                    {orderCategories(categories).filter(t => t.id !== c.id && t.parentId !== c.id).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                  <button onClick={handleMerge} disabled={!merging.targetId} className="px-3 py-2 bg-amber-500 text-white text-[9px] font-black uppercase tracking-widest rounded-xl disabled:opacity-40">Merge</button>
+                  <button onClick={() => setMerging(null)} className="px-3 py-2 text-slate-400 text-[9px] font-black uppercase tracking-widest">Cancel</button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-6 bg-slate-900 rounded-[2.5rem] text-white">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-4">{editing ? `Edit ${editing.name}` : 'New Category'}</h4>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <input type="text" placeholder="Name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="col-span-2 bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <select value={canHaveParent ? draft.parentId : ''} disabled={!canHaveParent} onChange={e => setDraft({ ...draft, parentId: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none disabled:opacity-50">
+            <option value="" className="bg-slate-800">Top Level</option>
+            {parentChoices.map(p => <option key={p.id} value={p.id} className="bg-slate-800">Under {p.name}</option>)}
+          </select>
+          <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as CategoryKind })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+            {(Object.keys(KIND_LABELS) as CategoryKind[]).map(k => <option key={k} value={k} className="bg-slate-800">{KIND_LABELS[k]}</option>)}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {CATEGORY_COLORS.map(color => (
+            <button key={color} onClick={() => setDraft({ ...draft, color })} className={`w-7 h-7 rounded-full transition ${draft.color === color ? 'ring-2 ring-offset-2 ring-offset-slate-900 ring-white' : ''}`} style={{ backgroundColor: color }}></button>
+          ))}
+        </div>
+        <div className="grid grid-cols-8 gap-2 mb-4">
+          {CATEGORY_ICONS.map(icon => (
+            <button key={icon} onClick={() => setDraft({ ...draft, icon })} className={`h-9 rounded-xl flex items-center justify-center transition ${draft.icon === icon ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}>
+              <i className={`fas ${icon} text-xs`}></i>
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {editing && <button onClick={() => setDraft(EMPTY_DRAFT)} className="flex-1 py-3 bg-white/10 text-slate-300 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-white/20 transition">Cancel</button>}
+          <button onClick={handleSave} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition">{editing ? 'Save Category' : 'Add Category'}</button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CategoryManager;
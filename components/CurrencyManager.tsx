@@ -0,0 +1,106 @@
+
+import React, { useState } from 'react';
+import { FxRate, CurrencyCode } from '../types';
+import { CURRENCIES, missingRates, rateOn } from '../services/currencyService';
+
+interface Props {
+  baseCurrency: CurrencyCode;
+  onUpdateBaseCurrency: (code: CurrencyCode) => void;
+  fxRates: FxRate[];
+  currenciesInUse: CurrencyCode[];
+  onAddFxRate: (rate: Omit<FxRate, 'id'>) => void;
+  onDeleteFxRate: (id: string) => void;
+}
+
+const CurrencyManager: React.FC<Props> = ({ baseCurrency, onUpdateBaseCurrency, fxRates, currenciesInUse, onAddFxRate, onDeleteFxRate }) => {
+  const [draft, setDraft] = useState({ base: 'USD', quote: baseCurrency, rate: '', date: new Date().toISOString().split('T')[0] });
+
+  const missing = missingRates(currenciesInUse, baseCurrency, fxRates);
+  const pairs = Array.from(new Set<string>(fxRates.map(r => `${r.base}/${r.quote}`))).sort();
+
+  const handleAdd = () => {
+    const rate = parseFloat(draft.rate);
+    if (draft.base === draft.quote) return alert('Pick two different currencies.');
+    if (!(rate > 0)) return alert('Enter how many units of the quote currency one unit of the base buys.');
+    onAddFxRate({ base: draft.base, quote: draft.quote, rate, date: draft.date, source: 'manual' });
+    setDraft({ ...draft, rate: '' });
+  };
+
+  return (
+    <div className="space-y-10">
+      <section>
+        <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><i className="fas fa-money-bill-transfer text-indigo-600"></i> Base Currency</h3>
+        <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100">
+          <select
+            value={baseCurrency}
+            onChange={e => onUpdateBaseCurrency(e.target.value)}
+            className="w-full bg-white border border-slate-200 rounded-xl p-4 text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500 appearance-none"
+          >
+            {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.name}</option>)}
+          </select>
+          <p className="text-[9px] font-bold text-slate-400 mt-3 uppercase tracking-widest">Dashboard totals, liquid funds and projections are restated in this currency</p>
+        </div>
+        {missing.length > 0 && (
+          <div className="mt-4 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-[10px] font-black text-amber-700 uppercase tracking-widest">
+            <i className="fas fa-triangle-exclamation mr-2"></i>
+            No rate to {baseCurrency} for {missing.join(', ')} — those amounts are counted 1:1 until one is added
+          </div>
+        )}
+      </section>
+
+      <section>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-black text-slate-800">Exchange Rates</h3>
+          <span className="text-[10px] font-black bg-indigo-100 text-indigo-600 px-3 py-1 rounded-full uppercase tracking-widest">{fxRates.length} Entries</span>
+        </div>
+
+        <div className="space-y-6 mb-6">
+          {pairs.map(pair => {
+            const [base, quote] = pair.split('/');
+            const history = fxRates.filter(r => r.base === base && r.quote === quote);
+            const current = rateOn(base, quote, fxRates);
+            return (
+              <div key={pair}>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                  1 {base} = {current?.toFixed(4)} {quote} today
+                </p>
+                <div className="grid grid-cols-1 gap-2">
+                  {history.map(r => (
+                    <div key={r.id} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <span className="text-xs font-black text-slate-800 font-mono">{r.rate.toFixed(4)}</span>
+                        <span className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">From {r.date}</span>
+                      </div>
+                      {r.source === 'peg' ? (
+                        <span className="text-[8px] font-black bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded uppercase tracking-widest">Fixed Peg</span>
+                      ) : (
+                        <button onClick={() => onDeleteFxRate(r.id)} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors"><i className="fas fa-trash-can text-xs"></i></button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 bg-slate-900 rounded-[2.5rem] text-white">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-4">Record A Rate</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <select value={draft.base} onChange={e => setDraft({ ...draft, base: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+              {CURRENCIES.map(c => <option key={c.code} value={c.code} className="bg-slate-800">1 {c.code}</option>)}
+            </select>
+            <input type="number" step="any" placeholder="Rate" value={draft.rate} onChange={e => setDraft({ ...draft, rate: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+            <select value={draft.quote} onChange={e => setDraft({ ...draft, quote: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+              {CURRENCIES.map(c => <option key={c.code} value={c.code} className="bg-slate-800">{c.code}</option>)}
+            </select>
+            <input type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          </div>
+          <button onClick={handleAdd} className="w-full py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition">Add Rate</button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default CurrencyManager;
@@ -1,17 +1,18 @@
 
 import React, { useMemo, useState, useEffect } from 'react';
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, Legend, BarChart, Bar, Cell } from 'recharts';
-import { Transaction, RecurringExpense, RecurringIncome, InvestmentAccount, MarketPrice, BankConnection, InvestmentGoal, SavingGoal } from '../types';
+import { Transaction, RecurringExpense, RecurringIncome, InvestmentAccount, MarketPrice, BankConnection, InvestmentGoal, SavingGoal, Category, BudgetCycle, CostBasisMethod, NetWorthSnapshot, Liability } from '../types';
+import { rollupCategorySpend } from '../services/categoryService';
+import { currencySymbol } from '../services/currencyService';
+import { buildBalanceSheet, isIncome, isExpense, AccountBalance } from '../services/balanceService';
+import { accountPerformance, COST_BASIS_METHODS } from '../services/costBasisService';
+import { allocationBreakdown, assetClassOf, assetClassInfo } from '../services/assetAllocationService';
+import { cycleContaining, shiftCycle, precedingCycles, sameCycleLastYear, isInPeriod, daysBetween, todayKey, formatPeriod, describeCycle, CyclePeriod } from '../services/budgetCycleService';
+import NetWorthTrend from './NetWorthTrend';
+import DebtOverview from './DebtOverview';
+import { liabilityOutlook } from '../services/liabilityService';
 import { GoogleGenAI } from "@google/genai";
 
-interface InstitutionalBalance {
-  balance: number;
-  type: string;
-  available: boolean;
-  holdings?: any[];
-  isCash?: boolean;
-}
-
 interface Props {
   transactions: Transaction[];
   recurringExpenses: RecurringExpense[];
@@ -24,6 +25,9 @@ interface Props {
   targetMargin: number;
   cashOpeningBalance: number;
   categoryBudgets: Record<string, number>;
+  categories: Category[];
+  baseCurrency: string;
+  budgetCycle: BudgetCycle;
   onEdit: (t: Transaction) => void;
   onDelete: (id: string) => void;
   onPayRecurring: (rec: RecurringExpense, amount: number) => void;
@@ -33,12 +37,38 @@ interface Props {
   onWithdrawal: (institution: string, amount: number) => void;
   onAddIncome: (amount: number, description: string, notes: string) => void;
   onUpdateCategoryBudget?: (category: string, amount: number) => void;
+  onUpdateInvestment?: (id: string, updates: Partial<InvestmentAccount>) => void;
+  netWorthHistory: NetWorthSnapshot[];
+  onRebuildNetWorthHistory?: () => void;
+  liabilities: Liability[];
+  onPayLiability?: (liability: Liability, amount: number, from: string) => void;
 }
 
-type Timeframe = 'daily' | 'monthly' | 'yearly';
+type Timeframe = 'daily' | 'monthly' | 'cycle' | 'yearly';
+
+const TRAILING_WINDOWS = [3, 6, 12];
+
+// Spend change against a comparison window; rising spend reads as bad news
+const SpendDelta: React.FC<{ label: string; current: number; baseline?: number }> = ({ label, current, baseline = 0 }) => {
+  if (baseline <= 0 && current <= 0) return null;
+  const change = baseline > 0 ? ((current - baseline) / baseline) * 100 : null;
+  const tone = change === null || change > 0 ? 'text-rose-500 bg-rose-50' : 'text-emerald-600 bg-emerald-50';
+  return (
+    <span className={`px-1.5 py-0.5 rounded text-[7px] font-black uppercase tracking-widest ${tone}`} title={`${label}: ${baseline.toFixed(2)}`}>
+      {label} {change === null ? 'New' : `${change > 0 ? '▲' : change < 0 ? '▼' : ''}${Math.abs(change).toFixed(0)}%`}
+    </span>
+  );
+};
+
+// Signed gain in the base currency, green when positive
+const Pnl: React.FC<{ label?: string; value: number; symbol: string }> = ({ label, value, symbol }) => (
+  <span className={`text-[8px] font-black uppercase tracking-widest ${value >= 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+    {label && `${label} `}{value >= 0 ? '+' : '-'}{symbol}{Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+  </span>
+);
 
 const Dashboard: React.FC<Props> = ({ 
-  transactions, investments, marketPrices, bankConnections, recurringExpenses, recurringIncomes, categoryBudgets, cashOpeningBalance, savingGoals, investmentGoals, onPayRecurring, onReceiveRecurringIncome, onUpdateCategoryBudget
+  transactions, investments, marketPrices, bankConnections, recurringExpenses, recurringIncomes, categoryBudgets, categories, baseCurrency, budgetCycle, cashOpeningBalance, savingGoals, investmentGoals, onPayRecurring, onReceiveRecurringIncome, onUpdateCategoryBudget, onUpdateInvestment, netWorthHistory, onRebuildNetWorthHistory, liabilities, onPayLiability
 }) => {
   const [trendTimeframe, setTrendTimeframe] = useState<Timeframe>('monthly');
   const [aiInsight, setAiInsight] = useState<string>("");
@@ -49,139 +79,114 @@ const Dashboard: React.FC<Props> = ({
   const [selectedDestination, setSelectedDestination] = useState<string | null>(null);
   const [editingCategory, setEditingCategory] = useState<string | null>(null);
   const [editBudgetVal, setEditBudgetVal] = useState<string>("");
+  const [cycleOffset, setCycleOffset] = useState(0);
+  const [trailingCycles, setTrailingCycles] = useState(3);
+  const symbol = currencySymbol(baseCurrency);
 
-  const cycleStartDate = useMemo(() => {
-    const now = new Date();
-    const start = new Date(now.getFullYear(), now.getMonth(), 25);
-    if (now.getDate() < 25) {
-      start.setMonth(start.getMonth() - 1);
-    }
-    return start;
-  }, []);
+  // The cycle running today drives the forward-looking figures; the viewed one drives period totals
+  const currentCycle = useMemo(() => cycleContaining(budgetCycle, todayKey(), recurringIncomes), [budgetCycle, recurringIncomes]);
+  const viewedCycle = useMemo(() => shiftCycle(budgetCycle, currentCycle, cycleOffset, recurringIncomes), [budgetCycle, currentCycle, cycleOffset, recurringIncomes]);
+  const isCurrentCycle = cycleOffset === 0;
+
+  useEffect(() => { setCycleOffset(0); }, [budgetCycle]);
 
   const daysPassedInCycle = useMemo(() => {
-    const now = new Date();
-    const diff = now.getTime() - cycleStartDate.getTime();
-    return Math.max(1, Math.ceil(diff / (1000 * 60 * 60 * 24)));
-  }, [cycleStartDate]);
+    return isCurrentCycle ? Math.max(1, daysBetween(viewedCycle.start, todayKey()) + 1) : viewedCycle.days;
+  }, [viewedCycle, isCurrentCycle]);
 
   const daysUntilNextCycle = useMemo(() => {
-    const now = new Date();
-    let nextCycle = new Date(now.getFullYear(), now.getMonth(), 25);
-    if (now.getDate() >= 25) {
-      nextCycle.setMonth(nextCycle.getMonth() + 1);
-    }
-    const diff = nextCycle.getTime() - now.getTime();
-    return Math.max(1, Math.ceil(diff / (1000 * 60 * 60 * 24)));
-  }, []);
+    return Math.max(1, daysBetween(todayKey(), currentCycle.end));
+  }, [currentCycle]);
 
   const { totalActualIncome, totalActualExpenses } = useMemo(() => {
-    const current = transactions.filter(t => new Date(t.date) >= cycleStartDate);
+    const current = transactions.filter(t => isInPeriod(t.date, viewedCycle));
     return {
-      totalActualIncome: current.filter(t => t.type === 'income').reduce((acc: number, t) => acc + t.amount, 0),
-      totalActualExpenses: current.filter(t => t.type === 'expense').reduce((acc: number, t) => acc + t.amount, 0),
+      totalActualIncome: current.filter(isIncome).reduce((acc: number, t) => acc + t.amount, 0),
+      totalActualExpenses: current.filter(isExpense).reduce((acc: number, t) => acc + t.amount, 0),
     };
-  }, [transactions, cycleStartDate]);
+  }, [transactions, viewedCycle]);
 
   const netMargin = totalActualIncome - totalActualExpenses;
 
-  const institutionalBalances = useMemo<Record<string, InstitutionalBalance>>(() => {
-    const balances: Record<string, InstitutionalBalance> = {};
-    bankConnections.forEach(conn => {
-      const history = transactions.filter(t => t.institution === conn.institution || t.destinationInstitution === conn.institution);
-      const flow = history.reduce((acc: number, t) => {
-        if (t.destinationInstitution === conn.institution && (t.type === 'transfer' || t.type === 'withdrawal')) return acc + t.amount;
-        if (t.institution === conn.institution) {
-          if (t.type === 'income' || t.type === 'savings') return acc + t.amount; // savings deposits go TO institution
-          if (t.type === 'expense' || t.type === 'transfer' || t.type === 'withdrawal') return acc - t.amount;
-        }
-        return acc;
-      }, 0);
-      balances[conn.institution] = { balance: (conn.openingBalance || 0) + flow, type: conn.institutionType, available: conn.institution.includes('1st National') };
-    });
+  const balanceSheet = useMemo(() => {
+    return buildBalanceSheet({ transactions, bankConnections, investments, marketPrices, liabilities, cashOpeningBalance });
+  }, [bankConnections, investments, transactions, marketPrices, liabilities, cashOpeningBalance]);
 
-    const cashFlow = transactions.filter(t => t.institution === 'Cash in Hand' || t.destinationInstitution === 'Cash in Hand').reduce((acc: number, t) => {
-      if (t.destinationInstitution === 'Cash in Hand' && (t.type === 'transfer' || t.type === 'withdrawal')) return acc + t.amount;
-      if (t.institution === 'Cash in Hand') {
-        if (t.type === 'income') return acc + t.amount;
-        if (t.type === 'expense' || t.type === 'transfer' || t.type === 'withdrawal' || t.type === 'savings') return acc - t.amount;
-      }
-      return acc;
-    }, cashOpeningBalance);
-    balances['Cash in Hand'] = { balance: cashFlow, type: 'cash', available: true, isCash: true };
-
-    investments.forEach(inv => {
-      const liveVal = inv.holdings.reduce((hAcc: number, h) => {
-        const live = marketPrices.find(m => m.symbol === h.symbol)?.price || h.purchasePrice;
-        return hAcc + (h.quantity * live);
-      }, 0);
-      const withdrawFlow = transactions.filter(t => t.institution === inv.provider && (t.type === 'withdrawal' || t.type === 'transfer' || t.type === 'expense')).reduce((acc: number, t) => acc + t.amount, 0);
-      const depositFlow = transactions.filter(t => t.destinationInstitution === inv.provider && (t.type === 'transfer' || t.type === 'income')).reduce((acc: number, t) => acc + t.amount, 0);
-      balances[inv.provider] = { balance: liveVal - withdrawFlow + depositFlow, type: 'investment', available: false, holdings: inv.holdings };
-    });
-    return balances;
-  }, [bankConnections, investments, transactions, marketPrices, cashOpeningBalance]);
+  const institutionalBalances = balanceSheet.accounts;
 
-  const { bankTotal, cuTotal, cryptoTotal, vanguardTotal } = useMemo(() => {
-    let b = 0, c = 0, cr = 0, v = 0;
-    (Object.entries(institutionalBalances) as Array<[string, InstitutionalBalance]>).forEach(([name, data]) => {
+  const { bankTotal, cuTotal, investmentTotal, debtTotal, assetTotal } = useMemo(() => {
+    let b = 0, c = 0, i = 0, d = 0, a = 0;
+    (Object.values(institutionalBalances) as AccountBalance[]).forEach(data => {
       if (data.type === 'bank') b += data.balance;
       if (data.type === 'credit_union') c += data.balance;
-      if (data.type === 'investment') {
-        if (name === 'Binance') cr += data.balance;
-        else v += data.balance;
-      }
+      if (data.type === 'investment') i += data.balance;
+      if (data.type === 'liability') d -= data.balance;
+      else a += Math.max(0, data.balance);
     });
-    return { bankTotal: b, cuTotal: c, cryptoTotal: cr, vanguardTotal: v };
+    return { bankTotal: b, cuTotal: c, investmentTotal: i, debtTotal: d, assetTotal: a };
   }, [institutionalBalances]);
 
-  const liquidFunds = useMemo<number>(() => {
-    const bankSum = (Object.values(institutionalBalances) as InstitutionalBalance[])
-      .filter(b => b.type === 'bank')
-      .reduce((acc, b) => acc + b.balance, 0);
-    const cash = Number(institutionalBalances['Cash in Hand']?.balance || 0);
-    return bankSum + cash;
-  }, [institutionalBalances]);
+  const debtOutlooks = useMemo(() => liabilities.map(l => liabilityOutlook(l, transactions, todayKey())), [liabilities, transactions]);
 
-  const netWorth: number = (Object.values(institutionalBalances) as InstitutionalBalance[]).reduce((acc: number, b) => acc + b.balance, 0);
+  const liquidFunds = balanceSheet.liquid;
+  const netWorth = balanceSheet.netWorth;
 
-  const cycleRollover = useMemo(() => {
-    const pastTransactions = transactions.filter(t => new Date(t.date).getTime() < cycleStartDate.getTime());
-    const openingBalancesTotal = bankConnections.reduce((acc: number, conn) => acc + conn.openingBalance, 0) + cashOpeningBalance;
-    
-    const historicalCashflow = pastTransactions.reduce((acc: number, t) => {
-      if (t.institution === '1st National Bank St. Lucia' || t.institution === 'Cash in Hand') {
-        if (t.type === 'income') return acc + t.amount;
-        if (t.type === 'expense' || t.type === 'savings' || t.type === 'withdrawal') return acc - t.amount;
-      }
-      if (t.destinationInstitution === '1st National Bank St. Lucia' || t.destinationInstitution === 'Cash in Hand') {
-        if (t.type === 'transfer' || t.type === 'withdrawal') return acc + t.amount;
-      }
-      return acc;
-    }, 0);
+  const performance = useMemo(() => investments.map(inv => accountPerformance(inv, marketPrices)), [investments, marketPrices]);
 
-    return openingBalancesTotal + historicalCashflow;
-  }, [transactions, cycleStartDate, bankConnections, cashOpeningBalance]);
+  const investmentPnl = useMemo(() => performance.reduce(
+    (acc, p) => ({ unrealized: acc.unrealized + p.unrealized, realized: acc.realized + p.realized }),
+    { unrealized: 0, realized: 0 }
+  ), [performance]);
 
-  const categorySpendData = useMemo(() => {
+  const allocation = useMemo(() => allocationBreakdown(investments, performance, institutionalBalances), [investments, performance, institutionalBalances]);
+
+  // Liquid funds carried into the viewed cycle: the same engine, stopped at its first day
+  const cycleRollover = useMemo(() => {
+    return buildBalanceSheet({ transactions, bankConnections, investments, marketPrices, liabilities, cashOpeningBalance }, viewedCycle.start).liquid;
+  }, [transactions, viewedCycle, bankConnections, investments, marketPrices, liabilities, cashOpeningBalance]);
+
+  // Spend matrix rows for any window; the viewed cycle and its comparison windows share it
+  const categorySpendFor = (period: CyclePeriod, days: number) => {
     const spent: Record<string, number> = {};
     transactions
-      .filter(t => t.type === 'expense' && new Date(t.date) >= cycleStartDate)
+      .filter(t => isExpense(t) && isInPeriod(t.date, period))
       .forEach(t => {
         spent[t.category] = (spent[t.category] || 0) + t.amount;
       });
 
-    return Object.entries(spent).map(([name, amount]) => {
-      const budget = categoryBudgets[name] || 0;
-      const progress = budget > 0 ? (amount / budget) * 100 : 0;
-      const dailyAvg = amount / daysPassedInCycle;
-      return { name, amount, budget, progress, dailyAvg };
-    }).sort((a, b) => b.amount - a.amount);
-  }, [transactions, cycleStartDate, categoryBudgets, daysPassedInCycle]);
+    return rollupCategorySpend(spent, categoryBudgets, categories, days);
+  };
+
+  const categorySpendData = useMemo(() => {
+    return categorySpendFor(viewedCycle, daysPassedInCycle);
+  }, [transactions, viewedCycle, categoryBudgets, categories, daysPassedInCycle]);
+
+  // Per-category amounts (parents and sub-categories) in the comparison windows
+  const spendComparison = useMemo(() => {
+    const amountsIn = (period: CyclePeriod) => {
+      const amounts: Record<string, number> = {};
+      categorySpendFor(period, period.days).forEach(row => {
+        amounts[row.name] = row.amount;
+        row.children.forEach(child => { amounts[child.name] = child.amount; });
+      });
+      return amounts;
+    };
+    const trailing = precedingCycles(budgetCycle, viewedCycle, trailingCycles, recurringIncomes).map(amountsIn);
+    const average: Record<string, number> = {};
+    trailing.forEach(window => Object.entries(window).forEach(([name, amount]) => {
+      average[name] = (average[name] || 0) + amount / trailing.length;
+    }));
+    return {
+      previous: amountsIn(shiftCycle(budgetCycle, viewedCycle, -1, recurringIncomes)),
+      lastYear: amountsIn(sameCycleLastYear(budgetCycle, viewedCycle, recurringIncomes)),
+      average
+    };
+  }, [transactions, viewedCycle, budgetCycle, recurringIncomes, trailingCycles, categoryBudgets, categories]);
 
   const cashflowTrends = useMemo(() => {
     const grouped: Record<string, { income: number; expense: number }> = {};
-    const filtered = transactions.filter(t => t.type === 'income' || t.type === 'expense');
+    // Looking back at a past cycle ends the chart there
+    const filtered = transactions.filter(t => (isIncome(t) || isExpense(t)) && t.date.split('T')[0] < viewedCycle.end);
 
     filtered.forEach(t => {
       const date = new Date(t.date);
@@ -191,6 +196,8 @@ const Dashboard: React.FC<Props> = ({
         label = t.date;
       } else if (trendTimeframe === 'monthly') {
         label = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      } else if (trendTimeframe === 'cycle') {
+        label = cycleContaining(budgetCycle, t.date, recurringIncomes).start;
       } else {
         label = `${date.getFullYear()}`;
       }
@@ -205,27 +212,27 @@ const Dashboard: React.FC<Props> = ({
       .sort((a, b) => a.label.localeCompare(b.label));
 
     if (trendTimeframe === 'daily') return sortedData.slice(-30);
-    if (trendTimeframe === 'monthly') return sortedData.slice(-12);
+    if (trendTimeframe === 'monthly' || trendTimeframe === 'cycle') return sortedData.slice(-12);
     return sortedData;
-  }, [transactions, trendTimeframe]);
+  }, [transactions, trendTimeframe, viewedCycle, budgetCycle, recurringIncomes]);
 
   const unpaidBills = useMemo(() => {
     return recurringExpenses.map(bill => {
       const totalPaid = transactions
-        .filter(t => t.recurringId === bill.id && new Date(t.date) >= cycleStartDate)
+        .filter(t => t.recurringId === bill.id && isInPeriod(t.date, currentCycle))
         .reduce((sum: number, t) => sum + t.amount, 0);
       return { ...bill, remainingAmount: Math.max(0, bill.amount - totalPaid), paidAmount: totalPaid };
     }).filter(bill => bill.remainingAmount > 0.01);
-  }, [recurringExpenses, transactions, cycleStartDate]);
+  }, [recurringExpenses, transactions, currentCycle]);
 
   const unconfirmedIncomes = useMemo(() => {
     return recurringIncomes.map(inc => {
       const totalReceived = transactions
-        .filter(t => t.recurringId === inc.id && t.type === 'income' && new Date(t.date) >= cycleStartDate)
+        .filter(t => t.recurringId === inc.id && t.type === 'income' && isInPeriod(t.date, currentCycle))
         .reduce((sum: number, t) => sum + t.amount, 0);
       return { ...inc, remainingAmount: Math.max(0, inc.amount - totalReceived), receivedAmount: totalReceived };
     }).filter(inc => inc.remainingAmount > 0.01);
-  }, [recurringIncomes, transactions, cycleStartDate]);
+  }, [recurringIncomes, transactions, currentCycle]);
 
   // NOTIFICATION SYSTEM: Identify items due within 3 days or overdue
   const criticalNotifications = useMemo(() => {
@@ -284,7 +291,7 @@ const Dashboard: React.FC<Props> = ({
       setIsGeneratingInsight(true);
       try {
         const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const context = `Actual Income: $${totalActualIncome.toFixed(2)}, Actual Spending: $${totalActualExpenses.toFixed(2)}, Net Worth: $${netWorth.toFixed(2)}, Rollover: $${cycleRollover.toFixed(2)}. Daily Safe Spend: $${dailySafeSpend.toFixed(2)}. Net Margin: $${netMargin.toFixed(2)}.`;
+        const context = `Actual Income: ${symbol}${totalActualIncome.toFixed(2)}, Actual Spending: ${symbol}${totalActualExpenses.toFixed(2)}, Net Worth: ${symbol}${netWorth.toFixed(2)}, Rollover: ${symbol}${cycleRollover.toFixed(2)}. Daily Safe Spend: ${symbol}${dailySafeSpend.toFixed(2)}. Net Margin: ${symbol}${netMargin.toFixed(2)}.`;
         const response = await ai.models.generateContent({ 
           model: 'gemini-3-flash-preview', 
           contents: { parts: [{ text: `Context: ${context}\nAction: One ultra-concise finance tip.` }] }
@@ -371,7 +378,7 @@ const Dashboard: React.FC<Props> = ({
                     <i className={`fas ${notif.isIncome ? 'fa-arrow-trend-up' : 'fa-receipt'} opacity-30`}></i>
                   </div>
                   <h4 className="font-black text-lg tracking-tight leading-none mb-1 truncate">{notif.title}</h4>
-                  <p className="text-sm font-black opacity-80">${notif.amount.toLocaleString()}</p>
+                  <p className="text-sm font-black opacity-80">{symbol}{notif.amount.toLocaleString()}</p>
                 </div>
                 <button 
                   onClick={() => startRecordCommitment(notif.item, notif.isIncome)}
@@ -400,32 +407,52 @@ const Dashboard: React.FC<Props> = ({
         </div>
       </div>
 
+      <div className="flex items-center justify-between bg-white px-4 py-3 rounded-[2rem] border border-slate-100 shadow-sm print:hidden">
+        <button onClick={() => setCycleOffset(o => o - 1)} className="w-9 h-9 flex items-center justify-center rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition" title="Previous cycle">
+          <i className="fas fa-chevron-left text-xs"></i>
+        </button>
+        <div className="text-center">
+          <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">
+            {isCurrentCycle ? 'Current Cycle' : `${-cycleOffset} Cycle${cycleOffset === -1 ? '' : 's'} Ago`} • {describeCycle(budgetCycle, recurringIncomes)}
+          </p>
+          <h3 className="text-xs font-black text-slate-800">{formatPeriod(viewedCycle)}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          {!isCurrentCycle && (
+            <button onClick={() => setCycleOffset(0)} className="px-3 py-2 text-[8px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 rounded-xl transition">Today</button>
+          )}
+          <button onClick={() => setCycleOffset(o => Math.min(0, o + 1))} disabled={isCurrentCycle} className="w-9 h-9 flex items-center justify-center rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition disabled:opacity-30" title="Next cycle">
+            <i className="fas fa-chevron-right text-xs"></i>
+          </button>
+        </div>
+      </div>
+
       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
         <div className="bg-white p-4 rounded-[2rem] border border-slate-100 shadow-sm flex flex-col justify-center">
            <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1 text-center">Rollover</p>
-           <h3 className="text-xs font-black text-slate-500 text-center">${cycleRollover.toLocaleString()}</h3>
+           <h3 className="text-xs font-black text-slate-500 text-center">{symbol}{cycleRollover.toLocaleString()}</h3>
         </div>
         <div className="bg-white p-4 rounded-[2rem] border border-slate-100 shadow-sm flex flex-col justify-center">
            <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1 text-center">Inflow</p>
-           <h3 className="text-xs font-black text-emerald-600 text-center">+${totalActualIncome.toLocaleString()}</h3>
+           <h3 className="text-xs font-black text-emerald-600 text-center">+{symbol}{totalActualIncome.toLocaleString()}</h3>
         </div>
         <div className="bg-white p-4 rounded-[2rem] border border-slate-100 shadow-sm flex flex-col justify-center">
            <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1 text-center">Outflow</p>
-           <h3 className="text-xs font-black text-rose-600 text-center">-${totalActualExpenses.toLocaleString()}</h3>
+           <h3 className="text-xs font-black text-rose-600 text-center">-{symbol}{totalActualExpenses.toLocaleString()}</h3>
         </div>
         <div className={`p-4 rounded-[2rem] border border-slate-100 shadow-sm flex flex-col justify-center ${netMargin >= 0 ? 'bg-emerald-50' : 'bg-rose-50'}`}>
            <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1 text-center">Net Margin</p>
            <h3 className={`text-xs font-black text-center ${netMargin >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
-             {netMargin >= 0 ? '+' : ''}${netMargin.toLocaleString()}
+             {netMargin >= 0 ? '+' : ''}{symbol}{netMargin.toLocaleString()}
            </h3>
         </div>
         <div className="bg-white p-4 rounded-[2rem] border border-slate-100 shadow-sm flex flex-col justify-center">
            <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1 text-center">Cash On Hand</p>
-           <h3 className="text-xs font-black text-indigo-600 text-center">${liquidFunds.toLocaleString()}</h3>
+           <h3 className="text-xs font-black text-indigo-600 text-center">{symbol}{liquidFunds.toLocaleString()}</h3>
         </div>
         <div className="bg-emerald-600 p-4 rounded-[2rem] shadow-xl text-white flex flex-col justify-center ring-4 ring-emerald-500/20">
            <p className="text-white/60 text-[8px] font-black uppercase tracking-widest mb-1">Safe Spend</p>
-           <h3 className="text-sm font-black">${dailySafeSpend.toFixed(0)}<span className="text-[8px] text-white/50 uppercase">/Day</span></h3>
+           <h3 className="text-sm font-black">{symbol}{dailySafeSpend.toFixed(0)}<span className="text-[8px] text-white/50 uppercase">/Day</span></h3>
         </div>
         <div className="bg-indigo-600 p-4 rounded-[2rem] shadow-xl text-white flex flex-col justify-center">
            <p className="text-white/60 text-[8px] font-black uppercase tracking-widest mb-1 text-center">Days left</p>
@@ -433,47 +460,118 @@ const Dashboard: React.FC<Props> = ({
         </div>
         <div className="bg-slate-900 p-4 rounded-[2rem] border border-slate-800 shadow-xl text-white flex flex-col justify-center">
            <p className="text-white/40 text-[8px] font-black uppercase tracking-widest mb-1 text-center">Net Worth</p>
-           <h3 className="text-xs font-black text-center">${netWorth.toLocaleString()}</h3>
+           <h3 className="text-xs font-black text-center">{symbol}{netWorth.toLocaleString()}</h3>
+           {debtTotal > 0 && <p className="text-[7px] font-black uppercase tracking-widest text-rose-400 text-center">After {symbol}{debtTotal.toLocaleString(undefined, { maximumFractionDigits: 0 })} debt</p>}
         </div>
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
         <div className="bg-white p-5 rounded-[2rem] border border-slate-100 shadow-sm">
            <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1">Traditional Bank</p>
-           <h3 className="text-sm font-black text-slate-800">${bankTotal.toLocaleString()}</h3>
+           <h3 className="text-sm font-black text-slate-800">{symbol}{bankTotal.toLocaleString()}</h3>
            <div className="mt-2 h-1 w-full bg-slate-100 rounded-full overflow-hidden">
-             <div className="h-full bg-emerald-500" style={{ width: `${netWorth > 0 ? (bankTotal / netWorth) * 100 : 0}%` }}></div>
+             <div className="h-full bg-emerald-500" style={{ width: `${assetTotal > 0 ? (bankTotal / assetTotal) * 100 : 0}%` }}></div>
            </div>
         </div>
         <div className="bg-white p-5 rounded-[2rem] border border-slate-100 shadow-sm">
            <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1">Credit Union</p>
-           <h3 className="text-sm font-black text-slate-800">${cuTotal.toLocaleString()}</h3>
+           <h3 className="text-sm font-black text-slate-800">{symbol}{cuTotal.toLocaleString()}</h3>
            <div className="mt-2 h-1 w-full bg-slate-100 rounded-full overflow-hidden">
-             <div className="h-full bg-teal-500" style={{ width: `${netWorth > 0 ? (cuTotal / netWorth) * 100 : 0}%` }}></div>
+             <div className="h-full bg-teal-500" style={{ width: `${assetTotal > 0 ? (cuTotal / assetTotal) * 100 : 0}%` }}></div>
            </div>
         </div>
         <div className="bg-white p-5 rounded-[2rem] border border-slate-100 shadow-sm">
-           <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1">Crypto (Digital)</p>
-           <h3 className="text-sm font-black text-slate-800">${cryptoTotal.toLocaleString()}</h3>
+           <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1">Investments</p>
+           <h3 className="text-sm font-black text-slate-800">{symbol}{investmentTotal.toLocaleString()}</h3>
+           <div className="flex flex-wrap gap-x-2"><Pnl label="Unrealized" value={investmentPnl.unrealized} symbol={symbol} />{investmentPnl.realized !== 0 && <Pnl label="Realized" value={investmentPnl.realized} symbol={symbol} />}</div>
            <div className="mt-2 h-1 w-full bg-slate-100 rounded-full overflow-hidden">
-             <div className="h-full bg-yellow-500" style={{ width: `${netWorth > 0 ? (cryptoTotal / netWorth) * 100 : 0}%` }}></div>
+             <div className="h-full bg-indigo-500" style={{ width: `${assetTotal > 0 ? (investmentTotal / assetTotal) * 100 : 0}%` }}></div>
            </div>
         </div>
         <div className="bg-white p-5 rounded-[2rem] border border-slate-100 shadow-sm">
-           <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-1">Other Investments</p>
-           <h3 className="text-sm font-black text-slate-800">${vanguardTotal.toLocaleString()}</h3>
-           <div className="mt-2 h-1 w-full bg-slate-100 rounded-full overflow-hidden">
-             <div className="h-full bg-rose-500" style={{ width: `${netWorth > 0 ? (vanguardTotal / netWorth) * 100 : 0}%` }}></div>
+           <p className="text-slate-400 text-[8px] font-black uppercase tracking-widest mb-2">Allocation</p>
+           <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden flex">
+             {allocation.map(slice => (
+               <div key={slice.assetClass} className="h-full" style={{ width: `${slice.share * 100}%`, backgroundColor: slice.color }} title={`${slice.label}: ${symbol}${slice.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}></div>
+             ))}
+           </div>
+           <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1">
+             {allocation.map(slice => (
+               <span key={slice.assetClass} className="text-[8px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1">
+                 <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: slice.color }}></span>{slice.label} {(slice.share * 100).toFixed(0)}%
+               </span>
+             ))}
+             {allocation.length === 0 && <span className="text-[8px] font-black uppercase tracking-widest text-slate-300">Nothing invested yet</span>}
            </div>
         </div>
       </div>
 
+      <NetWorthTrend history={netWorthHistory} transactions={transactions} symbol={symbol} onRebuild={onRebuildNetWorthHistory} />
+
+      {debtOutlooks.length > 0 && (
+        <DebtOverview outlooks={debtOutlooks} symbol={symbol} accountNames={bankConnections.filter(c => c.institutionType !== 'investment').map(c => c.institution)} onPay={onPayLiability} />
+      )}
+
+      {performance.some(p => p.holdings.length > 0 || p.sales.length > 0) && (
+        <section className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm">
+          <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.1em] mb-6">Portfolio Performance</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {performance.map(p => {
+              const account = investments.find(inv => inv.id === p.accountId);
+              return (
+                <div key={p.accountId} className="p-6 bg-slate-50/50 rounded-[2rem] border border-slate-100">
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <p className="text-xs font-black text-slate-800">{account?.name || p.provider}{account && <span className="ml-2 text-[8px] font-black uppercase tracking-widest text-slate-400"><i className={`fas ${assetClassInfo(assetClassOf(account)).icon} mr-1`}></i>{assetClassInfo(assetClassOf(account)).label}</span>}</p>
+                      <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{symbol}{p.value.toLocaleString(undefined, { maximumFractionDigits: 2 })} • Cost {symbol}{p.cost.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+                    </div>
+                    <select
+                      value={account?.costBasisMethod || 'fifo'}
+                      onChange={e => onUpdateInvestment?.(p.accountId, { costBasisMethod: e.target.value as CostBasisMethod })}
+                      disabled={!onUpdateInvestment}
+                      className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-[9px] font-black uppercase tracking-widest outline-none focus:ring-2 focus:ring-indigo-500"
+                      title="Which lots a sale consumes"
+                    >
+                      {COST_BASIS_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex gap-3 mb-4">
+                    <Pnl label="Unrealized" value={p.unrealized} symbol={symbol} />
+                    <Pnl label="Realized" value={p.realized} symbol={symbol} />
+                  </div>
+                  <div className="space-y-2">
+                    {p.holdings.map(h => (
+                      <div key={h.symbol} className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-xl">
+                        <div>
+                          <p className="text-xs font-black text-slate-800">{h.symbol}</p>
+                          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{h.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} units • {symbol}{h.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+                        </div>
+                        <div className="text-right">
+                          <Pnl value={h.unrealized} symbol={symbol} />
+                          {h.cost > 0 && <p className="text-[8px] text-slate-400 font-black">{((h.unrealized / h.cost) * 100).toFixed(1)}%</p>}
+                        </div>
+                      </div>
+                    ))}
+                    {p.sales.slice(-3).reverse().map(sale => (
+                      <div key={sale.tradeId} className="flex items-center justify-between px-3 py-2 text-[9px] font-bold text-slate-500">
+                        <span>Sold {sale.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} {sale.symbol} • {sale.date}{sale.unmatched > 0 && <span className="text-amber-600" title="Sold more than the known lots; the excess has no cost basis"> • partial basis</span>}</span>
+                        <Pnl value={sale.gain} symbol={symbol} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <section className="lg:col-span-2 bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm h-[450px]">
           <div className="flex justify-between items-center mb-10">
             <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.1em]">Cashflow Trajectory</h3>
             <div className="flex bg-slate-50 p-1 rounded-xl">
-              {(['daily', 'monthly', 'yearly'] as Timeframe[]).map(tf => (
+              {(['daily', 'monthly', 'cycle', 'yearly'] as Timeframe[]).map(tf => (
                 <button key={tf} onClick={() => setTrendTimeframe(tf)} className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${trendTimeframe === tf ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{tf}</button>
               ))}
             </div>
@@ -503,7 +601,15 @@ const Dashboard: React.FC<Props> = ({
         <section className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm h-[450px] flex flex-col">
           <div className="flex justify-between items-center mb-6">
             <h3 className="font-black text-slate-800 uppercase text-[10px] tracking-[0.2em]">Category Spend Matrix</h3>
-            <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Active Cycle</span>
+            <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{isCurrentCycle ? 'Active Cycle' : formatPeriod(viewedCycle)}</span>
+          </div>
+          <div className="flex items-center justify-between mb-4 px-1">
+            <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Trailing Average</span>
+            <div className="flex bg-slate-50 p-1 rounded-lg">
+              {TRAILING_WINDOWS.map(n => (
+                <button key={n} onClick={() => setTrailingCycles(n)} className={`px-2.5 py-1 rounded-md text-[8px] font-black uppercase tracking-widest transition-all ${trailingCycles === n ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{n}</button>
+              ))}
+            </div>
           </div>
           <div className="flex-1 overflow-y-auto custom-scrollbar space-y-5 pr-2">
             {categorySpendData.map((cat, idx) => {
@@ -513,6 +619,7 @@ const Dashboard: React.FC<Props> = ({
                   <div className="flex justify-between items-end px-1">
                     <div>
                       <div className="flex items-center gap-2">
+                        <i className={`fas ${cat.icon} text-[9px]`} style={{ color: cat.color }}></i>
                         <p className="text-[11px] font-black text-slate-800">{cat.name}</p>
                         {!isEditing && onUpdateCategoryBudget && (
                           <button 
@@ -523,10 +630,15 @@ const Dashboard: React.FC<Props> = ({
                           </button>
                         )}
                       </div>
-                      <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Avg: ${cat.dailyAvg.toFixed(2)}/day</p>
+                      <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Avg: {symbol}{cat.dailyAvg.toFixed(2)}/day • {trailingCycles}-cycle avg {symbol}{(spendComparison.average[cat.name] || 0).toFixed(0)}</p>
+                      <div className="flex gap-1 mt-1">
+                        <SpendDelta label="Prev" current={cat.amount} baseline={spendComparison.previous[cat.name]} />
+                        <SpendDelta label="Last Yr" current={cat.amount} baseline={spendComparison.lastYear[cat.name]} />
+                        <SpendDelta label="Avg" current={cat.amount} baseline={spendComparison.average[cat.name]} />
+                      </div>
                     </div>
                     <div className="text-right">
-                      <p className="text-[11px] font-black text-slate-900">${cat.amount.toLocaleString()}</p>
+                      <p className="text-[11px] font-black text-slate-900">{symbol}{cat.amount.toLocaleString()}</p>
                       {isEditing ? (
                         <div className="flex items-center gap-1 mt-1 animate-in fade-in slide-in-from-right-1">
                           <input 
@@ -543,7 +655,7 @@ const Dashboard: React.FC<Props> = ({
                         </div>
                       ) : (
                         <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">
-                          {cat.budget > 0 ? `${cat.progress.toFixed(0)}% of $${cat.budget}` : 'Uncapped'}
+                          {cat.budget > 0 ? `${cat.progress.toFixed(0)}% of ${symbol}${cat.budget}` : 'Uncapped'}
                         </p>
                       )}
                     </div>
@@ -554,6 +666,23 @@ const Dashboard: React.FC<Props> = ({
                       style={{ width: `${Math.min(100, cat.budget > 0 ? cat.progress : 100)}%` }}
                     ></div>
                   </div>
+                  {cat.children.length > 0 && (
+                    <div className="pl-4 pt-1 space-y-1 border-l-2 border-slate-100 ml-1">
+                      {cat.children.map(child => (
+                        <div key={child.name} className="flex justify-between items-center text-[9px] font-bold text-slate-500">
+                          <span className="flex items-center gap-1.5">
+                            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: child.color }}></span>
+                            {child.name}
+                          </span>
+                          <span className="flex items-center gap-1.5">
+                            <SpendDelta label="Prev" current={child.amount} baseline={spendComparison.previous[child.name]} />
+                            {symbol}{child.amount.toLocaleString()}
+                            {child.budget > 0 && <span className={child.progress > 90 ? 'text-rose-500' : 'text-slate-400'}> / {symbol}{child.budget}</span>}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -589,7 +718,7 @@ const Dashboard: React.FC<Props> = ({
                         <p className="font-black text-[11px] text-slate-800">{bill.description}</p>
                         <div className="flex items-center gap-2 mt-0.5">
                           <p className="text-[8px] font-black text-slate-400 uppercase">
-                            {isIncome ? 'Expect' : 'Bill'}: ${bill.amount}
+                            {isIncome ? 'Expect' : 'Bill'}: {symbol}{bill.amount}
                           </p>
                           {hasPaidSomething && (
                             <span className="px-1.5 py-0.5 bg-indigo-100 text-indigo-600 text-[7px] font-black uppercase rounded">Partial</span>
@@ -601,7 +730,7 @@ const Dashboard: React.FC<Props> = ({
                       </div>
                     </div>
                     <div className="text-right">
-                       <p className="text-[11px] font-black text-indigo-600">${bill.remainingAmount.toFixed(2)}</p>
+                       <p className="text-[11px] font-black text-indigo-600">{symbol}{bill.remainingAmount.toFixed(2)}</p>
                        <p className="text-[7px] font-black text-slate-400 uppercase">Balance Due</p>
                     </div>
                   </div>
@@ -683,7 +812,7 @@ const Dashboard: React.FC<Props> = ({
                         <p className="text-[8px] font-black text-indigo-400 uppercase tracking-widest">{goal.institution}</p>
                       </div>
                       <div className="text-right">
-                        <p className="text-[11px] font-black text-slate-900">${goal.currentAmount.toLocaleString()} / ${goal.targetAmount.toLocaleString()}</p>
+                        <p className="text-[11px] font-black text-slate-900">{symbol}{goal.currentAmount.toLocaleString()} / {symbol}{goal.targetAmount.toLocaleString()}</p>
                         <p className="text-[8px] font-black text-slate-400 uppercase">Savings Target</p>
                       </div>
                     </div>
@@ -706,7 +835,7 @@ const Dashboard: React.FC<Props> = ({
                           <p className="text-[8px] font-black text-emerald-400 uppercase tracking-widest">{goal.provider} Portfolio</p>
                         </div>
                         <div className="text-right">
-                          <p className="text-[11px] font-black text-slate-900">${currentVal.toLocaleString()} / ${goal.targetAmount.toLocaleString()}</p>
+                          <p className="text-[11px] font-black text-slate-900">{symbol}{currentVal.toLocaleString()} / {symbol}{goal.targetAmount.toLocaleString()}</p>
                           <p className="text-[8px] font-black text-slate-400 uppercase">Asset Target</p>
                         </div>
                       </div>
@@ -732,7 +861,7 @@ const Dashboard: React.FC<Props> = ({
             {marketPrices.slice(0, 4).map(p => (
               <div key={p.symbol} className="p-4 bg-white/5 border border-white/5 rounded-[2rem] flex flex-col justify-between">
                 <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{p.symbol}</span>
-                <h4 className="text-sm font-black mt-2">${p.price.toLocaleString()}</h4>
+                <h4 className="text-sm font-black mt-2">{symbol}{p.price.toLocaleString()}</h4>
                 <div className={`text-[8px] font-black mt-1 ${p.change24h >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
                   {p.change24h > 0 ? '+' : ''}{p.change24h.toFixed(1)}%
                 </div>
@@ -741,7 +870,7 @@ const Dashboard: React.FC<Props> = ({
             {marketPrices.length > 4 && marketPrices.slice(4).map(p => (
               <div key={p.symbol} className="p-4 bg-white/5 border border-white/5 rounded-[2rem] flex flex-col justify-between">
                 <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{p.symbol}</span>
-                <h4 className="text-sm font-black mt-2">${p.price.toLocaleString()}</h4>
+                <h4 className="text-sm font-black mt-2">{symbol}{p.price.toLocaleString()}</h4>
                 <div className={`text-[8px] font-black mt-1 ${p.change24h >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
                   {p.change24h > 0 ? '+' : ''}{p.change24h.toFixed(1)}%
                 </div>
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Liability } from '../types';
+import { LiabilityOutlook, liabilityKindInfo, nextPaymentDate } from '../services/liabilityService';
+import { todayKey } from '../services/budgetCycleService';
+
+interface Props {
+  outlooks: LiabilityOutlook[];
+  symbol: string;
+  accountNames: string[];
+  onPay?: (liability: Liability, amount: number, from: string) => void;
+}
+
+const money = (symbol: string, n: number) => `${symbol}${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const DebtOverview: React.FC<Props> = ({ outlooks, symbol, accountNames, onPay }) => {
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [payment, setPayment] = useState({ amount: '', from: accountNames[0] || 'Cash in Hand' });
+
+  const totalOwed = outlooks.reduce((acc, o) => acc + o.statement.owed, 0);
+
+  return (
+    <section className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.1em]">Debts</h3>
+        <span className="text-[9px] font-black uppercase tracking-widest text-rose-500">{money(symbol, totalOwed)} owed</span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {outlooks.map(({ liability, statement, schedule }) => {
+          const kind = liabilityKindInfo(liability.kind);
+          const isPaying = payingId === liability.id;
+          return (
+            <div key={liability.id} className="p-6 bg-slate-50/50 rounded-[2rem] border border-slate-100 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-xs font-black text-slate-800 truncate"><i className={`fas ${kind.icon} text-rose-400 mr-2`}></i>{liability.name}</p>
+                  <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{kind.label} • {liability.apr}% APR • Min {money(symbol, liability.minimumPayment)}/mo</p>
+                </div>
+                <p className="text-sm font-black text-rose-600 whitespace-nowrap">-{money(symbol, statement.owed)}</p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="p-2 bg-white border border-slate-100 rounded-xl">
+                  <p className="text-[7px] font-black uppercase tracking-widest text-slate-400">Next Due</p>
+                  <p className="text-[10px] font-black text-slate-700">{statement.owed > 0.005 ? nextPaymentDate(liability.paymentDay, todayKey()) : '—'}</p>
+                </div>
+                <div className="p-2 bg-white border border-slate-100 rounded-xl">
+                  <p className="text-[7px] font-black uppercase tracking-widest text-slate-400">Payoff</p>
+                  <p className={`text-[10px] font-black ${schedule.payoffDate || statement.owed <= 0.005 ? 'text-slate-700' : 'text-amber-600'}`}>
+                    {statement.owed <= 0.005 ? 'Paid off' : schedule.payoffDate || 'Never at min'}
+                  </p>
+                </div>
+                <div className="p-2 bg-white border border-slate-100 rounded-xl">
+                  <p className="text-[7px] font-black uppercase tracking-widest text-slate-400">Interest Paid</p>
+                  <p className="text-[10px] font-black text-slate-700">{money(symbol, statement.interestPaid)}</p>
+                </div>
+              </div>
+
+              {statement.payments.length > 0 && (
+                <div className="space-y-1">
+                  {statement.payments.slice(-3).reverse().map(p => (
+                    <div key={p.transactionId} className="flex items-center justify-between px-3 py-1.5 text-[9px] font-bold text-slate-500">
+                      <span>{p.date} • Paid {money(symbol, p.amount)}</span>
+                      <span><span className="text-rose-500">Interest {money(symbol, p.interest)}</span> • <span className="text-emerald-600">Principal {money(symbol, p.principal)}</span></span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {onPay && statement.owed > 0.005 && (isPaying ? (
+                <div className="flex gap-2">
+                  <input type="number" step="any" placeholder="Amount" value={payment.amount} onChange={e => setPayment({ ...payment, amount: e.target.value })} className="w-28 p-3 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs" />
+                  <select value={payment.from} onChange={e => setPayment({ ...payment, from: e.target.value })} className="flex-1 min-w-0 p-3 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs">
+                    <option value="Cash in Hand">Cash in Hand</option>
+                    {accountNames.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                  <button
+                    onClick={() => {
+                      const amount = parseFloat(payment.amount);
+                      if (!(amount > 0)) return;
+                      onPay(liability, amount, payment.from);
+                      setPayingId(null);
+                    }}
+                    className="px-4 bg-slate-900 text-white font-black rounded-xl text-[9px] uppercase tracking-widest hover:bg-indigo-600 transition"
+                  >Pay</button>
+                  <button onClick={() => setPayingId(null)} className="px-2 text-slate-400 hover:text-slate-600"><i className="fas fa-times text-xs"></i></button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => { setPayingId(liability.id); setPayment({ ...payment, amount: Math.min(liability.minimumPayment, statement.owed).toFixed(2) }); }}
+                  className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800"
+                ><i className="fas fa-money-bill-transfer mr-1"></i> Record Payment</button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default DebtOverview;
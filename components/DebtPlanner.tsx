@@ -0,0 +1,136 @@
+
+import React from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { PAYOFF_STRATEGIES, PayoffPlan, PayoffStrategy, PlannerDebt } from '../services/debtPlannerService';
+
+interface Props {
+  debts: PlannerDebt[];
+  symbol: string;
+  strategy: PayoffStrategy;
+  extra: number;
+  customOrder: string[];
+  plan: PayoffPlan;
+  baseline: PayoffPlan;
+  appliedCount: number;
+  onChangeStrategy: (strategy: PayoffStrategy) => void;
+  onChangeExtra: (extra: number) => void;
+  onChangeCustomOrder: (order: string[]) => void;
+  onApply: () => void;
+}
+
+const DEBT_COLORS = ['#ef4444', '#f97316', '#eab308', '#8b5cf6', '#ec4899', '#0ea5e9', '#14b8a6', '#64748b'];
+
+const money = (symbol: string, n: number) => `${symbol}${n.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const DebtPlanner: React.FC<Props> = ({ debts, symbol, strategy, extra, customOrder, plan, baseline, appliedCount, onChangeStrategy, onChangeExtra, onChangeCustomOrder, onApply }) => {
+  const byId = Object.fromEntries(debts.map(d => [d.id, d]));
+  const minimums = debts.reduce((acc: number, d) => acc + d.minimumPayment, 0);
+  const interestSaved = baseline.totalInterest - plan.totalInterest;
+  const chartData = plan.months.map(m => ({ month: m.month, ...m.balances }));
+
+  const move = (id: string, by: number) => {
+    const order = [...plan.order];
+    const i = order.indexOf(id);
+    const j = i + by;
+    if (i < 0 || j < 0 || j >= order.length) return;
+    [order[i], order[j]] = [order[j], order[i]];
+    onChangeCustomOrder(order);
+    if (strategy !== 'custom') onChangeStrategy('custom');
+  };
+
+  return (
+    <section className="bg-white p-10 rounded-[3.5rem] border border-slate-100 shadow-sm">
+      <div className="flex flex-wrap justify-between items-start gap-6 mb-8">
+        <div>
+          <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.2em]">Debt Payoff Planner</h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase mt-1 tracking-widest">{debts.length} debts • {money(symbol, minimums)} in minimums each month</p>
+        </div>
+        <div className="flex bg-slate-50 p-1 rounded-xl">
+          {PAYOFF_STRATEGIES.map(s => (
+            <button key={s.id} onClick={() => onChangeStrategy(s.id)} title={s.hint} className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${strategy === s.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{s.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="space-y-6">
+          <div>
+            <div className="flex justify-between items-center mb-3">
+              <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Extra Each Month</label>
+              <span className="text-sm font-black text-indigo-600">{money(symbol, extra)}</span>
+            </div>
+            <input
+              type="range" min="0" max={Math.max(2000, Math.ceil(minimums * 2 / 50) * 50)} step="25"
+              value={extra}
+              onChange={e => onChangeExtra(parseInt(e.target.value))}
+              className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-4 bg-slate-50 border border-slate-100 rounded-2xl">
+              <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">Debt Free</p>
+              <p className={`text-sm font-black ${plan.payoffDate ? 'text-slate-800' : 'text-amber-600'}`}>{plan.payoffDate || 'Never'}</p>
+              <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mt-1">Minimums only: {baseline.payoffDate || 'never'}</p>
+            </div>
+            <div className="p-4 bg-slate-50 border border-slate-100 rounded-2xl">
+              <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">Interest Saved</p>
+              <p className={`text-sm font-black ${interestSaved > 0.5 ? 'text-emerald-600' : 'text-slate-800'}`}>{baseline.payoffDate ? money(symbol, Math.max(0, interestSaved)) : '—'}</p>
+              <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mt-1">{money(symbol, plan.totalInterest)} interest in total</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[8px] font-black uppercase tracking-widest text-slate-400">Payoff Order</p>
+            {plan.order.map((id, i) => {
+              const d = byId[id];
+              if (!d) return null;
+              return (
+                <div key={id} className="flex items-center gap-3 p-3 bg-slate-50 border border-slate-100 rounded-2xl">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: DEBT_COLORS[debts.indexOf(d) % DEBT_COLORS.length] }}></span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black text-slate-800 truncate">{d.name}</p>
+                    <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">
+                      {money(symbol, d.owed)} • {d.apr}% • Paid off {plan.payoffDates[id] || 'never'}
+                    </p>
+                  </div>
+                  <span className="text-[9px] font-black text-indigo-600 whitespace-nowrap">{money(symbol, plan.firstPayments[id] || 0)}/mo</span>
+                  <div className="flex flex-col">
+                    <button onClick={() => move(id, -1)} disabled={i === 0} className="text-slate-300 hover:text-indigo-600 disabled:opacity-30"><i className="fas fa-chevron-up text-[9px]"></i></button>
+                    <button onClick={() => move(id, 1)} disabled={i === plan.order.length - 1} className="text-slate-300 hover:text-indigo-600 disabled:opacity-30"><i className="fas fa-chevron-down text-[9px]"></i></button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <button onClick={onApply} className="w-full py-3 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-600 transition">
+            <i className="fas fa-calendar-check mr-2"></i> {appliedCount > 0 ? 'Replace Planned Payments' : 'Use This Plan'}
+          </button>
+          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">
+            Adds a monthly bill per debt for the first month's payment{appliedCount > 0 ? ` • ${appliedCount} from an earlier plan are replaced` : ''}. Apply again when a debt is cleared so its payment rolls over.
+          </p>
+        </div>
+
+        <div className="lg:col-span-2 h-[380px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="month" axisLine={false} tickLine={false} minTickGap={30} tick={{ fontSize: 9, fontWeight: 800, fill: '#94a3b8' }} />
+              <YAxis axisLine={false} tickLine={false} width={60} tick={{ fontSize: 9, fontWeight: 800, fill: '#94a3b8' }} />
+              <Tooltip
+                contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', fontSize: '11px', fontWeight: 'bold' }}
+                formatter={(value: any, name: any) => [money(symbol, Number(value)), name]}
+              />
+              {debts.map((d, i) => (
+                <Area key={d.id} type="monotone" dataKey={d.id} name={d.name} stackId="debts" stroke={DEBT_COLORS[i % DEBT_COLORS.length]} fill={DEBT_COLORS[i % DEBT_COLORS.length]} fillOpacity={0.25} strokeWidth={2} />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default DebtPlanner;
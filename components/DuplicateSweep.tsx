@@ -0,0 +1,80 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { sweepDuplicates } from '../services/duplicateDetectionService';
+
+interface Props {
+  transactions: Transaction[];
+  onMerge: (keepId: string, duplicateId: string) => void;
+  onKeepBoth: (firstId: string, secondId: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const DuplicateSweep: React.FC<Props> = ({ transactions, onMerge, onKeepBoth, onDiscard }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Only sweep once asked; the list then re-evaluates as pairs are resolved.
+  const pairs = useMemo(() => isOpen ? sweepDuplicates(transactions) : [], [isOpen, transactions]);
+
+  if (!isOpen) {
+    return (
+      <div className="mb-6 flex justify-end px-2">
+        <button onClick={() => setIsOpen(true)} className="text-[9px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg transition">
+          <i className="fas fa-clone mr-1.5"></i> Scan Ledger for Duplicates
+        </button>
+      </div>
+    );
+  }
+
+  const describe = (t: Transaction) => (
+    <div className="min-w-0">
+      <p className="text-xs font-black text-slate-800 truncate">{t.vendor || t.description}</p>
+      <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{t.date}{t.institution && ` • ${t.institution}`}</p>
+    </div>
+  );
+
+  return (
+    <section className="mb-10 animate-in slide-in-from-top-4 duration-500">
+      <div className="flex items-center justify-between mb-4 px-2">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-amber-100 text-amber-600 rounded-lg flex items-center justify-center text-sm">
+            <i className="fas fa-clone"></i>
+          </div>
+          <div>
+            <h3 className="font-black text-slate-800 uppercase text-[10px] tracking-widest">Duplicate Sweep</h3>
+            <p className="text-[9px] text-slate-400 font-bold uppercase">{pairs.length} Suspected Pair{pairs.length === 1 ? '' : 's'} in Ledger</p>
+          </div>
+        </div>
+        <button onClick={() => setIsOpen(false)} className="text-[9px] font-black text-slate-400 uppercase tracking-widest hover:bg-slate-100 px-3 py-1.5 rounded-lg transition">Close</button>
+      </div>
+
+      {pairs.length === 0 ? (
+        <p className="p-6 text-center text-[10px] font-black uppercase tracking-widest text-slate-400 bg-white border-2 border-slate-100 rounded-[2rem]">
+          <i className="fas fa-check-circle text-emerald-500 mr-2"></i> No duplicates found
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {pairs.map(({ keep, duplicate, score, reasons }) => (
+            <div key={`${keep.id}-${duplicate.id}`} className="bg-white border-2 border-amber-100 rounded-[2rem] p-5 shadow-sm">
+              <div className="flex justify-between items-center mb-3">
+                <p className="text-[9px] font-black text-amber-700 uppercase tracking-widest">{Math.round(score * 100)}% Match</p>
+                <p className="font-black text-slate-900">${keep.amount.toFixed(2)}</p>
+              </div>
+              <div className="space-y-2 mb-3">
+                <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">{describe(keep)}</div>
+                <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">{describe(duplicate)}</div>
+              </div>
+              <p className="text-[8px] text-amber-600 font-bold mb-3">{reasons.join(' • ')}</p>
+              <div className="flex gap-2">
+                <button onClick={() => onMerge(keep.id, duplicate.id)} className="flex-1 py-3 bg-amber-500 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-amber-600 transition">Merge</button>
+                <button onClick={() => onKeepBoth(keep.id, duplicate.id)} className="flex-1 py-3 bg-slate-100 text-slate-600 text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-slate-200 transition">Keep Both</button>
+                <button onClick={() => onDiscard(duplicate.id)} title="Delete the later entry" className="w-12 py-3 bg-rose-50 text-rose-500 rounded-xl hover:bg-rose-100 transition"><i className="fas fa-trash-alt"></i></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DuplicateSweep;
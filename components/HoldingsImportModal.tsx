@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { InvestmentAccount, InvestmentTrade } from '../types';
+import { parseHoldingsFile, balanceAgainstReport, HoldingsProvider } from '../services/holdingsImportService';
+import { mergeTrades, holdingsFromTrades } from '../services/costBasisService';
+
+interface Props {
+  fileName: string;
+  text: string;
+  investments: InvestmentAccount[];
+  onImport: (provider: HoldingsProvider, trades: InvestmentTrade[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const HoldingsImportModal: React.FC<Props> = ({ fileName, text, investments, onImport, onClose }) => {
+  const parsed = useMemo(() => parseHoldingsFile(text), [text]);
+  const account = investments.find(inv => inv.provider === parsed?.provider);
+
+  // Positions the report shows but the history does not explain are topped up at the report's price
+  const { incoming, balancing, holdings } = useMemo(() => {
+    if (!parsed) return { incoming: [], balancing: [], holdings: [] };
+    const existing = account?.trades || [];
+    const known = new Set(existing.map(t => t.id));
+    const fresh = parsed.trades.filter(t => !known.has(t.id));
+    const merged = mergeTrades(existing, fresh);
+    const adjustments = balanceAgainstReport(merged, parsed.reported, new Date().toISOString().split('T')[0]);
+    return {
+      incoming: fresh,
+      balancing: adjustments,
+      holdings: holdingsFromTrades(account?.holdings || [], mergeTrades(merged, adjustments), account?.costBasisMethod)
+    };
+  }, [parsed, account]);
+
+  if (!parsed) return null;
+  const trades = [...incoming, ...balancing];
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-md">
+      <div className="bg-white w-full max-w-3xl rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-800 mb-1 flex items-center gap-3">
+            <i className={`fas ${parsed.provider === 'Binance' ? 'fa-coins text-yellow-500' : 'fa-chart-pie text-rose-700'}`}></i> {parsed.provider} Holdings Import
+          </h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest truncate">
+            {fileName} • {parsed.provider === 'Binance' ? 'Trade History' : 'Holdings & Transactions'} • Offline Parser
+          </p>
+        </div>
+
+        <div className="p-8 overflow-y-auto no-scrollbar space-y-6">
+          {parsed.warnings.length > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-100 rounded-2xl space-y-1">
+              {parsed.warnings.map((w, i) => (
+                <p key={i} className="text-[10px] font-bold text-amber-700"><i className="fas fa-triangle-exclamation mr-2"></i>{w}</p>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">New Trades</h4>
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                {incoming.length} new
+                {parsed.trades.length > incoming.length && <> • {parsed.trades.length - incoming.length} already imported</>}
+                {parsed.skipped > 0 && <span className="text-amber-600"> • {parsed.skipped} skipped</span>}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {trades.slice(0, PREVIEW_ROWS).map(trade => (
+                <div key={trade.id} className="flex items-center justify-between p-3 bg-slate-50 border border-slate-100 rounded-xl">
+                  <div className="min-w-0">
+                    <p className="text-xs font-black text-slate-800 truncate">
+                      {trade.side === 'buy' ? 'Buy' : 'Sell'} {trade.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} {trade.symbol}
+                      {trade.estimated && <span className="ml-2 text-[8px] font-black uppercase tracking-widest text-amber-600">Balancing</span>}
+                    </p>
+                    <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{trade.date} • @ {trade.price.toLocaleString(undefined, { maximumFractionDigits: 8 })} {trade.currency}</p>
+                  </div>
+                  <span className={`text-xs font-black ${trade.side === 'buy' ? 'text-indigo-600' : 'text-emerald-600'}`}>
+                    {(trade.quantity * trade.price).toLocaleString(undefined, { style: 'currency', currency: trade.currency })}
+                  </span>
+                </div>
+              ))}
+              {trades.length > PREVIEW_ROWS && (
+                <p className="text-center text-[9px] font-black uppercase tracking-widest text-slate-400">+ {trades.length - PREVIEW_ROWS} more</p>
+              )}
+              {trades.length === 0 && (
+                <p className="p-6 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">Nothing new in this file</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Resulting Positions</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {holdings.map(h => (
+                <div key={h.symbol} className="p-4 bg-slate-50/50 border border-slate-100 rounded-2xl">
+                  <p className="text-xs font-black text-slate-800">{h.symbol}</p>
+                  <p className="text-[10px] font-bold text-slate-500">{h.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} units</p>
+                  <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                    Cost {h.purchasePrice.toLocaleString(undefined, { maximumFractionDigits: 2 })} {h.currency || 'USD'} • {h.lots?.length || 0} lots
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-slate-100 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-4 text-slate-400 font-black text-[11px] uppercase tracking-widest">Skip File</button>
+          <button
+            onClick={() => onImport(parsed.provider, trades)}
+            disabled={trades.length === 0}
+            className="flex-1 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-2xl shadow-xl uppercase tracking-widest text-[11px] transition disabled:opacity-50"
+          >
+            Import {trades.length} Trades
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HoldingsImportModal;
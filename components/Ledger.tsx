@@ -0,0 +1,287 @@
+
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { Transaction, TransactionType, BankConnection, Category, FxRate, InvestmentAccount } from '../types';
+import { categoryOptions, findCategory, childrenOf } from '../services/categoryService';
+import { convertAmount, currencySymbol, transactionCurrency } from '../services/currencyService';
+import { isIncome, isExpense } from '../services/balanceService';
+
+interface Props {
+  transactions: Transaction[];
+  bankConnections: BankConnection[];
+  investments: InvestmentAccount[];
+  categories: Category[];
+  baseCurrency: string;
+  fxRates: FxRate[];
+  lockedIds?: Set<string>; // reconciled against a statement
+  onEdit: (t: Transaction) => void;
+  onRecategorize: (ids: string[], category: string) => void;
+  onDeleteMany: (ids: string[]) => void;
+}
+
+interface LedgerFilters {
+  search: string;
+  from: string;
+  to: string;
+  category: string;
+  type: TransactionType | '';
+  institution: string;
+}
+
+const EMPTY_FILTERS: LedgerFilters = { search: '', from: '', to: '', category: '', type: '', institution: '' };
+
+// Virtualized list geometry: only rows inside the viewport (plus overscan) are mounted
+const ROW_HEIGHT = 68;
+const VIEWPORT_HEIGHT = 620;
+const OVERSCAN = 6;
+
+const searchableText = (t: Transaction) => [
+  t.description,
+  t.vendor,
+  t.notes,
+  ...(t.lineItems || []).map(li => li.name)
+].filter(Boolean).join(' ').toLowerCase();
+
+const Ledger: React.FC<Props> = ({ transactions, bankConnections, investments, categories, baseCurrency, fxRates, lockedIds, onEdit, onRecategorize, onDeleteMany }) => {
+  const [filters, setFilters] = useState<LedgerFilters>(EMPTY_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const institutions = useMemo(() => Array.from(new Set([
+    'Cash in Hand',
+    ...bankConnections.map(c => c.institution),
+    ...transactions.map(t => t.institution).filter((i): i is string => !!i)
+  ])), [bankConnections, transactions]);
+
+  const options = useMemo(() => categoryOptions(categories), [categories]);
+  // Filter also offers archived or unknown names still present in the ledger
+  const filterNames = useMemo(() => Array.from(new Set([...options.map(o => o.name), ...transactions.map(t => t.category)])), [options, transactions]);
+
+  const filtered = useMemo(() => {
+    const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+    // A parent category also matches its sub-categories
+    const parent = filters.category ? findCategory(categories, filters.category) : undefined;
+    const categoryScope = new Set([filters.category, ...(parent ? childrenOf(categories, parent.id).map(c => c.name) : [])]);
+    return transactions
+      .filter(t => {
+        if (filters.from && t.date < filters.from) return false;
+        if (filters.to && t.date > filters.to) return false;
+        if (filters.category && !categoryScope.has(t.category)) return false;
+        if (filters.type && t.type !== filters.type) return false;
+        if (filters.institution && t.institution !== filters.institution && t.destinationInstitution !== filters.institution) return false;
+        if (terms.length === 0) return true;
+        const text = searchableText(t);
+        return terms.every(term => text.includes(term));
+      })
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }, [transactions, filters, categories]);
+
+  // Bulk actions only reach rows on screen: drop selections that were deleted (elsewhere,
+  // other tab) or that the current filters hide
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(filtered.map(t => t.id));
+      const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filtered]);
+
+  useEffect(() => {
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  }, [filters]);
+
+  // Mixed-currency results are summed in the base currency
+  const totals = useMemo(() => filtered.reduce((acc, t) => {
+    const amount = convertAmount(t.amount, transactionCurrency(t, bankConnections, investments), baseCurrency, fxRates, t.date);
+    if (isIncome(t)) acc.income += amount;
+    else if (isExpense(t)) acc.expense += amount;
+    return acc;
+  }, { income: 0, expense: 0 }), [filtered, bankConnections, investments, baseCurrency, fxRates]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(filtered.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = filtered.slice(firstRow, lastRow);
+
+  const updateFilter = (changes: Partial<LedgerFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+  const hasFilters = Object.values(filters).some(Boolean);
+  const allVisibleSelected = filtered.length > 0 && filtered.every(t => selectedIds.has(t.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filtered.map(t => t.id)));
+  };
+
+  const handleRecategorize = () => {
+    if (!bulkCategory) return;
+    onRecategorize(Array.from(selectedIds), bulkCategory);
+    setBulkCategory('');
+    setSelectedIds(new Set());
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Permanently delete ${selectedIds.size} transaction${selectedIds.size === 1 ? '' : 's'}?`)) return;
+    onDeleteMany(Array.from(selectedIds));
+    setSelectedIds(new Set());
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl p-3 text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500";
+  const labelClass = "block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1 ml-1";
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <header className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-black text-slate-900 tracking-tighter">Ledger</h1>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+            {filtered.length} of {transactions.length} Transactions • <span className="text-emerald-600">+{currencySymbol(baseCurrency)}{totals.income.toFixed(2)}</span> • <span className="text-rose-600">-{currencySymbol(baseCurrency)}{totals.expense.toFixed(2)}</span>
+          </p>
+        </div>
+        {hasFilters && (
+          <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-[9px] font-black text-slate-500 uppercase tracking-widest hover:bg-slate-100 px-3 py-1.5 rounded-lg transition self-start md:self-auto">
+            <i className="fas fa-filter-circle-xmark mr-1"></i> Clear Filters
+          </button>
+        )}
+      </header>
+
+      <div className="bg-white border border-slate-100 rounded-[2rem] p-6 shadow-sm grid grid-cols-2 md:grid-cols-6 gap-4">
+        <div className="col-span-2">
+          <label className={labelClass}>Search</label>
+          <div className="relative">
+            <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-slate-300 text-xs"></i>
+            <input
+              value={filters.search}
+              onChange={(e) => updateFilter({ search: e.target.value })}
+              className={`${inputClass} pl-9`}
+              placeholder="Description, vendor, notes, items"
+            />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>From</label>
+          <input type="date" value={filters.from} onChange={(e) => updateFilter({ from: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>To</label>
+          <input type="date" value={filters.to} onChange={(e) => updateFilter({ to: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Category</label>
+          <select value={filters.category} onChange={(e) => updateFilter({ category: e.target.value })} className={inputClass}>
+            <option value="">All</option>
+            {filterNames.map(name => <option key={name} value={name}>{options.find(o => o.name === name)?.label || name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Type</label>
+          <select value={filters.type} onChange={(e) => updateFilter({ type: e.target.value as LedgerFilters['type'] })} className={inputClass}>
+            <option value="">All</option>
+            <option value="expense">Expense</option>
+            <option value="income">Income</option>
+            <option value="transfer">Transfer</option>
+          </select>
+        </div>
+        <div className="col-span-2 md:col-span-6">
+          <label className={labelClass}>Institution</label>
+          <div className="flex flex-wrap gap-2">
+            {['', ...institutions].map(inst => (
+              <button
+                key={inst || 'all'}
+                onClick={() => updateFilter({ institution: inst })}
+                className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition ${filters.institution === inst ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+              >
+                {inst || 'All Accounts'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {selectedIds.size > 0 && (
+        <div className="p-4 bg-slate-900 rounded-2xl flex flex-wrap items-center gap-3 animate-in fade-in duration-200">
+          <p className="text-[9px] font-black text-white uppercase tracking-widest mr-auto">{selectedIds.size} Selected</p>
+          <select
+            value={bulkCategory}
+            onChange={(e) => setBulkCategory(e.target.value)}
+            className="bg-slate-800 border border-slate-700 text-white rounded-xl px-3 py-2 text-[10px] font-black outline-none"
+          >
+            <option value="">Recategorize…</option>
+            {options.map(o => <option key={o.name} value={o.name}>{o.label}</option>)}
+          </select>
+          <button
+            onClick={handleRecategorize}
+            disabled={!bulkCategory}
+            className="px-4 py-2 bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-indigo-500 transition disabled:opacity-40"
+          >
+            Apply
+          </button>
+          <button onClick={handleDelete} className="px-4 py-2 bg-rose-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-rose-500 transition">
+            <i className="fas fa-trash-alt mr-1"></i> Delete
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white border border-slate-100 rounded-[2rem] shadow-sm overflow-hidden">
+        <div className="flex items-center gap-4 px-6 py-3 border-b border-slate-100 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+          <input type="checkbox" checked={allVisibleSelected} onChange={toggleAll} className="accent-indigo-600" />
+          <span className="w-24">Date</span>
+          <span className="flex-1">Description</span>
+          <span className="hidden md:block w-40">Account</span>
+          <span className="w-28 text-right">Amount</span>
+          <span className="w-8"></span>
+        </div>
+
+        {filtered.length === 0 ? (
+          <p className="p-12 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">No transactions match</p>
+        ) : (
+          <div
+            ref={viewportRef}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            className="overflow-y-auto no-scrollbar"
+            style={{ height: Math.min(VIEWPORT_HEIGHT, filtered.length * ROW_HEIGHT) }}
+          >
+            <div style={{ height: filtered.length * ROW_HEIGHT, position: 'relative' }}>
+              {visibleRows.map((t, i) => (
+                <div
+                  key={t.id}
+                  style={{ position: 'absolute', top: (firstRow + i) * ROW_HEIGHT, left: 0, right: 0, height: ROW_HEIGHT }}
+                  className={`flex items-center gap-4 px-6 border-b border-slate-50 transition ${selectedIds.has(t.id) ? 'bg-indigo-50/50' : 'hover:bg-slate-50'}`}
+                >
+                  <input type="checkbox" checked={selectedIds.has(t.id)} onChange={() => toggleSelected(t.id)} className="accent-indigo-600" />
+                  <span className="w-24 text-[10px] font-black text-slate-500">{t.date}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black text-slate-800 truncate">{t.description}</p>
+                    <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                      <span className="inline-block w-1.5 h-1.5 rounded-full mr-1.5 align-middle" style={{ backgroundColor: findCategory(categories, t.category)?.color || '#cbd5e1' }}></span>
+                      {t.category}{t.vendor && ` • ${t.vendor}`}{t.lineItems?.length ? ` • ${t.lineItems.length} items` : ''}
+                    </p>
+                  </div>
+                  <span className="hidden md:block w-40 text-[10px] font-bold text-slate-500 truncate">
+                    {t.institution || 'Cash in Hand'}{t.type === 'transfer' && t.destinationInstitution && ` → ${t.destinationInstitution}`}
+                  </span>
+                  <span className={`w-28 text-right text-sm font-black ${t.type === 'income' ? 'text-emerald-600' : t.type === 'transfer' ? 'text-indigo-600' : 'text-slate-900'}`}>
+                    {t.type === 'income' ? '+' : t.type === 'expense' ? '-' : ''}{currencySymbol(transactionCurrency(t, bankConnections, investments))}{t.amount.toFixed(2)}
+                  </span>
+                  <button onClick={() => onEdit(t)} className="w-8 h-8 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition" title={lockedIds?.has(t.id) ? 'Reconciled — edit with care' : 'Edit'}>
+                    <i className={`fas ${lockedIds?.has(t.id) ? 'fa-lock' : 'fa-pen'} text-[10px]`}></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Ledger;
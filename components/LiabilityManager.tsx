@@ -0,0 +1,175 @@
+
+import React, { useState } from 'react';
+import { Liability, LiabilityKind, Transaction, CurrencyCode } from '../types';
+import { LIABILITY_KINDS, liabilityKindInfo, liabilityOutlook } from '../services/liabilityService';
+import { CURRENCIES, HOME_CURRENCY, currencySymbol } from '../services/currencyService';
+import { todayKey } from '../services/budgetCycleService';
+
+interface Props {
+  liabilities: Liability[];
+  transactions: Transaction[];
+  baseCurrency: CurrencyCode;
+  accountNames: string[];
+  onAddLiability: (liability: Omit<Liability, 'id'>) => void;
+  onUpdateLiability: (liability: Liability) => void;
+  onDeleteLiability: (id: string) => void;
+}
+
+const emptyDraft = (baseCurrency: CurrencyCode) => ({
+  name: '', kind: 'loan' as LiabilityKind, lender: '', principal: '', apr: '', minimumPayment: '', paymentDay: '1', openedOn: todayKey(), currency: baseCurrency
+});
+
+const LiabilityManager: React.FC<Props> = ({ liabilities, transactions, baseCurrency, accountNames, onAddLiability, onUpdateLiability, onDeleteLiability }) => {
+  const [draft, setDraft] = useState(() => emptyDraft(baseCurrency));
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const today = todayKey();
+
+  const handleAdd = () => {
+    const name = draft.name.trim();
+    const principal = parseFloat(draft.principal);
+    const apr = parseFloat(draft.apr || '0');
+    const minimumPayment = parseFloat(draft.minimumPayment);
+    const paymentDay = parseInt(draft.paymentDay);
+    if (!name) return alert('Name the debt.');
+    if ([...accountNames, ...liabilities.map(l => l.name)].some(n => n.toLowerCase() === name.toLowerCase())) return alert(`An account named ${name} already exists.`);
+    if (!(principal >= 0)) return alert('Enter what was owed on the opening date.');
+    if (!(apr >= 0)) return alert('Enter the APR as a percentage.');
+    if (!(minimumPayment > 0)) return alert('Enter the minimum monthly payment.');
+    if (!(paymentDay >= 1 && paymentDay <= 31)) return alert('The payment day is a day of the month from 1 to 31.');
+    onAddLiability({
+      name,
+      kind: draft.kind,
+      lender: draft.lender.trim() || undefined,
+      principal,
+      apr,
+      minimumPayment,
+      paymentDay,
+      openedOn: draft.openedOn,
+      currency: draft.currency
+    });
+    setDraft(emptyDraft(baseCurrency));
+  };
+
+  return (
+    <div className="space-y-10">
+      <section>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><i className="fas fa-file-invoice-dollar text-indigo-600"></i> Debts</h3>
+          <span className="text-[10px] font-black bg-indigo-100 text-indigo-600 px-3 py-1 rounded-full uppercase tracking-widest">{liabilities.length} Accounts</span>
+        </div>
+        <p className="text-[9px] font-bold text-slate-400 mb-6 uppercase tracking-widest">Payments are transfers into the debt's name; purchases on a card are expenses paid from it</p>
+
+        <div className="space-y-3">
+          {liabilities.map(l => {
+            const { statement, schedule } = liabilityOutlook(l, transactions, today);
+            const symbol = currencySymbol(l.currency || HOME_CURRENCY);
+            const kind = liabilityKindInfo(l.kind);
+            const isExpanded = expandedId === l.id;
+            return (
+              <div key={l.id} className="bg-slate-50 border border-slate-100 rounded-[2rem] overflow-hidden">
+                <div className="p-5 flex items-center justify-between gap-4">
+                  <button onClick={() => setExpandedId(isExpanded ? null : l.id)} className="flex items-center gap-4 min-w-0 text-left">
+                    <div className="w-10 h-10 bg-rose-50 text-rose-500 rounded-xl flex items-center justify-center shrink-0"><i className={`fas ${kind.icon}`}></i></div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-black text-slate-800 truncate">{l.name}</p>
+                      <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">
+                        {kind.label}{l.lender ? ` • ${l.lender}` : ''} • {l.apr}% APR • Due on the {l.paymentDay}
+                      </p>
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-4 shrink-0">
+                    <div className="text-right">
+                      <p className="text-sm font-black text-rose-600">-{symbol}{statement.owed.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                      <p className={`text-[8px] font-black uppercase tracking-widest ${schedule.payoffDate || statement.owed <= 0.005 ? 'text-slate-400' : 'text-amber-600'}`}>
+                        {statement.owed <= 0.005 ? 'Paid off' : schedule.payoffDate ? `Payoff ${schedule.payoffDate}` : 'Minimum never clears it'}
+                      </p>
+                    </div>
+                    <button onClick={() => onDeleteLiability(l.id)} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors"><i className="fas fa-trash-can text-xs"></i></button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="px-5 pb-5 space-y-4">
+                    <div className="flex items-center gap-3">
+                      <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Minimum Payment</label>
+                      <input
+                        type="number"
+                        step="any"
+                        defaultValue={l.minimumPayment}
+                        onBlur={e => {
+                          const minimumPayment = parseFloat(e.target.value);
+                          if (minimumPayment > 0 && minimumPayment !== l.minimumPayment) onUpdateLiability({ ...l, minimumPayment });
+                        }}
+                        className="w-32 p-2 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs"
+                      />
+                      <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                        {symbol}{schedule.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 0 })} interest still to pay
+                      </span>
+                    </div>
+                    {schedule.rows.length > 0 ? (
+                      <div className="max-h-72 overflow-y-auto border border-slate-100 rounded-2xl bg-white">
+                        <table className="w-full text-[10px] font-bold">
+                          <thead className="sticky top-0 bg-white">
+                            <tr className="text-[8px] uppercase tracking-widest text-slate-400">
+                              <th className="text-left p-3">Due</th>
+                              <th className="text-right p-3">Payment</th>
+                              <th className="text-right p-3">Interest</th>
+                              <th className="text-right p-3">Principal</th>
+                              <th className="text-right p-3">Balance</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {schedule.rows.map(row => (
+                              <tr key={row.date} className="border-t border-slate-50 text-slate-600">
+                                <td className="p-3 font-black text-slate-800">{row.date}</td>
+                                <td className="p-3 text-right">{row.payment.toFixed(2)}</td>
+                                <td className="p-3 text-right text-rose-500">{row.interest.toFixed(2)}</td>
+                                <td className="p-3 text-right text-emerald-600">{row.principal.toFixed(2)}</td>
+                                <td className="p-3 text-right">{row.balance.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : statement.owed > 0.005 && (
+                      <p className="p-4 bg-amber-50 border border-amber-100 rounded-2xl text-[10px] font-black text-amber-700 uppercase tracking-widest">
+                        <i className="fas fa-triangle-exclamation mr-2"></i>
+                        The minimum payment does not cover a month's interest
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {liabilities.length === 0 && (
+            <p className="p-8 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No loans, cards or mortgages yet</p>
+          )}
+        </div>
+      </section>
+
+      <section className="p-6 bg-slate-900 rounded-[2.5rem] text-white">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-4">Add A Debt</h4>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+          <input placeholder="Name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as LiabilityKind })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+            {LIABILITY_KINDS.map(k => <option key={k.id} value={k.id} className="bg-slate-800">{k.label}</option>)}
+          </select>
+          <input placeholder="Lender (optional)" value={draft.lender} onChange={e => setDraft({ ...draft, lender: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <input type="number" step="any" placeholder="Owed when opened" value={draft.principal} onChange={e => setDraft({ ...draft, principal: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <input type="number" step="any" placeholder="APR %" value={draft.apr} onChange={e => setDraft({ ...draft, apr: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <input type="number" step="any" placeholder="Minimum payment" value={draft.minimumPayment} onChange={e => setDraft({ ...draft, minimumPayment: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <input type="number" min="1" max="31" placeholder="Payment day" value={draft.paymentDay} onChange={e => setDraft({ ...draft, paymentDay: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <input type="date" value={draft.openedOn} onChange={e => setDraft({ ...draft, openedOn: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <select value={draft.currency} onChange={e => setDraft({ ...draft, currency: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+            {CURRENCIES.map(c => <option key={c.code} value={c.code} className="bg-slate-800">{c.code}</option>)}
+          </select>
+        </div>
+        <button onClick={handleAdd} className="w-full py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition">Add Debt</button>
+      </section>
+    </div>
+  );
+};
+
+export default LiabilityManager;
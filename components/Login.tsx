@@ -2,29 +2,43 @@
 import React, { useState } from 'react';
 
 interface Props {
-  onLogin: (user: string, pass: string) => boolean;
+  onLogin: (user: string, pass: string) => Promise<string | null>;
+  onRegister: (user: string, pass: string) => Promise<string | null>;
+  isFirstRun: boolean;
   onReset: () => void;
+  // Set when a session exists but its vault key was dropped (reload or auto-lock)
+  lockedUsername?: string;
+  onSwitchAccount?: () => void;
 }
 
-const Login: React.FC<Props> = ({ onLogin, onReset }) => {
-  const [username, setUsername] = useState('');
+const Login: React.FC<Props> = ({ onLogin, onRegister, isFirstRun, onReset, lockedUsername, onSwitchAccount }) => {
+  const [username, setUsername] = useState(lockedUsername || '');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState(false);
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Later accounts need a wrapped copy of the vault key, so only an admin can create them.
+  const isRegistering = isFirstRun;
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setError(false);
-    setLoading(true);
+    setError(null);
 
-    // Simulate small delay for "secure" feel
-    setTimeout(() => {
-      const success = onLogin(username, password);
-      if (!success) {
-        setError(true);
-        setLoading(false);
-      }
-    }, 800);
+    if (isRegistering && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const failure = isRegistering ? await onRegister(username, password) : await onLogin(username, password);
+      if (failure) setError(failure);
+    } catch (err) {
+      setError('Secure crypto unavailable in this browser');
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleForgot = () => {
@@ -45,10 +59,12 @@ const Login: React.FC<Props> = ({ onLogin, onReset }) => {
       <div className="max-w-md w-full relative z-10">
         <div className="text-center mb-10 animate-in fade-in slide-in-from-bottom-4 duration-700">
           <div className="w-20 h-20 bg-indigo-600 rounded-[2.5rem] flex items-center justify-center text-white text-3xl mx-auto mb-6 shadow-2xl shadow-indigo-500/20 ring-4 ring-white/5">
-            <i className="fas fa-fingerprint"></i>
+            <i className={`fas ${lockedUsername ? 'fa-lock' : 'fa-fingerprint'}`}></i>
           </div>
-          <h1 className="text-3xl font-black text-white tracking-tight">Vault Access</h1>
-          <p className="text-slate-400 text-xs font-black uppercase tracking-[0.3em] mt-2">Fire Finance Secure Gateway</p>
+          <h1 className="text-3xl font-black text-white tracking-tight">{isRegistering ? 'Create Identity' : lockedUsername ? 'Vault Locked' : 'Vault Access'}</h1>
+          <p className="text-slate-400 text-xs font-black uppercase tracking-[0.3em] mt-2">
+            {isFirstRun ? 'First account becomes vault admin' : lockedUsername ? 'Re-enter your password to decrypt' : 'Fire Finance Secure Gateway'}
+          </p>
         </div>
 
         <form onSubmit={handleSubmit} className="bg-white/5 backdrop-blur-xl p-10 rounded-[3rem] border border-white/10 shadow-2xl space-y-6 animate-in zoom-in-95 duration-500">
@@ -62,8 +78,9 @@ const Login: React.FC<Props> = ({ onLogin, onReset }) => {
                 type="text"
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
-                className="w-full pl-11 p-4 bg-white/5 border border-white/10 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-white transition-all"
+                className="w-full pl-11 p-4 bg-white/5 border border-white/10 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-white transition-all disabled:opacity-60"
                 placeholder="Username"
+                disabled={!!lockedUsername}
                 required
               />
             </div>
@@ -85,19 +102,35 @@ const Login: React.FC<Props> = ({ onLogin, onReset }) => {
                   required
                 />
               </div>
-              <button 
-                type="button"
-                onClick={handleForgot}
-                className="text-right text-[9px] font-black text-slate-500 uppercase tracking-widest hover:text-indigo-400 transition"
-              >
-                Forgot Password?
-              </button>
+              {isRegistering ? (
+                <div className="relative">
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500">
+                    <i className="fas fa-check-double"></i>
+                  </span>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full pl-11 p-4 bg-white/5 border border-white/10 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-white transition-all"
+                    placeholder="Confirm Password"
+                    required
+                  />
+                </div>
+              ) : (
+                <button 
+                  type="button"
+                  onClick={handleForgot}
+                  className="text-right text-[9px] font-black text-slate-500 uppercase tracking-widest hover:text-indigo-400 transition"
+                >
+                  Forgot Password?
+                </button>
+              )}
             </div>
           </div>
 
           {error && (
             <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-2xl text-rose-400 text-[10px] font-black uppercase tracking-widest text-center animate-in shake duration-300">
-              <i className="fas fa-exclamation-circle mr-2"></i> Access Denied
+              <i className="fas fa-exclamation-circle mr-2"></i> {error}
             </div>
           )}
 
@@ -109,13 +142,27 @@ const Login: React.FC<Props> = ({ onLogin, onReset }) => {
             {loading ? (
               <i className="fas fa-circle-notch fa-spin"></i>
             ) : (
-              <>Decrypt & Enter <i className="fas fa-chevron-right text-[10px]"></i></>
+              <>{isRegistering ? 'Register & Enter' : lockedUsername ? 'Unlock Vault' : 'Decrypt & Enter'} <i className="fas fa-chevron-right text-[10px]"></i></>
             )}
           </button>
+
+          {lockedUsername ? (
+            <button
+              type="button"
+              onClick={onSwitchAccount}
+              className="w-full text-center text-[9px] font-black text-slate-500 uppercase tracking-widest hover:text-indigo-400 transition"
+            >
+              Not {lockedUsername}? Switch account
+            </button>
+          ) : !isFirstRun && (
+            <p className="text-center text-[9px] font-black text-slate-500 uppercase tracking-widest">
+              New team member? Ask a vault admin for access
+            </p>
+          )}
         </form>
 
         <p className="mt-8 text-center text-slate-500 text-[9px] font-black uppercase tracking-widest">
-          Auth-Shield v1.0 • AES-256 Obfuscated
+          Auth-Shield v3.0 • PBKDF2-SHA256 • AES-256-GCM Vault
         </p>
       </div>
     </div>
@@ -1,17 +1,32 @@
 
 import React, { useState, useRef } from 'react';
 import { parseInputToTransaction, parseStatementToTransactions } from '../services/geminiService';
-import { AIAnalysisResult } from '../types';
+import { detectStatementKind, StatementKind } from '../services/statementImportService';
+import { detectHoldingsProvider, HoldingsProvider } from '../services/holdingsImportService';
+import { AIAnalysisResult, BankConnection, ImportProfile, InvestmentAccount, InvestmentTrade } from '../types';
+import StatementImportModal from './StatementImportModal';
+import HoldingsImportModal from './HoldingsImportModal';
 
 interface Props {
   onSuccess: (data: AIAnalysisResult) => void;
   onBulkSuccess: (data: AIAnalysisResult[]) => void;
   onLoading: (isLoading: boolean) => void;
   onManualEntry?: () => void;
+  bankConnections: BankConnection[];
+  importProfiles: ImportProfile[];
+  onSaveImportProfile: (profile: ImportProfile) => void;
+  investments: InvestmentAccount[];
+  onImportTrades: (provider: HoldingsProvider, trades: InvestmentTrade[]) => void;
+  categoryNames: string[];
 }
 
-const MagicInput: React.FC<Props> = ({ onSuccess, onBulkSuccess, onLoading, onManualEntry }) => {
+const MagicInput: React.FC<Props> = ({ onSuccess, onBulkSuccess, onLoading, onManualEntry, bankConnections, importProfiles, onSaveImportProfile, investments, onImportTrades, categoryNames }) => {
   const [input, setInput] = useState('');
+  const providerNames = investments.map(inv => inv.provider);
+  // CSV/OFX statements are mapped one file at a time, offline, before reaching the queue
+  const [statementQueue, setStatementQueue] = useState<{ fileName: string; text: string; kind: StatementKind }[]>([]);
+  // Binance/Vanguard exports are trades for an investment account, not ledger rows
+  const [holdingsQueue, setHoldingsQueue] = useState<{ fileName: string; text: string }[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isRecording, setIsRecording] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -22,7 +37,7 @@ const MagicInput: React.FC<Props> = ({ onSuccess, onBulkSuccess, onLoading, onMa
     if (!input.trim()) return;
 
     onLoading(true);
-    const result = await parseInputToTransaction(input);
+    const result = await parseInputToTransaction(input, categoryNames, providerNames);
     if (result) {
       onSuccess(result);
       setInput('');
@@ -34,9 +49,34 @@ const MagicInput: React.FC<Props> = ({ onSuccess, onBulkSuccess, onLoading, onMa
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
-    onLoading(true);
     // Explicitly cast to File[] to ensure 'file' is not 'unknown' in the map callback
-    const fileList = Array.from(files) as File[];
+    const allFiles = Array.from(files) as File[];
+    const fileList: File[] = [];
+    const statements: typeof statementQueue = [];
+    const holdingsFiles: typeof holdingsQueue = [];
+    for (const file of allFiles) {
+      if (/\.(csv|ofx|qfx)$/i.test(file.name)) {
+        const text = await file.text();
+        if (/\.csv$/i.test(file.name) && detectHoldingsProvider(text)) {
+          holdingsFiles.push({ fileName: file.name, text });
+          continue;
+        }
+        const kind = detectStatementKind(file.name, text);
+        if (kind) {
+          statements.push({ fileName: file.name, text, kind });
+          continue;
+        }
+      }
+      fileList.push(file);
+    }
+    if (statements.length > 0) setStatementQueue(prev => [...prev, ...statements]);
+    if (holdingsFiles.length > 0) setHoldingsQueue(prev => [...prev, ...holdingsFiles]);
+    if (fileList.length === 0) {
+      e.target.value = '';
+      return;
+    }
+
+    onLoading(true);
     
     // Turbo Mode: Batch Processing
     const processingPromises = fileList.map((file: File) => {
@@ -52,11 +92,11 @@ const MagicInput: React.FC<Props> = ({ onSuccess, onBulkSuccess, onLoading, onMa
           const fileData = { data: base64, mimeType: file.type };
 
           // Use 'file' properties correctly now that it's typed as File
-          if (file.type === 'application/pdf' || file.name.endsWith('.csv')) {
-            const results = await parseStatementToTransactions(fileData);
+          if (file.type === 'application/pdf') {
+            const results = await parseStatementToTransactions(fileData, categoryNames, providerNames);
             resolve(results);
           } else {
-            const result = await parseInputToTransaction(fileData, true);
+            const result = await parseInputToTransaction(fileData, categoryNames, providerNames, true);
             resolve(result);
           }
         };
@@ -99,7 +139,7 @@ const MagicInput: React.FC<Props> = ({ onSuccess, onBulkSuccess, onLoading, onMa
           }
           const base64 = resultRaw.split(',')[1];
           onLoading(true);
-          const result = await parseInputToTransaction({ data: base64, mimeType: 'audio/webm' }, true);
+          const result = await parseInputToTransaction({ data: base64, mimeType: 'audio/webm' }, categoryNames, providerNames, true);
           if (result) onSuccess(result);
           onLoading(false);
         };
@@ -176,10 +216,41 @@ const MagicInput: React.FC<Props> = ({ onSuccess, onBulkSuccess, onLoading, onMa
         ref={fileInputRef}
         onChange={handleFileUpload}
         className="hidden"
-        accept="image/*,application/pdf,.csv"
+        accept="image/*,application/pdf,.csv,.ofx,.qfx"
         multiple
       />
 
+      {statementQueue.length > 0 && (
+        <StatementImportModal
+          key={statementQueue[0].fileName}
+          fileName={statementQueue[0].fileName}
+          text={statementQueue[0].text}
+          kind={statementQueue[0].kind}
+          bankConnections={bankConnections}
+          importProfiles={importProfiles}
+          onSaveProfile={onSaveImportProfile}
+          onImport={(items) => {
+            onBulkSuccess(items);
+            setStatementQueue(prev => prev.slice(1));
+          }}
+          onClose={() => setStatementQueue(prev => prev.slice(1))}
+        />
+      )}
+
+      {statementQueue.length === 0 && holdingsQueue.length > 0 && (
+        <HoldingsImportModal
+          key={holdingsQueue[0].fileName}
+          fileName={holdingsQueue[0].fileName}
+          text={holdingsQueue[0].text}
+          investments={investments}
+          onImport={(provider, trades) => {
+            onImportTrades(provider, trades);
+            setHoldingsQueue(prev => prev.slice(1));
+          }}
+          onClose={() => setHoldingsQueue(prev => prev.slice(1))}
+        />
+      )}
+
       <div className="absolute -bottom-6 left-3 text-[10px] text-slate-400 flex gap-4 uppercase font-black tracking-wider">
         <span>Turbo Batch Engine Active</span>
         <i className="fas fa-bolt text-amber-400"></i>
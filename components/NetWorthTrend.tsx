@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, ReferenceDot } from 'recharts';
+import { NetWorthSnapshot, Transaction } from '../types';
+import { NET_WORTH_RANGES, snapshotsInRange, largeMovements } from '../services/netWorthService';
+import { todayKey } from '../services/budgetCycleService';
+
+interface Props {
+  history: NetWorthSnapshot[];
+  transactions: Transaction[];
+  symbol: string;
+  onRebuild?: () => void;
+}
+
+const BREAKDOWN = [
+  { key: 'bank', label: 'Bank', color: '#10b981' },
+  { key: 'creditUnion', label: 'Credit Union', color: '#14b8a6' },
+  { key: 'investment', label: 'Investments', color: '#6366f1' },
+  { key: 'cash', label: 'Cash', color: '#f59e0b' },
+  { key: 'liabilities', label: 'Debts', color: '#ef4444' }
+] as const;
+
+const money = (symbol: string, n: number) => `${n < 0 ? '-' : ''}${symbol}${Math.abs(n).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const NetWorthTrend: React.FC<Props> = ({ history, transactions, symbol, onRebuild }) => {
+  const [range, setRange] = useState(() => localStorage.getItem('ff_networth_range') || '6m');
+
+  const selectRange = (id: string) => {
+    setRange(id);
+    localStorage.setItem('ff_networth_range', id);
+  };
+
+  const days = NET_WORTH_RANGES.find(r => r.id === range)?.days ?? null;
+  const data = useMemo(() => snapshotsInRange(history, days, todayKey()), [history, days]);
+  const movements = useMemo(() => largeMovements(data, transactions), [data, transactions]);
+
+  const first = data[0];
+  const last = data[data.length - 1];
+  const change = first && last ? last.value - first.value : 0;
+  const hasBackfill = data.some(s => s.backfilled);
+
+  const renderTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const s: NetWorthSnapshot = payload[0].payload;
+    return (
+      <div className="bg-white p-4 rounded-[1.25rem] shadow-xl text-[10px] font-bold space-y-1">
+        <p className="font-black text-slate-800">{s.date}{s.backfilled && <span className="ml-2 text-[8px] uppercase tracking-widest text-slate-400">Rebuilt</span>}</p>
+        <p className="font-black text-indigo-600">{money(symbol, s.value)}</p>
+        {BREAKDOWN.filter(b => s[b.key]).map(b => (
+          <p key={b.key} className="text-slate-500 flex items-center gap-2">
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: b.color }}></span>{b.label} {money(symbol, s[b.key] || 0)}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.1em]">Net Worth Over Time</h3>
+          {first && last && (
+            <p className={`text-[9px] font-black uppercase tracking-widest mt-1 ${change >= 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+              {change >= 0 ? '+' : '-'}{symbol}{Math.abs(change).toLocaleString(undefined, { maximumFractionDigits: 0 })} since {first.date}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {onRebuild && (
+            <button onClick={onRebuild} className="text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition" title="Replay the ledger and price history to fill in past days">
+              <i className="fas fa-clock-rotate-left mr-1"></i> Rebuild
+            </button>
+          )}
+          <div className="flex bg-slate-50 p-1 rounded-xl">
+            {NET_WORTH_RANGES.map(r => (
+              <button key={r.id} onClick={() => selectRange(r.id)} className={`px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${range === r.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{r.label}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {data.length < 2 ? (
+        <p className="h-[260px] flex items-center justify-center text-[10px] font-black uppercase tracking-widest text-slate-300">
+          A snapshot is recorded each day — the trend appears from the second one
+        </p>
+      ) : (
+        <div className="h-[260px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={data}>
+              <defs>
+                <linearGradient id="colorNetWorth" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#6366f1" stopOpacity={0.15}/><stop offset="95%" stopColor="#6366f1" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="date" axisLine={false} tickLine={false} minTickGap={40} tick={{ fontSize: 9, fontWeight: 800, fill: '#94a3b8' }} />
+              <YAxis axisLine={false} tickLine={false} width={60} tick={{ fontSize: 9, fontWeight: 800, fill: '#94a3b8' }} />
+              <Tooltip content={renderTooltip} />
+              <Area type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={3} fillOpacity={1} fill="url(#colorNetWorth)" name="Net Worth" />
+              {movements.map((m, i) => (
+                <ReferenceDot key={m.date} x={m.date} y={m.value} r={6} fill={m.change >= 0 ? '#10b981' : '#ef4444'} stroke="#fff" strokeWidth={2} label={{ value: i + 1, position: 'top', fontSize: 9, fontWeight: 900, fill: '#475569' }} />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {movements.length > 0 && (
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-2">
+          {movements.map((m, i) => (
+            <div key={m.date} className="flex items-center justify-between px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl">
+              <span className="text-[9px] font-bold text-slate-500 truncate">
+                <span className="font-black text-slate-800 mr-2">{i + 1}</span>{m.date} • {m.reason}
+              </span>
+              <span className={`text-[9px] font-black ${m.change >= 0 ? 'text-emerald-600' : 'text-rose-500'}`}>{m.change >= 0 ? '+' : '-'}{symbol}{Math.abs(m.change).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {hasBackfill && (
+        <p className="mt-4 text-[8px] font-black uppercase tracking-widest text-slate-400">Days before recording began are rebuilt from the ledger and recorded prices</p>
+      )}
+    </section>
+  );
+};
+
+export default NetWorthTrend;
@@ -0,0 +1,134 @@
+
+import React, { useState } from 'react';
+import { PricePoint, CurrencyCode } from '../types';
+import { CURRENCIES, INVESTMENT_CURRENCY } from '../services/currencyService';
+import { latestPrices, parsePriceCsv, pricePointId, describeAge, isStale } from '../services/priceService';
+
+interface Props {
+  priceHistory: PricePoint[];
+  heldSymbols: string[];
+  feedLabel: string;
+  feedError: string | null;
+  onRecordPrices: (points: PricePoint[]) => void;
+  onDeletePrice: (id: string) => void;
+  onRefreshPrices: () => void;
+}
+
+const SOURCE_LABELS: Record<PricePoint['source'], string> = { feed: 'Feed', manual: 'Manual', import: 'Imported' };
+
+const PriceManager: React.FC<Props> = ({ priceHistory, heldSymbols, feedLabel, feedError, onRecordPrices, onDeletePrice, onRefreshPrices }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [draft, setDraft] = useState({ symbol: '', price: '', currency: INVESTMENT_CURRENCY as CurrencyCode, date: today });
+  const [importSymbol, setImportSymbol] = useState('');
+  const [importResult, setImportResult] = useState<{ added: number; skipped: number; error: string | null } | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const latest = latestPrices(priceHistory);
+  const unpriced = heldSymbols.filter(s => !latest.some(p => p.symbol === s));
+
+  const handleAdd = () => {
+    const symbol = draft.symbol.trim().toUpperCase();
+    const price = parseFloat(draft.price);
+    if (!symbol) return alert('Enter the symbol this price is for.');
+    if (!(price > 0)) return alert('Enter a price above zero.');
+    // A price for a past day stands as that day's close
+    const quotedAt = draft.date === today ? new Date().toISOString() : `${draft.date}T23:59:59.000Z`;
+    onRecordPrices([{ id: pricePointId(symbol, draft.date), symbol, date: draft.date, price, currency: draft.currency, source: 'manual', quotedAt }]);
+    setDraft({ ...draft, price: '' });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { points, skipped, error } = parsePriceCsv(await file.text(), importSymbol, draft.currency);
+    if (points.length > 0) onRecordPrices(points);
+    setImportResult({ added: points.length, skipped, error });
+  };
+
+  return (
+    <div className="space-y-10">
+      <section>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><i className="fas fa-chart-line text-indigo-600"></i> Market Prices</h3>
+          <button onClick={onRefreshPrices} className="text-[10px] font-black bg-indigo-100 text-indigo-600 px-3 py-1 rounded-full uppercase tracking-widest hover:bg-indigo-200 transition">
+            <i className="fas fa-rotate mr-1"></i> Refresh {feedLabel}
+          </button>
+        </div>
+
+        {feedError && (
+          <div className="mb-4 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-[10px] font-black text-amber-700 uppercase tracking-widest">
+            <i className="fas fa-plug-circle-xmark mr-2"></i>{feedError} — showing the last recorded prices
+          </div>
+        )}
+        {unpriced.length > 0 && (
+          <div className="mb-4 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-[10px] font-black text-amber-700 uppercase tracking-widest">
+            <i className="fas fa-triangle-exclamation mr-2"></i>
+            No price for {unpriced.join(', ')} — valued at cost until one is recorded
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-2">
+          {latest.map(p => (
+            <div key={p.symbol}>
+              <div className="p-4 bg-slate-50 border border-slate-100 rounded-2xl flex items-center justify-between">
+                <button onClick={() => setExpanded(expanded === p.symbol ? null : p.symbol)} className="flex items-center gap-4 text-left">
+                  <span className="text-xs font-black text-slate-800 w-16">{p.symbol}</span>
+                  <span className="text-xs font-black text-slate-800 font-mono">{p.price.toLocaleString(undefined, { maximumFractionDigits: 8 })} {p.currency}</span>
+                  <span className={`text-[9px] font-bold uppercase tracking-widest ${isStale(p.asOf) ? 'text-amber-600' : 'text-slate-400'}`}>{describeAge(p.asOf)}</span>
+                </button>
+                <span className="text-[8px] font-black bg-slate-200 text-slate-600 px-2 py-0.5 rounded uppercase tracking-widest">{p.source ? SOURCE_LABELS[p.source] : 'Feed'}</span>
+              </div>
+              {expanded === p.symbol && (
+                <div className="mt-2 ml-4 space-y-1">
+                  {priceHistory.filter(h => h.symbol === p.symbol).sort((a, b) => b.date.localeCompare(a.date)).map(h => (
+                    <div key={h.id} className="px-4 py-2 flex items-center justify-between text-[10px] font-bold text-slate-500">
+                      <span className="font-mono">{h.date} • {h.price.toLocaleString(undefined, { maximumFractionDigits: 8 })} {h.currency} • {SOURCE_LABELS[h.source]}</span>
+                      <button onClick={() => onDeletePrice(h.id)} className="w-6 h-6 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors"><i className="fas fa-trash-can text-[10px]"></i></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {latest.length === 0 && (
+            <p className="p-6 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">No prices recorded yet</p>
+          )}
+        </div>
+      </section>
+
+      <section className="p-6 bg-slate-900 rounded-[2.5rem] text-white">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-4">Record A Price</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <input list="held-symbols" placeholder="Symbol" value={draft.symbol} onChange={e => setDraft({ ...draft, symbol: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold uppercase outline-none focus:ring-2 focus:ring-indigo-500" />
+          <datalist id="held-symbols">{heldSymbols.map(s => <option key={s} value={s} />)}</datalist>
+          <input type="number" step="any" placeholder="Price" value={draft.price} onChange={e => setDraft({ ...draft, price: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          <select value={draft.currency} onChange={e => setDraft({ ...draft, currency: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+            {CURRENCIES.map(c => <option key={c.code} value={c.code} className="bg-slate-800">{c.code}</option>)}
+          </select>
+          <input type="date" max={today} value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+        </div>
+        <button onClick={handleAdd} className="w-full py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition">Add Price</button>
+
+        <div className="mt-6 pt-6 border-t border-white/10">
+          <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-2">Import Price History</h4>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-4">CSV with Date and Close (or Price) columns; a Symbol column, or the symbol below for single-ticker files</p>
+          <div className="flex gap-4">
+            <input placeholder="Symbol (if none in file)" value={importSymbol} onChange={e => setImportSymbol(e.target.value)} className="flex-1 bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold uppercase outline-none focus:ring-2 focus:ring-indigo-500" />
+            <label className="px-6 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-[10px] font-black uppercase tracking-widest cursor-pointer transition flex items-center gap-2">
+              <i className="fas fa-file-csv"></i> Choose CSV
+              <input type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+            </label>
+          </div>
+          {importResult && (
+            <p className={`mt-3 text-[10px] font-black uppercase tracking-widest ${importResult.error ? 'text-amber-400' : 'text-emerald-400'}`}>
+              {importResult.error || `${importResult.added} prices recorded${importResult.skipped > 0 ? ` • ${importResult.skipped} rows skipped` : ''}`}
+            </p>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default PriceManager;
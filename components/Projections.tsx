@@ -1,7 +1,13 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { Transaction, RecurringIncome, RecurringExpense, InvestmentAccount, MarketPrice } from '../types';
+import { Transaction, RecurringIncome, RecurringExpense, InvestmentAccount, MarketPrice, Liability, AssetClass } from '../types';
 import { GoogleGenAI } from "@google/genai";
+import { currencySymbol } from '../services/currencyService';
+import { PayoffStrategy, plannerDebts, simulatePlan, planExpenses } from '../services/debtPlannerService';
+import { todayKey } from '../services/budgetCycleService';
+import { ASSET_CLASSES, assetClassOf } from '../services/assetAllocationService';
+import { DEFAULT_ASSUMPTIONS, SIMULATION_PATH_OPTIONS, ReturnAssumption, runMonteCarlo } from '../services/monteCarloService';
+import DebtPlanner from './DebtPlanner';
 
 interface Props {
   transactions: Transaction[];
@@ -11,15 +17,22 @@ interface Props {
   marketPrices: MarketPrice[];
   categoryBudgets: Record<string, number>;
   currentNetWorth: number;
+  baseCurrency: string;
+  liabilities: Liability[];
+  onApplyDebtPlan: (bills: Omit<RecurringExpense, 'id' | 'accumulatedOverdue'>[]) => void;
 }
 
 const Projections: React.FC<Props> = ({ 
+  transactions,
   recurringIncomes, 
   recurringExpenses, 
   investments, 
   marketPrices, 
   categoryBudgets, 
-  currentNetWorth 
+  currentNetWorth,
+  baseCurrency,
+  liabilities,
+  onApplyDebtPlan
 }) => {
   // Persist sliders in local storage
   const [yearsToProject, setYearsToProject] = useState(() => {
@@ -37,7 +50,18 @@ const Projections: React.FC<Props> = ({
     return saved ? parseInt(saved) : 8;
   });
 
+  const [debtStrategy, setDebtStrategy] = useState<PayoffStrategy>(() => (localStorage.getItem('ff_debt_strategy') as PayoffStrategy) || 'avalanche');
+  const [debtExtra, setDebtExtra] = useState(() => parseInt(localStorage.getItem('ff_debt_extra') || '0'));
+  const [debtOrder, setDebtOrder] = useState<string[]>(() => JSON.parse(localStorage.getItem('ff_debt_order') || '[]'));
+
+  const [forecastMode, setForecastMode] = useState<'deterministic' | 'monte_carlo'>(() => localStorage.getItem('ff_proj_mode') === 'monte_carlo' ? 'monte_carlo' : 'deterministic');
+  const [simulatedPaths, setSimulatedPaths] = useState(() => parseInt(localStorage.getItem('ff_mc_paths') || '1000'));
+  const [inflation, setInflation] = useState(() => parseFloat(localStorage.getItem('ff_mc_inflation') || '2.5'));
+  const [milestoneYear, setMilestoneYear] = useState(() => parseInt(localStorage.getItem('ff_mc_milestone_year') || '10'));
+  const [assumptions, setAssumptions] = useState<Record<AssetClass, ReturnAssumption>>(() => ({ ...DEFAULT_ASSUMPTIONS, ...JSON.parse(localStorage.getItem('ff_mc_assumptions') || '{}') }));
+
   const [aiAnalysis, setAiAnalysis] = useState("");
+  const symbol = currencySymbol(baseCurrency);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   // Update storage when sliders change
@@ -53,23 +77,59 @@ const Projections: React.FC<Props> = ({
     localStorage.setItem('ff_proj_roi', expectedReturn.toString());
   }, [expectedReturn]);
 
+  useEffect(() => {
+    localStorage.setItem('ff_debt_strategy', debtStrategy);
+    localStorage.setItem('ff_debt_extra', debtExtra.toString());
+    localStorage.setItem('ff_debt_order', JSON.stringify(debtOrder));
+  }, [debtStrategy, debtExtra, debtOrder]);
+
+  useEffect(() => {
+    localStorage.setItem('ff_proj_mode', forecastMode);
+    localStorage.setItem('ff_mc_paths', simulatedPaths.toString());
+    localStorage.setItem('ff_mc_inflation', inflation.toString());
+    localStorage.setItem('ff_mc_milestone_year', milestoneYear.toString());
+    localStorage.setItem('ff_mc_assumptions', JSON.stringify(assumptions));
+  }, [forecastMode, simulatedPaths, inflation, milestoneYear, assumptions]);
+
   // Calculate base monthly savings
   const monthlyIncome = useMemo(() => recurringIncomes.reduce((acc: number, inc) => acc + inc.amount, 0), [recurringIncomes]);
-  const monthlyFixedExpenses = useMemo(() => recurringExpenses.reduce((acc: number, exp) => acc + exp.amount, 0), [recurringExpenses]);
+  // Planned debt payments are left out here; the debt plan below pays them
+  const monthlyFixedExpenses = useMemo(() => recurringExpenses.filter(exp => !exp.liabilityId).reduce((acc: number, exp) => acc + exp.amount, 0), [recurringExpenses]);
   const monthlyBudgetedExpenses = useMemo(() => Object.values(categoryBudgets).reduce((acc: number, val) => acc + ((val as number) || 0), 0), [categoryBudgets]);
   const netMonthlyCashflow = monthlyIncome - monthlyFixedExpenses - monthlyBudgetedExpenses;
 
+  // What is owed today, paid down by the plan chosen in the debt planner
+  const debts = useMemo(() => plannerDebts(liabilities, transactions, todayKey()), [liabilities, transactions]);
+  const debtPlan = useMemo(() => simulatePlan(debts, debtExtra, debtStrategy, debtOrder, todayKey()), [debts, debtExtra, debtStrategy, debtOrder]);
+  const debtBaseline = useMemo(() => simulatePlan(debts, 0, debtStrategy, debtOrder, todayKey(), false), [debts, debtStrategy, debtOrder]);
+  const appliedDebtBills = recurringExpenses.filter(exp => exp.liabilityId).length;
+  const debtBalance = debts.reduce((acc: number, d) => acc + d.owed, 0);
+
+  // Debt payments come out of cash; only the interest in them lowers net worth
+  const debtByMonth = useMemo(() => Array.from({ length: yearsToProject * 12 }, (_, i) => {
+    const planMonth = debtPlan.months[i];
+    if (!planMonth) return { owed: 0, paid: 0 };
+    const previous = i === 0 ? debtBalance : debtPlan.months[i - 1].total;
+    return { owed: planMonth.total, paid: previous + planMonth.interest - planMonth.total };
+  }), [debtPlan, debtBalance, yearsToProject]);
+
+  const investedByClass = useMemo(() => {
+    const totals: Partial<Record<AssetClass, number>> = {};
+    investments.forEach(inv => {
+      const value = inv.holdings.reduce((hAcc: number, h) => {
+        const live = marketPrices.find(m => m.symbol === h.symbol)?.price || h.purchasePrice;
+        return hAcc + (h.quantity * live);
+      }, 0);
+      totals[assetClassOf(inv)] = (totals[assetClassOf(inv)] || 0) + value;
+    });
+    return totals;
+  }, [investments, marketPrices]);
+  const investedBalance = ASSET_CLASSES.reduce((acc: number, c) => acc + (investedByClass[c.id] || 0), 0);
+
   const projectionData = useMemo(() => {
     const data = [];
     const monthlyRate = expectedReturn / 100 / 12;
-    
-    const investedBalance = investments.reduce((acc: number, inv) => {
-        return acc + inv.holdings.reduce((hAcc: number, h) => {
-          const live = marketPrices.find(m => m.symbol === h.symbol)?.price || h.purchasePrice;
-          return hAcc + (h.quantity * live);
-        }, 0);
-    }, 0);
-    const cashBalance = currentNetWorth - investedBalance;
+    const cashBalance = currentNetWorth - investedBalance + debtBalance;
 
     let runningInvested = investedBalance;
     let runningCash = cashBalance;
@@ -80,7 +140,8 @@ const Projections: React.FC<Props> = ({
       label: 'Now',
       total: currentNetWorth,
       invested: runningInvested,
-      cash: runningCash
+      cash: runningCash,
+      debt: debtBalance
     });
 
     for (let m = 1; m <= yearsToProject * 12; m++) {
@@ -91,7 +152,10 @@ const Projections: React.FC<Props> = ({
       const remainingCashflow = Math.max(0, netMonthlyCashflow - monthlyContribution);
       runningCash = runningCash + remainingCashflow;
 
-      const total = runningInvested + runningCash;
+      runningCash -= debtByMonth[m - 1].paid;
+      const runningDebt = debtByMonth[m - 1].owed;
+
+      const total = runningInvested + runningCash - runningDebt;
       
       if (m % 3 === 0 || m === yearsToProject * 12) {
         data.push({
@@ -99,31 +163,69 @@ const Projections: React.FC<Props> = ({
           label: m % 12 === 0 ? `Yr ${m / 12}` : `M${m}`,
           total: Math.round(total),
           invested: Math.round(runningInvested),
-          cash: Math.round(runningCash)
+          cash: Math.round(runningCash),
+          debt: Math.round(runningDebt)
         });
       }
     }
     return data;
-  }, [currentNetWorth, investments, marketPrices, yearsToProject, monthlyContribution, expectedReturn, netMonthlyCashflow]);
+  }, [currentNetWorth, investedBalance, debtBalance, debtByMonth, yearsToProject, monthlyContribution, expectedReturn, netMonthlyCashflow]);
 
   const finalValue = projectionData[projectionData.length - 1].total;
   const milestones = [
-    { target: 10000, label: '$10k Entry' },
-    { target: 50000, label: '$50k Milestone' },
-    { target: 100000, label: '$100k Club' },
-    { target: 250000, label: '$250k Quarter' },
-    { target: 500000, label: '$500k Half-Mil' },
+    { target: 10000, label: `${symbol}10k Entry` },
+    { target: 50000, label: `${symbol}50k Milestone` },
+    { target: 100000, label: `${symbol}100k Club` },
+    { target: 250000, label: `${symbol}250k Quarter` },
+    { target: 500000, label: `${symbol}500k Half-Mil` },
     { target: 1000000, label: 'Millionaire' }
   ];
 
   const reachedMilestones = milestones.filter(m => m.target <= finalValue);
 
+  // Stochastic mode: the same cash flows and debt plan, with each asset class's returns drawn at random
+  const monteCarlo = useMemo(() => {
+    if (forecastMode !== 'monte_carlo') return null;
+    const months = yearsToProject * 12;
+    const startingBalances: Partial<Record<AssetClass, number>> = { ...investedByClass };
+    startingBalances.cash = (startingBalances.cash || 0) + currentNetWorth - investedBalance + debtBalance;
+    const monthlyContributions: Partial<Record<AssetClass, number>> = {};
+    if (investedBalance > 0) {
+      ASSET_CLASSES.forEach(c => { if (investedByClass[c.id]) monthlyContributions[c.id] = monthlyContribution * (investedByClass[c.id] || 0) / investedBalance; });
+    } else {
+      monthlyContributions.equity_etf = monthlyContribution;
+    }
+    const remainingCashflow = Math.max(0, netMonthlyCashflow - monthlyContribution);
+    return runMonteCarlo({
+      startingBalances,
+      startingDebt: debtBalance,
+      monthlyContributions,
+      cashFlows: debtByMonth.map(d => remainingCashflow - d.paid),
+      debtBalances: debtByMonth.map(d => d.owed),
+      assumptions,
+      inflation,
+      months,
+      paths: simulatedPaths,
+      milestones: milestones.map(m => m.target)
+    });
+  }, [forecastMode, yearsToProject, investedByClass, investedBalance, currentNetWorth, debtBalance, debtByMonth, monthlyContribution, netMonthlyCashflow, assumptions, inflation, simulatedPaths]);
+
+  const fanData = useMemo(() => (monteCarlo?.points || []).map(p => ({
+    label: p.month === 0 ? 'Now' : p.month % 12 === 0 ? `Yr ${p.month / 12}` : `M${p.month}`,
+    outer: [Math.round(p.p10), Math.round(p.p90)],
+    inner: [Math.round(p.p25), Math.round(p.p75)],
+    median: Math.round(p.p50)
+  })), [monteCarlo]);
+
+  const oddsYear = Math.min(milestoneYear, yearsToProject);
+  const medianFinal = fanData.length > 0 ? fanData[fanData.length - 1].median : finalValue;
+
   useEffect(() => {
     const runAI = async () => {
       setIsAnalyzing(true);
       try {
         const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const context = `Current Net Worth: $${currentNetWorth}. Monthly Income: $${monthlyIncome}. Expenses: $${monthlyFixedExpenses + monthlyBudgetedExpenses}. Target Contribution: $${monthlyContribution}. Projected 5-Year Value: $${finalValue}.`;
+        const context = `Current Net Worth: ${symbol}${currentNetWorth}. Monthly Income: ${symbol}${monthlyIncome}. Expenses: ${symbol}${monthlyFixedExpenses + monthlyBudgetedExpenses}. Target Contribution: ${symbol}${monthlyContribution}. Projected 5-Year Value: ${symbol}${finalValue}.`;
         const response = await ai.models.generateContent({
           model: 'gemini-3-flash-preview',
           contents: `Analyze this wealth projection context: ${context}. Give one strategic advice regarding the gap between expenses and contribution. Be very concise.`,
@@ -152,16 +254,32 @@ const Projections: React.FC<Props> = ({
             <div className="flex justify-between items-center mb-10">
               <div>
                 <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.2em]">Wealth Projection Matrix</h3>
-                <p className="text-[10px] text-slate-400 font-bold uppercase mt-1 tracking-widest">Future Net Worth Simulation</p>
+                <p className="text-[10px] text-slate-400 font-bold uppercase mt-1 tracking-widest">
+                  {monteCarlo ? `${monteCarlo.paths.toLocaleString()} Simulated Paths • Today's Money` : 'Future Net Worth Simulation'}
+                </p>
               </div>
               <div className="text-right">
-                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Target End Value</p>
-                <h4 className="text-3xl font-black text-indigo-600 tracking-tighter">${finalValue.toLocaleString()}</h4>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{monteCarlo ? 'Median End Value' : 'Target End Value'}</p>
+                <h4 className="text-3xl font-black text-indigo-600 tracking-tighter">{symbol}{medianFinal.toLocaleString()}</h4>
               </div>
             </div>
 
             <div className="h-[350px] w-full">
               <ResponsiveContainer width="100%" height="100%">
+                {monteCarlo ? (
+                <AreaChart data={fanData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 9, fontWeight: 800, fill: '#94a3b8' }} />
+                  <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 9, fontWeight: 800, fill: '#94a3b8' }} />
+                  <Tooltip 
+                    contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', fontSize: '11px', fontWeight: 'bold' }} 
+                    formatter={(value: any, name: any) => [Array.isArray(value) ? `${symbol}${value[0].toLocaleString()} – ${symbol}${value[1].toLocaleString()}` : `${symbol}${value.toLocaleString()}`, name]}
+                  />
+                  <Area type="monotone" dataKey="outer" stroke="none" fill="#6366f1" fillOpacity={0.12} name="10th–90th Percentile" />
+                  <Area type="monotone" dataKey="inner" stroke="none" fill="#6366f1" fillOpacity={0.25} name="25th–75th Percentile" />
+                  <Area type="monotone" dataKey="median" stroke="#6366f1" strokeWidth={4} fillOpacity={0} name="Median" />
+                </AreaChart>
+                ) : (
                 <AreaChart data={projectionData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
                   <defs>
                     <linearGradient id="colorTotal" x1="0" y1="0" x2="0" y2="1">
@@ -178,11 +296,13 @@ const Projections: React.FC<Props> = ({
                   <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 9, fontWeight: 800, fill: '#94a3b8' }} />
                   <Tooltip 
                     contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', fontSize: '11px', fontWeight: 'bold' }} 
-                    formatter={(value: any) => [`$${value.toLocaleString()}`, 'Value']}
+                    formatter={(value: any) => [`${symbol}${value.toLocaleString()}`, 'Value']}
                   />
                   <Area type="monotone" dataKey="total" stroke="#6366f1" strokeWidth={4} fillOpacity={1} fill="url(#colorTotal)" name="Total Net Worth" />
                   <Area type="monotone" dataKey="invested" stroke="#10b981" strokeWidth={2} fillOpacity={0.3} fill="url(#colorInvested)" name="Invested Asset Growth" strokeDasharray="5 5" />
+                  {debts.length > 0 && <Area type="monotone" dataKey="debt" stroke="#ef4444" strokeWidth={2} fillOpacity={0} name="Debt Outstanding" strokeDasharray="3 3" />}
                 </AreaChart>
+                )}
               </ResponsiveContainer>
             </div>
           </div>
@@ -191,7 +311,13 @@ const Projections: React.FC<Props> = ({
         {/* Simulator Controls */}
         <aside className="w-full lg:w-[380px] space-y-6">
           <div className="bg-slate-900 p-8 rounded-[3rem] text-white shadow-2xl">
-            <h3 className="text-indigo-400 font-black uppercase text-[10px] tracking-[0.4em] mb-8">Scenario Simulator</h3>
+            <div className="flex justify-between items-center mb-8">
+              <h3 className="text-indigo-400 font-black uppercase text-[10px] tracking-[0.4em]">Scenario Simulator</h3>
+              <div className="flex bg-white/5 p-1 rounded-xl">
+                <button onClick={() => setForecastMode('deterministic')} className={`px-3 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${forecastMode === 'deterministic' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>Fixed</button>
+                <button onClick={() => setForecastMode('monte_carlo')} className={`px-3 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${forecastMode === 'monte_carlo' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>Monte Carlo</button>
+              </div>
+            </div>
             
             <div className="space-y-10">
               <div>
@@ -210,7 +336,7 @@ const Projections: React.FC<Props> = ({
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Monthly Contribution</label>
-                  <span className="text-sm font-black text-emerald-400">${monthlyContribution}</span>
+                  <span className="text-sm font-black text-emerald-400">{symbol}{monthlyContribution}</span>
                 </div>
                 <input 
                   type="range" min="0" max={Math.max(5000, monthlyIncome)} step="50"
@@ -218,9 +344,10 @@ const Projections: React.FC<Props> = ({
                   onChange={(e) => setMonthlyContribution(parseInt(e.target.value))}
                   className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-emerald-500" 
                 />
-                <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mt-2">Available Surplus: ${netMonthlyCashflow.toFixed(0)}</p>
+                <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mt-2">Available Surplus: {symbol}{netMonthlyCashflow.toFixed(0)}</p>
               </div>
 
+              {forecastMode === 'deterministic' ? (
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Expected ROI (Annual)</label>
@@ -233,6 +360,64 @@ const Projections: React.FC<Props> = ({
                   className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-500" 
                 />
               </div>
+              ) : (
+              <>
+                <div>
+                  <div className="flex justify-between items-center mb-4">
+                    <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Inflation (Annual)</label>
+                    <span className="text-sm font-black text-amber-400">{inflation}%</span>
+                  </div>
+                  <input 
+                    type="range" min="0" max="10" step="0.5"
+                    value={inflation} 
+                    onChange={(e) => setInflation(parseFloat(e.target.value))}
+                    className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-500" 
+                  />
+                </div>
+
+                <div>
+                  <div className="flex justify-between items-center mb-4">
+                    <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Simulated Paths</label>
+                    <div className="flex bg-white/5 p-1 rounded-xl">
+                      {SIMULATION_PATH_OPTIONS.map(n => (
+                        <button key={n} onClick={() => setSimulatedPaths(n)} className={`px-3 py-1 rounded-lg text-[9px] font-black transition-all ${simulatedPaths === n ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>{n.toLocaleString()}</button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex justify-between items-center mb-3">
+                    <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Return / Volatility</label>
+                    <button onClick={() => setAssumptions(DEFAULT_ASSUMPTIONS)} className="text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-400">Reset</button>
+                  </div>
+                  <div className="space-y-2">
+                    {ASSET_CLASSES.map(c => (
+                      <div key={c.id} className="flex items-center gap-2">
+                        <span className="flex-1 text-[9px] font-black uppercase tracking-widest text-slate-400 truncate">
+                          <span className="inline-block w-1.5 h-1.5 rounded-full mr-2" style={{ backgroundColor: c.color }}></span>{c.label}
+                        </span>
+                        {(['expectedReturn', 'volatility'] as const).map(field => (
+                          <input
+                            key={field}
+                            type="number" step="0.5" min={field === 'volatility' ? 0 : -50} max="100"
+                            title={field === 'expectedReturn' ? 'Expected annual return %' : 'Annual volatility %'}
+                            value={assumptions[c.id][field]}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value);
+                              if (Number.isNaN(value)) return;
+                              setAssumptions({ ...assumptions, [c.id]: { ...assumptions[c.id], [field]: field === 'volatility' ? Math.max(0, value) : value } });
+                            }}
+                            className="w-16 bg-white/5 border border-white/10 rounded-lg p-1.5 text-[10px] font-black text-right outline-none focus:ring-2 focus:ring-indigo-500"
+                          />
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest mt-2">Uninvested money follows Cash • Classes move independently</p>
+                </div>
+              </>
+              )}
             </div>
           </div>
 
@@ -255,19 +440,53 @@ const Projections: React.FC<Props> = ({
         </aside>
       </div>
 
+      {debts.length > 0 && (
+        <DebtPlanner
+          debts={debts}
+          symbol={symbol}
+          strategy={debtStrategy}
+          extra={debtExtra}
+          customOrder={debtOrder}
+          plan={debtPlan}
+          baseline={debtBaseline}
+          appliedCount={appliedDebtBills}
+          onChangeStrategy={setDebtStrategy}
+          onChangeExtra={setDebtExtra}
+          onChangeCustomOrder={setDebtOrder}
+          onApply={() => onApplyDebtPlan(planExpenses(debtPlan, debts))}
+        />
+      )}
+
       <section className="bg-white p-10 rounded-[3.5rem] border border-slate-100 shadow-sm overflow-hidden">
-        <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.2em] mb-10">Wealth Milestones Forecast</h3>
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-10">
+          <h3 className="font-black text-slate-800 uppercase text-xs tracking-[0.2em]">Wealth Milestones Forecast</h3>
+          {monteCarlo && (
+            <div className="flex items-center gap-4">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">Chance of reaching by</label>
+              <input 
+                type="range" min="1" max={yearsToProject} 
+                value={oddsYear} 
+                onChange={(e) => setMilestoneYear(parseInt(e.target.value))}
+                className="w-32 h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-500" 
+              />
+              <span className="text-sm font-black text-indigo-600 w-12">Yr {oddsYear}</span>
+            </div>
+          )}
+        </div>
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6">
           {milestones.map((m, idx) => {
-            const isReached = m.target <= finalValue;
-            const progress = Math.min(100, (finalValue / m.target) * 100);
+            // In Monte Carlo mode a milestone counts as reached when more than half the paths get there
+            const odds = monteCarlo ? monteCarlo.milestones[idx].byYear[oddsYear - 1] : null;
+            const isReached = odds !== null ? odds >= 0.5 : m.target <= finalValue;
+            const progress = odds !== null ? odds * 100 : Math.min(100, (finalValue / m.target) * 100);
             return (
               <div key={idx} className={`p-6 rounded-[2.5rem] border-2 transition-all ${isReached ? 'bg-emerald-50/30 border-emerald-100 shadow-sm' : 'bg-slate-50/50 border-slate-100 opacity-60'}`}>
                 <div className={`w-10 h-10 rounded-xl flex items-center justify-center mb-4 ${isReached ? 'bg-emerald-500 text-white shadow-lg' : 'bg-slate-200 text-slate-400'}`}>
                   <i className={`fas ${isReached ? 'fa-check-circle' : 'fa-lock'}`}></i>
                 </div>
                 <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{m.label}</p>
-                <p className={`text-sm font-black ${isReached ? 'text-emerald-700' : 'text-slate-800'}`}>${(m.target/1000)}k</p>
+                <p className={`text-sm font-black ${isReached ? 'text-emerald-700' : 'text-slate-800'}`}>{symbol}{(m.target/1000)}k</p>
+                {odds !== null && <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest mt-1">{Math.round(odds * 100)}% by Yr {oddsYear}</p>}
                 
                 <div className="mt-4 h-1 w-full bg-slate-200 rounded-full overflow-hidden">
                   <div className={`h-full ${isReached ? 'bg-emerald-500' : 'bg-indigo-400'} transition-all duration-1000`} style={{ width: `${progress}%` }}></div>
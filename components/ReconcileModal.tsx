@@ -0,0 +1,163 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, BankConnection, FxRate, Reconciliation } from '../types';
+import { buildWorksheet, accountAmount, checkpointsFor } from '../services/reconciliationService';
+import { connectionCurrency, formatMoney } from '../services/currencyService';
+
+interface Props {
+  connection: BankConnection;
+  transactions: Transaction[];
+  bankConnections: BankConnection[];
+  reconciliations: Reconciliation[];
+  fxRates: FxRate[];
+  onAddReconciliation: (reconciliation: Omit<Reconciliation, 'id'>) => void;
+  onDeleteReconciliation: (id: string) => void;
+  onClose: () => void;
+}
+
+const ReconcileModal: React.FC<Props> = ({ connection, transactions, bankConnections, reconciliations, fxRates, onAddReconciliation, onDeleteReconciliation, onClose }) => {
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+
+  const currency = connectionCurrency(connection);
+  const history = checkpointsFor(reconciliations, connection.institution);
+  const latest = history[history.length - 1];
+
+  const worksheet = useMemo(
+    () => buildWorksheet(connection, statementDate, transactions, reconciliations, bankConnections, fxRates),
+    [connection, statementDate, transactions, reconciliations, bankConnections, fxRates]
+  );
+
+  const amountOf = (t: Transaction) => accountAmount(t, connection, bankConnections, fxRates);
+  const clearedBalance = worksheet.outstanding
+    .filter(t => ticked.has(t.id))
+    .reduce((acc, t) => acc + amountOf(t), worksheet.previouslyCleared);
+  const statement = parseFloat(statementBalance);
+  const discrepancy = Number.isFinite(statement) ? statement - clearedBalance : null;
+  const isBalanced = discrepancy !== null && Math.abs(discrepancy) < 0.005;
+
+  const toggle = (id: string) => {
+    setTicked(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleFinish = () => {
+    if (discrepancy === null) return alert('Enter the ending balance from the statement.');
+    if (latest && statementDate < latest.statementDate) return alert(`This account is already reconciled up to ${latest.statementDate}.`);
+    if (!isBalanced && !confirm(`The cleared balance is ${formatMoney(Math.abs(discrepancy), currency)} ${discrepancy > 0 ? 'below' : 'above'} the statement. Record the checkpoint with this discrepancy?`)) return;
+    onAddReconciliation({
+      institution: connection.institution,
+      statementDate,
+      statementBalance: statement,
+      clearedBalance,
+      discrepancy: isBalanced ? 0 : discrepancy,
+      clearedIds: Array.from(ticked),
+      reconciledAt: new Date().toISOString()
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-md">
+      <div className="bg-white w-full max-w-2xl rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-black text-slate-800">Reconcile {connection.institution}</h3>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+              {latest ? `Last reconciled to ${latest.statementDate}` : 'Never reconciled'} • {currency}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-full bg-slate-50 text-slate-400 hover:text-slate-800 transition"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="p-8 grid grid-cols-2 gap-4 border-b border-slate-100">
+          <div>
+            <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Statement Date</label>
+            <input type="date" value={statementDate} onChange={e => setStatementDate(e.target.value)} className="w-full mt-1 bg-slate-50 border border-slate-200 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          </div>
+          <div>
+            <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Ending Balance ({currency})</label>
+            <input type="number" step="0.01" placeholder="0.00" value={statementBalance} onChange={e => setStatementBalance(e.target.value)} className="w-full mt-1 bg-slate-50 border border-slate-200 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar p-8 space-y-2">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{worksheet.outstanding.length} Uncleared On Or Before {statementDate}</p>
+            {worksheet.outstanding.length > 0 && (
+              <button
+                onClick={() => setTicked(ticked.size === worksheet.outstanding.length ? new Set() : new Set(worksheet.outstanding.map(t => t.id)))}
+                className="text-[9px] font-black text-indigo-600 uppercase tracking-widest"
+              >
+                {ticked.size === worksheet.outstanding.length ? 'Clear All' : 'Tick All'}
+              </button>
+            )}
+          </div>
+          {worksheet.outstanding.map(t => {
+            const amount = amountOf(t);
+            return (
+              <label key={t.id} className={`p-4 border rounded-2xl flex items-center gap-4 cursor-pointer transition ${ticked.has(t.id) ? 'bg-emerald-50/60 border-emerald-200' : 'bg-slate-50 border-slate-100 hover:bg-slate-100'}`}>
+                <input type="checkbox" checked={ticked.has(t.id)} onChange={() => toggle(t.id)} className="accent-emerald-600" />
+                <span className="w-20 text-[10px] font-black text-slate-400 font-mono">{t.date.split('T')[0]}</span>
+                <span className="flex-1 text-xs font-bold text-slate-700 truncate">{t.description}</span>
+                <span className={`text-xs font-black ${amount >= 0 ? 'text-emerald-600' : 'text-slate-900'}`}>{formatMoney(amount, currency)}</span>
+              </label>
+            );
+          })}
+          {worksheet.outstanding.length === 0 && (
+            <p className="text-center py-10 text-[10px] font-black text-slate-300 uppercase tracking-widest">Nothing left to clear for this period</p>
+          )}
+
+          {history.length > 0 && (
+            <div className="pt-6">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Checkpoints</p>
+              {[...history].reverse().map(r => (
+                <div key={r.id} className="p-3 bg-white border border-slate-100 rounded-xl flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-3">
+                    <i className="fas fa-lock text-[10px] text-slate-300"></i>
+                    <span className="text-[10px] font-black text-slate-700">{r.statementDate}</span>
+                    <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{r.clearedIds.length} cleared • {formatMoney(r.statementBalance, currency)}</span>
+                    {r.discrepancy !== 0 && <span className="text-[8px] font-black bg-amber-100 text-amber-700 px-2 py-0.5 rounded uppercase tracking-widest">Off by {formatMoney(r.discrepancy, currency)}</span>}
+                  </div>
+                  {r.id === latest?.id && (
+                    <button
+                      onClick={() => { if (confirm(`Undo the ${r.statementDate} checkpoint and unlock its transactions?`)) onDeleteReconciliation(r.id); }}
+                      className="text-[9px] font-black text-slate-400 hover:text-rose-500 uppercase tracking-widest transition"
+                    >
+                      Undo
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-8 bg-slate-900 text-white flex items-center justify-between gap-6">
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Cleared Balance</p>
+              <p className="text-sm font-black">{formatMoney(clearedBalance, currency)}</p>
+            </div>
+            <div>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Discrepancy</p>
+              <p className={`text-sm font-black ${discrepancy === null ? 'text-slate-500' : isBalanced ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {discrepancy === null ? '—' : formatMoney(isBalanced ? 0 : discrepancy, currency)}
+              </p>
+            </div>
+          </div>
+          <button onClick={handleFinish} className="px-8 py-4 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition">
+            Record Checkpoint
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReconcileModal;
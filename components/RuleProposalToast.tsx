@@ -0,0 +1,26 @@
+
+import React from 'react';
+import { CategoryRuleDraft, RULE_OPERATOR_LABELS } from '../services/categoryRulesService';
+
+interface Props {
+  proposal: CategoryRuleDraft;
+  onAccept: () => void;
+  onDismiss: () => void;
+}
+
+const RuleProposalToast: React.FC<Props> = ({ proposal, onAccept, onDismiss }) => (
+  <div className="fixed bottom-6 left-6 z-[160] max-w-sm bg-slate-900 text-white rounded-[2rem] shadow-2xl p-5 animate-in slide-in-from-bottom-4 duration-300">
+    <p className="text-[9px] font-black text-indigo-400 uppercase tracking-widest mb-2">
+      <i className="fas fa-graduation-cap mr-1"></i> Learn From This Fix?
+    </p>
+    <p className="text-xs font-bold mb-4">
+      When {proposal.field === 'vendor' ? 'the vendor' : 'the description'} {RULE_OPERATOR_LABELS[proposal.operator]} "{proposal.pattern}", file it under <span className="text-indigo-300">{proposal.category}</span>.
+    </p>
+    <div className="flex gap-2">
+      <button onClick={onAccept} className="flex-1 py-2.5 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-xl hover:bg-indigo-500 transition">Create Rule</button>
+      <button onClick={onDismiss} className="flex-1 py-2.5 bg-white/10 text-slate-300 text-[9px] font-black uppercase tracking-widest rounded-xl hover:bg-white/20 transition">Not Now</button>
+    </div>
+  </div>
+);
+
+export default RuleProposalToast;
@@ -1,7 +1,22 @@
 
 import React, { useState, useMemo, useRef } from 'react';
-import { CATEGORIES, RecurringExpense, RecurringIncome, SavingGoal, BankConnection, InvestmentGoal, StoredUser, STORAGE_KEYS } from '../types';
+import { RecurringExpense, RecurringIncome, SavingGoal, BankConnection, InvestmentGoal, StoredUser, UserRole, CategoryRule, CategoryRuleField, CategoryRuleOperator, Category, FxRate, CurrencyCode, BudgetCycle, BudgetCycleKind, SyncLogEntry, InvestmentAccount, InvestmentTrade, AssetClass, PricePoint, Liability, Transaction } from '../types';
 import { storeMirrorHandle, clearVaultHandle, triggerSecureDownload } from '../services/fileStorageService';
+import { createBackup, parseBackup, previewRestore, applyRestore, ParsedBackup, RestorePreview, RestoreMode } from '../services/backupService';
+import BackupRestoreModal from './BackupRestoreModal';
+import { createStoredUser, validateRegistration, countAdmins, MIN_PASSWORD_LENGTH } from '../services/authService';
+import { requireVaultKey } from '../services/vaultCrypto';
+import { CategoryRuleDraft, RULE_OPERATOR_LABELS } from '../services/categoryRulesService';
+import { categoryOptions, childrenOf } from '../services/categoryService';
+import CategoryManager from './CategoryManager';
+import CurrencyManager from './CurrencyManager';
+import PriceManager from './PriceManager';
+import LiabilityManager from './LiabilityManager';
+import { CURRENCIES, HOME_CURRENCY, connectionCurrency, convertAmount, formatMoney } from '../services/currencyService';
+import { isSyncable } from '../services/syncScheduler';
+import { CASH_ACCOUNT } from '../services/balanceService';
+import { ASSET_CLASSES, assetClassOf } from '../services/assetAllocationService';
+import { CYCLE_KIND_LABELS, cycleContaining, describeCycle, formatPeriod, todayKey } from '../services/budgetCycleService';
 
 interface Props {
   salary: number;
@@ -25,6 +40,40 @@ interface Props {
   investmentGoals: InvestmentGoal[];
   onAddInvestmentGoal: (item: Omit<InvestmentGoal, 'id'>) => void;
   onDeleteInvestmentGoal: (id: string) => void;
+  investments: InvestmentAccount[];
+  onAddInvestment: (item: Omit<InvestmentAccount, 'id' | 'holdings'>) => void;
+  onUpdateInvestment: (id: string, updates: Partial<InvestmentAccount>) => void;
+  onDeleteInvestment: (id: string) => void;
+  onAddTrade: (accountId: string, trade: Omit<InvestmentTrade, 'id'>) => void;
+  categories: Category[];
+  categoryUsage: Record<string, number>;
+  onAddCategory: (category: Omit<Category, 'id' | 'createdAt' | 'archived'>) => void;
+  onUpdateCategory: (category: Category) => void;
+  onMergeCategory: (sourceId: string, targetId: string) => void;
+  categoryRules: CategoryRule[];
+  onAddCategoryRule: (rule: CategoryRuleDraft) => void;
+  onUpdateCategoryRule: (rule: CategoryRule) => void;
+  onDeleteCategoryRule: (id: string) => void;
+  baseCurrency: CurrencyCode;
+  onUpdateBaseCurrency: (code: CurrencyCode) => void;
+  budgetCycle: BudgetCycle;
+  onUpdateBudgetCycle: (cycle: BudgetCycle) => void;
+  fxRates: FxRate[];
+  currenciesInUse: CurrencyCode[];
+  onAddFxRate: (rate: Omit<FxRate, 'id'>) => void;
+  onDeleteFxRate: (id: string) => void;
+  priceHistory: PricePoint[];
+  heldSymbols: string[];
+  priceFeedLabel: string;
+  priceFeedError: string | null;
+  onRecordPrices: (points: PricePoint[]) => void;
+  onDeletePrice: (id: string) => void;
+  onRefreshPrices: () => void;
+  liabilities: Liability[];
+  transactions: Transaction[];
+  onAddLiability: (liability: Omit<Liability, 'id'>) => void;
+  onUpdateLiability: (liability: Liability) => void;
+  onDeleteLiability: (id: string) => void;
   onExportData: () => void;
   onResetData: () => void;
   onClose: () => void;
@@ -35,15 +84,23 @@ interface Props {
   onResetBank: () => void;
   onSetDirectory: (handle: FileSystemDirectoryHandle | null) => void;
   directoryHandle: FileSystemDirectoryHandle | null;
-  onUpdatePassword: (newPass: string) => void;
+  onUpdatePassword: (currentPass: string, newPass: string) => Promise<boolean>;
+  autoLockMinutes: number;
+  onUpdateAutoLock: (minutes: number) => void;
   users: StoredUser[];
   onUpdateUsers: (users: StoredUser[]) => void;
+  currentUsername: string;
+  onVaultRestored: () => Promise<void>;
   isAdmin: boolean;
   onOpenBankSync?: () => void;
   onUnlinkBank?: (inst: string) => void;
+  onSyncBank?: (inst: string) => void;
+  onUpdateBankConnection?: (conn: BankConnection) => void;
+  onReconcileBank?: (institution: string) => void;
+  syncLog?: SyncLogEntry[];
 }
 
-type SettingsTab = 'general' | 'recurring' | 'goals' | 'api' | 'security';
+type SettingsTab = 'general' | 'recurring' | 'goals' | 'categories' | 'rules' | 'currency' | 'prices' | 'debts' | 'api' | 'security';
 
 const Settings: React.FC<Props> = ({ 
   targetMargin, categoryBudgets, onUpdateCategoryBudgets, 
@@ -52,70 +109,99 @@ const Settings: React.FC<Props> = ({
   recurringIncomes, onAddRecurringIncome, onDeleteRecurringIncome,
   savingGoals, onAddSavingGoal, onDeleteSavingGoal,
   investmentGoals, onAddInvestmentGoal, onDeleteInvestmentGoal,
+  investments, onAddInvestment, onUpdateInvestment, onDeleteInvestment, onAddTrade,
+  categories, categoryUsage, onAddCategory, onUpdateCategory, onMergeCategory,
+  categoryRules, onAddCategoryRule, onUpdateCategoryRule, onDeleteCategoryRule,
+  baseCurrency, onUpdateBaseCurrency, budgetCycle, onUpdateBudgetCycle, fxRates, currenciesInUse, onAddFxRate, onDeleteFxRate,
+  priceHistory, heldSymbols, priceFeedLabel, priceFeedError, onRecordPrices, onDeletePrice, onRefreshPrices,
+  liabilities, transactions, onAddLiability, onUpdateLiability, onDeleteLiability,
   onResetData, onClose, onLogout, 
-  onUpdatePassword, bankConnections,
-  onOpenBankSync, onUnlinkBank,
+  onUpdatePassword, autoLockMinutes, onUpdateAutoLock, bankConnections,
+  onOpenBankSync, onUnlinkBank, onSyncBank, onUpdateBankConnection, onReconcileBank, syncLog = [],
   onSetDirectory, directoryHandle,
+  users, onUpdateUsers, currentUsername, onVaultRestored,
   isAdmin
 }) => {
   const [activeTab, setActiveTab] = useState<SettingsTab>('general');
   const [isChangingPass, setIsChangingPass] = useState(false);
-  const [passForm, setPassForm] = useState({ new: '', confirm: '' });
+  const [passForm, setPassForm] = useState({ current: '', new: '', confirm: '' });
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; parsed: ParsedBackup; preview: RestorePreview } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const options = categoryOptions(categories);
+  const defaultCategory = options[0]?.name || 'Other';
+
   // Temp form states for adding new items
-  const [newRec, setNewRec] = useState({ description: '', amount: '', category: CATEGORIES[0], dayOfMonth: '1' });
+  const [newRec, setNewRec] = useState({ description: '', amount: '', category: defaultCategory, dayOfMonth: '1' });
   const [newInc, setNewInc] = useState({ description: '', amount: '', dayOfMonth: '25' });
-  const [newGoal, setNewGoal] = useState({ name: '', target: '', category: CATEGORIES[0] });
+  const [newGoal, setNewGoal] = useState({ name: '', target: '', category: defaultCategory });
+  const [newRule, setNewRule] = useState<{ field: CategoryRuleField; operator: CategoryRuleOperator; pattern: string; category: string; institution: string }>({ field: 'vendor', operator: 'contains', pattern: '', category: defaultCategory, institution: '' });
+  const [newMember, setNewMember] = useState<{ username: string; password: string; role: UserRole }>({ username: '', password: '', role: 'collaborator' });
+  const [newInvestment, setNewInvestment] = useState<{ name: string; provider: string; assetClass: AssetClass; currency: CurrencyCode }>({ name: '', provider: '', assetClass: 'equity_etf', currency: 'USD' });
+  const [tradeDraft, setTradeDraft] = useState<{ accountId: string; symbol: string; side: InvestmentTrade['side']; quantity: string; price: string; date: string } | null>(null);
 
   const calculatedSurplus = useMemo(() => {
     // Filter out everything except institutionType === 'bank'
     const totalOnlyBanks: number = (bankConnections || [])
       .filter(c => c.institutionType === 'bank')
-      .reduce((acc: number, c) => acc + (c.openingBalance || 0), 0);
+      .reduce((acc: number, c) => acc + convertAmount(c.openingBalance || 0, connectionCurrency(c), baseCurrency, fxRates), 0);
     
-    const totalLiquid: number = totalOnlyBanks + cashOpeningBalance;
-    const totalThresholds: number = (Object.values(categoryBudgets || {}) as number[]).reduce((acc: number, val: number) => acc + (val || 0), 0);
-    const totalRecurring: number = (recurringExpenses || []).reduce((acc: number, exp) => acc + (exp.amount || 0), 0);
+    const totalLiquid: number = totalOnlyBanks + convertAmount(cashOpeningBalance, HOME_CURRENCY, baseCurrency, fxRates);
+    const totalThresholds: number = convertAmount((Object.values(categoryBudgets || {}) as number[]).reduce((acc: number, val: number) => acc + (val || 0), 0), HOME_CURRENCY, baseCurrency, fxRates);
+    const totalRecurring: number = (recurringExpenses || []).reduce((acc: number, exp) => acc + convertAmount(exp.amount || 0, exp.currency || HOME_CURRENCY, baseCurrency, fxRates), 0);
     
     return totalLiquid - (totalThresholds + totalRecurring);
-  }, [bankConnections, cashOpeningBalance, categoryBudgets, recurringExpenses]);
+  }, [bankConnections, cashOpeningBalance, categoryBudgets, recurringExpenses, baseCurrency, fxRates]);
 
-  const handleExportBackup = () => {
-    const backupData: Record<string, string | null> = {};
-    Object.values(STORAGE_KEYS).forEach(key => {
-      backupData[key] = localStorage.getItem(key);
-    });
-    
-    const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    triggerSecureDownload(blob, `fire_finance_backup_${timestamp}.json`);
+  // Switching schedules keeps whichever detail the new kind needs, seeded from the old one
+  const handleCycleKindChange = (kind: BudgetCycleKind) => {
+    if (kind === 'day_of_month') onUpdateBudgetCycle({ kind, dayOfMonth: budgetCycle.dayOfMonth || 25 });
+    else if (kind === 'weekly' || kind === 'biweekly') onUpdateBudgetCycle({ kind, anchorDate: budgetCycle.anchorDate || todayKey() });
+    else if (kind === 'recurring_income') onUpdateBudgetCycle({ kind, recurringIncomeId: budgetCycle.recurringIncomeId || recurringIncomes[0]?.id });
+    else onUpdateBudgetCycle({ kind });
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      const backup = await createBackup(currentUsername, directoryHandle?.name || null);
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      triggerSecureDownload(blob, `fire_finance_backup_${timestamp}.json`);
+    } catch (err: any) {
+      alert(`Backup Failed: ${err.message}`);
+    }
   };
 
+  // Restores are parsed, validated and diffed first; nothing is written until the preview is confirmed.
   const handleImportRestore = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
-        const data = JSON.parse(event.target?.result as string);
-        if (confirm("RESTORE WARNING: This will overwrite ALL current vault data. This action cannot be undone. Proceed?")) {
-          Object.keys(data).forEach(key => {
-            if (data[key] !== null) {
-              localStorage.setItem(key, data[key]);
-            }
-          });
-          alert("Vault Data Restored Successfully. Terminal will now reload.");
-          window.location.reload();
-        }
-      } catch (err) {
-        alert("CRITICAL ERROR: Invalid backup file structure.");
+        const parsed = parseBackup(JSON.parse(event.target?.result as string));
+        setPendingRestore({ fileName: file.name, parsed, preview: await previewRestore(parsed) });
+      } catch (err: any) {
+        alert(`CRITICAL ERROR: Invalid backup file. ${err.message || ''}`);
       }
     };
     reader.readAsText(file);
   };
 
+  const handleApplyRestore = async (mode: RestoreMode) => {
+    if (!pendingRestore) return;
+    try {
+      await applyRestore(pendingRestore.parsed, mode);
+      await onVaultRestored();
+      setPendingRestore(null);
+      alert(mode === 'merge' ? "Backup merged into vault." : "Vault replaced from backup.");
+    } catch (err: any) {
+      alert(`Restore Failed: ${err.message}`);
+    }
+  };
+
   const handleLinkMirrorDirectory = async () => {
     try {
       if ((window as any).showDirectoryPicker) {
@@ -142,19 +228,54 @@ const Settings: React.FC<Props> = ({
     onUpdateCategoryBudgets({ ...categoryBudgets, [category]: parseFloat(value) || 0 });
   };
 
-  const handlePasswordSubmit = () => {
-    if (!passForm.new || passForm.new.length < 4) return alert('Min 4 chars');
+  // The current password is required so an unattended, unlocked session cannot take over the account.
+  const handlePasswordSubmit = async () => {
+    if (!passForm.current) return alert('Enter your current password');
+    if (!passForm.new || passForm.new.length < MIN_PASSWORD_LENGTH) return alert(`Min ${MIN_PASSWORD_LENGTH} chars`);
     if (passForm.new !== passForm.confirm) return alert('Mismatch');
-    onUpdatePassword(passForm.new);
+    try {
+      if (!(await onUpdatePassword(passForm.current, passForm.new))) return alert('Current password is incorrect.');
+    } catch (err) {
+      return alert("Re-wrap failed. Your previous password is still active.");
+    }
     setIsChangingPass(false);
-    setPassForm({ new: '', confirm: '' });
-    alert("Vault credentials updated.");
+    setPassForm({ current: '', new: '', confirm: '' });
+    alert("Vault credentials updated and vault key re-wrapped.");
+  };
+
+  // Guards keep at least one admin on the device and stop admins locking themselves out.
+  const handleRoleChange = (username: string, role: UserRole) => {
+    const next = users.map(u => u.username === username ? { ...u, role } : u);
+    if (countAdmins(next) === 0) return alert('At least one admin is required.');
+    if (username === currentUsername && role !== 'admin' && !confirm('Remove your own admin rights?')) return;
+    onUpdateUsers(next);
+  };
+
+  const handleRemoveMember = (username: string) => {
+    if (username === currentUsername) return alert('You cannot remove your own account.');
+    if (!confirm(`Remove ${username}? Their personal vault data will be erased.`)) return;
+    const next = users.filter(u => u.username !== username);
+    if (countAdmins(next) === 0) return alert('At least one admin is required.');
+    onUpdateUsers(next);
+  };
+
+  const handleAddMember = async () => {
+    const error = validateRegistration(users, newMember.username, newMember.password);
+    if (error) return alert(error);
+    const account = await createStoredUser(newMember.username, newMember.password, newMember.role, requireVaultKey());
+    onUpdateUsers([...users, account]);
+    setNewMember({ username: '', password: '', role: 'collaborator' });
   };
 
   const tabs: {id: SettingsTab, label: string, icon: string}[] = [
     { id: 'general', label: 'Core', icon: 'fa-sliders-h' },
     { id: 'recurring', label: 'Recurring', icon: 'fa-redo' },
     { id: 'goals', label: 'Targets', icon: 'fa-bullseye' },
+    { id: 'categories', label: 'Categories', icon: 'fa-tags' },
+    { id: 'rules', label: 'Rules', icon: 'fa-wand-magic-sparkles' },
+    { id: 'currency', label: 'Currency', icon: 'fa-money-bill-transfer' },
+    { id: 'prices', label: 'Prices', icon: 'fa-chart-line' },
+    { id: 'debts', label: 'Debts', icon: 'fa-file-invoice-dollar' },
     { id: 'api', label: 'Gateways', icon: 'fa-plug' },
     { id: 'security', label: 'System', icon: 'fa-shield-halved' },
   ];
@@ -200,7 +321,7 @@ const Settings: React.FC<Props> = ({
                 <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><i className="fas fa-coins text-indigo-600"></i> Financial Baseline</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block">Opening Cash Ledger</label>
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block">Opening Cash Ledger ({HOME_CURRENCY})</label>
                     <input 
                       type="number" 
                       value={cashOpeningBalance} 
@@ -211,7 +332,7 @@ const Settings: React.FC<Props> = ({
                   <div className="p-6 bg-indigo-50/50 rounded-[2rem] border border-indigo-100">
                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 block">Monthly Surplus Target</label>
                     <p className={`text-2xl font-black ${calculatedSurplus >= 0 ? 'text-indigo-600' : 'text-rose-600'}`}>
-                      ${calculatedSurplus.toLocaleString()}
+                      {formatMoney(calculatedSurplus, baseCurrency)}
                     </p>
                     <p className="text-[9px] font-bold text-slate-400 mt-2 uppercase">Derived: (Banks + Cash) - (Budgets + Recurring)</p>
                   </div>
@@ -219,20 +340,197 @@ const Settings: React.FC<Props> = ({
               </section>
 
               <section>
-                <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><i className="fas fa-layer-group text-indigo-600"></i> Spending Thresholds</h3>
-                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
-                  {CATEGORIES.filter(c => !['Income', 'Savings', 'Investments', 'Other', 'Transfer'].includes(c)).map(cat => (
-                    <div key={cat} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm">
-                      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">{cat}</p>
-                      <input 
-                        type="number" 
-                        value={categoryBudgets[cat] || ''} 
-                        onChange={(e) => handleBudgetChange(cat, e.target.value)} 
-                        className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500" 
-                        placeholder="0"
+                <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><i className="fas fa-calendar-week text-indigo-600"></i> Budget Cycle</h3>
+                <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <select
+                      value={budgetCycle.kind}
+                      onChange={(e) => handleCycleKindChange(e.target.value as BudgetCycleKind)}
+                      className="w-full bg-white border border-slate-200 rounded-xl p-4 text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500 appearance-none"
+                    >
+                      {(Object.keys(CYCLE_KIND_LABELS) as BudgetCycleKind[]).map(kind => <option key={kind} value={kind}>{CYCLE_KIND_LABELS[kind]}</option>)}
+                    </select>
+                    {budgetCycle.kind === 'day_of_month' && (
+                      <input
+                        type="number"
+                        min="1"
+                        max="31"
+                        value={budgetCycle.dayOfMonth || 1}
+                        onChange={(e) => onUpdateBudgetCycle({ ...budgetCycle, dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                        className="w-full bg-white border border-slate-200 rounded-xl p-4 text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500"
                       />
+                    )}
+                    {(budgetCycle.kind === 'weekly' || budgetCycle.kind === 'biweekly') && (
+                      <input
+                        type="date"
+                        value={budgetCycle.anchorDate || ''}
+                        onChange={(e) => onUpdateBudgetCycle({ ...budgetCycle, anchorDate: e.target.value || undefined })}
+                        className="w-full bg-white border border-slate-200 rounded-xl p-4 text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500"
+                        title="A day a cycle started on (e.g. a payday)"
+                      />
+                    )}
+                    {budgetCycle.kind === 'recurring_income' && (
+                      <select
+                        value={budgetCycle.recurringIncomeId || ''}
+                        onChange={(e) => onUpdateBudgetCycle({ ...budgetCycle, recurringIncomeId: e.target.value || undefined })}
+                        className="w-full bg-white border border-slate-200 rounded-xl p-4 text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500 appearance-none"
+                      >
+                        <option value="">Choose income…</option>
+                        {recurringIncomes.map(inc => <option key={inc.id} value={inc.id}>{inc.description} (day {inc.dayOfMonth})</option>)}
+                      </select>
+                    )}
+                  </div>
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                    {describeCycle(budgetCycle, recurringIncomes)} • Current: {formatPeriod(cycleContaining(budgetCycle, todayKey(), recurringIncomes))}
+                  </p>
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><i className="fas fa-layer-group text-indigo-600"></i> Spending Thresholds ({HOME_CURRENCY})</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                  {categoryOptions(categories, ['expense']).map(({ name, label, category }) => {
+                    // Parents without their own limit show the sum of their sub-category limits
+                    const rollup = childrenOf(categories, category.id).reduce((sum, child) => sum + (categoryBudgets[child.name] || 0), 0);
+                    return (
+                      <div key={name} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm">
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2 truncate">{label}</p>
+                        <input 
+                          type="number" 
+                          value={categoryBudgets[name] || ''} 
+                          onChange={(e) => handleBudgetChange(name, e.target.value)} 
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500" 
+                          placeholder={rollup > 0 ? `${rollup} (sub-categories)` : '0'}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            </div>
+          )}
+
+          {activeTab === 'categories' && (
+            <div className="space-y-10 animate-in fade-in slide-in-from-bottom-2">
+              <CategoryManager
+                categories={categories}
+                usage={categoryUsage}
+                onAdd={onAddCategory}
+                onUpdate={onUpdateCategory}
+                onMerge={onMergeCategory}
+              />
+            </div>
+          )}
+
+          {activeTab === 'currency' && (
+            <div className="animate-in fade-in slide-in-from-bottom-2">
+              <CurrencyManager
+                baseCurrency={baseCurrency}
+                onUpdateBaseCurrency={onUpdateBaseCurrency}
+                fxRates={fxRates}
+                currenciesInUse={currenciesInUse}
+                onAddFxRate={onAddFxRate}
+                onDeleteFxRate={onDeleteFxRate}
+              />
+            </div>
+          )}
+
+          {activeTab === 'prices' && (
+            <div className="animate-in fade-in slide-in-from-bottom-2">
+              <PriceManager
+                priceHistory={priceHistory}
+                heldSymbols={heldSymbols}
+                feedLabel={priceFeedLabel}
+                feedError={priceFeedError}
+                onRecordPrices={onRecordPrices}
+                onDeletePrice={onDeletePrice}
+                onRefreshPrices={onRefreshPrices}
+              />
+            </div>
+          )}
+
+          {activeTab === 'debts' && (
+            <div className="animate-in fade-in slide-in-from-bottom-2">
+              <LiabilityManager
+                liabilities={liabilities}
+                transactions={transactions}
+                baseCurrency={baseCurrency}
+                accountNames={[CASH_ACCOUNT, ...bankConnections.map(c => c.institution), ...investments.map(i => i.provider)]}
+                onAddLiability={onAddLiability}
+                onUpdateLiability={onUpdateLiability}
+                onDeleteLiability={onDeleteLiability}
+              />
+            </div>
+          )}
+
+          {activeTab === 'rules' && (
+            <div className="space-y-10 animate-in fade-in slide-in-from-bottom-2">
+              <section>
+                <div className="flex justify-between items-center mb-6">
+                  <h3 className="text-lg font-black text-slate-800">Categorization Rules</h3>
+                  <span className="text-[10px] font-black bg-indigo-100 text-indigo-600 px-3 py-1 rounded-full uppercase tracking-widest">Runs Before Review</span>
+                </div>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mb-6">
+                  Applied to AI extractions, statement imports and bank sync. Fixing a category in the ledger or queue proposes a new rule.
+                </p>
+
+                <div className="grid grid-cols-1 gap-3 mb-6">
+                  {categoryRules.map(rule => (
+                    <div key={rule.id} className={`p-5 bg-slate-50 border border-slate-100 rounded-2xl flex items-center justify-between group ${rule.enabled ? '' : 'opacity-50'}`}>
+                      <div className="flex items-center gap-4 min-w-0">
+                        <div className="w-10 h-10 bg-white border border-slate-100 rounded-xl flex items-center justify-center text-indigo-500 shadow-sm">
+                          <i className={`fas ${rule.source === 'learned' ? 'fa-graduation-cap' : 'fa-wand-magic-sparkles'}`}></i>
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-sm font-black text-slate-800 truncate">
+                            {rule.field === 'vendor' ? 'Vendor' : 'Description'} {RULE_OPERATOR_LABELS[rule.operator]} "{rule.pattern}"
+                          </p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                            → {rule.category}{rule.institution && ` • ${rule.institution}`} • {rule.source === 'learned' ? 'Learned' : 'Manual'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => onUpdateCategoryRule({ ...rule, enabled: !rule.enabled })} className="w-9 h-9 flex items-center justify-center text-slate-300 hover:text-indigo-500 transition-colors" title={rule.enabled ? 'Disable' : 'Enable'}>
+                          <i className={`fas ${rule.enabled ? 'fa-toggle-on' : 'fa-toggle-off'} text-sm`}></i>
+                        </button>
+                        <button onClick={() => onDeleteCategoryRule(rule.id)} className="w-9 h-9 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors"><i className="fas fa-trash-alt text-xs"></i></button>
+                      </div>
                     </div>
                   ))}
+                  {categoryRules.length === 0 && (
+                    <p className="p-6 text-center text-[10px] font-black uppercase tracking-widest text-slate-400 bg-slate-50 rounded-2xl">No rules yet</p>
+                  )}
+                </div>
+
+                <div className="p-6 bg-slate-900 rounded-[2.5rem] text-white">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-4">Create Rule</h4>
+                  <div className="grid grid-cols-2 gap-4 mb-4">
+                    <select value={newRule.field} onChange={e => setNewRule({...newRule, field: e.target.value as CategoryRuleField})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+                      <option value="vendor" className="bg-slate-800">Vendor</option>
+                      <option value="description" className="bg-slate-800">Description</option>
+                    </select>
+                    <select value={newRule.operator} onChange={e => setNewRule({...newRule, operator: e.target.value as CategoryRuleOperator})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+                      {(Object.keys(RULE_OPERATOR_LABELS) as CategoryRuleOperator[]).map(op => <option key={op} value={op} className="bg-slate-800">{RULE_OPERATOR_LABELS[op]}</option>)}
+                    </select>
+                    <input type="text" placeholder="Text to match" value={newRule.pattern} onChange={e => setNewRule({...newRule, pattern: e.target.value})} className="col-span-2 bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+                    <select value={newRule.category} onChange={e => setNewRule({...newRule, category: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+                      {options.filter(o => o.name !== 'Transfer').map(o => <option key={o.name} value={o.name} className="bg-slate-800">{o.label}</option>)}
+                    </select>
+                    <select value={newRule.institution} onChange={e => setNewRule({...newRule, institution: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+                      <option value="" className="bg-slate-800">Keep Account</option>
+                      <option value="Cash in Hand" className="bg-slate-800">Cash in Hand</option>
+                      {bankConnections.map(c => <option key={c.institution} value={c.institution} className="bg-slate-800">{c.institution}</option>)}
+                    </select>
+                  </div>
+                  <button 
+                    onClick={() => {
+                      if (!newRule.pattern.trim()) return;
+                      onAddCategoryRule({ ...newRule, pattern: newRule.pattern.trim(), institution: newRule.institution || undefined, enabled: true, source: 'manual' });
+                      setNewRule({ ...newRule, pattern: '' });
+                    }} 
+                    className="w-full py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition"
+                  >Save Rule</button>
                 </div>
               </section>
             </div>
@@ -253,7 +551,7 @@ const Settings: React.FC<Props> = ({
                         <div className="w-10 h-10 bg-white border border-slate-100 rounded-xl flex items-center justify-center text-rose-500 shadow-sm"><i className="fas fa-calendar-minus"></i></div>
                         <div>
                           <p className="text-sm font-black text-slate-800">{exp.description}</p>
-                          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">${exp.amount} • {exp.category} • Day {exp.dayOfMonth}</p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{formatMoney(exp.amount, exp.currency || HOME_CURRENCY)} • {exp.category} • Day {exp.dayOfMonth}</p>
                         </div>
                       </div>
                       <button onClick={() => onDeleteRecurring(exp.id)} className="w-9 h-9 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors"><i className="fas fa-trash-alt text-xs"></i></button>
@@ -267,15 +565,15 @@ const Settings: React.FC<Props> = ({
                     <input type="text" placeholder="Description" value={newRec.description} onChange={e => setNewRec({...newRec, description: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
                     <input type="number" placeholder="Amount" value={newRec.amount} onChange={e => setNewRec({...newRec, amount: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
                     <select value={newRec.category} onChange={e => setNewRec({...newRec, category: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
-                      {CATEGORIES.map(c => <option key={c} value={c} className="bg-slate-800">{c}</option>)}
+                      {options.map(o => <option key={o.name} value={o.name} className="bg-slate-800">{o.label}</option>)}
                     </select>
                     <input type="number" placeholder="Day (1-31)" value={newRec.dayOfMonth} onChange={e => setNewRec({...newRec, dayOfMonth: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
                   </div>
                   <button 
                     onClick={() => {
                       if (!newRec.description || !newRec.amount) return;
-                      onAddRecurring({ ...newRec, amount: parseFloat(newRec.amount), dayOfMonth: parseInt(newRec.dayOfMonth), nextDueDate: new Date().toISOString() });
-                      setNewRec({ description: '', amount: '', category: CATEGORIES[0], dayOfMonth: '1' });
+                      onAddRecurring({ ...newRec, amount: parseFloat(newRec.amount), dayOfMonth: parseInt(newRec.dayOfMonth), nextDueDate: new Date().toISOString(), currency: baseCurrency });
+                      setNewRec({ description: '', amount: '', category: defaultCategory, dayOfMonth: '1' });
                     }} 
                     className="w-full py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition"
                   >Initialize Lifecycle</button>
@@ -295,7 +593,7 @@ const Settings: React.FC<Props> = ({
                         <div className="w-10 h-10 bg-white border border-slate-100 rounded-xl flex items-center justify-center text-emerald-500 shadow-sm"><i className="fas fa-calendar-plus"></i></div>
                         <div>
                           <p className="text-sm font-black text-slate-800">{inc.description}</p>
-                          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">${inc.amount} • {inc.category} • Day {inc.dayOfMonth}</p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{formatMoney(inc.amount, inc.currency || HOME_CURRENCY)} • {inc.category} • Day {inc.dayOfMonth}</p>
                         </div>
                       </div>
                       <button onClick={() => onDeleteRecurringIncome(inc.id)} className="w-9 h-9 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors"><i className="fas fa-trash-alt text-xs"></i></button>
@@ -339,7 +637,8 @@ const Settings: React.FC<Props> = ({
                         amount: parseFloat(newInc.amount), 
                         category: 'Income', 
                         dayOfMonth: parseInt(newInc.dayOfMonth), 
-                        nextConfirmationDate: new Date().toISOString() 
+                        nextConfirmationDate: new Date().toISOString(),
+                        currency: baseCurrency
                       });
                       setNewInc({ description: '', amount: '', dayOfMonth: '25' });
                     }} 
@@ -364,7 +663,7 @@ const Settings: React.FC<Props> = ({
                       <div className="space-y-2">
                         <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
                           <span>Progress</span>
-                          <span className="text-indigo-600">${goal.currentAmount} / ${goal.targetAmount}</span>
+                          <span className="text-indigo-600">{formatMoney(goal.currentAmount, goal.currency || HOME_CURRENCY)} / {formatMoney(goal.targetAmount, goal.currency || HOME_CURRENCY)}</span>
                         </div>
                         <div className="h-2 w-full bg-slate-200 rounded-full overflow-hidden">
                           <div className="h-full bg-indigo-600 transition-all duration-1000" style={{ width: `${(goal.currentAmount/goal.targetAmount)*100}%` }}></div>
@@ -381,8 +680,8 @@ const Settings: React.FC<Props> = ({
                     <button 
                       onClick={() => {
                         if (!newGoal.name || !newGoal.target) return;
-                        onAddSavingGoal({ name: newGoal.name, targetAmount: parseFloat(newGoal.target), institution: 'Savings Account', institutionType: 'bank', openingBalance: 0, category: 'Savings' });
-                        setNewGoal({ name: '', target: '', category: CATEGORIES[0] });
+                        onAddSavingGoal({ name: newGoal.name, targetAmount: parseFloat(newGoal.target), institution: 'Savings Account', institutionType: 'bank', openingBalance: 0, category: 'Savings', currency: baseCurrency });
+                        setNewGoal({ name: '', target: '', category: defaultCategory });
                       }}
                       className="md:col-span-2 py-4 bg-slate-900 text-white font-black rounded-2xl text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-600 transition"
                     >Activate Goal Matrix</button>
@@ -390,6 +689,94 @@ const Settings: React.FC<Props> = ({
                 </div>
               </section>
 
+              <section>
+                <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><i className="fas fa-briefcase text-indigo-600"></i> Investment Accounts</h3>
+                <div className="grid grid-cols-1 gap-4 mb-6">
+                  {investments.map(inv => (
+                    <div key={inv.id} className="p-6 bg-slate-50 border border-slate-100 rounded-[2rem] space-y-4">
+                      <div className="flex justify-between items-start gap-4">
+                        <div className="min-w-0">
+                          <p className="font-black text-slate-800 truncate">{inv.name}</p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{inv.provider} • {inv.currency || 'USD'} • {inv.trades?.length || 0} trades</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={assetClassOf(inv)}
+                            onChange={e => onUpdateInvestment(inv.id, { assetClass: e.target.value as AssetClass })}
+                            className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-[9px] font-black uppercase tracking-widest outline-none focus:ring-2 focus:ring-indigo-500"
+                          >
+                            {ASSET_CLASSES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                          </select>
+                          <button onClick={() => onDeleteInvestment(inv.id)} className="text-slate-300 hover:text-rose-500 p-2"><i className="fas fa-trash-alt text-xs"></i></button>
+                        </div>
+                      </div>
+                      {inv.holdings.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {inv.holdings.map(h => (
+                            <span key={h.symbol} className="px-3 py-1.5 bg-white border border-slate-100 rounded-xl text-[10px] font-black text-slate-600">
+                              {h.symbol} <span className="text-slate-400">{h.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} @ {formatMoney(h.purchasePrice, h.currency || inv.currency || 'USD')}</span>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {tradeDraft?.accountId === inv.id ? (
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                          <input placeholder="Symbol" value={tradeDraft.symbol} onChange={e => setTradeDraft({ ...tradeDraft, symbol: e.target.value.toUpperCase() })} className="p-3 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs" />
+                          <select value={tradeDraft.side} onChange={e => setTradeDraft({ ...tradeDraft, side: e.target.value as InvestmentTrade['side'] })} className="p-3 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs">
+                            <option value="buy">Buy</option>
+                            <option value="sell">Sell</option>
+                          </select>
+                          <input type="number" placeholder="Units" value={tradeDraft.quantity} onChange={e => setTradeDraft({ ...tradeDraft, quantity: e.target.value })} className="p-3 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs" />
+                          <input type="number" placeholder="Unit Price" value={tradeDraft.price} onChange={e => setTradeDraft({ ...tradeDraft, price: e.target.value })} className="p-3 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs" />
+                          <input type="date" value={tradeDraft.date} onChange={e => setTradeDraft({ ...tradeDraft, date: e.target.value })} className="p-3 bg-white border border-slate-200 rounded-xl outline-none font-bold text-xs" />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => {
+                                const quantity = parseFloat(tradeDraft.quantity);
+                                const price = parseFloat(tradeDraft.price);
+                                if (!tradeDraft.symbol.trim() || !(quantity > 0) || !(price >= 0)) return alert('Enter a symbol, a unit count and a unit price.');
+                                onAddTrade(inv.id, { date: tradeDraft.date, symbol: tradeDraft.symbol.trim(), side: tradeDraft.side, quantity, price, fee: 0, currency: inv.currency || 'USD' });
+                                setTradeDraft(null);
+                              }}
+                              className="flex-1 py-3 bg-slate-900 text-white font-black rounded-xl text-[9px] uppercase tracking-widest hover:bg-indigo-600 transition"
+                            >Save</button>
+                            <button onClick={() => setTradeDraft(null)} className="px-3 text-slate-400 hover:text-slate-600"><i className="fas fa-times text-xs"></i></button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setTradeDraft({ accountId: inv.id, symbol: '', side: 'buy', quantity: '', price: '', date: todayKey() })}
+                          className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800"
+                        ><i className="fas fa-plus mr-1"></i> Record Trade</button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="p-8 border-2 border-dashed border-slate-200 rounded-[3rem]">
+                  <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-6 text-center">Add Investment Account</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl mx-auto">
+                    <input type="text" placeholder="Account Name (e.g. Retirement Fund)" value={newInvestment.name} onChange={e => setNewInvestment({ ...newInvestment, name: e.target.value })} className="p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm" />
+                    <input type="text" placeholder="Provider (e.g. NIS, Sagicor)" value={newInvestment.provider} onChange={e => setNewInvestment({ ...newInvestment, provider: e.target.value })} className="p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm" />
+                    <select value={newInvestment.assetClass} onChange={e => setNewInvestment({ ...newInvestment, assetClass: e.target.value as AssetClass })} className="p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm">
+                      {ASSET_CLASSES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                    </select>
+                    <select value={newInvestment.currency} onChange={e => setNewInvestment({ ...newInvestment, currency: e.target.value })} className="p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-sm">
+                      {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                    </select>
+                    <button
+                      onClick={() => {
+                        const provider = newInvestment.provider.trim();
+                        if (!newInvestment.name.trim() || !provider) return;
+                        if (investments.some(inv => inv.provider === provider)) return alert(`${provider} already has an account.`);
+                        onAddInvestment({ name: newInvestment.name.trim(), provider, assetClass: newInvestment.assetClass, currency: newInvestment.currency });
+                        setNewInvestment({ name: '', provider: '', assetClass: 'equity_etf', currency: 'USD' });
+                      }}
+                      className="md:col-span-2 py-4 bg-slate-900 text-white font-black rounded-2xl text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-indigo-600 transition"
+                    >Create Account</button>
+                  </div>
+                </div>
+              </section>
+
               <section>
                 <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><i className="fas fa-rocket text-indigo-600"></i> Investment Targets</h3>
                 <div className="grid grid-cols-1 gap-3">
@@ -397,7 +784,7 @@ const Settings: React.FC<Props> = ({
                     <div key={goal.id} className="p-5 bg-slate-50 border border-slate-100 rounded-2xl flex justify-between items-center">
                       <div>
                         <p className="text-sm font-black text-slate-800">{goal.name}</p>
-                        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Target: ${goal.targetAmount} • Provider: {goal.provider}</p>
+                        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Target: {formatMoney(goal.targetAmount, goal.currency || HOME_CURRENCY)} • Provider: {goal.provider}</p>
                       </div>
                       <button onClick={() => onDeleteInvestmentGoal(goal.id)} className="text-slate-300 hover:text-rose-500"><i className="fas fa-trash-alt text-xs"></i></button>
                     </div>
@@ -438,10 +825,38 @@ const Settings: React.FC<Props> = ({
                         </div>
                       </div>
                       <div className="flex items-center gap-4">
-                        <div className="text-right hidden sm:block">
-                          <p className="text-[9px] font-black text-emerald-500 uppercase">Status: Linked</p>
-                          <p className="text-[8px] text-slate-400 font-bold">Synced: {conn.lastSynced ? new Date(conn.lastSynced).toLocaleTimeString() : 'Never'}</p>
+                        <select
+                          value={connectionCurrency(conn)}
+                          disabled={!onUpdateBankConnection}
+                          onChange={(e) => onUpdateBankConnection?.({ ...conn, currency: e.target.value })}
+                          className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-black text-slate-600 outline-none appearance-none"
+                          title="Account currency"
+                        >
+                          {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                        </select>
+                        <div className="text-right hidden sm:block max-w-[180px]">
+                          {conn.status === 'syncing' ? (
+                            <p className="text-[9px] font-black text-indigo-500 uppercase"><i className="fas fa-circle-notch fa-spin mr-1"></i>Syncing</p>
+                          ) : conn.status === 'error' ? (
+                            <p className="text-[9px] font-black text-rose-500 uppercase">Needs Re-Link</p>
+                          ) : conn.nextSyncAt ? (
+                            <p className="text-[9px] font-black text-amber-500 uppercase">Retry {new Date(conn.nextSyncAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} • {conn.syncFailures} Failed</p>
+                          ) : (
+                            <p className="text-[9px] font-black text-emerald-500 uppercase">{isSyncable(conn) ? 'Status: Auto-Sync' : 'Status: Linked'}</p>
+                          )}
+                          <p className="text-[8px] text-slate-400 font-bold">Synced: {conn.lastSynced ? new Date(conn.lastSynced).toLocaleString() : 'Never'}</p>
+                          {conn.lastError && conn.status !== 'syncing' && <p className="text-[8px] text-rose-400 font-bold truncate" title={conn.lastError}>{conn.lastError}</p>}
                         </div>
+                        {conn.institutionType !== 'investment' && onSyncBank && (
+                          <button onClick={() => onSyncBank(conn.institution)} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-indigo-500 transition-colors" title="Pull new transactions">
+                            <i className="fas fa-rotate"></i>
+                          </button>
+                        )}
+                        {conn.institutionType !== 'investment' && onReconcileBank && (
+                          <button onClick={() => onReconcileBank(conn.institution)} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-emerald-500 transition-colors" title="Reconcile against a statement">
+                            <i className="fas fa-list-check"></i>
+                          </button>
+                        )}
                         <button onClick={() => onUnlinkBank?.(conn.institution)} className="w-8 h-8 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors">
                           <i className="fas fa-unlink"></i>
                         </button>
@@ -455,6 +870,25 @@ const Settings: React.FC<Props> = ({
                     </div>
                   )}
                 </div>
+
+                {syncLog.length > 0 && (
+                  <div>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Sync Log</p>
+                    <div className="bg-slate-50 border border-slate-100 rounded-2xl divide-y divide-slate-100 max-h-64 overflow-y-auto no-scrollbar">
+                      {syncLog.slice(0, 30).map(entry => (
+                        <div key={entry.id} className="px-4 py-2.5 flex items-center gap-3">
+                          <i className={`fas ${entry.outcome === 'success' ? 'fa-circle-check text-emerald-500' : 'fa-circle-xmark text-rose-500'} text-[10px]`}></i>
+                          <span className="text-[9px] font-bold text-slate-400 w-32 shrink-0">{new Date(entry.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                          <span className="text-[10px] font-black text-slate-700 truncate flex-1">{entry.institution}</span>
+                          <span className={`text-[9px] font-bold truncate max-w-[45%] ${entry.outcome === 'success' ? 'text-slate-500' : 'text-rose-500'}`} title={entry.message}>
+                            {entry.outcome === 'success' ? `${entry.newItems} new ${entry.newItems === 1 ? 'item' : 'items'}` : entry.message}
+                          </span>
+                          <span className="text-[7px] font-black bg-white border border-slate-200 text-slate-400 px-1.5 py-0.5 rounded uppercase tracking-widest">{entry.trigger}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </section>
 
               <section className="bg-indigo-50/50 p-8 rounded-[3rem] border border-indigo-100 space-y-6">
@@ -498,13 +932,71 @@ const Settings: React.FC<Props> = ({
                     <button onClick={onResetData} className="flex-1 py-4 bg-white border border-slate-200 rounded-2xl text-[11px] font-black uppercase tracking-widest text-rose-600 hover:bg-rose-50 transition shadow-sm">Factory Purge</button>
                   </div>
                   
+                  <div className="flex items-center justify-between p-6 bg-white rounded-2xl border border-slate-100">
+                    <div>
+                      <p className="text-xs font-black text-slate-800">Auto-Lock</p>
+                      <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Forget the vault key after inactivity</p>
+                    </div>
+                    <select 
+                      value={autoLockMinutes} 
+                      onChange={e => onUpdateAutoLock(parseInt(e.target.value, 10))}
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-[10px] font-black uppercase tracking-widest outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {[5, 15, 30, 60].map(m => <option key={m} value={m}>{m} min</option>)}
+                      <option value={0}>Never</option>
+                    </select>
+                  </div>
+
                   <div className="p-6 bg-amber-50 rounded-2xl border border-amber-100">
                     <p className="text-[10px] text-amber-700 font-black uppercase tracking-widest flex items-center gap-2 mb-2"><i className="fas fa-exclamation-triangle"></i> Security Protocol</p>
-                    <p className="text-[11px] text-amber-900 leading-relaxed font-medium">All data is encrypted using AES-256 before being stored in IndexedDB. Only your local vault key can decrypt the ledger.</p>
+                    <p className="text-[11px] text-amber-900 leading-relaxed font-medium">Ledger records and vault documents are sealed with AES-256-GCM before being stored in IndexedDB. The vault key is wrapped with your password; rotating credentials re-wraps that same key under the new password, so the stored data is not re-encrypted. Every account on this device shares the key, so encryption keeps out people without an account, not other members.</p>
                   </div>
                 </div>
               </section>
 
+              {isAdmin && (
+                <section className="bg-white p-10 rounded-[3rem] border border-slate-100">
+                  <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-3"><i className="fas fa-users-gear text-indigo-600"></i> Team Access</h3>
+                  <p className="text-[9px] font-bold text-slate-400 mb-6 uppercase tracking-widest">Each member sees their own ledger, but all accounts share the device vault key: add only people you trust with every member's data</p>
+                  <div className="grid grid-cols-1 gap-3 mb-6">
+                    {users.map(u => (
+                      <div key={u.username} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                          <div className="w-10 h-10 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center font-black text-xs uppercase shadow-inner">{u.username.charAt(0)}</div>
+                          <div>
+                            <p className="text-xs font-black text-slate-800">{u.username}{u.username === currentUsername && <span className="ml-2 text-[8px] text-indigo-500 uppercase tracking-widest">You</span>}</p>
+                            <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Since {new Date(u.createdAt).toLocaleDateString()}</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <select 
+                            value={u.role} 
+                            onChange={e => handleRoleChange(u.username, e.target.value as UserRole)}
+                            className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest outline-none focus:ring-2 focus:ring-indigo-500"
+                          >
+                            <option value="admin">Admin</option>
+                            <option value="collaborator">Collaborator</option>
+                          </select>
+                          <button onClick={() => handleRemoveMember(u.username)} className="w-9 h-9 flex items-center justify-center text-slate-300 hover:text-rose-500 transition-colors"><i className="fas fa-user-minus text-xs"></i></button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="p-6 bg-slate-900 rounded-[2.5rem] text-white">
+                    <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-4">Provision Team Member</h4>
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <input type="text" placeholder="Username" value={newMember.username} onChange={e => setNewMember({...newMember, username: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+                      <input type="password" placeholder="Initial Password" value={newMember.password} onChange={e => setNewMember({...newMember, password: e.target.value})} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+                      <select value={newMember.role} onChange={e => setNewMember({...newMember, role: e.target.value as UserRole})} className="col-span-2 bg-white/5 border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 appearance-none">
+                        <option value="collaborator" className="bg-slate-800">Collaborator</option>
+                        <option value="admin" className="bg-slate-800">Admin</option>
+                      </select>
+                    </div>
+                    <button onClick={handleAddMember} className="w-full py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-500 transition">Create Account</button>
+                  </div>
+                </section>
+              )}
+
               <section className="bg-white p-10 rounded-[3rem] border border-slate-100">
                 <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-3"><i className="fas fa-cloud-arrow-down text-indigo-600"></i> Vault Backup & Restore</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -528,7 +1020,7 @@ const Settings: React.FC<Props> = ({
                     onChange={handleImportRestore} 
                   />
                 </div>
-                <p className="mt-4 text-[9px] text-slate-400 font-bold uppercase text-center">Use this to move your financial hub to another device or create a redundant snapshot.</p>
+                <p className="mt-4 text-[9px] text-slate-400 font-bold uppercase text-center">Use this to move your financial hub to another device or combine ledgers. Backups include vault documents and are written unencrypted — store them safely. Bank sign-ins are left out, so restored connections are re-linked.</p>
               </section>
 
               <button onClick={onLogout} className="w-full py-6 bg-slate-900 text-white font-black rounded-[2rem] text-xs uppercase tracking-[0.3em] hover:bg-rose-600 transition-all shadow-2xl flex items-center justify-center gap-3">
@@ -539,12 +1031,26 @@ const Settings: React.FC<Props> = ({
         </div>
       </div>
 
+      {pendingRestore && (
+        <BackupRestoreModal
+          fileName={pendingRestore.fileName}
+          parsed={pendingRestore.parsed}
+          preview={pendingRestore.preview}
+          onApply={handleApplyRestore}
+          onClose={() => setPendingRestore(null)}
+        />
+      )}
+
       {isChangingPass && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in">
           <div className="bg-white w-full max-w-sm rounded-[3rem] p-10 shadow-2xl">
             <h3 className="text-xl font-black text-slate-800 mb-2">Security Update</h3>
             <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mb-8">Update Vault Credentials</p>
             <div className="space-y-5">
+              <div className="relative">
+                <i className="fas fa-lock absolute left-4 top-1/2 -translate-y-1/2 text-slate-300"></i>
+                <input type="password" value={passForm.current} onChange={e => setPassForm({...passForm, current: e.target.value})} className="w-full pl-12 p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-slate-800" placeholder="Current Password" />
+              </div>
               <div className="relative">
                 <i className="fas fa-key absolute left-4 top-1/2 -translate-y-1/2 text-slate-300"></i>
                 <input type="password" value={passForm.new} onChange={e => setPassForm({...passForm, new: e.target.value})} className="w-full pl-12 p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-slate-800" placeholder="New Password" />
@@ -554,7 +1060,7 @@ const Settings: React.FC<Props> = ({
                 <input type="password" value={passForm.confirm} onChange={e => setPassForm({...passForm, confirm: e.target.value})} className="w-full pl-12 p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none font-bold text-slate-800" placeholder="Confirm Password" />
               </div>
               <button onClick={handlePasswordSubmit} className="w-full py-5 bg-slate-900 text-white font-black rounded-2xl shadow-xl uppercase tracking-widest text-[11px] hover:bg-indigo-600 transition active:scale-95">Apply Cryptography</button>
-              <button onClick={() => setIsChangingPass(false)} className="w-full py-2 text-slate-400 font-bold text-[10px] uppercase tracking-widest">Abort Process</button>
+              <button onClick={() => { setIsChangingPass(false); setPassForm({ current: '', new: '', confirm: '' }); }} className="w-full py-2 text-slate-400 font-bold text-[10px] uppercase tracking-widest">Abort Process</button>
             </div>
           </div>
         </div>
@@ -0,0 +1,219 @@
+import React, { useState, useMemo } from 'react';
+import { AIAnalysisResult, BankConnection, ImportProfile, StatementDateFormat } from '../types';
+import {
+  StatementKind,
+  STATEMENT_DATE_FORMATS,
+  suggestImportProfile,
+  readCsvHeaders,
+  parseCsvStatement,
+  parseOfxStatement,
+  matchConnectionByAccount,
+  statementRowsToResults
+} from '../services/statementImportService';
+
+interface Props {
+  fileName: string;
+  text: string;
+  kind: StatementKind;
+  bankConnections: BankConnection[];
+  importProfiles: ImportProfile[];
+  onSaveProfile: (profile: ImportProfile) => void;
+  onImport: (items: AIAnalysisResult[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const StatementImportModal: React.FC<Props> = ({ fileName, text, kind, bankConnections, importProfiles, onSaveProfile, onImport, onClose }) => {
+  const ofx = useMemo(() => kind === 'ofx' ? parseOfxStatement(text) : null, [kind, text]);
+  const institutions = useMemo(() => Array.from(new Set([
+    ...bankConnections.filter(c => c.institutionType !== 'investment').map(c => c.institution),
+    ...importProfiles.map(p => p.institution)
+  ])), [bankConnections, importProfiles]);
+
+  const [institution, setInstitution] = useState<string>(() =>
+    matchConnectionByAccount(ofx?.accountId, bankConnections)?.institution || institutions[0] || ''
+  );
+  const profileFor = (name: string) => importProfiles.find(p => p.institution === name) || suggestImportProfile(name, text);
+  const [profile, setProfile] = useState<ImportProfile>(() => profileFor(institution));
+  const [rememberMapping, setRememberMapping] = useState(true);
+
+  const isSavedProfile = importProfiles.some(p => p.institution === institution);
+  const headers = useMemo(() => kind === 'csv' ? readCsvHeaders(text, profile) : [], [kind, text, profile]);
+  const parsed = useMemo(() => ofx || parseCsvStatement(text, profile), [ofx, text, profile]);
+
+  // Typing a new name keeps the current mapping; switching to or from a saved institution swaps it.
+  const handleInstitutionChange = (name: string) => {
+    const hasSaved = importProfiles.some(p => p.institution === name);
+    setInstitution(name);
+    if (kind === 'csv' && (hasSaved || isSavedProfile)) setProfile(profileFor(name));
+  };
+
+  const updateProfile = (changes: Partial<ImportProfile>) => setProfile(prev => ({ ...prev, ...changes }));
+
+  const setAmountMode = (mode: 'single' | 'split') => {
+    if (mode === 'single') updateProfile({ amountColumn: profile.debitColumn ?? 0, debitColumn: undefined, creditColumn: undefined });
+    else updateProfile({ amountColumn: undefined, debitColumn: profile.amountColumn ?? 0, creditColumn: profile.amountColumn ?? 0 });
+  };
+
+  const handleImport = () => {
+    if (!institution.trim()) return alert('Choose the institution this statement belongs to.');
+    if (parsed.rows.length === 0) return alert('No transactions could be read with this mapping.');
+    if (kind === 'csv' && rememberMapping) onSaveProfile({ ...profile, institution: institution.trim(), updatedAt: new Date().toISOString() });
+    onImport(statementRowsToResults(parsed.rows, institution.trim()));
+  };
+
+  const columnSelect = (value: number | undefined, onChange: (column: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={e => onChange(parseInt(e.target.value, 10))}
+      className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+    >
+      {headers.map((h, i) => <option key={i} value={i}>{h}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-md">
+      <div className="bg-white w-full max-w-3xl rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-slate-100">
+          <h3 className="text-xl font-black text-slate-800 mb-1 flex items-center gap-3">
+            <i className={`fas ${kind === 'ofx' ? 'fa-file-invoice-dollar' : 'fa-file-csv'} text-indigo-600`}></i> Statement Import
+          </h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest truncate">
+            {fileName} • {kind === 'ofx' ? 'OFX/QFX' : 'CSV'} • Offline Parser
+          </p>
+        </div>
+
+        <div className="p-8 overflow-y-auto no-scrollbar space-y-6">
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Institution</label>
+            <input
+              list="statement-institutions"
+              value={institution}
+              onChange={e => handleInstitutionChange(e.target.value)}
+              className="w-full bg-slate-50 border border-slate-200 rounded-2xl p-4 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="e.g. 1st National Bank St. Lucia"
+            />
+            <datalist id="statement-institutions">
+              {institutions.map(name => <option key={name} value={name} />)}
+            </datalist>
+            {kind === 'csv' && (
+              <p className="mt-2 ml-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                {isSavedProfile ? <><i className="fas fa-bookmark text-indigo-500 mr-1"></i> Using saved mapping</> : <><i className="fas fa-wand-magic-sparkles text-amber-500 mr-1"></i> Mapping detected from file</>}
+              </p>
+            )}
+            {ofx?.accountId && (
+              <p className="mt-2 ml-1 text-[9px] font-black uppercase tracking-widest text-slate-400">Account ••{ofx.accountId.slice(-4)}</p>
+            )}
+          </div>
+
+          {kind === 'csv' && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 p-6 bg-slate-50/50 rounded-[2rem] border border-slate-100">
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Date Column</label>
+                {columnSelect(profile.dateColumn, c => updateProfile({ dateColumn: c }))}
+              </div>
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Date Format</label>
+                <select
+                  value={profile.dateFormat}
+                  onChange={e => updateProfile({ dateFormat: e.target.value as StatementDateFormat })}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {STATEMENT_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Description Column</label>
+                {columnSelect(profile.descriptionColumn, c => updateProfile({ descriptionColumn: c }))}
+              </div>
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Amount Layout</label>
+                <select
+                  value={profile.amountColumn !== undefined ? 'single' : 'split'}
+                  onChange={e => setAmountMode(e.target.value as 'single' | 'split')}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="single">Signed Amount</option>
+                  <option value="split">Debit / Credit</option>
+                </select>
+              </div>
+              {profile.amountColumn !== undefined ? (
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Amount Column</label>
+                  {columnSelect(profile.amountColumn, c => updateProfile({ amountColumn: c }))}
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Debit Column</label>
+                    {columnSelect(profile.debitColumn, c => updateProfile({ debitColumn: c }))}
+                  </div>
+                  <div>
+                    <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Credit Column</label>
+                    {columnSelect(profile.creditColumn, c => updateProfile({ creditColumn: c }))}
+                  </div>
+                </>
+              )}
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Decimal Mark</label>
+                <select
+                  value={profile.decimalSeparator}
+                  onChange={e => updateProfile({ decimalSeparator: e.target.value as '.' | ',' })}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3 text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value=".">1,234.56</option>
+                  <option value=",">1.234,56</option>
+                </select>
+              </div>
+              <label className="col-span-2 md:col-span-3 flex flex-wrap items-center gap-6 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                <span className="flex items-center gap-2"><input type="checkbox" checked={profile.hasHeader} onChange={e => updateProfile({ hasHeader: e.target.checked })} /> First row is header</span>
+                <span className="flex items-center gap-2"><input type="checkbox" checked={profile.invertAmounts} onChange={e => updateProfile({ invertAmounts: e.target.checked })} /> Spending is positive</span>
+                <span className="flex items-center gap-2"><input type="checkbox" checked={rememberMapping} onChange={e => setRememberMapping(e.target.checked)} /> Remember for this institution</span>
+              </label>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Preview</h4>
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                {parsed.rows.length} readable{parsed.skipped > 0 && <span className="text-amber-600"> • {parsed.skipped} skipped</span>}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {parsed.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                <div key={i} className="flex items-center justify-between p-3 bg-slate-50 border border-slate-100 rounded-xl">
+                  <div className="min-w-0">
+                    <p className="text-xs font-black text-slate-800 truncate">{row.description}</p>
+                    <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{row.date}</p>
+                  </div>
+                  <span className={`text-xs font-black ${row.amount < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                    {row.amount < 0 ? '-' : '+'}${Math.abs(row.amount).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              {parsed.rows.length === 0 && (
+                <p className="p-6 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">No rows match this mapping</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-slate-100 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-4 text-slate-400 font-black text-[11px] uppercase tracking-widest">Skip File</button>
+          <button
+            onClick={handleImport}
+            disabled={parsed.rows.length === 0}
+            className="flex-1 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-2xl shadow-xl uppercase tracking-widest text-[11px] transition disabled:opacity-50"
+          >
+            Queue {parsed.rows.length} for Verification
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatementImportModal;
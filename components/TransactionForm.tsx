@@ -1,17 +1,31 @@
 
 import React, { useState, useEffect } from 'react';
-import { CATEGORIES, Transaction, TransactionType, LineItem, BankConnection } from '../types';
+import { Transaction, TransactionType, LineItem, BankConnection, Category, InvestmentAccount, Liability } from '../types';
+import { categoryOptions } from '../services/categoryService';
+import { CURRENCIES, transactionCurrency } from '../services/currencyService';
 
 interface Props {
   onAdd: (t: Omit<Transaction, 'id'>) => void;
   initialData?: Partial<Transaction>;
   onCancel?: () => void;
   bankConnections?: BankConnection[];
+  investments?: InvestmentAccount[];
+  liabilities?: Liability[];
+  categories: Category[];
+  submitLabel?: string;
 }
 
-const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankConnections = [] }) => {
+const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankConnections = [], investments = [], liabilities = [], categories, submitLabel }) => {
+  const options = categoryOptions(categories);
+  // Investment accounts without a linked connection can still send and receive money;
+  // liabilities take payments and, for cards, purchases
+  const accountNames = [
+    ...bankConnections.map(conn => conn.institution),
+    ...investments.map(inv => inv.provider).filter(provider => !bankConnections.some(conn => conn.institution === provider)),
+    ...liabilities.map(l => l.name).filter(name => !bankConnections.some(conn => conn.institution === name))
+  ];
   const [amount, setAmount] = useState(initialData?.amount?.toString() || '');
-  const [category, setCategory] = useState(initialData?.category || CATEGORIES[0]);
+  const [category, setCategory] = useState(initialData?.category || options[0]?.name || 'Other');
   const [desc, setDesc] = useState(initialData?.description || '');
   const [notes, setNotes] = useState(initialData?.notes || '');
   const [type, setType] = useState<TransactionType>(initialData?.type || 'expense');
@@ -20,6 +34,8 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
   const [institution, setInstitution] = useState(initialData?.institution || 'Cash in Hand');
   const [destinationInstitution, setDestinationInstitution] = useState(initialData?.destinationInstitution || '1st National Bank St. Lucia');
   const [lineItems, setLineItems] = useState<LineItem[]>(initialData?.lineItems || []);
+  // Empty means "the account's currency", so moving the transaction to another account moves its currency too
+  const [currency, setCurrency] = useState(initialData?.currency || '');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const validate = () => {
@@ -48,6 +64,7 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
     
     onAdd({
       amount: parseFloat(amount),
+      currency: currency || undefined,
       category: type === 'transfer' ? 'Transfer' : category,
       description: desc.trim(),
       notes: notes.trim() || undefined,
@@ -72,6 +89,10 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
     setErrors({});
   };
 
+  const updateLineItem = (idx: number, changes: Partial<LineItem>) => {
+    setLineItems(prev => prev.map((item, i) => i === idx ? { ...item, ...changes } : item));
+  };
+
   const setQuickDate = (offset: number) => {
     const d = new Date();
     d.setDate(d.getDate() + offset);
@@ -108,16 +129,27 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
 
       <div className="grid grid-cols-2 gap-4">
         <div>
-          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Amount ($)</label>
-          <input
-            type="number"
-            step="0.01"
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
-            className={`w-full p-4 bg-slate-50 border ${errors.amount ? 'border-rose-300 ring-2 ring-rose-50' : 'border-slate-100'} rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none font-black text-slate-800 text-lg transition-all`}
-            placeholder="0.00"
-            required
-          />
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Amount</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={`w-full min-w-0 p-4 bg-slate-50 border ${errors.amount ? 'border-rose-300 ring-2 ring-rose-50' : 'border-slate-100'} rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none font-black text-slate-800 text-lg transition-all`}
+              placeholder="0.00"
+              required
+            />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="p-2 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none font-black text-slate-600 text-[11px] appearance-none"
+              title="Currency"
+            >
+              <option value="">{transactionCurrency({ institution }, bankConnections, investments, liabilities)}</option>
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+            </select>
+          </div>
           {errors.amount && <p className="text-[9px] font-bold text-rose-500 mt-1 ml-1 animate-pulse">{errors.amount}</p>}
         </div>
         <div>
@@ -131,8 +163,11 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
               className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none font-black text-slate-700 text-sm appearance-none cursor-pointer"
             >
               <option value="Cash in Hand">Cash in Hand</option>
-              {bankConnections.map(conn => (
-                <option key={conn.institution} value={conn.institution}>{conn.institution}</option>
+              {institution !== 'Cash in Hand' && !accountNames.includes(institution) && (
+                <option value={institution}>{institution}</option>
+              )}
+              {accountNames.map(name => (
+                <option key={name} value={name}>{name}</option>
               ))}
             </select>
             <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
@@ -152,8 +187,8 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
               className={`w-full p-4 bg-slate-50 border ${errors.destination ? 'border-rose-300' : 'border-slate-100'} rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none font-black text-slate-700 text-sm appearance-none cursor-pointer`}
             >
               <option value="Cash in Hand">Cash in Hand</option>
-              {bankConnections.map(conn => (
-                <option key={conn.institution} value={conn.institution}>{conn.institution}</option>
+              {accountNames.map(name => (
+                <option key={name} value={name}>{name}</option>
               ))}
             </select>
             <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
@@ -190,7 +225,8 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
               onChange={(e) => setCategory(e.target.value)}
               className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none font-black text-slate-700 text-sm appearance-none cursor-pointer disabled:opacity-50"
             >
-              {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              {options.map(o => <option key={o.name} value={o.name}>{o.label}</option>)}
+              {type !== 'transfer' && !options.some(o => o.name === category) && <option value={category}>{category}</option>}
             </select>
             <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
               <i className="fas fa-tag text-[10px]"></i>
@@ -212,19 +248,53 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
         {errors.description && <p className="text-[9px] font-bold text-rose-500 mt-1 ml-1 animate-pulse">{errors.description}</p>}
       </div>
 
+      {type !== 'transfer' && (
+        <div>
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Vendor</label>
+          <input
+            type="text"
+            value={vendor}
+            onChange={(e) => setVendor(e.target.value)}
+            className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-2 focus:ring-indigo-500 outline-none font-bold text-slate-800 text-sm transition-all"
+            placeholder="Merchant or payer (optional)"
+          />
+        </div>
+      )}
+
       {lineItems.length > 0 && type !== 'transfer' && (
         <div className="bg-indigo-50/30 p-4 rounded-2xl border border-indigo-50">
-          <label className="block text-[9px] font-black text-indigo-400 uppercase tracking-widest mb-3">Itemized Breakdown</label>
+          <div className="flex justify-between items-center mb-3">
+            <label className="block text-[9px] font-black text-indigo-400 uppercase tracking-widest">Itemized Breakdown</label>
+            <button type="button" onClick={() => setLineItems(prev => [...prev, { name: '', quantity: 1, price: 0 }])} className="text-[8px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-100 px-2 py-1 rounded transition">
+              <i className="fas fa-plus mr-1"></i> Item
+            </button>
+          </div>
           <div className="space-y-2">
             {lineItems.map((item, idx) => (
-              <div key={idx} className="flex justify-between items-center text-xs">
-                <div className="flex gap-2 items-center">
-                  <span className="w-6 h-6 bg-white border border-indigo-100 rounded-lg flex items-center justify-center text-[9px] font-black text-indigo-600">
-                    {item.quantity || 1}x
-                  </span>
-                  <span className="font-bold text-slate-700">{item.name}</span>
-                </div>
-                <span className="font-black text-slate-900">${item.price.toFixed(2)}</span>
+              <div key={idx} className="flex gap-2 items-center text-xs">
+                <input
+                  type="number"
+                  min="1"
+                  value={item.quantity || 1}
+                  onChange={(e) => updateLineItem(idx, { quantity: parseInt(e.target.value, 10) || 1 })}
+                  className="w-12 p-2 bg-white border border-indigo-100 rounded-lg text-center text-[10px] font-black text-indigo-600 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <input
+                  type="text"
+                  value={item.name}
+                  onChange={(e) => updateLineItem(idx, { name: e.target.value })}
+                  className="flex-1 min-w-0 p-2 bg-white border border-indigo-100 rounded-lg font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={item.price}
+                  onChange={(e) => updateLineItem(idx, { price: parseFloat(e.target.value) || 0 })}
+                  className="w-20 p-2 bg-white border border-indigo-100 rounded-lg text-right font-black text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <button type="button" onClick={() => setLineItems(prev => prev.filter((_, i) => i !== idx))} className="w-7 h-7 text-rose-400 hover:bg-rose-50 rounded-lg transition">
+                  <i className="fas fa-times text-[10px]"></i>
+                </button>
               </div>
             ))}
           </div>
@@ -245,7 +315,7 @@ const TransactionForm: React.FC<Props> = ({ onAdd, initialData, onCancel, bankCo
           type="submit"
           className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-black uppercase tracking-widest text-[11px] hover:bg-indigo-700 transition shadow-xl shadow-indigo-100 active:scale-95"
         >
-          {isEditing ? 'Save Changes' : 'Confirm Entry'}
+          {submitLabel || (isEditing ? 'Save Changes' : 'Confirm Entry')}
         </button>
       </div>
     </form>
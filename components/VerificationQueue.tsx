@@ -1,17 +1,84 @@
 
-import React from 'react';
-import { AIAnalysisResult, Transaction, PortfolioUpdate } from '../types';
+import React, { useMemo, useState, useEffect } from 'react';
+import { AIAnalysisResult, Transaction, PortfolioUpdate, Category } from '../types';
+import { categoryOptions } from '../services/categoryService';
+import { findDuplicates, DuplicateMatch } from '../services/duplicateDetectionService';
 
 interface Props {
   pendingItems: AIAnalysisResult[];
+  transactions: Transaction[];
+  categories: Category[];
   onApprove: (index: number) => void;
   onDiscard: (index: number) => void;
   onEdit: (index: number) => void;
   onDiscardAll: () => void;
+  onMerge: (index: number, transactionId: string) => void;
+  onKeepBoth: (index: number, transactionIds: string[]) => void;
+  onUpdateItems: (updates: { index: number; item: AIAnalysisResult }[]) => void;
+  onApproveAll: (indices: number[]) => void;
+  providerNames: string[]; // investment accounts a portfolio update can target
 }
 
-const VerificationQueue: React.FC<Props> = ({ pendingItems, onApprove, onDiscard, onEdit, onDiscardAll }) => {
+const VerificationQueue: React.FC<Props> = ({ pendingItems, transactions, categories, providerNames, onApprove, onDiscard, onEdit, onDiscardAll, onMerge, onKeepBoth, onUpdateItems, onApproveAll }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [bulkDate, setBulkDate] = useState('');
+  const [portfolioDraft, setPortfolioDraft] = useState<{ index: number; portfolio: PortfolioUpdate } | null>(null);
+
+  const duplicates = useMemo<DuplicateMatch[][]>(() => pendingItems.map(item =>
+    item.updateType === 'transaction' && item.transaction ? findDuplicates(item.transaction, transactions) : []
+  ), [pendingItems, transactions]);
+
+  // Indices shift whenever an item leaves the queue, so selections and drafts are reset
+  useEffect(() => {
+    setSelected([]);
+    setPortfolioDraft(null);
+  }, [pendingItems.length]);
+
   if (pendingItems.length === 0) return null;
+  const flaggedCount = duplicates.filter(m => m.length > 0).length;
+  const transactionIndices = pendingItems.map((item, idx) => item.transaction ? idx : -1).filter(idx => idx >= 0);
+  // Suspected duplicates always need an explicit merge / keep both / discard
+  const clearIndices = pendingItems.map((_, idx) => idx).filter(idx => duplicates[idx].length === 0);
+
+  const toggleSelected = (idx: number) => {
+    setSelected(prev => prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]);
+  };
+
+  const applyBulk = () => {
+    if (!bulkCategory && !bulkDate) return;
+    onUpdateItems(selected.map(index => {
+      const item = pendingItems[index];
+      const t = item.transaction!;
+      return {
+        index,
+        item: {
+          ...item,
+          transaction: {
+            ...t,
+            category: bulkCategory && t.type !== 'transfer' ? bulkCategory : t.category,
+            date: bulkDate || t.date
+          }
+        }
+      };
+    }));
+    setBulkCategory('');
+    setBulkDate('');
+  };
+
+  const savePortfolioDraft = () => {
+    if (!portfolioDraft) return;
+    const { index, portfolio } = portfolioDraft;
+    if (!portfolio.symbol.trim() || isNaN(portfolio.quantity) || portfolio.quantity < 0) return alert('Enter a symbol and a non-negative quantity.');
+    onUpdateItems([{ index, item: { ...pendingItems[index], portfolio: { ...portfolio, symbol: portfolio.symbol.trim().toUpperCase() } } }]);
+    setPortfolioDraft(null);
+  };
+
+  const handleEdit = (idx: number) => {
+    const item = pendingItems[idx];
+    if (item.updateType === 'portfolio' && item.portfolio) setPortfolioDraft({ index: idx, portfolio: { ...item.portfolio } });
+    else onEdit(idx);
+  };
 
   return (
     <section className="mb-10 animate-in slide-in-from-top-4 duration-500">
@@ -22,17 +89,67 @@ const VerificationQueue: React.FC<Props> = ({ pendingItems, onApprove, onDiscard
           </div>
           <div>
             <h3 className="font-black text-slate-800 uppercase text-[10px] tracking-widest">Verification Queue</h3>
-            <p className="text-[9px] text-slate-400 font-bold uppercase">{pendingItems.length} Items Awaiting Review</p>
+            <p className="text-[9px] text-slate-400 font-bold uppercase">
+              {pendingItems.length} Items Awaiting Review{flaggedCount > 0 && <span className="text-amber-600"> • {flaggedCount} Possible Duplicate{flaggedCount === 1 ? '' : 's'}</span>}
+            </p>
           </div>
         </div>
-        <button onClick={onDiscardAll} className="text-[9px] font-black text-rose-500 uppercase tracking-widest hover:bg-rose-50 px-3 py-1.5 rounded-lg transition">Discard All</button>
+        <div className="flex gap-1">
+          {transactionIndices.length > 1 && (
+            <button
+              onClick={() => setSelected(selected.length === transactionIndices.length ? [] : transactionIndices)}
+              className="text-[9px] font-black text-slate-500 uppercase tracking-widest hover:bg-slate-100 px-3 py-1.5 rounded-lg transition"
+            >
+              {selected.length === transactionIndices.length ? 'Clear Selection' : 'Select All'}
+            </button>
+          )}
+          {clearIndices.length > 0 && (
+            <button onClick={() => onApproveAll(clearIndices)} className="text-[9px] font-black text-emerald-600 uppercase tracking-widest hover:bg-emerald-50 px-3 py-1.5 rounded-lg transition">
+              {flaggedCount > 0 ? `Approve ${clearIndices.length} Unflagged` : 'Approve All'}
+            </button>
+          )}
+          <button onClick={onDiscardAll} className="text-[9px] font-black text-rose-500 uppercase tracking-widest hover:bg-rose-50 px-3 py-1.5 rounded-lg transition">Discard All</button>
+        </div>
       </div>
 
+      {selected.length > 0 && (
+        <div className="mb-4 p-4 bg-slate-900 rounded-2xl flex flex-wrap items-center gap-3 animate-in fade-in duration-200">
+          <p className="text-[9px] font-black text-white uppercase tracking-widest mr-auto">{selected.length} Selected</p>
+          <select
+            value={bulkCategory}
+            onChange={(e) => setBulkCategory(e.target.value)}
+            className="bg-slate-800 border border-slate-700 text-white rounded-xl px-3 py-2 text-[10px] font-black outline-none"
+          >
+            <option value="">Keep Category</option>
+            {categoryOptions(categories).map(o => <option key={o.name} value={o.name}>{o.label}</option>)}
+          </select>
+          <input
+            type="date"
+            value={bulkDate}
+            onChange={(e) => setBulkDate(e.target.value)}
+            className="bg-slate-800 border border-slate-700 text-white rounded-xl px-3 py-2 text-[10px] font-black outline-none"
+          />
+          <button
+            onClick={applyBulk}
+            disabled={!bulkCategory && !bulkDate}
+            className="px-4 py-2 bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-indigo-500 transition disabled:opacity-40"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {pendingItems.map((item, idx) => (
-          <div key={idx} className="bg-white border-2 border-slate-100 rounded-[2rem] p-5 shadow-sm hover:border-indigo-100 transition-all flex flex-col justify-between group">
+        {pendingItems.map((item, idx) => {
+          const matches = duplicates[idx] || [];
+          const best = matches[0];
+          return (
+          <div key={idx} className={`bg-white border-2 ${selected.includes(idx) ? 'border-indigo-300' : best ? 'border-amber-200' : 'border-slate-100'} rounded-[2rem] p-5 shadow-sm hover:border-indigo-100 transition-all flex flex-col justify-between group`}>
             <div className="flex justify-between items-start mb-4">
               <div className="flex items-center gap-4">
+                {item.transaction && (
+                  <input type="checkbox" checked={selected.includes(idx)} onChange={() => toggleSelected(idx)} className="accent-indigo-600" />
+                )}
                 <div className={`w-10 h-10 rounded-xl flex items-center justify-center text-white ${item.updateType === 'portfolio' ? 'bg-blue-500' : 'bg-indigo-600'}`}>
                   <i className={`fas ${item.updateType === 'portfolio' ? 'fa-chart-line' : 'fa-receipt'}`}></i>
                 </div>
@@ -48,6 +165,45 @@ const VerificationQueue: React.FC<Props> = ({ pendingItems, onApprove, onDiscard
               <p className="font-black text-slate-900">{item.updateType === 'portfolio' ? `${item.portfolio?.quantity || 0}` : `$${(item.transaction?.amount || 0).toFixed(2)}`}</p>
             </div>
 
+            {item.transaction && (
+              <p className="-mt-2 mb-4 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                {item.transaction.appliedRuleId && <i className="fas fa-wand-magic-sparkles text-indigo-500 mr-1" title="Category set by a rule"></i>}
+                {item.transaction.category} • {item.transaction.date || 'Today'}{item.transaction.institution && ` • ${item.transaction.institution}`}
+              </p>
+            )}
+
+            {/* Inline portfolio editor */}
+            {portfolioDraft?.index === idx && (
+              <div className="mb-4 p-3 bg-blue-50 rounded-xl border border-blue-100 grid grid-cols-3 gap-2">
+                <select
+                  value={portfolioDraft.portfolio.provider}
+                  onChange={(e) => setPortfolioDraft({ index: idx, portfolio: { ...portfolioDraft.portfolio, provider: e.target.value } })}
+                  className="bg-white border border-blue-100 rounded-lg p-2 text-[10px] font-black outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {!providerNames.includes(portfolioDraft.portfolio.provider) && <option value={portfolioDraft.portfolio.provider}>{portfolioDraft.portfolio.provider} (new account)</option>}
+                  {providerNames.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+                <input
+                  value={portfolioDraft.portfolio.symbol}
+                  onChange={(e) => setPortfolioDraft({ index: idx, portfolio: { ...portfolioDraft.portfolio, symbol: e.target.value } })}
+                  className="bg-white border border-blue-100 rounded-lg p-2 text-[10px] font-black uppercase outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Symbol"
+                />
+                <input
+                  type="number"
+                  step="any"
+                  value={isNaN(portfolioDraft.portfolio.quantity) ? '' : portfolioDraft.portfolio.quantity}
+                  onChange={(e) => setPortfolioDraft({ index: idx, portfolio: { ...portfolioDraft.portfolio, quantity: parseFloat(e.target.value) } })}
+                  className="bg-white border border-blue-100 rounded-lg p-2 text-[10px] font-black outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Quantity"
+                />
+                <div className="col-span-3 flex gap-2">
+                  <button onClick={savePortfolioDraft} className="flex-1 py-2 bg-blue-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-blue-700 transition">Save</button>
+                  <button onClick={() => setPortfolioDraft(null)} className="flex-1 py-2 bg-white text-slate-500 border border-slate-200 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-slate-100 transition">Cancel</button>
+                </div>
+              </div>
+            )}
+
             {/* Itemized Preview */}
             {item.transaction?.lineItems && item.transaction.lineItems.length > 0 && (
               <div className="mb-4 p-3 bg-slate-50 rounded-xl border border-slate-100">
@@ -66,13 +222,33 @@ const VerificationQueue: React.FC<Props> = ({ pendingItems, onApprove, onDiscard
               </div>
             )}
 
+            {/* Possible duplicate of an existing ledger entry */}
+            {best && (
+              <div className="mb-4 p-3 bg-amber-50 rounded-xl border border-amber-100">
+                <p className="text-[8px] font-black text-amber-700 uppercase tracking-widest mb-1.5">
+                  <i className="fas fa-clone mr-1"></i> Possible Duplicate • {Math.round(best.score * 100)}% Match
+                </p>
+                <div className="flex justify-between text-[9px] font-bold text-amber-900">
+                  <span className="truncate max-w-[180px]">{best.transaction.vendor || best.transaction.description}</span>
+                  <span>{best.transaction.date}{best.transaction.institution && ` • ${best.transaction.institution}`}</span>
+                </div>
+                <p className="text-[8px] text-amber-600 font-bold mt-1">{best.reasons.join(' • ')}{matches.length > 1 && ` • +${matches.length - 1} more`}</p>
+                <div className="flex gap-2 mt-3">
+                  <button onClick={() => onMerge(idx, best.transaction.id)} className="flex-1 py-2 bg-amber-500 text-white text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-amber-600 transition">Merge</button>
+                  <button onClick={() => onKeepBoth(idx, matches.map(m => m.transaction.id))} className="flex-1 py-2 bg-white text-amber-700 border border-amber-200 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-amber-100 transition">Keep Both</button>
+                  <button onClick={() => onDiscard(idx)} className="flex-1 py-2 bg-white text-rose-500 border border-rose-100 text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-rose-50 transition">Discard</button>
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-2">
               <button onClick={() => onApprove(idx)} className="flex-1 py-3 bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest rounded-xl shadow-lg hover:bg-slate-800 transition active:scale-95">{item.updateType === 'portfolio' ? 'Sync Portfolio' : 'Quick Approve'}</button>
-              <button onClick={() => onEdit(idx)} className="px-4 py-3 bg-slate-100 text-slate-600 text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-slate-200 transition">Edit</button>
+              <button onClick={() => handleEdit(idx)} className="px-4 py-3 bg-slate-100 text-slate-600 text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-slate-200 transition">Edit</button>
               <button onClick={() => onDiscard(idx)} className="w-12 py-3 bg-rose-50 text-rose-500 rounded-xl hover:bg-rose-100 transition"><i className="fas fa-trash-alt"></i></button>
             </div>
           </div>
-        ))}
+          );
+        })}
       </div>
     </section>
   );
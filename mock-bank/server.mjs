@@ -0,0 +1,195 @@
+/**
+ * Fire Finance - Mock Institution Server
+ * A local stand-in for the bank and brokerage APIs behind the institution connectors,
+ * serving mock-bank/fixtures.json so linking and syncing can be exercised offline.
+ *
+ *   npm run mock-bank            (listens on http://localhost:4010, or $MOCK_BANK_PORT)
+ *
+ * Routes, per institution slug:
+ *   POST /:slug/auth                              -> { token, expiresAt }
+ *   GET  /:slug/accounts                          -> ConnectorAccount[]
+ *   GET  /:slug/accounts/:id/transactions?cursor= -> { transactions, nextCursor, hasMore }
+ *   GET  /:slug/accounts/:id/holdings             -> { symbol, quantity }[]
+ *
+ * Market prices (a stand-in quote feed for the price service):
+ *   GET  /_market/quotes?symbols=BTC,VOO          -> { symbol, price, currency, at }[]
+ *
+ * Test controls:
+ *   POST /_control/fail          { status, retryAfter? }  the next API request fails with it
+ *   POST /_control/:slug/accounts/:id/transactions  { amount, type, description, ... }
+ *                                                  posts a new transaction to sync
+ */
+
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.MOCK_BANK_PORT) || 4010;
+const PAGE_SIZE = 5;
+const TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const fixtures = JSON.parse(readFileSync(new URL('./fixtures.json', import.meta.url), 'utf8'));
+
+const dateDaysAgo = (days) => {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().split('T')[0];
+};
+
+// Fixture dates are relative so the feed always looks recent
+for (const bank of Object.values(fixtures)) {
+  for (const account of bank.accounts) {
+    account.transactions = account.transactions.map(({ daysAgo, ...t }) => ({ ...t, date: dateDaysAgo(daysAgo) }));
+  }
+}
+
+// Reference prices; quotes drift around them with the clock so refreshes show movement
+const MARKET = {
+  BTC: 95000, ETH: 2850, SOL: 165, BNB: 610, VOO: 548, VOOG: 312, VTI: 285, BND: 72, VXUS: 62
+};
+
+const quote = (symbol) => {
+  const base = MARKET[symbol];
+  if (!base) return null;
+  const minutes = Date.now() / 60000;
+  const seed = [...symbol].reduce((acc, ch) => acc + ch.charCodeAt(0), 0);
+  const drift = 0.02 * Math.sin(minutes / 240 + seed) + 0.005 * Math.sin(minutes / 7 + seed * 3);
+  return { symbol, price: Math.round(base * (1 + drift) * 100) / 100, currency: 'USD', at: new Date().toISOString() };
+};
+
+const sessions = new Map(); // token -> { slug, expiresAt }
+let injectedFailure = null;
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    ...headers
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try { resolve(raw ? JSON.parse(raw) : {}); } catch { resolve(null); }
+  });
+});
+
+const balanceOf = (account) => account.transactions.reduce(
+  (acc, t) => acc + (t.type === 'income' ? t.amount : -t.amount),
+  account.openingBalance
+);
+
+const publicAccount = (account) => ({
+  id: account.id,
+  name: account.name,
+  lastFour: account.lastFour,
+  type: account.type,
+  currency: account.currency,
+  balance: Math.round(balanceOf(account) * 100) / 100
+});
+
+const authorize = (req, slug) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  const session = sessions.get(token);
+  if (!session || session.slug !== slug) return false;
+  if (Date.parse(session.expiresAt) < Date.now()) {
+    sessions.delete(token);
+    return false;
+  }
+  return true;
+};
+
+// Cursors are opaque to clients: here, how many transactions the client has already seen
+const parseCursor = (cursor) => {
+  if (!cursor) return 0;
+  const match = /^c(\d+)$/.exec(cursor);
+  return match ? Number(match[1]) : null;
+};
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (parts[0] === '_control') {
+    const body = await readBody(req);
+    if (!body) return send(res, 400, { error: 'bad_request', message: 'Body is not JSON' });
+    if (parts[1] === 'fail') {
+      injectedFailure = { status: Number(body.status) || 500, retryAfter: body.retryAfter };
+      return send(res, 200, { armed: injectedFailure });
+    }
+    const account = fixtures[parts[1]]?.accounts.find(a => a.id === parts[3]);
+    if (!account || parts[4] !== 'transactions') return send(res, 404, { error: 'not_found', message: 'Unknown account' });
+    const posted = {
+      id: `${account.id}-live-${account.transactions.length + 1}`,
+      date: dateDaysAgo(0),
+      category: 'Other',
+      ...body,
+      amount: Number(body.amount) || 0,
+      type: body.type === 'income' ? 'income' : 'expense'
+    };
+    account.transactions.push(posted);
+    return send(res, 201, posted);
+  }
+
+  if (parts[0] === '_market' && parts[1] === 'quotes' && req.method === 'GET' && !injectedFailure) {
+    const symbols = (url.searchParams.get('symbols') || '').split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+    return send(res, 200, symbols.map(quote).filter(Boolean));
+  }
+
+  if (injectedFailure) {
+    const { status, retryAfter } = injectedFailure;
+    injectedFailure = null;
+    return send(res, status, { error: status === 429 ? 'rate_limited' : 'server_error', message: `Injected ${status}` }, retryAfter ? { 'Retry-After': String(retryAfter) } : {});
+  }
+
+  const [slug, resource, accountId, sub] = parts;
+  const bank = fixtures[slug];
+  if (!bank) return send(res, 404, { error: 'not_found', message: `No institution "${slug}"` });
+
+  if (resource === 'auth' && req.method === 'POST') {
+    const body = await readBody(req);
+    const expected = bank.credentials;
+    const ok = body && Object.keys(expected).every(key => body[key] === expected[key]);
+    if (!ok) return send(res, 401, { error: 'invalid_credentials', message: 'Those credentials were not accepted' });
+    const token = `mock_${slug}_${Math.random().toString(36).slice(2)}`;
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MS).toISOString();
+    sessions.set(token, { slug, expiresAt });
+    return send(res, 200, { token, expiresAt });
+  }
+
+  if (!authorize(req, slug)) return send(res, 401, { error: 'session_expired', message: 'Sign in again' });
+
+  if (resource === 'accounts' && !accountId && req.method === 'GET') {
+    return send(res, 200, bank.accounts.map(publicAccount));
+  }
+
+  const account = bank.accounts.find(a => a.id === accountId);
+  if (resource !== 'accounts' || !account) return send(res, 404, { error: 'not_found', message: 'Unknown account' });
+
+  if (sub === 'transactions' && req.method === 'GET') {
+    const from = parseCursor(url.searchParams.get('cursor'));
+    if (from === null || from > account.transactions.length) return send(res, 400, { error: 'invalid_cursor', message: 'Cursor not recognised' });
+    const page = account.transactions.slice(from, from + PAGE_SIZE);
+    const next = from + page.length;
+    return send(res, 200, { transactions: page, nextCursor: `c${next}`, hasMore: next < account.transactions.length });
+  }
+
+  if (sub === 'holdings' && req.method === 'GET') {
+    return send(res, 200, account.holdings || []);
+  }
+
+  return send(res, 404, { error: 'not_found', message: 'Unknown route' });
+};
+
+http.createServer((req, res) => {
+  handle(req, res).catch(error => send(res, 500, { error: 'server_error', message: String(error) }));
+}).listen(PORT, () => {
+  console.log(`Mock institution server on http://localhost:${PORT} (${Object.keys(fixtures).join(', ')})`);
+});
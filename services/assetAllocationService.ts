@@ -0,0 +1,58 @@
+
+import { AssetClass, InvestmentAccount } from '../types';
+import { AccountBalance } from './balanceService';
+import { AccountPerformance } from './costBasisService';
+
+/**
+ * Fire Finance - Asset Allocation
+ * Investment accounts are user-defined, each holding one asset class. Allocation groups
+ * what the accounts are worth by class; money sitting uninvested at a provider counts as cash.
+ */
+
+export const ASSET_CLASSES: { id: AssetClass; label: string; icon: string; color: string }[] = [
+  { id: 'crypto', label: 'Crypto', icon: 'fa-coins', color: '#eab308' },
+  { id: 'equity_etf', label: 'Equity ETF', icon: 'fa-chart-line', color: '#e11d48' },
+  { id: 'bond', label: 'Bonds', icon: 'fa-file-contract', color: '#0ea5e9' },
+  { id: 'cash', label: 'Cash', icon: 'fa-money-bill-wave', color: '#10b981' },
+  { id: 'pension', label: 'Pension', icon: 'fa-umbrella', color: '#6366f1' },
+  { id: 'real_estate', label: 'Real Estate', icon: 'fa-house', color: '#f97316' }
+];
+
+export const assetClassInfo = (id: AssetClass) => ASSET_CLASSES.find(c => c.id === id) || ASSET_CLASSES[1];
+
+// Accounts from before asset classes existed were either Binance (crypto) or a brokerage
+export const assetClassOf = (account: Pick<InvestmentAccount, 'assetClass' | 'provider'>): AssetClass =>
+  account.assetClass || (account.provider === 'Binance' ? 'crypto' : 'equity_etf');
+
+export interface AllocationSlice {
+  assetClass: AssetClass;
+  label: string;
+  color: string;
+  value: number;
+  share: number; // 0..1 of everything invested
+}
+
+/**
+ * Expects performance and balances in the base currency. A provider's balance beyond its
+ * holdings is cash moved in but not yet invested.
+ */
+export const allocationBreakdown = (
+  investments: InvestmentAccount[],
+  performance: AccountPerformance[],
+  balances: Record<string, AccountBalance>
+): AllocationSlice[] => {
+  const totals: Partial<Record<AssetClass, number>> = {};
+  const add = (assetClass: AssetClass, value: number) => { totals[assetClass] = (totals[assetClass] || 0) + value; };
+
+  investments.forEach(inv => add(assetClassOf(inv), performance.find(p => p.accountId === inv.id)?.value || 0));
+  Array.from(new Set<string>(investments.map(inv => inv.provider))).forEach(provider => {
+    const held = performance.filter(p => p.provider === provider).reduce((acc, p) => acc + p.value, 0);
+    const uninvested = (balances[provider]?.balance || 0) - held;
+    if (Math.abs(uninvested) > 0.005) add('cash', uninvested);
+  });
+
+  const total = Object.values(totals).reduce((acc: number, v) => acc + (v || 0), 0);
+  return ASSET_CLASSES
+    .filter(c => (totals[c.id] || 0) > 0)
+    .map(c => ({ assetClass: c.id, label: c.label, color: c.color, value: totals[c.id] || 0, share: total > 0 ? (totals[c.id] || 0) / total : 0 }));
+};
@@ -0,0 +1,88 @@
+
+import { StoredUser, UserRole } from '../types';
+import { toBase64, fromBase64, wrapVaultKey } from './vaultCrypto';
+
+/**
+ * Fire Finance - Local Authentication
+ * Passwords are never stored; only a salted PBKDF2-SHA256 digest derived via WebCrypto.
+ */
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+const derivePasswordHash = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, keyMaterial, HASH_BITS);
+  return toBase64(bits);
+};
+
+// Compares every character so the check takes the same time wherever the digests differ.
+const constantTimeEquals = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<Pick<StoredUser, 'passwordHash' | 'passwordSalt' | 'hashIterations'>> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    passwordHash: await derivePasswordHash(password, salt, PBKDF2_ITERATIONS),
+    passwordSalt: toBase64(salt),
+    hashIterations: PBKDF2_ITERATIONS
+  };
+};
+
+export const verifyPassword = async (user: StoredUser, password: string): Promise<boolean> => {
+  const candidate = await derivePasswordHash(password, fromBase64(user.passwordSalt), user.hashIterations);
+  return constantTimeEquals(candidate, user.passwordHash);
+};
+
+/**
+ * Returns a validation message, or null when the credentials are acceptable for a new account.
+ */
+export const validateRegistration = (users: StoredUser[], username: string, password: string): string | null => {
+  const name = normalizeUsername(username);
+  if (!USERNAME_PATTERN.test(name)) return 'Username must be 3-32 characters: letters, digits, dot, dash or underscore';
+  if (users.some(u => u.username === name)) return 'Username already registered';
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  return null;
+};
+
+/**
+ * Builds a new account holding its own wrapped copy of the (unlocked) vault key.
+ */
+export const createStoredUser = async (username: string, password: string, role: UserRole, vaultKey: CryptoKey): Promise<StoredUser> => ({
+  username: normalizeUsername(username),
+  role,
+  createdAt: new Date().toISOString(),
+  ...(await hashPassword(password)),
+  ...(await wrapVaultKey(vaultKey, password, PBKDF2_ITERATIONS))
+});
+
+/**
+ * Password change: fresh hash and salt, and the same vault key re-wrapped under the new
+ * password so the old one can no longer unlock it. The data itself is not re-encrypted.
+ */
+export const changePassword = async (user: StoredUser, password: string, vaultKey: CryptoKey): Promise<StoredUser> => ({
+  ...user,
+  ...(await hashPassword(password)),
+  ...(await wrapVaultKey(vaultKey, password, PBKDF2_ITERATIONS))
+});
+
+/**
+ * Resolves the matching account, or null when the username is unknown or the password is wrong.
+ */
+export const authenticate = async (users: StoredUser[], username: string, password: string): Promise<StoredUser | null> => {
+  const user = users.find(u => u.username === normalizeUsername(username));
+  if (!user) return null;
+  return (await verifyPassword(user, password)) ? user : null;
+};
+
+export const countAdmins = (users: StoredUser[]) => users.filter(u => u.role === 'admin').length;
@@ -0,0 +1,588 @@
+
+import {
+  Transaction,
+  RecurringExpense,
+  RecurringIncome,
+  SavingGoal,
+  InvestmentGoal,
+  BankConnection,
+  InvestmentAccount,
+  BudgetEvent,
+  CalendarItem,
+  Contact,
+  NetWorthSnapshot,
+  ImportProfile,
+  CategoryRule,
+  Category,
+  FxRate,
+  Reconciliation,
+  SyncLogEntry,
+  PricePoint,
+  Liability,
+  QueuedItem
+} from '../types';
+import {
+  PortableCollections,
+  VaultSettings,
+  DEFAULT_SETTINGS,
+  PORTABLE_COLLECTIONS,
+  CURRENT_SCHEMA_VERSION,
+  readPortableVault,
+  replaceCollection,
+  persistSetting,
+  parseStorageLayout,
+  toCollectionEntries,
+  fromCollectionEntries
+} from './vaultRepository';
+import { readInternalDocs, writeInternalDocs } from './fileStorageService';
+
+/**
+ * Fire Finance - Vault Backups
+ * Versioned JSON snapshots of the portable vault (collections, settings and internal
+ * documents). Restores are validated against the types.ts shapes and previewed as a
+ * diff before anything is written.
+ */
+
+export const BACKUP_FORMAT = 'fire-finance-backup';
+// v1 was the flat { [STORAGE_KEYS.*]: JSON string } dump; it is still accepted on import.
+export const BACKUP_VERSION = 2;
+
+export interface VaultBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: string;
+  createdBy: string;
+  collections: PortableCollections;
+  settings: VaultSettings;
+  documents: Record<string, string>;
+  // Directory handles cannot be serialized; the name tells the restorer which folder to re-link.
+  mirror: { directoryName: string | null };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupIssue {
+  collection: keyof PortableCollections | 'settings' | 'documents';
+  index?: number;
+  message: string;
+}
+
+export interface ParsedBackup {
+  backup: VaultBackup;
+  sourceVersion: number;
+  issues: BackupIssue[];
+}
+
+export interface CollectionDiff {
+  collection: keyof PortableCollections;
+  incoming: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  // Records only present locally: kept by a merge, removed by a replace
+  localOnly: number;
+}
+
+export interface RestorePreview {
+  diffs: CollectionDiff[];
+  documents: { incoming: number; added: number; localOnly: number };
+  settingsChanged: boolean;
+}
+
+/**
+ * Record Schemas
+ * Keyed by the types.ts interfaces, so adding a field there fails to compile until
+ * the backup validator knows about it.
+ */
+type Rule = 'string' | 'number' | 'boolean' | 'array' | 'object' | readonly string[];
+type FieldSpec = { rule: Rule; optional: boolean };
+type RecordSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+const req = (rule: Rule): FieldSpec => ({ rule, optional: false });
+const opt = (rule: Rule): FieldSpec => ({ rule, optional: true });
+
+const TRANSACTION_TYPES = ['expense', 'income', 'savings', 'withdrawal', 'transfer'] as const;
+const INSTITUTION_TYPES = ['bank', 'credit_union', 'investment'] as const;
+
+const TRANSACTION_SCHEMA: RecordSchema<Transaction> = {
+  id: req('string'),
+  date: req('string'),
+  amount: req('number'),
+  currency: opt('string'),
+  category: req('string'),
+  description: req('string'),
+  type: req(TRANSACTION_TYPES),
+  notes: opt('string'),
+  vendor: opt('string'),
+  lineItems: opt('array'),
+  recurringId: opt('string'),
+  savingGoalId: opt('string'),
+  institution: opt('string'),
+  destinationInstitution: opt('string'),
+  externalId: opt('string'),
+  notDuplicateOf: opt('array')
+};
+
+const RECURRING_EXPENSE_SCHEMA: RecordSchema<RecurringExpense> = {
+  id: req('string'),
+  amount: req('number'),
+  category: req('string'),
+  description: req('string'),
+  dayOfMonth: req('number'),
+  nextDueDate: req('string'),
+  accumulatedOverdue: req('number'),
+  lastBilledDate: opt('string'),
+  externalPortalUrl: opt('string'),
+  externalSyncEnabled: opt('boolean'),
+  isSubscription: opt('boolean'),
+  liabilityId: opt('string'),
+  currency: opt('string')
+};
+
+const RECURRING_INCOME_SCHEMA: RecordSchema<RecurringIncome> = {
+  id: req('string'),
+  amount: req('number'),
+  category: req('string'),
+  description: req('string'),
+  dayOfMonth: req('number'),
+  nextConfirmationDate: req('string'),
+  lastConfirmedDate: opt('string'),
+  accumulatedReceived: opt('number'),
+  currency: opt('string')
+};
+
+const SAVING_GOAL_SCHEMA: RecordSchema<SavingGoal> = {
+  id: req('string'),
+  name: req('string'),
+  institution: req('string'),
+  institutionType: req(['bank', 'credit_union']),
+  targetAmount: req('number'),
+  currentAmount: req('number'),
+  openingBalance: req('number'),
+  category: req('string'),
+  currency: opt('string')
+};
+
+const INVESTMENT_GOAL_SCHEMA: RecordSchema<InvestmentGoal> = {
+  id: req('string'),
+  name: req('string'),
+  targetAmount: req('number'),
+  provider: req('string'),
+  currency: opt('string')
+};
+
+const BANK_CONNECTION_SCHEMA: RecordSchema<BankConnection> = {
+  institution: req('string'),
+  institutionType: req(INSTITUTION_TYPES),
+  status: req(['linked', 'unlinked', 'syncing', 'error']),
+  lastSynced: opt('string'),
+  accountLastFour: opt('string'),
+  openingBalance: req('number'),
+  currency: opt('string'),
+  externalAccountId: opt('string'),
+  accessToken: opt('string'),
+  tokenExpiresAt: opt('string'),
+  syncCursor: opt('string'),
+  syncFailures: opt('number'),
+  nextSyncAt: opt('string'),
+  lastError: opt('string')
+};
+
+const INVESTMENT_ACCOUNT_SCHEMA: RecordSchema<InvestmentAccount> = {
+  id: req('string'),
+  provider: req('string'),
+  name: req('string'),
+  assetClass: opt(['crypto', 'equity_etf', 'bond', 'cash', 'pension', 'real_estate']),
+  currency: opt('string'),
+  holdings: req('array'),
+  trades: opt('array'),
+  costBasisMethod: opt(['fifo', 'lifo', 'average'])
+};
+
+const EVENT_SCHEMA: RecordSchema<BudgetEvent> = {
+  id: req('string'),
+  name: req('string'),
+  date: req('string'),
+  items: req('array'),
+  notes: req('array'),
+  tasks: req('array'),
+  files: req('array'),
+  contactIds: req('array'),
+  memberUsernames: req('array'),
+  ious: req('array'),
+  logs: opt('array'),
+  status: req(['planned', 'active', 'completed']),
+  outcome: opt(['success', 'failed']),
+  lessonsLearnt: opt('string'),
+  projectedBudget: opt('number'),
+  lastUpdated: req('string'),
+  activeCollaborators: opt('array')
+};
+
+const CALENDAR_ITEM_SCHEMA: RecordSchema<CalendarItem> = {
+  id: req('string'),
+  title: req('string'),
+  date: req('string'),
+  type: req(['meeting', 'reminder', 'event']),
+  startTime: opt('string'),
+  description: opt('string'),
+  recurring: req(['none', 'daily', 'weekly', 'monthly']),
+  completed: opt('boolean')
+};
+
+const CONTACT_SCHEMA: RecordSchema<Contact> = {
+  id: req('string'),
+  name: req('string'),
+  number: req('string'),
+  email: req('string'),
+  address: opt('string')
+};
+
+const NET_WORTH_SCHEMA: RecordSchema<NetWorthSnapshot> = {
+  date: req('string'),
+  value: req('number'),
+  currency: opt('string'),
+  bank: opt('number'),
+  creditUnion: opt('number'),
+  investment: opt('number'),
+  cash: opt('number'),
+  liabilities: opt('number'),
+  backfilled: opt('boolean')
+};
+
+const IMPORT_PROFILE_SCHEMA: RecordSchema<ImportProfile> = {
+  institution: req('string'),
+  delimiter: req('string'),
+  hasHeader: req('boolean'),
+  dateColumn: req('number'),
+  descriptionColumn: req('number'),
+  amountColumn: opt('number'),
+  debitColumn: opt('number'),
+  creditColumn: opt('number'),
+  dateFormat: req(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MMM-YYYY', 'YYYYMMDD']),
+  decimalSeparator: req(['.', ',']),
+  invertAmounts: req('boolean'),
+  updatedAt: req('string')
+};
+
+const CATEGORY_RULE_SCHEMA: RecordSchema<CategoryRule> = {
+  id: req('string'),
+  field: req(['vendor', 'description']),
+  operator: req(['contains', 'equals', 'startsWith']),
+  pattern: req('string'),
+  category: req('string'),
+  institution: opt('string'),
+  enabled: req('boolean'),
+  source: req(['learned', 'manual']),
+  createdAt: req('string')
+};
+
+const CATEGORY_SCHEMA: RecordSchema<Category> = {
+  id: req('string'),
+  name: req('string'),
+  parentId: opt('string'),
+  kind: req(['expense', 'income', 'transfer']),
+  color: req('string'),
+  icon: req('string'),
+  archived: req('boolean'),
+  createdAt: req('string')
+};
+
+const FX_RATE_SCHEMA: RecordSchema<FxRate> = {
+  id: req('string'),
+  date: req('string'),
+  base: req('string'),
+  quote: req('string'),
+  rate: req('number'),
+  source: req(['peg', 'manual'])
+};
+
+const RECONCILIATION_SCHEMA: RecordSchema<Reconciliation> = {
+  id: req('string'),
+  institution: req('string'),
+  statementDate: req('string'),
+  statementBalance: req('number'),
+  clearedBalance: req('number'),
+  discrepancy: req('number'),
+  clearedIds: req('array'),
+  reconciledAt: req('string')
+};
+
+const SYNC_LOG_SCHEMA: RecordSchema<SyncLogEntry> = {
+  id: req('string'),
+  institution: req('string'),
+  at: req('string'),
+  trigger: req(['scheduled', 'manual']),
+  outcome: req(['success', 'failure']),
+  newItems: req('number'),
+  message: opt('string')
+};
+
+const PRICE_POINT_SCHEMA: RecordSchema<PricePoint> = {
+  id: req('string'),
+  symbol: req('string'),
+  date: req('string'),
+  price: req('number'),
+  currency: req('string'),
+  source: req(['feed', 'manual', 'import']),
+  quotedAt: req('string')
+};
+
+const LIABILITY_SCHEMA: RecordSchema<Liability> = {
+  id: req('string'),
+  name: req('string'),
+  kind: req(['loan', 'credit_card', 'mortgage']),
+  lender: opt('string'),
+  principal: req('number'),
+  apr: req('number'),
+  minimumPayment: req('number'),
+  paymentDay: req('number'),
+  openedOn: req('string'),
+  currency: opt('string')
+};
+
+const QUEUED_ITEM_SCHEMA: RecordSchema<QueuedItem> = {
+  id: req('string'),
+  position: req('number'),
+  updateType: req(['transaction', 'portfolio']),
+  transaction: opt('object'),
+  portfolio: opt('object')
+};
+
+const LIST_SCHEMAS: { [K in Exclude<keyof PortableCollections, 'categoryBudgets'>]: RecordSchema<PortableCollections[K][number]> } = {
+  transactions: TRANSACTION_SCHEMA,
+  recurringExpenses: RECURRING_EXPENSE_SCHEMA,
+  recurringIncomes: RECURRING_INCOME_SCHEMA,
+  savingGoals: SAVING_GOAL_SCHEMA,
+  investmentGoals: INVESTMENT_GOAL_SCHEMA,
+  bankConnections: BANK_CONNECTION_SCHEMA,
+  investments: INVESTMENT_ACCOUNT_SCHEMA,
+  events: EVENT_SCHEMA,
+  calendarItems: CALENDAR_ITEM_SCHEMA,
+  contacts: CONTACT_SCHEMA,
+  netWorthHistory: NET_WORTH_SCHEMA,
+  importProfiles: IMPORT_PROFILE_SCHEMA,
+  categoryRules: CATEGORY_RULE_SCHEMA,
+  categories: CATEGORY_SCHEMA,
+  fxRates: FX_RATE_SCHEMA,
+  reconciliations: RECONCILIATION_SCHEMA,
+  syncLog: SYNC_LOG_SCHEMA,
+  priceHistory: PRICE_POINT_SCHEMA,
+  liabilities: LIABILITY_SCHEMA,
+  verificationQueue: QUEUED_ITEM_SCHEMA
+};
+
+const matchesRule = (value: unknown, rule: Rule) => {
+  if (Array.isArray(rule)) return typeof value === 'string' && rule.includes(value);
+  if (rule === 'array') return Array.isArray(value);
+  if (rule === 'object') return !!value && typeof value === 'object' && !Array.isArray(value);
+  if (rule === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeof value === rule;
+};
+
+const describeRule = (rule: Rule) => Array.isArray(rule) ? `one of ${rule.join('/')}` : rule;
+
+// Returns the first problem with a record, or null when it matches its schema.
+const checkRecord = (record: unknown, schema: RecordSchema<any>): string | null => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) return 'not an object';
+  for (const [field, spec] of Object.entries(schema) as [string, FieldSpec][]) {
+    const value = (record as Record<string, unknown>)[field];
+    if (value === undefined || value === null) {
+      if (!spec.optional) return `missing ${field}`;
+      continue;
+    }
+    if (!matchesRule(value, spec.rule)) return `${field} should be ${describeRule(spec.rule)}`;
+  }
+  return null;
+};
+
+const validateCollection = <K extends keyof PortableCollections>(name: K, raw: unknown, issues: BackupIssue[]): PortableCollections[K] => {
+  if (name === 'categoryBudgets') {
+    if (!matchesRule(raw, 'object')) {
+      issues.push({ collection: name, message: 'expected an object of category limits' });
+      return {} as PortableCollections[K];
+    }
+    const valid = Object.entries(raw as Record<string, unknown>).filter(([category, limit]) => {
+      const ok = matchesRule(limit, 'number');
+      if (!ok) issues.push({ collection: name, message: `${category} limit should be number` });
+      return ok;
+    });
+    return Object.fromEntries(valid) as PortableCollections[K];
+  }
+  if (!Array.isArray(raw)) {
+    issues.push({ collection: name, message: 'expected a list' });
+    return [] as unknown as PortableCollections[K];
+  }
+  const schema = LIST_SCHEMAS[name as Exclude<K, 'categoryBudgets'>];
+  return raw.filter((record, index) => {
+    const problem = checkRecord(record, schema);
+    if (problem) issues.push({ collection: name, index, message: problem });
+    return !problem;
+  }) as unknown as PortableCollections[K];
+};
+
+/**
+ * Export
+ * Backup files are unencrypted, so institution sessions stay on this device: connections
+ * leave without their bearer tokens and are signed in again after a restore.
+ */
+const withoutSession = ({ accessToken, tokenExpiresAt, ...conn }: BankConnection): BankConnection =>
+  accessToken ? { ...conn, status: 'error', lastError: 'Re-link to resume syncing after a restore' } : conn;
+
+export const createBackup = async (createdBy: string, mirrorDirectory: string | null): Promise<VaultBackup> => {
+  const vault = await readPortableVault();
+  const collections = { ...vault.collections, bankConnections: vault.collections.bankConnections.map(withoutSession) };
+  const settings = vault.settings;
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    collections,
+    settings,
+    documents: await readInternalDocs(),
+    mirror: { directoryName: mirrorDirectory }
+  };
+};
+
+/**
+ * Import
+ * Accepts the current format and legacy flat dumps. Invalid records are dropped and
+ * reported as issues; a file that is neither format throws.
+ */
+export const parseBackup = (raw: unknown): ParsedBackup => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Backup file is not a JSON object');
+  const data = raw as Record<string, any>;
+  const issues: BackupIssue[] = [];
+
+  let sourceVersion: number;
+  let rawCollections: Record<string, unknown>;
+  let rawSettings: Partial<VaultSettings>;
+  let rawDocuments: unknown = {};
+  let mirrorDirectory: string | null = null;
+
+  if (data.format === BACKUP_FORMAT) {
+    sourceVersion = Number(data.version) || 0;
+    if (sourceVersion > BACKUP_VERSION) throw new Error(`Backup version ${sourceVersion} is newer than this app supports (${BACKUP_VERSION})`);
+    rawCollections = data.collections || {};
+    rawSettings = data.settings || {};
+    rawDocuments = data.documents || {};
+    mirrorDirectory = typeof data.mirror?.directoryName === 'string' ? data.mirror.directoryName : null;
+  } else {
+    const legacy = parseStorageLayout(data);
+    if (Object.keys(legacy.collections).length === 0) throw new Error('Unrecognised backup format');
+    sourceVersion = 1;
+    rawCollections = legacy.collections;
+    rawSettings = legacy.settings;
+  }
+
+  const collections = {} as PortableCollections;
+  for (const name of PORTABLE_COLLECTIONS) {
+    (collections as any)[name] = rawCollections[name] === undefined
+      ? (name === 'categoryBudgets' ? {} : [])
+      : validateCollection(name, rawCollections[name], issues);
+  }
+
+  const settings: VaultSettings = { ...DEFAULT_SETTINGS };
+  (Object.keys(settings) as (keyof VaultSettings)[]).forEach(setting => {
+    const value = rawSettings[setting];
+    const fallback = DEFAULT_SETTINGS[setting];
+    const rule = typeof fallback === 'number' ? 'number' : typeof fallback === 'string' ? 'string' : 'object';
+    if (value === undefined) return;
+    if (matchesRule(value, rule)) (settings as any)[setting] = value;
+    else issues.push({ collection: 'settings', message: `${setting} should be ${rule}` });
+  });
+
+  const documents: Record<string, string> = {};
+  if (matchesRule(rawDocuments, 'object')) {
+    Object.entries(rawDocuments as Record<string, unknown>).forEach(([id, content]) => {
+      if (typeof content === 'string') documents[id] = content;
+      else issues.push({ collection: 'documents', message: `${id} is not text` });
+    });
+  } else {
+    issues.push({ collection: 'documents', message: 'expected an object of documents' });
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: Number(data.schemaVersion) || 0,
+      createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+      createdBy: typeof data.createdBy === 'string' ? data.createdBy : '',
+      collections,
+      settings,
+      documents,
+      mirror: { directoryName: mirrorDirectory }
+    },
+    sourceVersion,
+    issues
+  };
+};
+
+// Records compare by content, so an identical record in both vaults counts as unchanged.
+const sameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const previewRestore = async ({ backup }: ParsedBackup): Promise<RestorePreview> => {
+  const current = await readPortableVault();
+  const diffs = PORTABLE_COLLECTIONS.map(name => {
+    const local = new Map(toCollectionEntries(name, current.collections[name]));
+    const incoming = toCollectionEntries(name, backup.collections[name]);
+    const diff: CollectionDiff = { collection: name, incoming: incoming.length, added: 0, updated: 0, unchanged: 0, localOnly: 0 };
+    incoming.forEach(([key, record]) => {
+      if (!local.has(key)) diff.added++;
+      else if (sameRecord(local.get(key), record)) diff.unchanged++;
+      else diff.updated++;
+    });
+    const incomingKeys = new Set(incoming.map(([key]) => key));
+    diff.localOnly = Array.from(local.keys()).filter(key => !incomingKeys.has(key)).length;
+    return diff;
+  });
+
+  const localDocs = await readInternalDocs();
+  const incomingDocIds = Object.keys(backup.documents);
+  return {
+    diffs,
+    documents: {
+      incoming: incomingDocIds.length,
+      added: incomingDocIds.filter(id => !(id in localDocs)).length,
+      localOnly: Object.keys(localDocs).filter(id => !(id in backup.documents)).length
+    },
+    settingsChanged: !sameRecord(current.settings, backup.settings)
+  };
+};
+
+// Backups carry no sessions, so a merge keeps this device's session for the same account
+const keepSession = (local: BankConnection | undefined, incoming: BankConnection): BankConnection =>
+  local?.accessToken && !incoming.accessToken && local.externalAccountId === incoming.externalAccountId
+    ? { ...incoming, accessToken: local.accessToken, tokenExpiresAt: local.tokenExpiresAt, status: local.status, lastError: local.lastError }
+    : incoming;
+
+/**
+ * Writes a validated backup into the open vault. "merge" unions records by id (the
+ * backup wins on conflicts, except for bank sessions) and keeps local settings; "replace"
+ * makes the vault an exact copy, so its connections need re-linking.
+ */
+export const applyRestore = async ({ backup }: ParsedBackup, mode: RestoreMode): Promise<void> => {
+  const current = mode === 'merge' ? await readPortableVault() : null;
+  for (const name of PORTABLE_COLLECTIONS) {
+    let next = backup.collections[name];
+    if (current) {
+      const merged = new Map(toCollectionEntries(name, current.collections[name]));
+      toCollectionEntries(name, next).forEach(([key, record]) => merged.set(key, name === 'bankConnections'
+        ? keepSession(merged.get(key) as BankConnection | undefined, record as BankConnection)
+        : record));
+      next = fromCollectionEntries(name, Array.from(merged.entries()));
+    }
+    await replaceCollection(name, next);
+  }
+  if (mode === 'replace') {
+    await persistSetting('cashOpeningBalance', backup.settings.cashOpeningBalance);
+    await persistSetting('salary', backup.settings.salary);
+    await persistSetting('baseCurrency', backup.settings.baseCurrency);
+    await persistSetting('budgetCycle', backup.settings.budgetCycle);
+  }
+  await writeInternalDocs(backup.documents, mode === 'replace');
+};
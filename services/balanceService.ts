@@ -0,0 +1,115 @@
+
+import { Transaction, InstitutionType } from '../types';
+import { BaseCurrencyView } from './currencyService';
+import { liabilityStatement } from './liabilityService';
+import { todayKey } from './budgetCycleService';
+
+/**
+ * Fire Finance - Account Balances
+ * The one place balances are derived from the ledger. Every transaction becomes postings
+ * against the user's accounts; a movement between two of them is a paired debit/credit,
+ * so it changes where the money sits but never the total.
+ */
+
+export const CASH_ACCOUNT = 'Cash in Hand';
+
+export type AccountType = InstitutionType | 'cash' | 'liability';
+
+export interface Posting {
+  account: string;
+  amount: number; // signed: credits are positive
+}
+
+export interface AccountBalance {
+  account: string;
+  type: AccountType;
+  balance: number;
+}
+
+export interface BalanceSheet {
+  accounts: Record<string, AccountBalance>;
+  liquid: number; // bank accounts and cash: money that can be spent this cycle
+  netWorth: number;
+}
+
+const accountOf = (institution?: string) => institution || CASH_ACCOUNT;
+
+/**
+ * Money moving between the user's own accounts. It is neither earned nor spent, so it
+ * stays out of income and expense totals even when imported as an expense.
+ */
+export const isTransfer = (t: Pick<Transaction, 'type' | 'category'>) =>
+  t.type === 'transfer' || t.type === 'withdrawal' || t.category === 'Transfer';
+
+export const isIncome = (t: Transaction) => t.type === 'income' && !isTransfer(t);
+export const isExpense = (t: Transaction) => t.type === 'expense' && !isTransfer(t);
+
+/**
+ * Postings for one transaction. Transfers debit the source and credit the destination.
+ * A withdrawal without a destination lands in Cash in Hand; savings without one leave
+ * the tracked accounts, as the money moved somewhere the vault does not follow.
+ */
+export const postingsFor = (t: Transaction): Posting[] => {
+  const source = accountOf(t.institution);
+  switch (t.type) {
+    case 'income':
+      return [{ account: source, amount: t.amount }];
+    case 'expense':
+      return [{ account: source, amount: -t.amount }];
+    case 'transfer':
+    case 'withdrawal':
+    case 'savings': {
+      const destination = t.destinationInstitution || (t.type === 'withdrawal' ? CASH_ACCOUNT : undefined);
+      if (destination === source) return [];
+      const debit: Posting = { account: source, amount: -t.amount };
+      return destination ? [debit, { account: destination, amount: t.amount }] : [debit];
+    }
+  }
+};
+
+// The part of the base-currency view that balances are built from
+export type LedgerView = Pick<BaseCurrencyView, 'transactions' | 'bankConnections' | 'investments' | 'marketPrices' | 'liabilities' | 'cashOpeningBalance'>;
+
+/**
+ * Balances of every tracked account: linked connections, Cash in Hand, the investment
+ * providers (live holdings value plus cash moved in or out) and liabilities (what is owed,
+ * as a negative balance). Postings to accounts the vault does not track are money entering
+ * or leaving and are dropped. `before` limits the ledger to transactions dated earlier than
+ * that day (a cycle's opening balances).
+ */
+export const buildBalanceSheet = (view: LedgerView, before?: string): BalanceSheet => {
+  const accounts: Record<string, AccountBalance> = {};
+  const open = (account: string, type: AccountType, balance: number) => {
+    accounts[account] = { account, type, balance: (accounts[account]?.balance || 0) + balance };
+  };
+
+  view.bankConnections.forEach(conn => open(conn.institution, conn.institutionType, conn.openingBalance || 0));
+  open(CASH_ACCOUNT, 'cash', view.cashOpeningBalance);
+  view.investments.forEach(inv => {
+    const liveValue = inv.holdings.reduce((acc: number, h) => {
+      const live = view.marketPrices.find(m => m.symbol === h.symbol)?.price || h.purchasePrice;
+      return acc + h.quantity * live;
+    }, 0);
+    open(inv.provider, 'investment', liveValue);
+  });
+
+  view.transactions
+    .filter(t => !before || t.date.split('T')[0] < before)
+    .flatMap(postingsFor)
+    .forEach(p => {
+      if (accounts[p.account]) accounts[p.account].balance += p.amount;
+    });
+
+  // Interest makes a liability's balance more than the sum of its postings, so it is replayed
+  const ledger = before ? view.transactions.filter(t => t.date.split('T')[0] < before) : view.transactions;
+  view.liabilities.forEach(l => {
+    accounts[l.name] = { account: l.name, type: 'liability', balance: -liabilityStatement(l, ledger, before || todayKey()).owed };
+  });
+
+  const all = Object.values(accounts);
+  return {
+    accounts,
+    liquid: all.filter(a => a.type === 'bank' || a.type === 'cash').reduce((acc, a) => acc + a.balance, 0),
+    netWorth: all.reduce((acc, a) => acc + a.balance, 0)
+  };
+};
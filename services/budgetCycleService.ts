@@ -0,0 +1,150 @@
+
+import { BudgetCycle, BudgetCycleKind, RecurringIncome } from '../types';
+
+/**
+ * Fire Finance - Budget Cycles
+ * Cuts the timeline into budget periods for the configured schedule. Periods are
+ * local calendar days (YYYY-MM-DD keys) so transaction dates compare as plain strings.
+ */
+
+export interface CyclePeriod {
+  start: string; // inclusive
+  end: string; // exclusive: the first day of the next cycle
+  days: number;
+}
+
+// The original hardcoded schedule: payday on the 25th
+export const DEFAULT_BUDGET_CYCLE: BudgetCycle = { kind: 'day_of_month', dayOfMonth: 25 };
+
+// A Monday; weekly cycles without an anchor start on Mondays
+const DEFAULT_ANCHOR = '2024-01-01';
+
+export const CYCLE_KIND_LABELS: Record<BudgetCycleKind, string> = {
+  calendar_month: 'Calendar Month',
+  day_of_month: 'Fixed Day Of Month',
+  biweekly: 'Every Two Weeks',
+  weekly: 'Weekly',
+  recurring_income: 'Follow A Recurring Income'
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const fromDateKey = (key: string) => {
+  const [y, m, d] = key.split('T')[0].split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const todayKey = () => toDateKey(new Date());
+
+export const addDays = (key: string, days: number) => {
+  const d = fromDateKey(key);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / (1000 * 60 * 60 * 24));
+
+// The given day in a month, clamped to its length (the 31st becomes the 30th/28th/29th)
+const dayInMonth = (year: number, month: number, day: number) => {
+  const length = new Date(year, month + 1, 0).getDate();
+  return toDateKey(new Date(year, month, Math.min(day, length)));
+};
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Resolves 'recurring_income' to the schedule it follows. An income that no longer
+ * exists falls back to calendar months rather than failing.
+ */
+const effectiveCycle = (cycle: BudgetCycle, incomes: RecurringIncome[]): BudgetCycle => {
+  if (cycle.kind !== 'recurring_income') return cycle;
+  const income = incomes.find(i => i.id === cycle.recurringIncomeId);
+  return income ? { kind: 'day_of_month', dayOfMonth: income.dayOfMonth } : { kind: 'calendar_month' };
+};
+
+const periodOf = (start: string, end: string): CyclePeriod => ({ start, end, days: daysBetween(start, end) });
+
+export const cycleContaining = (cycle: BudgetCycle, date: string, incomes: RecurringIncome[] = []): CyclePeriod => {
+  const resolved = effectiveCycle(cycle, incomes);
+  const key = date.split('T')[0];
+
+  if (resolved.kind === 'weekly' || resolved.kind === 'biweekly') {
+    const length = resolved.kind === 'weekly' ? 7 : 14;
+    const anchor = resolved.anchorDate || DEFAULT_ANCHOR;
+    const start = addDays(anchor, Math.floor(daysBetween(anchor, key) / length) * length);
+    return periodOf(start, addDays(start, length));
+  }
+
+  const day = resolved.kind === 'calendar_month' ? 1 : Math.min(31, Math.max(1, resolved.dayOfMonth || 1));
+  const d = fromDateKey(key);
+  let year = d.getFullYear();
+  let month = d.getMonth();
+  if (dayInMonth(year, month, day) > key) {
+    month -= 1;
+    if (month < 0) { month = 11; year -= 1; }
+  }
+  return periodOf(dayInMonth(year, month, day), dayInMonth(month === 11 ? year + 1 : year, (month + 1) % 12, day));
+};
+
+/**
+ * The cycle `offset` steps away from `period` (negative looks back).
+ */
+export const shiftCycle = (cycle: BudgetCycle, period: CyclePeriod, offset: number, incomes: RecurringIncome[] = []): CyclePeriod => {
+  let shifted = period;
+  for (let i = 0; i < Math.abs(offset); i++) {
+    shifted = offset < 0
+      ? cycleContaining(cycle, addDays(shifted.start, -1), incomes)
+      : cycleContaining(cycle, shifted.end, incomes);
+  }
+  return shifted;
+};
+
+/**
+ * The `count` cycles before `period`, most recent first (trailing averages).
+ */
+export const precedingCycles = (cycle: BudgetCycle, period: CyclePeriod, count: number, incomes: RecurringIncome[] = []): CyclePeriod[] => {
+  const cycles: CyclePeriod[] = [];
+  let previous = period;
+  for (let i = 0; i < count; i++) {
+    previous = shiftCycle(cycle, previous, -1, incomes);
+    cycles.push(previous);
+  }
+  return cycles;
+};
+
+// The cycle that was running on this cycle's first day, one year earlier
+export const sameCycleLastYear = (cycle: BudgetCycle, period: CyclePeriod, incomes: RecurringIncome[] = []): CyclePeriod => {
+  const d = fromDateKey(period.start);
+  d.setFullYear(d.getFullYear() - 1);
+  return cycleContaining(cycle, toDateKey(d), incomes);
+};
+
+export const isInPeriod = (date: string, period: CyclePeriod) => {
+  const key = date.split('T')[0];
+  return key >= period.start && key < period.end;
+};
+
+export const formatPeriod = (period: CyclePeriod) => {
+  const opts: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short' };
+  const last = fromDateKey(addDays(period.end, -1));
+  return `${fromDateKey(period.start).toLocaleDateString(undefined, opts)} – ${last.toLocaleDateString(undefined, { ...opts, year: 'numeric' })}`;
+};
+
+export const describeCycle = (cycle: BudgetCycle, incomes: RecurringIncome[] = []) => {
+  switch (cycle.kind) {
+    case 'calendar_month': return 'Calendar months';
+    case 'day_of_month': return `Monthly from the ${ordinal(cycle.dayOfMonth || 1)}`;
+    case 'weekly': return `Weekly from ${fromDateKey(cycle.anchorDate || DEFAULT_ANCHOR).toLocaleDateString(undefined, { weekday: 'long' })}`;
+    case 'biweekly': return `Every two weeks from ${cycle.anchorDate || DEFAULT_ANCHOR}`;
+    case 'recurring_income': {
+      const income = incomes.find(i => i.id === cycle.recurringIncomeId);
+      return income ? `Follows ${income.description} (${ordinal(income.dayOfMonth)})` : 'Calendar months (income removed)';
+    }
+  }
+};
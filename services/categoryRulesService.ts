@@ -0,0 +1,87 @@
+
+import { AIAnalysisResult, CategoryRule, CategoryRuleOperator, Transaction } from '../types';
+
+/**
+ * Fire Finance - Categorization Rules
+ * Local rules applied to every incoming entry (AI extraction, statements, bank sync)
+ * before it reaches the Verification Queue, plus rule proposals learned from corrections.
+ */
+
+export type CategoryRuleDraft = Omit<CategoryRule, 'id' | 'createdAt'>;
+
+type RuleSubject = Pick<Transaction, 'description' | 'type'> & { vendor?: string };
+
+export const RULE_OPERATOR_LABELS: Record<CategoryRuleOperator, string> = {
+  contains: 'contains',
+  equals: 'is exactly',
+  startsWith: 'starts with'
+};
+
+const normalize = (text: string = '') => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const ruleMatches = (rule: CategoryRule | CategoryRuleDraft, subject: RuleSubject): boolean => {
+  const value = normalize(rule.field === 'vendor' ? subject.vendor : subject.description);
+  const pattern = normalize(rule.pattern);
+  if (!value || !pattern) return false;
+  switch (rule.operator) {
+    case 'equals': return value === pattern;
+    case 'startsWith': return value.startsWith(pattern);
+    default: return value.includes(pattern);
+  }
+};
+
+const OPERATOR_RANK: Record<CategoryRuleOperator, number> = { equals: 3, startsWith: 2, contains: 1 };
+
+// Most specific rule wins: stricter operator, then longer pattern, then the user's own rules.
+const bySpecificity = (a: CategoryRule, b: CategoryRule) =>
+  OPERATOR_RANK[b.operator] - OPERATOR_RANK[a.operator] ||
+  b.pattern.length - a.pattern.length ||
+  (a.source === 'manual' ? -1 : 0) - (b.source === 'manual' ? -1 : 0);
+
+export const findMatchingRule = (subject: RuleSubject, rules: CategoryRule[]): CategoryRule | undefined => {
+  if (subject.type === 'transfer') return undefined;
+  return rules.filter(r => r.enabled && ruleMatches(r, subject)).sort(bySpecificity)[0];
+};
+
+export const applyCategoryRules = (items: AIAnalysisResult[], rules: CategoryRule[]): AIAnalysisResult[] =>
+  items.map(item => {
+    if (item.updateType !== 'transaction' || !item.transaction) return item;
+    const rule = findMatchingRule(item.transaction, rules);
+    if (!rule) return item;
+    return {
+      ...item,
+      transaction: {
+        ...item.transaction,
+        category: rule.category,
+        institution: item.transaction.institution || rule.institution,
+        appliedRuleId: rule.id
+      }
+    };
+  });
+
+// Statement descriptions carry card numbers, references and terminal ids; keep the merchant words.
+const NOISE_WORDS = new Set(['pos', 'purchase', 'payment', 'debit', 'credit', 'card', 'visa', 'mastercard', 'ach', 'ref', 'trx', 'txn']);
+
+const patternFromDescription = (description: string) =>
+  description
+    .replace(/[^A-Za-z&' ]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word.toLowerCase()))
+    .slice(0, 3)
+    .join(' ');
+
+/**
+ * Turns a manual recategorization into a rule proposal, or null when an existing rule
+ * already produces that category or there is nothing distinctive to match on.
+ */
+export const proposeRule = (subject: RuleSubject, category: string, rules: CategoryRule[]): CategoryRuleDraft | null => {
+  if (subject.type === 'transfer' || category === 'Transfer') return null;
+  if (findMatchingRule(subject, rules)?.category === category) return null;
+
+  const vendor = subject.vendor?.trim();
+  const draft: CategoryRuleDraft = vendor
+    ? { field: 'vendor', operator: 'contains', pattern: vendor, category, enabled: true, source: 'learned' }
+    : { field: 'description', operator: 'contains', pattern: patternFromDescription(subject.description), category, enabled: true, source: 'learned' };
+
+  return draft.pattern.length >= 3 ? draft : null;
+};
@@ -0,0 +1,132 @@
+
+import { Category, CategoryKind } from '../types';
+
+/**
+ * Fire Finance - Category Catalogue
+ * Seeds the default categories and provides the hierarchy helpers shared by forms,
+ * the ledger and the Dashboard spend matrix.
+ */
+
+const SEED_DATE = '2024-01-01T00:00:00.000Z';
+
+const seed = (name: string, kind: CategoryKind, color: string, icon: string): Category => ({
+  id: `cat_${name.toLowerCase()}`,
+  name,
+  kind,
+  color,
+  icon,
+  archived: false,
+  createdAt: SEED_DATE
+});
+
+// The original fixed list; ids are deterministic so restores merge cleanly across devices.
+export const DEFAULT_CATEGORIES: Category[] = [
+  seed('Food', 'expense', '#f97316', 'fa-utensils'),
+  seed('Transport', 'expense', '#0ea5e9', 'fa-car'),
+  seed('Housing', 'expense', '#8b5cf6', 'fa-house'),
+  seed('Entertainment', 'expense', '#ec4899', 'fa-film'),
+  seed('Utilities', 'expense', '#eab308', 'fa-bolt'),
+  seed('Health', 'expense', '#ef4444', 'fa-heart-pulse'),
+  seed('Shopping', 'expense', '#14b8a6', 'fa-bag-shopping'),
+  seed('Education', 'expense', '#6366f1', 'fa-graduation-cap'),
+  seed('Personal', 'expense', '#a855f7', 'fa-user'),
+  seed('Income', 'income', '#10b981', 'fa-sack-dollar'),
+  seed('Savings', 'transfer', '#22c55e', 'fa-piggy-bank'),
+  seed('Other', 'expense', '#64748b', 'fa-circle-question'),
+  seed('Investments', 'transfer', '#3b82f6', 'fa-chart-line'),
+  seed('Transfer', 'transfer', '#94a3b8', 'fa-right-left')
+];
+
+// Referenced by name in code paths (transfers, statement imports) and cannot be archived or merged away.
+export const PROTECTED_CATEGORY_NAMES = ['Transfer', 'Other', 'Income'];
+
+export const CATEGORY_COLORS = ['#f97316', '#0ea5e9', '#8b5cf6', '#ec4899', '#eab308', '#ef4444', '#14b8a6', '#6366f1', '#10b981', '#64748b'];
+export const CATEGORY_ICONS = [
+  'fa-utensils', 'fa-cart-shopping', 'fa-car', 'fa-gas-pump', 'fa-house', 'fa-bolt', 'fa-wifi', 'fa-mobile-screen',
+  'fa-film', 'fa-heart-pulse', 'fa-bag-shopping', 'fa-graduation-cap', 'fa-user', 'fa-child', 'fa-paw', 'fa-plane',
+  'fa-gift', 'fa-church', 'fa-sack-dollar', 'fa-piggy-bank', 'fa-chart-line', 'fa-right-left', 'fa-circle-question', 'fa-tag'
+];
+
+export interface CategoryOption {
+  name: string;
+  label: string;
+  category: Category;
+}
+
+/**
+ * Active categories in display order: each parent followed by its sub-categories.
+ * Children of archived parents are listed as top-level so they stay selectable.
+ */
+export const orderCategories = (categories: Category[], includeArchived: boolean = false): Category[] => {
+  const visible = categories.filter(c => includeArchived || !c.archived);
+  const ids = new Set(visible.map(c => c.id));
+  const roots = visible.filter(c => !c.parentId || !ids.has(c.parentId));
+  return roots.flatMap(root => [root, ...visible.filter(c => c.parentId === root.id && c.id !== root.id)]);
+};
+
+export const categoryOptions = (categories: Category[], kinds?: CategoryKind[]): CategoryOption[] => {
+  const ordered = orderCategories(categories).filter(c => !kinds || kinds.includes(c.kind));
+  const ids = new Set(ordered.map(c => c.id));
+  return ordered.map(category => ({
+    name: category.name,
+    label: category.parentId && ids.has(category.parentId) ? `— ${category.name}` : category.name,
+    category
+  }));
+};
+
+export const findCategory = (categories: Category[], name: string) => categories.find(c => c.name === name);
+
+export const childrenOf = (categories: Category[], parentId: string) => categories.filter(c => c.parentId === parentId);
+
+export interface CategorySpendRow {
+  name: string;
+  color: string;
+  icon: string;
+  amount: number;
+  budget: number;
+  progress: number;
+  dailyAvg: number;
+  children: CategorySpendRow[];
+}
+
+const spendRow = (category: Pick<Category, 'name' | 'color' | 'icon'>, amount: number, budget: number, days: number, children: CategorySpendRow[] = []): CategorySpendRow => ({
+  name: category.name,
+  color: category.color,
+  icon: category.icon,
+  amount,
+  budget,
+  progress: budget > 0 ? (amount / budget) * 100 : 0,
+  dailyAvg: amount / days,
+  children
+});
+
+/**
+ * Spend per top-level category for the matrix. A parent's spend includes its
+ * sub-categories; its budget is its own limit, or the sum of its children's when unset.
+ * Names that are no longer in the catalogue still show up so no spend is hidden.
+ */
+export const rollupCategorySpend = (
+  spent: Record<string, number>,
+  budgets: Record<string, number>,
+  categories: Category[],
+  daysPassed: number
+): CategorySpendRow[] => {
+  const known = new Set(categories.map(c => c.name));
+  const ids = new Set(categories.map(c => c.id));
+  const roots = categories.filter(c => !c.parentId || !ids.has(c.parentId));
+
+  const rows = roots.map(root => {
+    const children = childrenOf(categories, root.id)
+      .map(child => spendRow(child, spent[child.name] || 0, budgets[child.name] || 0, daysPassed))
+      .filter(row => row.amount > 0 || row.budget > 0);
+    const amount = (spent[root.name] || 0) + children.reduce((s, c) => s + c.amount, 0);
+    const budget = budgets[root.name] || children.reduce((s, c) => s + c.budget, 0);
+    return spendRow(root, amount, budget, daysPassed, children.sort((a, b) => b.amount - a.amount));
+  });
+
+  const orphans = Object.keys(spent)
+    .filter(name => !known.has(name))
+    .map(name => spendRow({ name, color: '#64748b', icon: 'fa-tag' }, spent[name], budgets[name] || 0, daysPassed));
+
+  return [...rows, ...orphans].filter(row => row.amount > 0).sort((a, b) => b.amount - a.amount);
+};
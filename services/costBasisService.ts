@@ -0,0 +1,197 @@
+
+import { Holding, HoldingLot, InvestmentAccount, InvestmentTrade, CostBasisMethod, CurrencyCode, MarketPrice } from '../types';
+
+/**
+ * Fire Finance - Cost Basis
+ * Replays an account's trades into open lots. Each sale consumes lots by the account's
+ * method (FIFO, LIFO or average cost) and books the gain against what those lots cost.
+ * Holdings, lots and realized gains are always derived here; only trades are stored.
+ */
+
+export const COST_BASIS_METHODS: { id: CostBasisMethod; label: string }[] = [
+  { id: 'fifo', label: 'FIFO' },
+  { id: 'lifo', label: 'LIFO' },
+  { id: 'average', label: 'Average Cost' }
+];
+
+export interface RealizedGain {
+  tradeId: string;
+  symbol: string;
+  date: string;
+  quantity: number;
+  proceeds: number; // after fees
+  costBasis: number;
+  gain: number;
+  currency: CurrencyCode;
+  unmatched: number; // units sold beyond the known lots, booked at zero cost
+}
+
+export interface HoldingPerformance {
+  symbol: string;
+  quantity: number;
+  value: number;
+  cost: number;
+  unrealized: number;
+}
+
+export interface AccountPerformance {
+  accountId: string;
+  provider: InvestmentAccount['provider'];
+  value: number;
+  cost: number;
+  unrealized: number;
+  realized: number;
+  holdings: HoldingPerformance[];
+  sales: RealizedGain[];
+}
+
+const EPSILON = 1e-9;
+
+// Buys before sells on the same day, so an intraday round trip has a lot to sell from
+const byDate = (a: InvestmentTrade, b: InvestmentTrade) => a.date.localeCompare(b.date) || (a.side === b.side ? 0 : a.side === 'buy' ? -1 : 1);
+
+export const mergeTrades = (existing: InvestmentTrade[], incoming: InvestmentTrade[]) => {
+  const ids = new Set(existing.map(t => t.id));
+  return [...existing, ...incoming.filter(t => !ids.has(t.id))].sort(byDate);
+};
+
+export const quantityHeld = (trades: InvestmentTrade[], symbol: string) =>
+  trades.filter(t => t.symbol === symbol).reduce((acc, t) => acc + (t.side === 'buy' ? t.quantity : -t.quantity), 0);
+
+// Takes `quantity` out of the lots and returns what those units cost
+const consumeLots = (lots: HoldingLot[], quantity: number, method: CostBasisMethod) => {
+  const held = lots.reduce((acc, l) => acc + l.quantity, 0);
+  const matched = Math.min(quantity, held);
+  if (matched <= EPSILON) return { cost: 0, matched: 0 };
+
+  if (method === 'average') {
+    // Every lot gives up the same share, which leaves the pooled unit cost unchanged
+    const cost = lots.reduce((acc, l) => acc + l.quantity * l.unitCost, 0) * (matched / held);
+    const keep = 1 - matched / held;
+    lots.forEach(l => { l.quantity *= keep; });
+    lots.splice(0, lots.length, ...lots.filter(l => l.quantity > EPSILON));
+    return { cost, matched };
+  }
+
+  let remaining = matched;
+  let cost = 0;
+  while (remaining > EPSILON && lots.length > 0) {
+    const lot = method === 'lifo' ? lots[lots.length - 1] : lots[0];
+    const used = Math.min(lot.quantity, remaining);
+    cost += used * lot.unitCost;
+    lot.quantity -= used;
+    remaining -= used;
+    if (lot.quantity <= EPSILON) lots.splice(lots.indexOf(lot), 1);
+  }
+  return { cost, matched };
+};
+
+export const matchLots = (trades: InvestmentTrade[], method: CostBasisMethod = 'fifo') => {
+  const lots: Record<string, HoldingLot[]> = {};
+  const realized: RealizedGain[] = [];
+  [...trades].sort(byDate).forEach(trade => {
+    const symbolLots = lots[trade.symbol] = lots[trade.symbol] || [];
+    if (trade.side === 'buy') {
+      symbolLots.push({ tradeId: trade.id, acquiredAt: trade.date, quantity: trade.quantity, unitCost: (trade.price * trade.quantity + trade.fee) / trade.quantity });
+      return;
+    }
+    const { cost, matched } = consumeLots(symbolLots, trade.quantity, method);
+    const proceeds = trade.price * trade.quantity - trade.fee;
+    realized.push({
+      tradeId: trade.id,
+      symbol: trade.symbol,
+      date: trade.date,
+      quantity: trade.quantity,
+      proceeds,
+      costBasis: cost,
+      gain: proceeds - cost,
+      currency: trade.currency,
+      unmatched: Math.max(0, trade.quantity - matched)
+    });
+  });
+  return { lots, realized };
+};
+
+/**
+ * Holdings rebuilt from trades. Symbols the trades never mention (added by hand or from a
+ * linked account before any import) are kept as they were.
+ */
+export const holdingsFromTrades = (holdings: Holding[], trades: InvestmentTrade[], method: CostBasisMethod = 'fifo'): Holding[] => {
+  const { lots } = matchLots(trades, method);
+  const traded = new Set(trades.map(t => t.symbol));
+  const derived: Holding[] = Object.entries(lots)
+    .filter(([, symbolLots]) => symbolLots.length > 0)
+    .map(([symbol, symbolLots]) => {
+      const quantity = symbolLots.reduce((acc, l) => acc + l.quantity, 0);
+      const cost = symbolLots.reduce((acc, l) => acc + l.quantity * l.unitCost, 0);
+      const currency = trades.find(t => t.symbol === symbol)?.currency;
+      return { symbol, quantity, purchasePrice: quantity > 0 ? cost / quantity : 0, currency, lots: symbolLots };
+    });
+  return [...holdings.filter(h => !traded.has(h.symbol)), ...derived];
+};
+
+export const withTrades = (account: InvestmentAccount, trades: InvestmentTrade[]): InvestmentAccount => {
+  const allTrades = mergeTrades(account.trades || [], trades);
+  return { ...account, trades: allTrades, holdings: holdingsFromTrades(account.holdings, allTrades, account.costBasisMethod) };
+};
+
+/**
+ * A linked account reports a position, not the trades behind it. The difference from what
+ * the lots hold becomes an estimated buy or sell at today's price, so quantity changes keep
+ * a cost basis instead of overwriting one. A holding entered before any trades is first
+ * opened as an estimated buy at its recorded purchase price.
+ */
+export const applyPositionUpdate = (
+  account: InvestmentAccount,
+  symbol: string,
+  quantity: number,
+  price: number,
+  currency: CurrencyCode,
+  date: string
+): InvestmentAccount => {
+  const trades = account.trades || [];
+  const untracked = account.holdings.find(h => h.symbol === symbol && !trades.some(t => t.symbol === symbol));
+  const opening: InvestmentTrade[] = untracked && untracked.quantity > 0
+    ? [{ id: `open_${symbol}`, date, symbol, side: 'buy', quantity: untracked.quantity, price: untracked.purchasePrice, fee: 0, currency: untracked.currency || currency, estimated: true }]
+    : [];
+  const held = quantityHeld([...trades, ...opening], symbol);
+  const gap = quantity - held;
+  if (Math.abs(gap) <= EPSILON) return opening.length > 0 ? withTrades(account, opening) : account;
+  // mergeTrades skips ids it already has, so a day's updates are numbered to stay distinct
+  const prefix = `sync_${symbol}_${date}_`;
+  const sequence = trades.filter(t => t.id.startsWith(prefix)).length;
+  return withTrades(account, [...opening, {
+    id: `${prefix}${held}_${quantity}_${sequence}`,
+    date,
+    symbol,
+    side: gap > 0 ? 'buy' : 'sell',
+    quantity: Math.abs(gap),
+    price,
+    fee: 0,
+    currency,
+    estimated: true
+  }]);
+};
+
+// Expects holdings, trades and prices already in one currency (see toBaseCurrency). Lots are
+// re-matched from the converted trades so cost reflects the exchange rate on each trade date.
+export const accountPerformance = (account: InvestmentAccount, marketPrices: MarketPrice[]): AccountPerformance => {
+  const held = account.trades?.length ? holdingsFromTrades(account.holdings, account.trades, account.costBasisMethod) : account.holdings;
+  const holdings = held.map(h => {
+    const price = marketPrices.find(m => m.symbol === h.symbol)?.price || h.purchasePrice;
+    const value = h.quantity * price;
+    const cost = h.quantity * h.purchasePrice;
+    return { symbol: h.symbol, quantity: h.quantity, value, cost, unrealized: value - cost };
+  });
+  const sales = matchLots(account.trades || [], account.costBasisMethod).realized;
+  return {
+    accountId: account.id,
+    provider: account.provider,
+    value: holdings.reduce((acc, h) => acc + h.value, 0),
+    cost: holdings.reduce((acc, h) => acc + h.cost, 0),
+    unrealized: holdings.reduce((acc, h) => acc + h.unrealized, 0),
+    realized: sales.reduce((acc, s) => acc + s.gain, 0),
+    holdings,
+    sales
+  };
+};
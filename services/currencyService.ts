@@ -0,0 +1,191 @@
+
+import { Transaction, BankConnection, InvestmentAccount, MarketPrice, FxRate, CurrencyCode, Liability, RecurringExpense, RecurringIncome, SavingGoal, InvestmentGoal } from '../types';
+
+/**
+ * Fire Finance - Currency Conversion
+ * Resolves the currency of every stored amount and converts it into the vault's base
+ * currency using the dated FX table. Amounts saved before currencies existed are read
+ * as local money (XCD) for accounts and cash, and as USD for investment quotes.
+ */
+
+export const HOME_CURRENCY: CurrencyCode = 'XCD';
+export const INVESTMENT_CURRENCY: CurrencyCode = 'USD';
+
+export const CURRENCIES: { code: CurrencyCode; name: string; symbol: string }[] = [
+  { code: 'XCD', name: 'East Caribbean Dollar', symbol: 'EC$' },
+  { code: 'USD', name: 'US Dollar', symbol: 'US$' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'GBP', name: 'Pound Sterling', symbol: '£' },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$' },
+  { code: 'BBD', name: 'Barbados Dollar', symbol: 'Bds$' },
+  { code: 'TTD', name: 'Trinidad & Tobago Dollar', symbol: 'TT$' }
+];
+
+// The ECCB has held the EC dollar at 2.70 to the US dollar since July 1976.
+export const DEFAULT_FX_RATES: FxRate[] = [
+  { id: 'fx_USD_XCD_1976-07-07', date: '1976-07-07', base: 'USD', quote: 'XCD', rate: 2.7, source: 'peg' }
+];
+
+export const currencySymbol = (code: CurrencyCode) => CURRENCIES.find(c => c.code === code)?.symbol || `${code} `;
+
+export const formatMoney = (amount: number, code: CurrencyCode, fractionDigits: number = 2) =>
+  `${amount < 0 ? '-' : ''}${currencySymbol(code)}${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Units of `quote` bought by one unit of `base` on a given day: the latest direct or
+ * inverse entry dated on/before it (the earliest entry when the day predates the table),
+ * triangulated through USD when no direct pair exists. Null when no path is known.
+ */
+export const rateOn = (base: CurrencyCode, quote: CurrencyCode, rates: FxRate[], date: string = today()): number | null => {
+  if (base === quote) return 1;
+
+  const pairRates = rates
+    .filter(r => r.rate > 0 && ((r.base === base && r.quote === quote) || (r.base === quote && r.quote === base)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (pairRates.length > 0) {
+    const day = date.split('T')[0];
+    const applicable = [...pairRates].reverse().find(r => r.date <= day) || pairRates[0];
+    return applicable.base === base ? applicable.rate : 1 / applicable.rate;
+  }
+
+  if (base !== 'USD' && quote !== 'USD') {
+    const toUsd = rateOn(base, 'USD', rates, date);
+    const fromUsd = rateOn('USD', quote, rates, date);
+    if (toUsd !== null && fromUsd !== null) return toUsd * fromUsd;
+  }
+  return null;
+};
+
+// Unknown pairs pass the amount through unchanged; Settings lists them as missing rates.
+export const convertAmount = (amount: number, from: CurrencyCode, to: CurrencyCode, rates: FxRate[], date?: string) =>
+  amount * (rateOn(from, to, rates, date) ?? 1);
+
+export const connectionCurrency = (connection?: BankConnection) =>
+  connection?.currency || (connection?.institutionType === 'investment' ? INVESTMENT_CURRENCY : HOME_CURRENCY);
+
+// A transaction without its own currency is in the currency of the account it was booked against.
+export const transactionCurrency = (
+  t: Pick<Transaction, 'currency' | 'institution'>,
+  connections: BankConnection[],
+  investments: InvestmentAccount[] = [],
+  liabilities: Liability[] = []
+) => {
+  if (t.currency) return t.currency;
+  const connection = connections.find(c => c.institution === t.institution);
+  if (connection) return connectionCurrency(connection);
+  const account = investments.find(inv => inv.provider === t.institution);
+  if (account) return account.currency || INVESTMENT_CURRENCY;
+  return liabilities.find(l => l.name === t.institution)?.currency || HOME_CURRENCY;
+};
+
+export interface BaseCurrencyView {
+  transactions: Transaction[];
+  bankConnections: BankConnection[];
+  investments: InvestmentAccount[];
+  marketPrices: MarketPrice[];
+  liabilities: Liability[];
+  recurringExpenses: RecurringExpense[];
+  recurringIncomes: RecurringIncome[];
+  savingGoals: SavingGoal[];
+  investmentGoals: InvestmentGoal[];
+  categoryBudgets: Record<string, number>; // kept in the home currency
+  cashOpeningBalance: number;
+}
+
+/**
+ * Restates the vault in the base currency for the totals (Dashboard, liquid funds,
+ * Projections). Transactions convert at the rate of their own date; balances, quotes,
+ * bills, goals and budgets at today's rate. Records already in the base currency keep
+ * their identity.
+ */
+export const toBaseCurrency = (
+  view: BaseCurrencyView,
+  baseCurrency: CurrencyCode,
+  rates: FxRate[]
+): BaseCurrencyView => ({
+  transactions: view.transactions.map(t => {
+    const from = transactionCurrency(t, view.bankConnections, view.investments, view.liabilities);
+    return from === baseCurrency ? t : { ...t, amount: convertAmount(t.amount, from, baseCurrency, rates, t.date), currency: baseCurrency };
+  }),
+  bankConnections: view.bankConnections.map(c => {
+    const from = connectionCurrency(c);
+    return from === baseCurrency ? c : { ...c, openingBalance: convertAmount(c.openingBalance || 0, from, baseCurrency, rates), currency: baseCurrency };
+  }),
+  investments: view.investments.map(inv => ({
+    ...inv,
+    holdings: inv.holdings.map(h => {
+      const from = h.currency || inv.currency || INVESTMENT_CURRENCY;
+      if (from === baseCurrency) return h;
+      return {
+        ...h,
+        purchasePrice: convertAmount(h.purchasePrice, from, baseCurrency, rates),
+        lots: h.lots?.map(l => ({ ...l, unitCost: convertAmount(l.unitCost, from, baseCurrency, rates) })),
+        currency: baseCurrency
+      };
+    }),
+    // Trades convert at their own date, so realized gains are in what the money was worth then
+    trades: inv.trades?.map(t => t.currency === baseCurrency ? t : {
+      ...t,
+      price: convertAmount(t.price, t.currency, baseCurrency, rates, t.date),
+      fee: convertAmount(t.fee, t.currency, baseCurrency, rates, t.date),
+      currency: baseCurrency
+    })
+  })),
+  marketPrices: view.marketPrices.map(p => {
+    const from = p.currency || INVESTMENT_CURRENCY;
+    return from === baseCurrency ? p : { ...p, price: convertAmount(p.price, from, baseCurrency, rates), currency: baseCurrency };
+  }),
+  liabilities: view.liabilities.map(l => {
+    const from = l.currency || HOME_CURRENCY;
+    return from === baseCurrency ? l : {
+      ...l,
+      principal: convertAmount(l.principal, from, baseCurrency, rates),
+      minimumPayment: convertAmount(l.minimumPayment, from, baseCurrency, rates),
+      currency: baseCurrency
+    };
+  }),
+  recurringExpenses: view.recurringExpenses.map(e => {
+    const from = e.currency || HOME_CURRENCY;
+    return from === baseCurrency ? e : {
+      ...e,
+      amount: convertAmount(e.amount, from, baseCurrency, rates),
+      accumulatedOverdue: convertAmount(e.accumulatedOverdue, from, baseCurrency, rates),
+      currency: baseCurrency
+    };
+  }),
+  recurringIncomes: view.recurringIncomes.map(i => {
+    const from = i.currency || HOME_CURRENCY;
+    return from === baseCurrency ? i : {
+      ...i,
+      amount: convertAmount(i.amount, from, baseCurrency, rates),
+      accumulatedReceived: i.accumulatedReceived === undefined ? undefined : convertAmount(i.accumulatedReceived, from, baseCurrency, rates),
+      currency: baseCurrency
+    };
+  }),
+  savingGoals: view.savingGoals.map(g => {
+    const from = g.currency || HOME_CURRENCY;
+    return from === baseCurrency ? g : {
+      ...g,
+      targetAmount: convertAmount(g.targetAmount, from, baseCurrency, rates),
+      currentAmount: convertAmount(g.currentAmount, from, baseCurrency, rates),
+      openingBalance: convertAmount(g.openingBalance, from, baseCurrency, rates),
+      currency: baseCurrency
+    };
+  }),
+  investmentGoals: view.investmentGoals.map(g => {
+    const from = g.currency || HOME_CURRENCY;
+    return from === baseCurrency ? g : { ...g, targetAmount: convertAmount(g.targetAmount, from, baseCurrency, rates), currency: baseCurrency };
+  }),
+  categoryBudgets: HOME_CURRENCY === baseCurrency ? view.categoryBudgets : Object.fromEntries(
+    Object.entries(view.categoryBudgets).map(([category, amount]) => [category, convertAmount(amount, HOME_CURRENCY, baseCurrency, rates)])
+  ),
+  cashOpeningBalance: convertAmount(view.cashOpeningBalance, HOME_CURRENCY, baseCurrency, rates)
+});
+
+/**
+ * Currencies in use that have no path to the base currency in the FX table.
+ */
+export const missingRates = (inUse: CurrencyCode[], baseCurrency: CurrencyCode, rates: FxRate[]) =>
+  Array.from(new Set<CurrencyCode>(inUse)).filter(code => rateOn(code, baseCurrency, rates) === null);
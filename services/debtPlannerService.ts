@@ -0,0 +1,160 @@
+
+import { Liability, RecurringExpense, Transaction } from '../types';
+import { liabilityStatement, nextPaymentDate } from './liabilityService';
+
+/**
+ * Fire Finance - Debt Payoff Planner
+ * Every debt gets its minimum each month and an extra amount goes to one debt at a time in
+ * the strategy's order. When a debt is cleared its minimum rolls over to the next one.
+ * The baseline to compare against pays each debt its own minimum and nothing more.
+ */
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export const PAYOFF_STRATEGIES: { id: PayoffStrategy; label: string; hint: string }[] = [
+  { id: 'avalanche', label: 'Avalanche', hint: 'Highest APR first — the least interest' },
+  { id: 'snowball', label: 'Snowball', hint: 'Smallest balance first — the quickest wins' },
+  { id: 'custom', label: 'Custom', hint: 'Your own order' }
+];
+
+// Longest plan worked out before the remaining debts are treated as never paid off (50 years)
+const MAX_PLAN_MONTHS = 600;
+
+export interface PlannerDebt {
+  id: string;
+  name: string;
+  owed: number;
+  apr: number;
+  minimumPayment: number;
+  paymentDay: number;
+}
+
+export interface PlanMonth {
+  month: string; // YYYY-MM
+  balances: Record<string, number>; // owed per debt after the month's payments
+  total: number;
+  interest: number; // interest charged across all debts that month
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  order: string[]; // debt ids, first to receive the extra first
+  months: PlanMonth[];
+  payoffDates: Record<string, string | null>;
+  payoffDate: string | null; // null when some debt is never cleared
+  totalInterest: number;
+  firstPayments: Record<string, number>; // what each debt is paid in the first month
+}
+
+const monthAfter = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, '0')}`;
+};
+
+// The due date inside the given month, clamped to short months
+const dueIn = (month: string, paymentDay: number) => nextPaymentDate(paymentDay, `${month}-01`);
+
+export const plannerDebts = (liabilities: Liability[], transactions: Transaction[], today: string): PlannerDebt[] =>
+  liabilities
+    .map(l => ({ id: l.id, name: l.name, owed: liabilityStatement(l, transactions, today).owed, apr: l.apr, minimumPayment: l.minimumPayment, paymentDay: l.paymentDay }))
+    .filter(d => d.owed > 0.005);
+
+export const orderDebts = (debts: PlannerDebt[], strategy: PayoffStrategy, customOrder: string[] = []): PlannerDebt[] => {
+  if (strategy === 'avalanche') return [...debts].sort((a, b) => b.apr - a.apr || a.owed - b.owed);
+  if (strategy === 'snowball') return [...debts].sort((a, b) => a.owed - b.owed || b.apr - a.apr);
+  // Debts missing from the custom order (added since it was set) go last, smallest first
+  const rank = (d: PlannerDebt) => { const i = customOrder.indexOf(d.id); return i < 0 ? customOrder.length : i; };
+  return [...debts].sort((a, b) => rank(a) - rank(b) || a.owed - b.owed);
+};
+
+/**
+ * Simulates monthly payments from the month after `today`. Interest is a month's APR / 12
+ * on what is owed. With `rollover` off, each debt only ever gets its own minimum and the
+ * extra is ignored — that is the baseline.
+ */
+export const simulatePlan = (
+  debts: PlannerDebt[],
+  extra: number,
+  strategy: PayoffStrategy,
+  customOrder: string[],
+  today: string,
+  rollover: boolean = true
+): PayoffPlan => {
+  const order = orderDebts(debts, strategy, customOrder);
+  const balances: Record<string, number> = {};
+  const payoffDates: Record<string, string | null> = {};
+  order.forEach(d => { balances[d.id] = d.owed; payoffDates[d.id] = null; });
+
+  const budget = order.reduce((acc: number, d) => acc + d.minimumPayment, 0) + Math.max(0, extra);
+  const months: PlanMonth[] = [];
+  const firstPayments: Record<string, number> = {};
+  let totalInterest = 0;
+  let month = monthAfter(today.slice(0, 7));
+
+  while (order.some(d => balances[d.id] > 0.005) && months.length < MAX_PLAN_MONTHS) {
+    const paid: Record<string, number> = {};
+    let interest = 0;
+    order.forEach(d => {
+      if (balances[d.id] <= 0.005) return;
+      const charged = balances[d.id] * d.apr / 100 / 12;
+      interest += charged;
+      balances[d.id] += charged;
+      paid[d.id] = Math.min(d.minimumPayment, balances[d.id]);
+      balances[d.id] -= paid[d.id];
+    });
+
+    if (rollover) {
+      let remaining = budget - Object.values(paid).reduce((acc: number, p) => acc + p, 0);
+      order.forEach(d => {
+        if (remaining <= 0 || balances[d.id] <= 0.005) return;
+        const more = Math.min(remaining, balances[d.id]);
+        paid[d.id] = (paid[d.id] || 0) + more;
+        balances[d.id] -= more;
+        remaining -= more;
+      });
+    }
+
+    order.forEach(d => {
+      if (paid[d.id] !== undefined && balances[d.id] <= 0.005 && !payoffDates[d.id]) payoffDates[d.id] = dueIn(month, d.paymentDay);
+    });
+    if (months.length === 0) Object.assign(firstPayments, paid);
+
+    totalInterest += interest;
+    const snapshot: Record<string, number> = {};
+    order.forEach(d => { snapshot[d.id] = Math.max(0, balances[d.id]); });
+    months.push({ month, balances: snapshot, total: Object.values(snapshot).reduce((acc: number, b) => acc + b, 0), interest });
+    month = monthAfter(month);
+  }
+
+  const dates = Object.values(payoffDates);
+  return {
+    strategy,
+    order: order.map(d => d.id),
+    months,
+    payoffDates,
+    payoffDate: dates.length === 0 || dates.some(d => !d) ? null : (dates as string[]).sort()[dates.length - 1],
+    totalInterest,
+    firstPayments
+  };
+};
+
+/**
+ * The plan's first-month payments as monthly bills, each a transfer into its debt. Amounts
+ * change as debts are cleared and minimums roll over, so the plan is re-applied then.
+ * Amounts are in whatever currency the debts were given in.
+ */
+export const planExpenses = (plan: PayoffPlan, debts: PlannerDebt[]): Omit<RecurringExpense, 'id' | 'accumulatedOverdue'>[] => {
+  const label = PAYOFF_STRATEGIES.find(s => s.id === plan.strategy)?.label || plan.strategy;
+  const firstMonth = plan.months[0]?.month;
+  if (!firstMonth) return [];
+  return debts
+    .filter(d => (plan.firstPayments[d.id] || 0) > 0)
+    .map(d => ({
+      amount: Math.round(plan.firstPayments[d.id] * 100) / 100,
+      category: 'Transfer',
+      description: `${d.name} (${label} plan)`,
+      dayOfMonth: d.paymentDay,
+      nextDueDate: dueIn(firstMonth, d.paymentDay),
+      liabilityId: d.id
+    }));
+};
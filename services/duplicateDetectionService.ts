@@ -0,0 +1,147 @@
+
+import { AIAnalysisResult, Transaction } from '../types';
+
+/**
+ * Fire Finance - Duplicate Detection
+ * Scores how likely two entries are the same real-world transaction, e.g. a receipt
+ * captured through MagicInput that later arrives again from a statement or bank sync.
+ */
+
+type Candidate = NonNullable<AIAnalysisResult['transaction']>;
+
+export interface DuplicateMatch {
+  transaction: Transaction;
+  score: number; // 0..1
+  reasons: string[];
+}
+
+export interface DuplicatePair {
+  keep: Transaction;
+  duplicate: Transaction;
+  score: number;
+  reasons: string[];
+}
+
+// Banks post card payments a few days after the receipt date.
+export const DATE_WINDOW_DAYS = 4;
+export const SUSPECT_THRESHOLD = 0.65;
+
+const DAY_MS = 86400000;
+
+const daysBetween = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS;
+
+const normalizeText = (text: string = '') =>
+  text.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\b(pos|purchase|payment|card|debit|ltd|inc|the)\b/g, ' ').replace(/\s+/g, ' ').trim();
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, '');
+  const grams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+/**
+ * Dice coefficient over character bigrams; tolerant of the truncation and
+ * reordering banks apply to merchant names ("SUPERMKT CASTRIES" vs "Supermarket").
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const x = normalizeText(a);
+  const y = normalizeText(b);
+  if (!x || !y) return 0;
+  if (x === y || x.includes(y) || y.includes(x)) return 1;
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let overlap = 0;
+  gx.forEach((count, gram) => { overlap += Math.min(count, gy.get(gram) || 0); });
+  const total = Array.from(gx.values()).reduce((s, n) => s + n, 0) + Array.from(gy.values()).reduce((s, n) => s + n, 0);
+  return total === 0 ? 0 : (2 * overlap) / total;
+};
+
+const labelOf = (t: { vendor?: string; description: string }) => t.vendor || t.description;
+
+/**
+ * Amount and direction must agree; date proximity, merchant similarity and
+ * institution then decide how confident the match is.
+ */
+export const scoreDuplicate = (candidate: Candidate, existing: Transaction): { score: number; reasons: string[] } => {
+  const none = { score: 0, reasons: [] };
+  const sameInstitution = !!candidate.institution && candidate.institution === existing.institution;
+
+  if (candidate.externalId && existing.externalId) {
+    return candidate.externalId === existing.externalId && sameInstitution
+      ? { score: 1, reasons: ['Same bank reference'] }
+      : none;
+  }
+  if (candidate.type !== existing.type) return none;
+  if (Math.abs(candidate.amount - existing.amount) > 0.005) return none;
+
+  const dayGap = daysBetween(candidate.date || new Date().toISOString().split('T')[0], existing.date);
+  if (dayGap > DATE_WINDOW_DAYS) return none;
+
+  const reasons = ['Same amount'];
+  let score = 0.4;
+
+  score += 0.25 * (1 - dayGap / (DATE_WINDOW_DAYS + 1));
+  reasons.push(dayGap === 0 ? 'Same day' : `${Math.round(dayGap)} day${Math.round(dayGap) === 1 ? '' : 's'} apart`);
+
+  const similarity = Math.max(
+    textSimilarity(labelOf(candidate), labelOf(existing)),
+    textSimilarity(candidate.description, existing.description)
+  );
+  score += 0.3 * similarity;
+  if (similarity >= 0.5) reasons.push('Similar merchant');
+
+  if (sameInstitution) {
+    score += 0.05;
+    reasons.push('Same account');
+  } else if (candidate.institution && existing.institution) {
+    // Different accounts rarely book the same purchase
+    score -= 0.2;
+  }
+
+  return { score: Math.max(0, Math.min(1, score)), reasons };
+};
+
+export const findDuplicates = (candidate: Candidate, transactions: Transaction[], limit: number = 3): DuplicateMatch[] =>
+  transactions
+    .map(transaction => ({ transaction, ...scoreDuplicate(candidate, transaction) }))
+    .filter(m => m.score >= SUSPECT_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+const isDismissed = (a: Transaction, b: Transaction) =>
+  !!a.notDuplicateOf?.includes(b.id) || !!b.notDuplicateOf?.includes(a.id);
+
+/**
+ * Retroactive sweep over the ledger. Transactions are compared only with neighbours
+ * inside the date window, and pairs already marked "keep both" are skipped.
+ */
+export const sweepDuplicates = (transactions: Transaction[]): DuplicatePair[] => {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length && daysBetween(sorted[i].date, sorted[j].date) <= DATE_WINDOW_DAYS; j++) {
+      const [keep, duplicate] = [sorted[i], sorted[j]];
+      if (isDismissed(keep, duplicate)) continue;
+      const { score, reasons } = scoreDuplicate(duplicate, keep);
+      if (score >= SUSPECT_THRESHOLD) pairs.push({ keep, duplicate, score, reasons });
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Folds the details of a duplicate into the surviving transaction: the survivor keeps its
+ * id, amount and date, and gains whatever the other entry knew that it did not.
+ */
+export const mergeTransactions = (keep: Transaction, other: Candidate): Transaction => ({
+  ...keep,
+  vendor: keep.vendor || other.vendor,
+  notes: [keep.notes, other.notes].filter(Boolean).join(' | ') || undefined,
+  lineItems: keep.lineItems?.length ? keep.lineItems : other.lineItems,
+  institution: keep.institution || other.institution,
+  externalId: keep.externalId || other.externalId
+});
@@ -1,36 +1,199 @@
 
+import { STORAGE_KEYS } from '../types';
+import { sealValue, openValue, isSealed } from './vaultCrypto';
+
 /**
  * Fire Finance - Hybrid Storage Engine
  * Persistence using IndexedDB with optional SSD Mirroring.
+ * Collection records and internal documents are sealed with the session vault key.
  */
 
 const DB_NAME = 'FireFinance_v1';
+const DB_VERSION = 14;
 const DATA_STORE = 'app_state';
 const DOC_STORE = 'internal_docs';
 const MIRROR_HANDLE_STORE = 'mirror_handles';
 
+/**
+ * One object store per persisted ledger collection, named after its STORAGE_KEYS entry.
+ */
+export const COLLECTION_STORES: string[] = [
+  STORAGE_KEYS.TRANSACTIONS,
+  STORAGE_KEYS.RECURRING_EXPENSES,
+  STORAGE_KEYS.RECURRING_INCOMES,
+  STORAGE_KEYS.SAVINGS_GOALS,
+  STORAGE_KEYS.INVESTMENT_GOALS,
+  STORAGE_KEYS.CATEGORY_LIMITS,
+  STORAGE_KEYS.BANK_CONNECTIONS,
+  STORAGE_KEYS.INVESTMENTS,
+  STORAGE_KEYS.EVENTS,
+  STORAGE_KEYS.CALENDAR_ITEMS,
+  STORAGE_KEYS.CONTACTS,
+  STORAGE_KEYS.NETWORTH_HISTORY,
+  STORAGE_KEYS.IMPORT_PROFILES,
+  STORAGE_KEYS.CATEGORY_RULES,
+  STORAGE_KEYS.CATEGORIES,
+  STORAGE_KEYS.FX_RATES,
+  STORAGE_KEYS.RECONCILIATIONS,
+  STORAGE_KEYS.SYNC_LOG,
+  STORAGE_KEYS.PRICE_HISTORY,
+  STORAGE_KEYS.LIABILITIES,
+  STORAGE_KEYS.VERIFICATION_QUEUE,
+  STORAGE_KEYS.USERS_LIST
+];
+
+// The account registry must be readable before sign-in; it only holds hashes and wrapped keys.
+const PLAINTEXT_STORES = [STORAGE_KEYS.USERS_LIST];
+const isEncryptedStore = (storeName: string) => !PLAINTEXT_STORES.includes(storeName);
+
 const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 4); // Incremented version
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
     request.onupgradeneeded = () => {
       const db = request.result;
       if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
       if (!db.objectStoreNames.contains(MIRROR_HANDLE_STORE)) db.createObjectStore(MIRROR_HANDLE_STORE);
       if (!db.objectStoreNames.contains(DOC_STORE)) db.createObjectStore(DOC_STORE);
+      COLLECTION_STORES.forEach(store => {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+      });
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
+/**
+ * Collection Record I/O (keys are supplied by the caller)
+ * An optional keyPrefix scopes reads/writes to one namespace of the store; returned keys have it stripped.
+ */
+const prefixRange = (keyPrefix: string) => IDBKeyRange.bound(keyPrefix, `${keyPrefix}\uffff`);
+
+// Cursor callbacks cannot await (the transaction would auto-commit), so decryption happens after the scan.
+const readRawEntries = async (storeName: string, keyPrefix: string = ''): Promise<[string, any][]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const entries: [string, any][] = [];
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).openCursor(keyPrefix ? prefixRange(keyPrefix) : undefined);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        entries.push([String(cursor.key).slice(keyPrefix.length), cursor.value]);
+        cursor.continue();
+      } else {
+        resolve(entries);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readStoreEntries = async (storeName: string, keyPrefix: string = ''): Promise<[string, any][]> => {
+  const entries = await readRawEntries(storeName, keyPrefix);
+  if (!isEncryptedStore(storeName)) return entries;
+  return Promise.all(entries.map(async ([key, value]) => [key, await openValue(value)] as [string, any]));
+};
+
+export const writeStoreEntries = async (
+  storeName: string,
+  puts: [string, unknown][],
+  deletes: string[] = [],
+  keyPrefix: string = ''
+): Promise<void> => {
+  if (isEncryptedStore(storeName)) {
+    puts = await Promise.all(puts.map(async ([key, value]) => [key, await sealValue(value)] as [string, unknown]));
+  }
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    deletes.forEach(key => store.delete(keyPrefix + key));
+    puts.forEach(([key, value]) => store.put(value, keyPrefix + key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteStoreRange = async (storeName: string, keyPrefix: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(prefixRange(keyPrefix));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const clearStores = async (storeNames: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => transaction.objectStore(name).clear());
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * App State (scalar settings and schema bookkeeping)
+ */
+export const readStateValue = async <T>(key: string): Promise<T | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DATA_STORE, 'readonly');
+    const request = transaction.objectStore(DATA_STORE).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const writeStateValue = async (key: string, value: unknown): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DATA_STORE, 'readwrite');
+    transaction.objectStore(DATA_STORE).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteStateValue = async (key: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DATA_STORE, 'readwrite');
+    transaction.objectStore(DATA_STORE).delete(key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Encrypts every record still stored in plaintext (data written before the vault was encrypted).
+ */
+export const sealPlaintextRecords = async (): Promise<void> => {
+  for (const storeName of [...COLLECTION_STORES.filter(isEncryptedStore), DOC_STORE]) {
+    const plaintext = (await readRawEntries(storeName)).filter(([, value]) => !isSealed(value));
+    if (plaintext.length > 0) await writeStoreEntries(storeName, plaintext);
+  }
+};
+
+/**
+ * Full wipe used by Factory Purge. Mirror handles survive so the SSD link is not lost.
+ */
+export const purgeVaultStores = async (): Promise<void> => {
+  await clearStores([DATA_STORE, DOC_STORE, ...COLLECTION_STORES]);
+};
+
 /**
  * Internal Document CRUD (Bypasses FileSystem API)
  */
 export const saveInternalDoc = async (id: string, content: string): Promise<void> => {
+  const sealed = await sealValue(content);
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(DOC_STORE, 'readwrite');
-    transaction.objectStore(DOC_STORE).put(content, id);
+    transaction.objectStore(DOC_STORE).put(sealed, id);
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
@@ -38,12 +201,24 @@ export const saveInternalDoc = async (id: string, content: string): Promise<void
 
 export const getInternalDoc = async (id: string): Promise<string | null> => {
   const db = await initDB();
-  return new Promise((resolve, reject) => {
+  const stored = await new Promise<unknown>((resolve, reject) => {
     const transaction = db.transaction(DOC_STORE, 'readonly');
     const request = transaction.objectStore(DOC_STORE).get(id);
-    request.onsuccess = () => resolve(request.result || null);
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
+  return stored ? openValue<string>(stored) : null;
+};
+
+/**
+ * Bulk document access for backups: every internal doc by id, decrypted.
+ */
+export const readInternalDocs = async (): Promise<Record<string, string>> =>
+  Object.fromEntries(await readStoreEntries(DOC_STORE));
+
+export const writeInternalDocs = async (docs: Record<string, string>, replaceExisting: boolean = false): Promise<void> => {
+  if (replaceExisting) await clearStores([DOC_STORE]);
+  await writeStoreEntries(DOC_STORE, Object.entries(docs));
 };
 
 export const deleteInternalDoc = async (id: string): Promise<void> => {
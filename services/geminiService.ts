@@ -1,6 +1,6 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { AIAnalysisResult, CATEGORIES } from "../types";
+import { AIAnalysisResult } from "../types";
 
 const SCHEMA = {
   type: Type.OBJECT,
@@ -34,15 +34,32 @@ const SCHEMA = {
       properties: {
         symbol: { type: Type.STRING, description: "Ticker symbol like BTC, ETH, or VOO." },
         quantity: { type: Type.NUMBER, description: "The total amount held." },
-        provider: { type: Type.STRING, enum: ['Binance', 'Vanguard'], description: "The institution where the asset is held." }
+        provider: { type: Type.STRING, description: "The institution where the asset is held." }
       }
     }
   },
   required: ["updateType"]
 };
 
+// Portfolio updates may only name an investment account the user has set up
+const schemaFor = (providerNames: string[]) => providerNames.length === 0 ? SCHEMA : {
+  ...SCHEMA,
+  properties: {
+    ...SCHEMA.properties,
+    portfolio: {
+      ...SCHEMA.properties.portfolio,
+      properties: {
+        ...SCHEMA.properties.portfolio.properties,
+        provider: { ...SCHEMA.properties.portfolio.properties.provider, enum: providerNames }
+      }
+    }
+  }
+};
+
 export const parseInputToTransaction = async (
   input: string | { data: string; mimeType: string },
+  categoryNames: string[],
+  providerNames: string[],
   isMedia: boolean = false
 ): Promise<AIAnalysisResult | null> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -52,7 +69,7 @@ export const parseInputToTransaction = async (
       ? { 
           parts: [
             { inlineData: input as { data: string; mimeType: string } }, 
-            { text: "CRITICAL: Perform deep OCR on this receipt. 1. Identify the Merchant/Vendor name. 2. Extract every single line item, its quantity, and price. 3. Determine the total amount. 4. If it's a balance statement (e.g. 'Binance shows 1 BTC'), use portfolio update. Otherwise, use transaction." }
+            { text: "CRITICAL: Perform deep OCR on this receipt. 1. Identify the Merchant/Vendor name. 2. Extract every single line item, its quantity, and price. 3. Determine the total amount. 4. If it's a balance statement for one of the investment accounts (e.g. 'Binance shows 1 BTC'), use portfolio update. Otherwise, use transaction." }
           ] 
         }
       : { parts: [{ text: `Analyze this financial intent: "${input}". Extract merchant, items, and total amount.` }] };
@@ -62,10 +79,11 @@ export const parseInputToTransaction = async (
       contents: contents,
       config: {
         responseMimeType: "application/json",
-        responseSchema: SCHEMA,
+        responseSchema: schemaFor(providerNames),
         systemInstruction: `You are an elite Receipt & Financial Parsing Engine. 
         Your goal is 100% accuracy in merchant detection and line-item extraction. 
-        Categories available: ${CATEGORIES.join(", ")}. 
+        Categories available: ${categoryNames.join(", ")}. 
+        Investment accounts available: ${providerNames.join(", ") || "none"}. 
         Always return structured JSON. 
         For receipts, always populate the 'vendor' and 'lineItems' fields with high detail.`
       }
@@ -80,7 +98,9 @@ export const parseInputToTransaction = async (
 };
 
 export const parseStatementToTransactions = async (
-  fileData: { data: string; mimeType: string }
+  fileData: { data: string; mimeType: string },
+  categoryNames: string[],
+  providerNames: string[]
 ): Promise<AIAnalysisResult[]> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -97,8 +117,9 @@ export const parseStatementToTransactions = async (
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
-          items: SCHEMA
-        }
+          items: schemaFor(providerNames)
+        },
+        systemInstruction: `Categories available: ${categoryNames.join(", ")}. Investment accounts available: ${providerNames.join(", ") || "none"}.`
       }
     });
 
@@ -0,0 +1,224 @@
+
+import { InvestmentTrade, CurrencyCode } from '../types';
+import { detectDelimiter, parseCsv, parseStatementDate } from './statementImportService';
+import { quantityHeld } from './costBasisService';
+
+/**
+ * Fire Finance - Holdings Import
+ * Reads Binance trade history and Vanguard holdings/transaction exports into trades, from
+ * which the cost basis service rebuilds each holding's lots and real purchase price.
+ * Like statement import this is deterministic and offline.
+ */
+
+// Export formats the parser understands; trades land in the account with the same provider name
+export type HoldingsProvider = 'Binance' | 'Vanguard';
+
+export interface TradeImportResult {
+  provider: HoldingsProvider;
+  trades: InvestmentTrade[];
+  reported: { symbol: string; quantity: number; price: number }[]; // a holdings section, when the file has one
+  skipped: number;
+  warnings: string[];
+}
+
+const headerIndex = (headers: string[], pattern: RegExp) => headers.findIndex(h => pattern.test(h.trim()));
+
+const toNumber = (value: string = '') => {
+  const n = parseFloat(value.replace(/[,$\s]/g, ''));
+  return Number.isFinite(n) ? n : null;
+};
+
+// "0.01000000BTC" -> { amount: 0.01, asset: 'BTC' }
+const splitAssetAmount = (value: string = '') => {
+  const match = value.replace(/,/g, '').trim().match(/^(-?[\d.]+(?:e-?\d+)?)\s*([A-Za-z0-9]*)$/);
+  return match ? { amount: parseFloat(match[1]), asset: match[2].toUpperCase() } : null;
+};
+
+const tradeId = (prefix: string, parts: (string | number)[]) => `${prefix}_${parts.join('_').replace(/[^A-Za-z0-9._-]/g, '')}`;
+
+/**
+ * Binance
+ */
+// Stablecoins are read as dollars; other crypto quotes have no cash price to use as cost
+const QUOTE_CURRENCIES: Record<string, CurrencyCode> = {
+  FDUSD: 'USD', USDT: 'USD', BUSD: 'USD', USDC: 'USD', TUSD: 'USD', USD: 'USD', EUR: 'EUR', GBP: 'GBP'
+};
+const CRYPTO_QUOTES = ['BTC', 'ETH', 'BNB'];
+
+const splitPair = (pair: string) => {
+  const clean = pair.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const separated = pair.toUpperCase().split(/[/\-_]/);
+  if (separated.length === 2) return { base: separated[0], quote: separated[1] };
+  const quote = [...Object.keys(QUOTE_CURRENCIES), ...CRYPTO_QUOTES]
+    .sort((a, b) => b.length - a.length)
+    .find(q => clean.endsWith(q) && clean.length > q.length);
+  return quote ? { base: clean.slice(0, -quote.length), quote } : null;
+};
+
+const isBinanceHeader = (headers: string[]) =>
+  headerIndex(headers, /^date\(utc\)$/i) !== -1 && (headerIndex(headers, /^pair$/i) !== -1 || headerIndex(headers, /^market$/i) !== -1);
+
+export const parseBinanceTrades = (text: string): TradeImportResult => {
+  const rows = parseCsv(text, detectDelimiter(text));
+  const headers = rows[0] || [];
+  const col = {
+    date: headerIndex(headers, /^date\(utc\)$/i),
+    pair: Math.max(headerIndex(headers, /^pair$/i), headerIndex(headers, /^market$/i)),
+    side: Math.max(headerIndex(headers, /^side$/i), headerIndex(headers, /^type$/i)),
+    price: headerIndex(headers, /^price$/i),
+    // The current export has Executed/Amount/Fee with the asset glued on; the older one Amount/Total/Fee/Fee Coin
+    quantity: Math.max(headerIndex(headers, /^executed$/i), headerIndex(headers, /^filled$/i)),
+    legacyQuantity: headerIndex(headers, /^amount$/i),
+    fee: headerIndex(headers, /^fee$/i),
+    feeCoin: headerIndex(headers, /^fee coin$/i)
+  };
+  const legacy = col.quantity === -1;
+
+  const result: TradeImportResult = { provider: 'Binance', trades: [], reported: [], skipped: 0, warnings: [] };
+  const unpriced = new Set<string>();
+
+  rows.slice(1).forEach(row => {
+    const pair = splitPair(row[col.pair] || '');
+    const date = parseStatementDate((row[col.date] || '').split(' ')[0], 'YYYY-MM-DD');
+    const side = (row[col.side] || '').toLowerCase();
+    const price = toNumber(row[col.price]);
+    const quantity = legacy ? toNumber(row[col.legacyQuantity]) : splitAssetAmount(row[col.quantity])?.amount ?? null;
+    if (!pair || !date || (side !== 'buy' && side !== 'sell') || price === null || !quantity) {
+      result.skipped++;
+      return;
+    }
+    const currency = QUOTE_CURRENCIES[pair.quote];
+    if (!currency) {
+      unpriced.add(`${pair.base}/${pair.quote}`);
+      result.skipped++;
+      return;
+    }
+
+    const feeValue = legacy
+      ? { amount: toNumber(row[col.fee]) || 0, asset: (row[col.feeCoin] || '').toUpperCase() }
+      : splitAssetAmount(row[col.fee]) || { amount: 0, asset: '' };
+    // A fee taken in the bought asset shrinks what arrived; either way it is priced in the quote.
+    // Fees in a third asset (BNB) have no cash price here and are left out.
+    const feeInBase = feeValue.asset === pair.base;
+    const feeInQuote = feeValue.asset === pair.quote;
+
+    result.trades.push({
+      id: tradeId('bn', [row[col.date], pair.base + pair.quote, side, quantity, price]),
+      date,
+      symbol: pair.base,
+      side,
+      quantity: side === 'buy' && feeInBase ? quantity - feeValue.amount : quantity,
+      price,
+      fee: feeInQuote ? feeValue.amount : feeInBase ? feeValue.amount * price : 0,
+      currency
+    });
+  });
+
+  if (unpriced.size > 0) {
+    result.warnings.push(`Skipped crypto-to-crypto trades (${Array.from(unpriced).join(', ')}): they carry no cash price for a cost basis.`);
+  }
+  return result;
+};
+
+/**
+ * Vanguard
+ */
+const VANGUARD_BUYS = /^(buy|reinvestment|transfer \(incoming\)|conversion \(incoming\)|exchange \(incoming\))/i;
+const VANGUARD_SELLS = /^(sell|transfer \(outgoing\)|conversion \(outgoing\)|exchange \(outgoing\))/i;
+
+const isVanguardTradeHeader = (row: string[]) => headerIndex(row, /^trade date$/i) !== -1 && headerIndex(row, /^transaction type$/i) !== -1;
+const isVanguardHoldingsHeader = (row: string[]) => headerIndex(row, /^shares$/i) !== -1 && headerIndex(row, /^total value$/i) !== -1;
+
+// The download holds a positions section and a transactions section, each with its own header row
+export const parseVanguardReport = (text: string): TradeImportResult => {
+  const rows = parseCsv(text, ',');
+  const result: TradeImportResult = { provider: 'Vanguard', trades: [], reported: [], skipped: 0, warnings: [] };
+  let section: 'holdings' | 'trades' | null = null;
+  let headers: string[] = [];
+  const unknownCost = new Set<string>();
+
+  rows.forEach(row => {
+    if (isVanguardTradeHeader(row)) { section = 'trades'; headers = row; return; }
+    if (isVanguardHoldingsHeader(row)) { section = 'holdings'; headers = row; return; }
+    const cell = (pattern: RegExp) => row[headerIndex(headers, pattern)] || '';
+
+    if (section === 'holdings') {
+      const symbol = cell(/^symbol$/i).toUpperCase();
+      const quantity = toNumber(cell(/^shares$/i));
+      const price = toNumber(cell(/^share price$/i));
+      if (symbol && quantity !== null && quantity > 0) result.reported.push({ symbol, quantity, price: price || 0 });
+      return;
+    }
+
+    if (section === 'trades') {
+      const type = cell(/^transaction type$/i);
+      const side = VANGUARD_BUYS.test(type) ? 'buy' : VANGUARD_SELLS.test(type) ? 'sell' : null;
+      const symbol = cell(/^symbol$/i).toUpperCase();
+      const date = parseStatementDate(cell(/^trade date$/i), 'MM/DD/YYYY') || parseStatementDate(cell(/^trade date$/i), 'YYYY-MM-DD');
+      const shares = toNumber(cell(/^shares$/i));
+      // Dividends, sweeps and cash movements are not holdings changes
+      if (!side || !symbol) return;
+      if (!date || !shares) {
+        result.skipped++;
+        return;
+      }
+      let price = toNumber(cell(/^share price$/i)) || 0;
+      const principal = Math.abs(toNumber(cell(/^principal amount$/i)) || 0);
+      if (!price && principal) price = principal / Math.abs(shares);
+      if (!price) unknownCost.add(symbol);
+      result.trades.push({
+        id: tradeId('vg', [cell(/^account number$/i), date, symbol, type, shares, price]),
+        date,
+        symbol,
+        side,
+        quantity: Math.abs(shares),
+        price,
+        fee: Math.abs(toNumber(cell(/^commissions? (and|&) fees$/i)) || 0),
+        currency: 'USD'
+      });
+    }
+  });
+
+  if (unknownCost.size > 0) {
+    result.warnings.push(`Transfers in without a price for ${Array.from(unknownCost).join(', ')}: those lots carry a zero cost until edited.`);
+  }
+  return result;
+};
+
+export const detectHoldingsProvider = (text: string): HoldingsProvider | null => {
+  const rows = parseCsv(text.split(/\r?\n/).slice(0, 40).join('\n'), detectDelimiter(text));
+  if (rows[0] && isBinanceHeader(rows[0])) return 'Binance';
+  if (rows.some(r => isVanguardTradeHeader(r) || isVanguardHoldingsHeader(r))) return 'Vanguard';
+  return null;
+};
+
+export const parseHoldingsFile = (text: string): TradeImportResult | null => {
+  const provider = detectHoldingsProvider(text);
+  if (provider === 'Binance') return parseBinanceTrades(text);
+  if (provider === 'Vanguard') return parseVanguardReport(text);
+  return null;
+};
+
+/**
+ * Where a holdings report disagrees with the trade history (positions opened before the
+ * export window), adds an estimated trade at the report's price so quantities match.
+ */
+export const balanceAgainstReport = (trades: InvestmentTrade[], reported: TradeImportResult['reported'], date: string) => {
+  const balancing: InvestmentTrade[] = [];
+  reported.forEach(r => {
+    const gap = r.quantity - quantityHeld(trades, r.symbol);
+    if (Math.abs(gap) <= 1e-6) return;
+    balancing.push({
+      id: tradeId('adj', [r.symbol, date, gap.toFixed(6)]),
+      date: gap > 0 ? trades.filter(t => t.symbol === r.symbol).map(t => t.date).sort()[0] || date : date,
+      symbol: r.symbol,
+      side: gap > 0 ? 'buy' : 'sell',
+      quantity: Math.abs(gap),
+      price: r.price,
+      fee: 0,
+      currency: 'USD',
+      estimated: true
+    });
+  });
+  return balancing;
+};
@@ -0,0 +1,186 @@
+
+import { InstitutionType, CurrencyCode, TransactionType, PortfolioUpdate } from '../types';
+
+/**
+ * Fire Finance - Institution Connectors
+ * One connector per supported institution, each speaking that institution's API:
+ * sign-in, account discovery and transaction paging from an opaque cursor. Failures
+ * surface as ConnectorError codes so callers can tell bad credentials from outages.
+ * In development every connector points at the local mock server (npm run mock-bank).
+ */
+
+export const INSTITUTION_API_URL: string = process.env.BANK_API_URL || 'http://localhost:4010';
+
+export type ConnectorErrorCode =
+  | 'invalid_credentials'
+  | 'session_expired'
+  | 'rate_limited'
+  | 'invalid_cursor'
+  | 'unreachable'
+  | 'server_error';
+
+export class ConnectorError extends Error {
+  constructor(
+    public code: ConnectorErrorCode,
+    message: string,
+    public retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ConnectorError';
+  }
+}
+
+export interface CredentialField {
+  key: string;
+  label: string;
+  placeholder: string;
+  secret?: boolean;
+  monospace?: boolean;
+}
+
+export interface ConnectorSession {
+  token: string;
+  expiresAt?: string;
+}
+
+export interface ConnectorAccount {
+  id: string;
+  name: string;
+  lastFour: string;
+  type: InstitutionType;
+  currency: CurrencyCode;
+  balance: number;
+}
+
+export interface ConnectorTransaction {
+  id: string; // the institution's own id, kept as Transaction.externalId
+  date: string;
+  amount: number;
+  type: Extract<TransactionType, 'income' | 'expense'>;
+  description: string;
+  vendor?: string;
+  category?: string;
+}
+
+export interface TransactionPage {
+  transactions: ConnectorTransaction[];
+  nextCursor: string;
+  hasMore: boolean;
+}
+
+export interface InstitutionConnector {
+  institution: string;
+  institutionType: InstitutionType;
+  apiType: string;
+  currency: CurrencyCode;
+  color: string;
+  icon: string;
+  credentialFields: CredentialField[];
+  authenticate: (credentials: Record<string, string>) => Promise<ConnectorSession>;
+  fetchAccounts: (session: ConnectorSession) => Promise<ConnectorAccount[]>;
+  fetchTransactions: (session: ConnectorSession, accountId: string, cursor?: string) => Promise<TransactionPage>;
+  fetchHoldings?: (session: ConnectorSession, accountId: string) => Promise<PortfolioUpdate[]>;
+}
+
+const ERROR_CODES: ConnectorErrorCode[] = ['invalid_credentials', 'session_expired', 'rate_limited', 'invalid_cursor', 'server_error'];
+
+const request = async <T>(path: string, init: RequestInit = {}, session?: ConnectorSession): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${INSTITUTION_API_URL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session ? { Authorization: `Bearer ${session.token}` } : {})
+      }
+    });
+  } catch {
+    throw new ConnectorError('unreachable', `Could not reach ${INSTITUTION_API_URL}`);
+  }
+
+  const body = await response.json().catch(() => null);
+  if (response.ok) return body as T;
+
+  const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+  const code: ConnectorErrorCode = ERROR_CODES.includes(body?.error)
+    ? body.error
+    : response.status === 401 ? 'session_expired' : response.status === 429 ? 'rate_limited' : 'server_error';
+  throw new ConnectorError(code, body?.message || `${response.status} ${response.statusText}`, retryAfter);
+};
+
+const BANKING_LOGIN: CredentialField[] = [
+  { key: 'username', label: 'Net-Banking ID', placeholder: 'Customer 001' },
+  { key: 'password', label: 'Digital Password', placeholder: '••••••••', secret: true }
+];
+
+const API_KEY_LOGIN: CredentialField[] = [
+  { key: 'apiKey', label: 'API Key', placeholder: 'x-api-key-...', monospace: true },
+  { key: 'apiSecret', label: 'API Secret', placeholder: '••••••••••••', secret: true, monospace: true }
+];
+
+type ConnectorProfile = Omit<InstitutionConnector, 'authenticate' | 'fetchAccounts' | 'fetchTransactions' | 'fetchHoldings'>;
+
+// Builds a connector for an institution exposed under `/{slug}` on the API host.
+const httpConnector = (slug: string, profile: ConnectorProfile): InstitutionConnector => {
+  const connector: InstitutionConnector = {
+    ...profile,
+    authenticate: (credentials) => request<ConnectorSession>(`/${slug}/auth`, { method: 'POST', body: JSON.stringify(credentials) }),
+    fetchAccounts: (session) => request<ConnectorAccount[]>(`/${slug}/accounts`, {}, session),
+    fetchTransactions: (session, accountId, cursor) => {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      return request<TransactionPage>(`/${slug}/accounts/${encodeURIComponent(accountId)}/transactions${query}`, {}, session);
+    }
+  };
+  if (profile.institutionType === 'investment') {
+    const provider = profile.institution;
+    connector.fetchHoldings = async (session, accountId) => {
+      const holdings = await request<{ symbol: string; quantity: number }[]>(`/${slug}/accounts/${encodeURIComponent(accountId)}/holdings`, {}, session);
+      return holdings.map(h => ({ symbol: h.symbol, quantity: h.quantity, provider }));
+    };
+  }
+  return connector;
+};
+
+export const CONNECTORS: InstitutionConnector[] = [
+  httpConnector('first-national', { institution: '1st National Bank St. Lucia', institutionType: 'bank', apiType: 'Direct Connect', currency: 'XCD', color: 'bg-emerald-600', icon: 'fa-landmark', credentialFields: BANKING_LOGIN }),
+  httpConnector('laborie-ccu', { institution: 'Laborie Cooperative Credit Union', institutionType: 'credit_union', apiType: 'Laborie-Connect', currency: 'XCD', color: 'bg-teal-600', icon: 'fa-users-rectangle', credentialFields: BANKING_LOGIN }),
+  httpConnector('workers-cu', { institution: 'St. Lucia Workers Credit Union', institutionType: 'credit_union', apiType: 'CU-Sync', currency: 'XCD', color: 'bg-indigo-600', icon: 'fa-users', credentialFields: BANKING_LOGIN }),
+  httpConnector('binance', { institution: 'Binance', institutionType: 'investment', apiType: 'REST API', currency: 'USD', color: 'bg-yellow-500', icon: 'fa-coins', credentialFields: API_KEY_LOGIN }),
+  httpConnector('vanguard', { institution: 'Vanguard', institutionType: 'investment', apiType: 'Brokerage-API', currency: 'USD', color: 'bg-rose-700', icon: 'fa-chart-pie', credentialFields: API_KEY_LOGIN })
+];
+
+export const connectorFor = (institution: string) => CONNECTORS.find(c => c.institution === institution);
+
+/**
+ * Pages from `cursor` to the end of the feed. With `collect` off it only walks the feed,
+ * which is how a fresh link skips history already counted in its opening balance.
+ */
+export const readFeed = async (
+  connector: InstitutionConnector,
+  session: ConnectorSession,
+  accountId: string,
+  cursor?: string,
+  collect: boolean = true
+): Promise<{ transactions: ConnectorTransaction[]; cursor?: string }> => {
+  const transactions: ConnectorTransaction[] = [];
+  let next = cursor;
+  for (;;) {
+    const page = await connector.fetchTransactions(session, accountId, next);
+    if (collect) transactions.push(...page.transactions);
+    next = page.nextCursor;
+    if (!page.hasMore) break;
+  }
+  return { transactions, cursor: next };
+};
+
+export const describeConnectorError = (error: unknown) => {
+  if (!(error instanceof ConnectorError)) return error instanceof Error ? error.message : 'The institution returned something unexpected.';
+  switch (error.code) {
+    case 'invalid_credentials': return 'Those credentials were not accepted.';
+    case 'session_expired': return 'The institution session has ended. Link the account again to continue syncing.';
+    case 'rate_limited': return `The institution is limiting requests${error.retryAfterSeconds ? `; try again in ${error.retryAfterSeconds}s` : ''}.`;
+    case 'invalid_cursor': return 'The institution no longer recognises the sync position.';
+    case 'unreachable': return `${error.message}. Is the institution API (or npm run mock-bank) running?`;
+    case 'server_error': return `The institution reported an error: ${error.message}`;
+  }
+};
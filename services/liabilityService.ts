@@ -0,0 +1,148 @@
+
+import { Liability, LiabilityKind, Transaction } from '../types';
+import { postingsFor } from './balanceService';
+import { addDays, daysBetween } from './budgetCycleService';
+
+/**
+ * Fire Finance - Liabilities
+ * Loans, cards and mortgages are accounts with a negative balance. What is owed is replayed
+ * from the transactions booked against the account: interest accrues daily at the APR,
+ * a payment settles the accrued interest first and the rest goes to principal, and card
+ * purchases add to what is owed. Forward, the minimum payment gives an amortization
+ * schedule and a payoff date.
+ */
+
+export const LIABILITY_KINDS: { id: LiabilityKind; label: string; icon: string }[] = [
+  { id: 'loan', label: 'Loan', icon: 'fa-hand-holding-dollar' },
+  { id: 'credit_card', label: 'Credit Card', icon: 'fa-credit-card' },
+  { id: 'mortgage', label: 'Mortgage', icon: 'fa-house-chimney' }
+];
+
+export const liabilityKindInfo = (id: LiabilityKind) => LIABILITY_KINDS.find(k => k.id === id) || LIABILITY_KINDS[0];
+
+// Longest schedule worked out before a debt is treated as never paid off (50 years)
+const MAX_SCHEDULE_MONTHS = 600;
+
+export interface LiabilityPayment {
+  transactionId: string;
+  date: string;
+  amount: number;
+  interest: number;
+  principal: number;
+  balance: number; // owed after the payment
+}
+
+export interface LiabilityStatement {
+  owed: number; // principal outstanding plus interest accrued and not yet paid
+  accruedInterest: number;
+  interestPaid: number;
+  principalPaid: number;
+  charges: number; // purchases and fees booked against the account
+  payments: LiabilityPayment[];
+}
+
+export interface ScheduleRow {
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: ScheduleRow[];
+  payoffDate: string | null; // null when the payment never outruns the interest
+  totalInterest: number;
+}
+
+const dayOf = (t: Pick<Transaction, 'date'>) => t.date.split('T')[0];
+
+/**
+ * Replays the account up to and including `asOf`. Transactions dated before the account
+ * was opened are ignored; the principal already reflects them.
+ */
+export const liabilityStatement = (liability: Liability, transactions: Transaction[], asOf: string): LiabilityStatement => {
+  const dailyRate = liability.apr / 100 / 365;
+  const movements = transactions
+    .filter(t => dayOf(t) >= liability.openedOn && dayOf(t) <= asOf)
+    .flatMap(t => postingsFor(t).filter(p => p.account === liability.name).map(p => ({ t, amount: p.amount })))
+    .sort((a, b) => dayOf(a.t).localeCompare(dayOf(b.t)));
+
+  let principal = liability.principal;
+  let accrued = 0;
+  let last = liability.openedOn;
+  const statement: LiabilityStatement = { owed: 0, accruedInterest: 0, interestPaid: 0, principalPaid: 0, charges: 0, payments: [] };
+  const accrueTo = (day: string) => {
+    if (principal > 0) accrued += principal * dailyRate * Math.max(0, daysBetween(last, day));
+    last = day;
+  };
+
+  movements.forEach(({ t, amount }) => {
+    accrueTo(dayOf(t));
+    if (amount < 0) {
+      principal -= amount;
+      statement.charges -= amount;
+      return;
+    }
+    const interest = Math.min(amount, accrued);
+    accrued -= interest;
+    principal -= amount - interest;
+    statement.interestPaid += interest;
+    statement.principalPaid += amount - interest;
+    statement.payments.push({ transactionId: t.id, date: dayOf(t), amount, interest, principal: amount - interest, balance: principal + accrued });
+  });
+  accrueTo(asOf);
+
+  return { ...statement, owed: principal + accrued, accruedInterest: accrued };
+};
+
+// The next due date on or after `from`, clamped to short months
+export const nextPaymentDate = (paymentDay: number, from: string) => {
+  const [y, m] = from.split('-').map(Number);
+  const due = (year: number, month: number) => {
+    const length = new Date(year, month, 0).getDate();
+    return `${year}-${String(month).padStart(2, '0')}-${String(Math.min(paymentDay, length)).padStart(2, '0')}`;
+  };
+  const thisMonth = due(y, m);
+  return thisMonth >= from ? thisMonth : due(m === 12 ? y + 1 : y, m === 12 ? 1 : m + 1);
+};
+
+/**
+ * Monthly schedule paying `payment` on each due date from `from` until `owed` is cleared,
+ * with a month's interest at APR / 12 per payment. The last payment is only what is left.
+ */
+export const amortizationSchedule = (owed: number, apr: number, payment: number, paymentDay: number, from: string): AmortizationSchedule => {
+  const monthlyRate = apr / 100 / 12;
+  const rows: ScheduleRow[] = [];
+  let balance = owed;
+  let date = nextPaymentDate(paymentDay, from);
+  let totalInterest = 0;
+
+  if (balance <= 0.005) return { rows, payoffDate: null, totalInterest };
+  if (payment <= balance * monthlyRate) return { rows, payoffDate: null, totalInterest };
+
+  while (balance > 0.005 && rows.length < MAX_SCHEDULE_MONTHS) {
+    const interest = balance * monthlyRate;
+    const paid = Math.min(payment, balance + interest);
+    balance = balance + interest - paid;
+    totalInterest += interest;
+    rows.push({ date, payment: paid, interest, principal: paid - interest, balance: Math.max(0, balance) });
+    date = nextPaymentDate(paymentDay, addDays(date, 1));
+  }
+  return { rows, payoffDate: balance > 0.005 ? null : rows[rows.length - 1].date, totalInterest };
+};
+
+export interface LiabilityOutlook {
+  liability: Liability;
+  statement: LiabilityStatement;
+  schedule: AmortizationSchedule;
+}
+
+export const liabilityOutlook = (liability: Liability, transactions: Transaction[], today: string): LiabilityOutlook => {
+  const statement = liabilityStatement(liability, transactions, today);
+  return {
+    liability,
+    statement,
+    schedule: amortizationSchedule(statement.owed, liability.apr, liability.minimumPayment, liability.paymentDay, addDays(today, 1))
+  };
+};
@@ -0,0 +1,159 @@
+
+import { AssetClass } from '../types';
+import { ASSET_CLASSES } from './assetAllocationService';
+
+/**
+ * Fire Finance - Monte Carlo Forecast
+ * Simulates many possible futures month by month. Each asset class grows by a random
+ * log-normal return drawn from its own expected return and volatility, independently of the
+ * others; cash flows and debt follow the plan. Results are deflated to today's money.
+ */
+
+export interface ReturnAssumption {
+  expectedReturn: number; // annual %, e.g. 7
+  volatility: number; // annual standard deviation %, e.g. 16
+}
+
+export const DEFAULT_ASSUMPTIONS: Record<AssetClass, ReturnAssumption> = {
+  crypto: { expectedReturn: 15, volatility: 70 },
+  equity_etf: { expectedReturn: 7, volatility: 16 },
+  bond: { expectedReturn: 3.5, volatility: 6 },
+  cash: { expectedReturn: 2, volatility: 1 },
+  pension: { expectedReturn: 6, volatility: 12 },
+  real_estate: { expectedReturn: 5, volatility: 10 }
+};
+
+export const SIMULATION_PATH_OPTIONS = [500, 1000, 5000];
+
+export interface MonteCarloInput {
+  startingBalances: Partial<Record<AssetClass, number>>;
+  startingDebt: number;
+  monthlyContributions: Partial<Record<AssetClass, number>>; // added at the start of every month
+  cashFlows: number[]; // added to cash in month m (index m - 1); negative when paying out
+  debtBalances: number[]; // owed at the end of month m (index m - 1)
+  assumptions: Record<AssetClass, ReturnAssumption>;
+  inflation: number; // annual %
+  months: number;
+  paths: number;
+  milestones: number[]; // net worth targets in today's money
+  seed?: number;
+}
+
+export interface FanPoint {
+  month: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface MilestoneOdds {
+  target: number;
+  byYear: number[]; // share of paths (0..1) that reached the target by the end of year i + 1
+}
+
+export interface MonteCarloResult {
+  points: FanPoint[]; // month 0, every quarter and the last month
+  milestones: MilestoneOdds[];
+  paths: number;
+}
+
+// Small seeded generator so the same inputs always draw the same paths
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const normalSampler = (random: () => number) => {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) { const z = spare; spare = null; return z; }
+    const u = 1 - random();
+    const v = random();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  };
+};
+
+const percentile = (sorted: Float64Array, q: number) => sorted[Math.min(sorted.length - 1, Math.round(q * (sorted.length - 1)))];
+
+export const runMonteCarlo = (input: MonteCarloInput): MonteCarloResult => {
+  const { startingBalances, startingDebt, monthlyContributions, cashFlows, debtBalances, assumptions, inflation, months, paths, milestones } = input;
+  const classes = ASSET_CLASSES.map(c => c.id).filter(id => id === 'cash' || (startingBalances[id] || 0) !== 0 || (monthlyContributions[id] || 0) !== 0);
+  const cashIndex = classes.indexOf('cash');
+  const normal = normalSampler(mulberry32(input.seed ?? 1));
+
+  // Annual return and volatility as monthly log-normal drift and spread
+  const drift = classes.map(id => {
+    const sigma = assumptions[id].volatility / 100;
+    return (Math.log(1 + assumptions[id].expectedReturn / 100) - sigma * sigma / 2) / 12;
+  });
+  const spread = classes.map(id => assumptions[id].volatility / 100 / Math.sqrt(12));
+  const contributions = classes.map(id => monthlyContributions[id] || 0);
+  const monthlyInflation = Math.pow(1 + inflation / 100, 1 / 12);
+
+  const balances = new Float64Array(paths * classes.length);
+  for (let p = 0; p < paths; p++) classes.forEach((id, c) => { balances[p * classes.length + c] = startingBalances[id] || 0; });
+
+  const firstReached = milestones.map(() => new Int32Array(paths).fill(-1));
+  const values = new Float64Array(paths);
+  const points: FanPoint[] = [];
+
+  const record = (month: number) => {
+    const sorted = Float64Array.from(values).sort();
+    points.push({ month, p10: percentile(sorted, 0.1), p25: percentile(sorted, 0.25), p50: percentile(sorted, 0.5), p75: percentile(sorted, 0.75), p90: percentile(sorted, 0.9) });
+  };
+  const markMilestones = (month: number) => {
+    milestones.forEach((target, k) => {
+      const reached = firstReached[k];
+      for (let p = 0; p < paths; p++) if (reached[p] < 0 && values[p] >= target) reached[p] = month;
+    });
+  };
+
+  for (let p = 0; p < paths; p++) {
+    let total = -startingDebt;
+    for (let c = 0; c < classes.length; c++) total += balances[p * classes.length + c];
+    values[p] = total;
+  }
+  markMilestones(0);
+  record(0);
+
+  let deflator = 1;
+  for (let m = 1; m <= months; m++) {
+    deflator *= monthlyInflation;
+    const debt = debtBalances[m - 1] || 0;
+    const cashFlow = cashFlows[m - 1] || 0;
+    for (let p = 0; p < paths; p++) {
+      let total = -debt;
+      for (let c = 0; c < classes.length; c++) {
+        const i = p * classes.length + c;
+        const balance = (balances[i] + contributions[c]) * Math.exp(drift[c] + spread[c] * normal());
+        balances[i] = c === cashIndex ? balance + cashFlow : balance;
+        total += balances[i];
+      }
+      values[p] = total / deflator;
+    }
+    markMilestones(m);
+    if (m % 3 === 0 || m === months) record(m);
+  }
+
+  const years = Math.ceil(months / 12);
+  return {
+    points,
+    paths,
+    milestones: milestones.map((target, k) => ({
+      target,
+      byYear: Array.from({ length: years }, (_, y) => {
+        const cutoff = Math.min(months, (y + 1) * 12);
+        let count = 0;
+        firstReached[k].forEach(month => { if (month >= 0 && month <= cutoff) count++; });
+        return count / paths;
+      })
+    }))
+  };
+};
@@ -0,0 +1,226 @@
+
+import { NetWorthSnapshot, PricePoint, CurrencyCode, FxRate, Transaction, InvestmentAccount } from '../types';
+import { convertAmount } from './currencyService';
+import { BalanceSheet, AccountType, LedgerView, CASH_ACCOUNT, postingsFor, isTransfer } from './balanceService';
+import { holdingsFromTrades } from './costBasisService';
+import { liabilityStatement } from './liabilityService';
+import { addDays } from './budgetCycleService';
+
+/**
+ * Fire Finance - Net Worth History
+ * One snapshot per day with the split across banks, credit unions, investments, cash and
+ * what is owed.
+ * Today's is recorded from the live balance sheet; earlier days can be rebuilt by replaying
+ * the ledger and the price history, and are marked as backfilled.
+ */
+
+export const NET_WORTH_RANGES: { id: string; label: string; days: number | null }[] = [
+  { id: '1m', label: '1M', days: 31 },
+  { id: '3m', label: '3M', days: 92 },
+  { id: '6m', label: '6M', days: 183 },
+  { id: '1y', label: '1Y', days: 366 },
+  { id: 'all', label: 'All', days: null }
+];
+
+const BREAKDOWN_FIELDS = ['bank', 'creditUnion', 'investment', 'cash', 'liabilities'] as const;
+const FIELD_FOR_TYPE: Record<AccountType, typeof BREAKDOWN_FIELDS[number]> = {
+  bank: 'bank',
+  credit_union: 'creditUnion',
+  investment: 'investment',
+  cash: 'cash',
+  liability: 'liabilities'
+};
+
+const MOVE_REASONS: Record<typeof BREAKDOWN_FIELDS[number], string> = {
+  bank: 'Bank balance change',
+  creditUnion: 'Credit union balance change',
+  investment: 'Market move',
+  cash: 'Cash balance change',
+  liabilities: 'Debt change'
+};
+
+// A day's movement counts as large past this share of the previous day's net worth
+const LARGE_MOVE_SHARE = 0.05;
+
+const sumByType = (accounts: { type: AccountType; balance: number }[]) => {
+  const totals = { bank: 0, creditUnion: 0, investment: 0, cash: 0, liabilities: 0 };
+  accounts.forEach(a => { totals[FIELD_FOR_TYPE[a.type]] += a.balance; });
+  return totals;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const snapshotOf = (date: string, currency: CurrencyCode, accounts: { type: AccountType; balance: number }[], backfilled: boolean): NetWorthSnapshot => {
+  const totals = sumByType(accounts);
+  return {
+    date,
+    value: round2(totals.bank + totals.creditUnion + totals.investment + totals.cash + totals.liabilities),
+    currency,
+    bank: round2(totals.bank),
+    creditUnion: round2(totals.creditUnion),
+    investment: round2(totals.investment),
+    cash: round2(totals.cash),
+    liabilities: round2(totals.liabilities),
+    ...(backfilled ? { backfilled } : {})
+  };
+};
+
+export const snapshotFromSheet = (sheet: BalanceSheet, date: string, currency: CurrencyCode): NetWorthSnapshot =>
+  snapshotOf(date, currency, Object.values(sheet.accounts), false);
+
+const sameSnapshot = (a: NetWorthSnapshot | undefined, b: NetWorthSnapshot) =>
+  !!a && !a.backfilled && a.currency === b.currency && a.value === b.value && BREAKDOWN_FIELDS.every(f => a[f] === b[f]);
+
+// Upserts the day's snapshot, returning the same array when nothing changed
+export const recordSnapshot = (history: NetWorthSnapshot[], snapshot: NetWorthSnapshot) => {
+  if (sameSnapshot(history.find(s => s.date === snapshot.date), snapshot)) return history;
+  return [...history.filter(s => s.date !== snapshot.date), snapshot].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Replays the ledger day by day from the first transaction or trade up to (not including)
+ * `until`. Investment accounts hold what their trades held on each day, valued at the last
+ * known price then (converted at that day's rate) or at cost when no price was recorded.
+ * Holdings that no trade explains are assumed held throughout. Liabilities count from the
+ * day they were opened.
+ */
+export const backfillSnapshots = (
+  view: LedgerView,
+  priceHistory: PricePoint[],
+  baseCurrency: CurrencyCode,
+  rates: FxRate[],
+  until: string
+): NetWorthSnapshot[] => {
+  const dayOf = (t: Pick<Transaction, 'date'>) => t.date.split('T')[0];
+  const transactions = [...view.transactions].sort((a, b) => dayOf(a).localeCompare(dayOf(b)));
+  const firstDates = [
+    ...transactions.slice(0, 1).map(dayOf),
+    ...view.investments.flatMap(inv => (inv.trades || []).map(t => t.date))
+  ].sort();
+  if (firstDates.length === 0 || firstDates[0] >= until) return [];
+
+  const cashAccounts: Record<string, { type: AccountType; balance: number }> = {};
+  view.bankConnections.forEach(c => { cashAccounts[c.institution] = { type: c.institutionType, balance: (cashAccounts[c.institution]?.balance || 0) + (c.openingBalance || 0) }; });
+  cashAccounts[CASH_ACCOUNT] = { type: 'cash', balance: (cashAccounts[CASH_ACCOUNT]?.balance || 0) + view.cashOpeningBalance };
+  view.investments.forEach(inv => { cashAccounts[inv.provider] = cashAccounts[inv.provider] || { type: 'investment', balance: 0 }; });
+
+  const pricesBySymbol: Record<string, PricePoint[]> = {};
+  priceHistory.forEach(p => { (pricesBySymbol[p.symbol] = pricesBySymbol[p.symbol] || []).push(p); });
+  Object.values(pricesBySymbol).forEach(points => points.sort((a, b) => a.date.localeCompare(b.date)));
+  const priceCursor: Record<string, number> = {};
+  const priceOnDay = (symbol: string, day: string) => {
+    const points = pricesBySymbol[symbol] || [];
+    let i = priceCursor[symbol] ?? -1;
+    while (i + 1 < points.length && points[i + 1].date <= day) i++;
+    priceCursor[symbol] = i;
+    return i >= 0 ? convertAmount(points[i].price, points[i].currency, baseCurrency, rates, day) : null;
+  };
+
+  // Holdings only change on trade days, so each account's are rebuilt when its trade count moves
+  const heldCache: Record<string, { count: number; holdings: InvestmentAccount['holdings'] }> = {};
+  const holdingsOn = (inv: InvestmentAccount, day: string) => {
+    const trades = inv.trades || [];
+    if (trades.length === 0) return inv.holdings;
+    const upTo = trades.filter(t => t.date <= day);
+    const cached = heldCache[inv.id];
+    if (cached && cached.count === upTo.length) return cached.holdings;
+    const traded = new Set(trades.map(t => t.symbol));
+    const holdings = holdingsFromTrades(inv.holdings.filter(h => !traded.has(h.symbol)), upTo, inv.costBasisMethod);
+    heldCache[inv.id] = { count: upTo.length, holdings };
+    return holdings;
+  };
+
+  const liabilityLedgers = view.liabilities.map(l => ({
+    liability: l,
+    transactions: transactions.filter(t => t.institution === l.name || t.destinationInstitution === l.name)
+  }));
+
+  const snapshots: NetWorthSnapshot[] = [];
+  let next = 0;
+  for (let day = firstDates[0]; day < until; day = addDays(day, 1)) {
+    while (next < transactions.length && dayOf(transactions[next]) <= day) {
+      postingsFor(transactions[next++]).forEach(p => {
+        if (cashAccounts[p.account]) cashAccounts[p.account].balance += p.amount;
+      });
+    }
+    const holdingsValue: Record<string, number> = {};
+    view.investments.forEach(inv => {
+      holdingsValue[inv.provider] = (holdingsValue[inv.provider] || 0) + holdingsOn(inv, day).reduce((acc: number, h) => {
+        const price = priceOnDay(h.symbol, day) ?? h.purchasePrice;
+        return acc + h.quantity * price;
+      }, 0);
+    });
+    const accounts = Object.entries(cashAccounts).map(([name, a]) => ({ type: a.type, balance: a.balance + (holdingsValue[name] || 0) }));
+    liabilityLedgers
+      .filter(({ liability }) => liability.openedOn <= day)
+      .forEach(({ liability, transactions }) => accounts.push({ type: 'liability', balance: -liabilityStatement(liability, transactions, day).owed }));
+    snapshots.push(snapshotOf(day, baseCurrency, accounts, true));
+  }
+  return snapshots;
+};
+
+// Days recorded live are kept; every backfilled day is replaced by the fresh replay
+export const mergeBackfill = (history: NetWorthSnapshot[], backfilled: NetWorthSnapshot[]) => {
+  const recorded = history.filter(s => !s.backfilled);
+  const recordedDays = new Set(recorded.map(s => s.date));
+  return [...recorded, ...backfilled.filter(s => !recordedDays.has(s.date))].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Snapshots recorded under an earlier base currency are restated at their own day's rate
+export const snapshotsIn = (history: NetWorthSnapshot[], baseCurrency: CurrencyCode, rates: FxRate[]) =>
+  history.map(s => {
+    const from = s.currency || baseCurrency;
+    if (from === baseCurrency) return s;
+    const convert = (n?: number) => n === undefined ? undefined : convertAmount(n, from, baseCurrency, rates, s.date);
+    return {
+      ...s,
+      value: convert(s.value) as number,
+      currency: baseCurrency,
+      bank: convert(s.bank),
+      creditUnion: convert(s.creditUnion),
+      investment: convert(s.investment),
+      cash: convert(s.cash),
+      liabilities: convert(s.liabilities)
+    };
+  });
+
+export const snapshotsInRange = (history: NetWorthSnapshot[], days: number | null, today: string) =>
+  days === null ? history : history.filter(s => s.date > addDays(today, -days));
+
+export interface NetWorthMovement {
+  date: string;
+  change: number;
+  value: number;
+  reason: string;
+}
+
+/**
+ * The largest day-over-day swings, each explained by the day's biggest transaction or,
+ * failing that, by whichever part of the breakdown moved most.
+ */
+export const largeMovements = (history: NetWorthSnapshot[], transactions: Transaction[], limit: number = 5): NetWorthMovement[] => {
+  const moves: NetWorthMovement[] = [];
+  history.forEach((s, i) => {
+    if (i === 0) return;
+    const prev = history[i - 1];
+    const change = s.value - prev.value;
+    const threshold = Math.abs(prev.value) * LARGE_MOVE_SHARE;
+    if (Math.abs(change) < 0.01 || Math.abs(change) < threshold) return;
+
+    const sameDay = transactions
+      .filter(t => t.date.split('T')[0] > prev.date && t.date.split('T')[0] <= s.date && !isTransfer(t))
+      .sort((a, b) => b.amount - a.amount);
+    const biggest = sameDay[0];
+    const field = BREAKDOWN_FIELDS
+      .map(f => ({ f, delta: (s[f] || 0) - (prev[f] || 0) }))
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))[0];
+    const reason = biggest && Math.abs(biggest.amount) >= Math.abs(change) / 2
+      ? biggest.description
+      : MOVE_REASONS[field.f];
+    moves.push({ date: s.date, change, value: s.value, reason });
+  });
+  return moves
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, limit)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,146 @@
+
+import { CurrencyCode, MarketPrice, PricePoint } from '../types';
+import { detectDateFormat, detectDelimiter, parseCsv, parseStatementDate } from './statementImportService';
+
+/**
+ * Fire Finance - Market Prices
+ * Prices come from a PriceProvider, manual entry or a CSV import, and all land in one
+ * daily history (a point per symbol per day). Current prices, 24h change and quote age
+ * are read from that history, so a feed outage shows old prices as old rather than live.
+ */
+
+export const PRICE_FEED_URL: string = process.env.PRICE_FEED_URL || process.env.BANK_API_URL || 'http://localhost:4010';
+export const PRICE_REFRESH_MS = 5 * 60 * 1000;
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  currency: CurrencyCode;
+  at: string; // ISO time the provider priced it
+}
+
+export interface PriceProvider {
+  id: string;
+  label: string;
+  fetchQuotes: (symbols: string[]) => Promise<Quote[]>;
+}
+
+// The mock institution server's market route (npm run mock-bank), a stand-in for a real quote API
+export const localFeedProvider: PriceProvider = {
+  id: 'local-feed',
+  label: 'Local Feed',
+  fetchQuotes: async (symbols) => {
+    if (symbols.length === 0) return [];
+    let response: Response;
+    try {
+      response = await fetch(`${PRICE_FEED_URL}/_market/quotes?symbols=${encodeURIComponent(symbols.join(','))}`);
+    } catch {
+      throw new Error(`Could not reach the price feed at ${PRICE_FEED_URL}`);
+    }
+    if (!response.ok) throw new Error(`The price feed answered ${response.status}`);
+    return response.json();
+  }
+};
+
+export const pricePointId = (symbol: string, date: string) => `${symbol}:${date}`;
+
+export const quoteToPoint = (quote: Quote, source: PricePoint['source']): PricePoint => {
+  const symbol = quote.symbol.toUpperCase();
+  const date = quote.at.split('T')[0];
+  return { id: pricePointId(symbol, date), symbol, date, price: quote.price, currency: quote.currency, source, quotedAt: quote.at };
+};
+
+// Prices the user entered or imported outrank the feed; a refresh must not undo a correction
+const SOURCE_RANK: Record<PricePoint['source'], number> = { feed: 0, manual: 1, import: 1 };
+
+// Upserts by symbol and day. A feed quote never replaces a manual or imported price for the same
+// day, and within the same rank an older quote never replaces a newer one.
+export const recordPrices = (history: PricePoint[], points: PricePoint[]) => {
+  const byId = new Map(history.map(p => [p.id, p]));
+  points.forEach(p => {
+    const existing = byId.get(p.id);
+    const rank = existing ? SOURCE_RANK[p.source] - SOURCE_RANK[existing.source] : 1;
+    if (rank > 0 || (rank === 0 && existing!.quotedAt <= p.quotedAt)) byId.set(p.id, p);
+  });
+  return Array.from(byId.values());
+};
+
+export const latestPrices = (history: PricePoint[]): MarketPrice[] => {
+  const bySymbol: Record<string, PricePoint[]> = {};
+  history.forEach(p => { (bySymbol[p.symbol] = bySymbol[p.symbol] || []).push(p); });
+  return Object.entries(bySymbol).map(([symbol, points]) => {
+    const sorted = [...points].sort((a, b) => b.date.localeCompare(a.date));
+    const [latest, previous] = sorted;
+    return {
+      symbol,
+      price: latest.price,
+      change24h: previous && previous.price > 0 ? ((latest.price - previous.price) / previous.price) * 100 : 0,
+      currency: latest.currency,
+      asOf: latest.quotedAt,
+      source: latest.source
+    };
+  }).sort((a, b) => a.symbol.localeCompare(b.symbol));
+};
+
+// The close on or before `date`, for valuing holdings on a past day
+export const priceOn = (history: PricePoint[], symbol: string, date: string) =>
+  history
+    .filter(p => p.symbol === symbol && p.date <= date)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+
+export const isStale = (asOf: string | undefined, now: number = Date.now()) =>
+  !asOf || now - Date.parse(asOf) > STALE_AFTER_MS;
+
+export const describeAge = (asOf: string | undefined, now: number = Date.now()) => {
+  if (!asOf) return 'no quote';
+  const minutes = Math.max(0, Math.round((now - Date.parse(asOf)) / 60000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (60 * 24))}d ago`;
+};
+
+/**
+ * Price history CSV: a date column and a price column (Close, Price or Adj Close), plus
+ * either a Symbol column or a symbol for the whole file, as in per-ticker downloads.
+ */
+export const parsePriceCsv = (text: string, fallbackSymbol: string = '', currency: CurrencyCode = 'USD') => {
+  const rows = parseCsv(text, detectDelimiter(text));
+  const headers = (rows[0] || []).map(h => h.trim().toLowerCase());
+  const column = (...names: string[]) => names.map(n => headers.indexOf(n)).find(i => i !== -1) ?? -1;
+  const dateCol = column('date', 'day');
+  const priceCol = column('close', 'price', 'adj close', 'closing price', 'nav');
+  const symbolCol = column('symbol', 'ticker');
+  const currencyCol = column('currency');
+  if (dateCol === -1 || priceCol === -1) {
+    return { points: [] as PricePoint[], skipped: Math.max(0, rows.length - 1), error: 'Needs a Date column and a Close or Price column.' };
+  }
+  if (symbolCol === -1 && !fallbackSymbol.trim()) {
+    return { points: [] as PricePoint[], skipped: Math.max(0, rows.length - 1), error: 'No Symbol column: enter the symbol these prices are for.' };
+  }
+
+  const body = rows.slice(1);
+  const dateFormat = detectDateFormat(body.map(r => r[dateCol] || '').filter(Boolean).slice(0, 20)) || 'YYYY-MM-DD';
+  const points: PricePoint[] = [];
+  let skipped = 0;
+  body.forEach(row => {
+    const date = parseStatementDate(row[dateCol] || '', dateFormat);
+    const price = parseFloat((row[priceCol] || '').replace(/[,$\s]/g, ''));
+    const symbol = (symbolCol !== -1 ? row[symbolCol] : fallbackSymbol).trim().toUpperCase();
+    if (!date || !symbol || !(price > 0)) {
+      skipped++;
+      return;
+    }
+    points.push({
+      id: pricePointId(symbol, date),
+      symbol,
+      date,
+      price,
+      currency: (currencyCol !== -1 && row[currencyCol]?.trim().toUpperCase()) || currency,
+      source: 'import',
+      quotedAt: `${date}T23:59:59.000Z`
+    });
+  });
+  return { points, skipped, error: null as string | null };
+};
@@ -0,0 +1,77 @@
+
+import { Transaction, BankConnection, FxRate, Reconciliation } from '../types';
+import { postingsFor } from './balanceService';
+import { connectionCurrency, convertAmount, transactionCurrency } from './currencyService';
+
+/**
+ * Fire Finance - Reconciliation
+ * Agrees a connection's ledger with its bank statement. Ticked transactions are cleared
+ * against a checkpoint; once an account is reconciled up to a date, everything it holds
+ * on or before that date is locked so a stray edit can't silently move the agreed balance.
+ */
+
+const dayOf = (date: string) => date.split('T')[0];
+
+const touches = (t: Transaction, institution: string) =>
+  postingsFor(t).some(p => p.account === institution);
+
+/**
+ * The signed effect of a transaction on one account, in that account's currency.
+ */
+export const accountAmount = (t: Transaction, connection: BankConnection, connections: BankConnection[], rates: FxRate[]) => {
+  const amount = postingsFor(t)
+    .filter(p => p.account === connection.institution)
+    .reduce((acc, p) => acc + p.amount, 0);
+  return convertAmount(amount, transactionCurrency(t, connections), connectionCurrency(connection), rates, t.date);
+};
+
+export const checkpointsFor = (reconciliations: Reconciliation[], institution: string) =>
+  reconciliations
+    .filter(r => r.institution === institution)
+    .sort((a, b) => a.statementDate.localeCompare(b.statementDate) || a.reconciledAt.localeCompare(b.reconciledAt));
+
+export const latestCheckpoint = (reconciliations: Reconciliation[], institution: string): Reconciliation | undefined =>
+  checkpointsFor(reconciliations, institution).pop();
+
+/**
+ * Ids of transactions sitting on or before the latest checkpoint of an account they touch.
+ */
+export const lockedTransactionIds = (transactions: Transaction[], reconciliations: Reconciliation[]) => {
+  const lockedUntil: Record<string, string> = {};
+  reconciliations.forEach(r => {
+    if (!lockedUntil[r.institution] || r.statementDate > lockedUntil[r.institution]) lockedUntil[r.institution] = r.statementDate;
+  });
+
+  const locked = new Set<string>();
+  transactions.forEach(t => {
+    const day = dayOf(t.date);
+    if (postingsFor(t).some(p => lockedUntil[p.account] && day <= lockedUntil[p.account])) locked.add(t.id);
+  });
+  return locked;
+};
+
+export interface ReconcileWorksheet {
+  previouslyCleared: number; // opening balance plus everything cleared at earlier checkpoints
+  outstanding: Transaction[]; // not yet cleared and dated on/before the statement
+}
+
+export const buildWorksheet = (
+  connection: BankConnection,
+  statementDate: string,
+  transactions: Transaction[],
+  reconciliations: Reconciliation[],
+  connections: BankConnection[],
+  rates: FxRate[]
+): ReconcileWorksheet => {
+  const cleared = new Set<string>(checkpointsFor(reconciliations, connection.institution).flatMap(r => r.clearedIds));
+  const own = transactions.filter(t => touches(t, connection.institution));
+
+  return {
+    previouslyCleared: own
+      .filter(t => cleared.has(t.id))
+      .reduce((acc, t) => acc + accountAmount(t, connection, connections, rates), connection.openingBalance || 0),
+    outstanding: own
+      .filter(t => !cleared.has(t.id) && dayOf(t.date) <= statementDate)
+      .sort((a, b) => a.date.localeCompare(b.date))
+  };
+};
@@ -0,0 +1,330 @@
+
+import { AIAnalysisResult, BankConnection, ImportProfile, StatementDateFormat } from '../types';
+
+/**
+ * Fire Finance - Statement Import
+ * Deterministic CSV and OFX/QFX parsing for bank and credit union exports. No network
+ * calls: CSV columns come from a per-institution ImportProfile, OFX from its own tags.
+ * Output is AIAnalysisResult items so statements land in the Verification Queue.
+ */
+
+export type StatementKind = 'csv' | 'ofx';
+
+export interface StatementRow {
+  date: string; // YYYY-MM-DD
+  amount: number; // signed: negative is money leaving the account
+  description: string;
+  externalId?: string;
+}
+
+export interface StatementParseResult {
+  rows: StatementRow[];
+  skipped: number;
+}
+
+export interface OfxStatement extends StatementParseResult {
+  accountId?: string;
+}
+
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MMM-YYYY', 'YYYYMMDD'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DELIMITERS = [',', ';', '\t', '|'];
+
+export const detectStatementKind = (fileName: string, text: string): StatementKind | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.ofx') || name.endsWith('.qfx') || /<OFX>/i.test(text.slice(0, 2000))) return 'ofx';
+  if (name.endsWith('.csv') || name.endsWith('.txt')) return 'csv';
+  return null;
+};
+
+/**
+ * CSV
+ */
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  // The delimiter splits every sample line into the same (largest) number of fields
+  const score = (delimiter: string) => {
+    const counts = sample.map(line => splitCsvLine(line, delimiter).length);
+    return counts.every(c => c === counts[0]) ? counts[0] : 1;
+  };
+  return DELIMITERS.reduce((best, d) => score(d) > score(best) ? d : best, ',');
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => parseCsv(line, delimiter)[0] || [];
+
+// RFC 4180: quoted fields may contain delimiters, newlines and doubled quotes.
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(cell => cell !== '')) rows.push(row);
+  return rows;
+};
+
+/**
+ * Dates
+ */
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+export const parseStatementDate = (value: string, format: StatementDateFormat): string | null => {
+  const v = value.trim();
+  let m: RegExpMatchArray | null;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      m = v.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+      return m ? toIsoDate(+m[1], +m[2], +m[3]) : null;
+    case 'DD/MM/YYYY':
+      m = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+      return m ? toIsoDate(+m[3], +m[2], +m[1]) : null;
+    case 'MM/DD/YYYY':
+      m = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+      return m ? toIsoDate(+m[3], +m[1], +m[2]) : null;
+    case 'DD-MMM-YYYY': {
+      m = v.match(/^(\d{1,2})[-/ ]([A-Za-z]{3})[A-Za-z]*[-/ ,]+(\d{2,4})$/);
+      const month = m ? MONTHS.indexOf(m[2].toLowerCase()) + 1 : 0;
+      return m && month ? toIsoDate(+m[3], month, +m[1]) : null;
+    }
+    case 'YYYYMMDD':
+      m = v.match(/^(\d{4})(\d{2})(\d{2})/);
+      return m ? toIsoDate(+m[1], +m[2], +m[3]) : null;
+  }
+};
+
+/**
+ * Picks the format that parses every sample. Day-first wins ties, as regional banks export DD/MM.
+ */
+export const detectDateFormat = (samples: string[]): StatementDateFormat | null => {
+  const values = samples.map(s => s.trim()).filter(Boolean);
+  if (values.length === 0) return null;
+  return STATEMENT_DATE_FORMATS.find(format => values.every(v => parseStatementDate(v, format) !== null)) || null;
+};
+
+/**
+ * Amounts
+ */
+export const detectDecimalSeparator = (samples: string[]): '.' | ',' => {
+  // "1.234,56" or "12,50" (two digits after a final comma) means decimal comma
+  const commaDecimal = samples.filter(s => /,\d{1,2}\s*(CR|DR|-)?\)?$/i.test(s.trim()) && !/\.\d{1,2}\s*(CR|DR|-)?\)?$/i.test(s.trim()));
+  return commaDecimal.length > samples.length / 2 ? ',' : '.';
+};
+
+export const parseStatementAmount = (value: string, decimalSeparator: '.' | ','): number | null => {
+  let v = value.trim();
+  if (!v) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(v)) { negative = true; v = v.slice(1, -1); }
+  if (/\s*DR$/i.test(v)) { negative = true; v = v.replace(/\s*DR$/i, ''); }
+  v = v.replace(/\s*CR$/i, '');
+  if (v.endsWith('-')) { negative = true; v = v.slice(0, -1); }
+  if (v.startsWith('-')) { negative = !negative; v = v.slice(1); }
+  v = v.replace(/^\+/, '').replace(/[^\d.,]/g, '');
+  v = decimalSeparator === ',' ? v.replace(/\./g, '').replace(',', '.') : v.replace(/,/g, '');
+  if (!/^\d*\.?\d+$/.test(v)) return null;
+  const amount = parseFloat(v);
+  return negative ? -amount : amount;
+};
+
+/**
+ * Column Mapping
+ */
+const HEADER_HINTS = {
+  date: /date|posted|posting/i,
+  description: /desc|memo|payee|narrat|details|particular|merchant/i,
+  amount: /amount|value/i,
+  debit: /debit|withdraw|money out|paid out/i,
+  credit: /credit|deposit|money in|paid in/i
+};
+
+const findHeader = (headers: string[], hint: RegExp, taken: number[] = []) => {
+  const index = headers.findIndex((h, i) => hint.test(h) && !taken.includes(i));
+  return index === -1 ? undefined : index;
+};
+
+const columnValues = (rows: string[][], column?: number) =>
+  column === undefined ? [] : rows.map(r => r[column] || '').filter(Boolean);
+
+/**
+ * Builds a first-guess profile for a new institution from the file itself: header names
+ * when there is a header row, otherwise whichever columns hold dates and amounts.
+ */
+export const suggestImportProfile = (institution: string, text: string): ImportProfile => {
+  const delimiter = detectDelimiter(text);
+  const rows = parseCsv(text, delimiter);
+  const first = rows[0] || [];
+  const hasHeader = first.every(cell => detectDateFormat([cell]) === null && parseStatementAmount(cell, '.') === null);
+  const body = (hasHeader ? rows.slice(1) : rows).slice(0, 50);
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const indices = Array.from({ length: width }, (_, i) => i);
+
+  let dateColumn: number | undefined;
+  let descriptionColumn: number | undefined;
+  let amountColumn: number | undefined;
+  let debitColumn: number | undefined;
+  let creditColumn: number | undefined;
+
+  if (hasHeader) {
+    dateColumn = findHeader(first, HEADER_HINTS.date);
+    debitColumn = findHeader(first, HEADER_HINTS.debit);
+    creditColumn = findHeader(first, HEADER_HINTS.credit, debitColumn === undefined ? [] : [debitColumn]);
+    if (debitColumn === undefined || creditColumn === undefined) {
+      debitColumn = creditColumn = undefined;
+      amountColumn = findHeader(first, HEADER_HINTS.amount);
+    }
+    descriptionColumn = findHeader(first, HEADER_HINTS.description);
+  }
+
+  const isDateColumn = (i: number) => detectDateFormat(columnValues(body, i)) !== null;
+  const isAmountColumn = (i: number) => {
+    const values = columnValues(body, i);
+    return values.length > 0 && values.every(v => parseStatementAmount(v, '.') !== null || parseStatementAmount(v, ',') !== null);
+  };
+  if (dateColumn === undefined) dateColumn = indices.find(isDateColumn);
+  if (amountColumn === undefined && debitColumn === undefined) amountColumn = [...indices].reverse().find(i => i !== dateColumn && isAmountColumn(i));
+  if (descriptionColumn === undefined) {
+    // The widest text column is usually the narrative
+    const used = [dateColumn, amountColumn, debitColumn, creditColumn];
+    const textColumns = indices.filter(i => !used.includes(i) && !isAmountColumn(i));
+    const avgLength = (i: number) => columnValues(body, i).reduce((acc, v) => acc + v.length, 0);
+    descriptionColumn = textColumns.sort((a, b) => avgLength(b) - avgLength(a))[0];
+  }
+
+  const amountSamples = [...columnValues(body, amountColumn), ...columnValues(body, debitColumn), ...columnValues(body, creditColumn)];
+  return {
+    institution,
+    delimiter,
+    hasHeader,
+    dateColumn: dateColumn ?? 0,
+    descriptionColumn: descriptionColumn ?? 1,
+    amountColumn,
+    debitColumn,
+    creditColumn,
+    dateFormat: detectDateFormat(columnValues(body, dateColumn)) || 'DD/MM/YYYY',
+    decimalSeparator: detectDecimalSeparator(amountSamples),
+    invertAmounts: false,
+    updatedAt: new Date().toISOString()
+  };
+};
+
+export const readCsvHeaders = (text: string, profile: ImportProfile): string[] => {
+  const first = parseCsv(text, profile.delimiter)[0] || [];
+  return first.map((cell, i) => profile.hasHeader && cell ? cell : `Column ${i + 1}`);
+};
+
+export const parseCsvStatement = (text: string, profile: ImportProfile): StatementParseResult => {
+  const rows = parseCsv(text, profile.delimiter).slice(profile.hasHeader ? 1 : 0);
+  const parsed: StatementRow[] = [];
+  let skipped = 0;
+
+  rows.forEach(cells => {
+    const date = parseStatementDate(cells[profile.dateColumn] || '', profile.dateFormat);
+    let amount: number | null;
+    if (profile.amountColumn !== undefined) {
+      amount = parseStatementAmount(cells[profile.amountColumn] || '', profile.decimalSeparator);
+    } else {
+      const debit = parseStatementAmount(cells[profile.debitColumn ?? -1] || '', profile.decimalSeparator);
+      const credit = parseStatementAmount(cells[profile.creditColumn ?? -1] || '', profile.decimalSeparator);
+      amount = debit === null && credit === null ? null : (credit || 0) - Math.abs(debit || 0);
+    }
+    const description = (cells[profile.descriptionColumn] || '').trim();
+    if (!date || amount === null || amount === 0) {
+      skipped++;
+      return;
+    }
+    parsed.push({ date, amount: profile.invertAmounts ? -amount : amount, description: description || 'Statement entry' });
+  });
+
+  return { rows: parsed, skipped };
+};
+
+/**
+ * OFX / QFX
+ * Handles both OFX 1.x SGML (unclosed leaf tags) and OFX 2.x XML.
+ */
+const ofxTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+
+export const parseOfxStatement = (text: string): OfxStatement => {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  const rows: StatementRow[] = [];
+  let skipped = 0;
+
+  blocks.forEach(block => {
+    const date = parseStatementDate(ofxTag(block, 'DTPOSTED') || '', 'YYYYMMDD');
+    const amount = parseStatementAmount(ofxTag(block, 'TRNAMT') || '', '.');
+    const name = ofxTag(block, 'NAME');
+    const memo = ofxTag(block, 'MEMO');
+    if (!date || amount === null || amount === 0) {
+      skipped++;
+      return;
+    }
+    rows.push({
+      date,
+      amount,
+      description: decodeEntities([name, memo].filter(Boolean).join(' - ') || ofxTag(block, 'TRNTYPE') || 'Statement entry'),
+      externalId: ofxTag(block, 'FITID')
+    });
+  });
+
+  return { rows, skipped, accountId: ofxTag(text, 'ACCTID') };
+};
+
+/**
+ * Matches an OFX account number to a linked connection by its last four digits.
+ */
+export const matchConnectionByAccount = (accountId: string | undefined, connections: BankConnection[]): BankConnection | undefined => {
+  if (!accountId) return undefined;
+  const lastFour = accountId.replace(/\D/g, '').slice(-4);
+  return connections.find(c => c.accountLastFour && c.accountLastFour === lastFour);
+};
+
+/**
+ * Queue Output
+ */
+export const statementRowsToResults = (rows: StatementRow[], institution: string): AIAnalysisResult[] =>
+  rows.map(row => ({
+    updateType: 'transaction',
+    transaction: {
+      amount: Math.abs(row.amount),
+      type: row.amount < 0 ? 'expense' : 'income',
+      category: row.amount < 0 ? 'Other' : 'Income',
+      description: row.description,
+      date: row.date,
+      institution,
+      externalId: row.externalId
+    }
+  }));
@@ -0,0 +1,84 @@
+
+import { BankConnection, AIAnalysisResult, SyncLogEntry } from '../types';
+import { connectorFor, readFeed, ConnectorError, describeConnectorError } from './institutionConnectors';
+
+/**
+ * Fire Finance - Sync Scheduler
+ * Decides when each linked connection pulls from its institution and records how it went.
+ * Connections sync on app start and then every SYNC_INTERVAL_MS; failures retry with
+ * exponential backoff, except sign-in failures, which wait for the user to re-link. A cursor
+ * the institution no longer recognises (e.g. its feed was reset) is dropped and the feed is
+ * walked again from its end, as a fresh link would.
+ */
+
+export const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+export const SCHEDULER_TICK_MS = 60 * 1000;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+export const SYNC_LOG_LIMIT = 200;
+
+export const isSyncable = (conn: BankConnection) =>
+  !!connectorFor(conn.institution) && !!conn.accessToken && !!conn.externalAccountId;
+
+export const backoffDelay = (failures: number, retryAfterSeconds?: number) =>
+  Math.max((retryAfterSeconds || 0) * 1000, Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, failures - 1)));
+
+export const isDue = (conn: BankConnection, now: number = Date.now()) => {
+  if (!isSyncable(conn) || conn.status === 'error') return false;
+  if (conn.nextSyncAt) return Date.parse(conn.nextSyncAt) <= now;
+  return !conn.lastSynced || now - Date.parse(conn.lastSynced) >= SYNC_INTERVAL_MS;
+};
+
+export interface SyncOutcome {
+  patch: Partial<BankConnection>;
+  items: AIAnalysisResult[];
+  entry: Omit<SyncLogEntry, 'id'>;
+}
+
+/**
+ * Pulls everything after the connection's cursor. Never throws: failures come back as a
+ * patch that schedules the retry (or flags the connection for re-linking) plus a log entry.
+ */
+export const runSync = async (conn: BankConnection, trigger: SyncLogEntry['trigger']): Promise<SyncOutcome> => {
+  const connector = connectorFor(conn.institution);
+  const at = new Date().toISOString();
+  try {
+    if (!connector || !conn.accessToken || !conn.externalAccountId) {
+      throw new ConnectorError('session_expired', `${conn.institution} was linked without an API session`);
+    }
+    const session = { token: conn.accessToken, expiresAt: conn.tokenExpiresAt };
+    const accountId = conn.externalAccountId;
+    let reset = false;
+    const { transactions, cursor } = await readFeed(connector, session, accountId, conn.syncCursor).catch(error => {
+      if (!(error instanceof ConnectorError) || error.code !== 'invalid_cursor' || !conn.syncCursor) throw error;
+      reset = true;
+      return readFeed(connector, session, accountId, undefined, false);
+    });
+    return {
+      patch: { status: 'linked', syncCursor: cursor, lastSynced: at, syncFailures: 0, nextSyncAt: undefined, lastError: undefined },
+      items: transactions.map(t => ({
+        updateType: 'transaction',
+        transaction: { amount: t.amount, category: t.category || 'Other', description: t.description, type: t.type, date: t.date, vendor: t.vendor, institution: conn.institution, externalId: t.id }
+      })),
+      entry: {
+        institution: conn.institution, at, trigger, outcome: 'success', newItems: transactions.length,
+        ...(reset ? { message: 'Sync position no longer recognised; restarted from the latest transaction' } : {})
+      }
+    };
+  } catch (error) {
+    const message = describeConnectorError(error);
+    const needsSignIn = error instanceof ConnectorError && (error.code === 'session_expired' || error.code === 'invalid_credentials');
+    const failures = (conn.syncFailures || 0) + 1;
+    const retryAfter = error instanceof ConnectorError ? error.retryAfterSeconds : undefined;
+    return {
+      patch: {
+        status: needsSignIn ? 'error' : 'linked',
+        syncFailures: failures,
+        nextSyncAt: needsSignIn ? undefined : new Date(Date.now() + backoffDelay(failures, retryAfter)).toISOString(),
+        lastError: message
+      },
+      items: [],
+      entry: { institution: conn.institution, at, trigger, outcome: 'failure', newItems: 0, message }
+    };
+  }
+};
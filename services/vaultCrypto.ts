@@ -0,0 +1,112 @@
+
+import { StoredUser } from '../types';
+
+/**
+ * Fire Finance - Vault Encryption
+ * Records are sealed with AES-GCM under one device-wide vault key. The key itself is
+ * never stored in the clear: every account keeps its own copy, wrapped (AES-KW) with a
+ * key derived from that account's password, so the vault opens only after sign-in.
+ * The key protects the device, not members from each other: any signed-in account can open
+ * every other account's records, which are kept apart only by their owner prefix.
+ */
+
+const KEY_SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface SealedRecord {
+  sealed: 1;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+let vaultKey: CryptoKey | null = null;
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+export const fromBase64 = (encoded: string): Uint8Array =>
+  Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+
+export const isSealed = (value: unknown): value is SealedRecord =>
+  !!value && typeof value === 'object' && (value as SealedRecord).sealed === 1 && (value as SealedRecord).data instanceof ArrayBuffer;
+
+// Extractable so it can be wrapped again for new accounts and password changes.
+export const generateVaultKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+const deriveWrappingKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+/**
+ * Wraps the vault key for one account. The salt is independent of the password hash salt,
+ * so the stored hash reveals nothing about the wrapping key.
+ */
+export const wrapVaultKey = async (key: CryptoKey, password: string, iterations: number): Promise<Pick<StoredUser, 'keySalt' | 'wrappedVaultKey'>> => {
+  const salt = crypto.getRandomValues(new Uint8Array(KEY_SALT_BYTES));
+  const wrappingKey = await deriveWrappingKey(password, salt, iterations);
+  return {
+    keySalt: toBase64(salt),
+    wrappedVaultKey: toBase64(await crypto.subtle.wrapKey('raw', key, wrappingKey, 'AES-KW'))
+  };
+};
+
+/**
+ * Recovers the vault key from an account's wrapped copy. Rejects if the password is wrong.
+ */
+export const unwrapVaultKey = async (user: StoredUser, password: string): Promise<CryptoKey> => {
+  if (!user.keySalt || !user.wrappedVaultKey) throw new Error(`No vault key issued to ${user.username}`);
+  const wrappingKey = await deriveWrappingKey(password, fromBase64(user.keySalt), user.hashIterations);
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(user.wrappedVaultKey),
+    wrappingKey,
+    'AES-KW',
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Session Key
+ * Held in memory only; a reload or lockVaultKey() means the password must be entered again.
+ */
+export const unlockVaultKey = (key: CryptoKey) => {
+  vaultKey = key;
+};
+
+export const lockVaultKey = () => {
+  vaultKey = null;
+};
+
+export const isVaultUnlocked = () => vaultKey !== null;
+
+export const requireVaultKey = (): CryptoKey => {
+  if (!vaultKey) throw new Error('Vault is locked: enter your password to continue');
+  return vaultKey;
+};
+
+export const sealValue = async (value: unknown): Promise<SealedRecord> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, requireVaultKey(), plaintext);
+  return { sealed: 1, iv, data };
+};
+
+/**
+ * Opens a sealed record. Values written before encryption was enabled pass through
+ * unchanged until the next write (or the sealing migration) encrypts them.
+ */
+export const openValue = async <T>(stored: unknown): Promise<T> => {
+  if (!isSealed(stored)) return stored as T;
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, requireVaultKey(), stored.data);
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
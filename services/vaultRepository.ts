@@ -0,0 +1,459 @@
+
+import {
+  Transaction,
+  RecurringExpense,
+  RecurringIncome,
+  SavingGoal,
+  InvestmentGoal,
+  BankConnection,
+  InvestmentAccount,
+  BudgetEvent,
+  CalendarItem,
+  Contact,
+  NetWorthSnapshot,
+  ImportProfile,
+  CategoryRule,
+  Category,
+  FxRate,
+  Reconciliation,
+  SyncLogEntry,
+  PricePoint,
+  Liability,
+  QueuedItem,
+  BudgetCycle,
+  StoredUser,
+  STORAGE_KEYS
+} from '../types';
+import {
+  readStoreEntries,
+  writeStoreEntries,
+  deleteStoreRange,
+  clearStores,
+  readStateValue,
+  writeStateValue,
+  deleteStateValue,
+  purgeVaultStores,
+  sealPlaintextRecords
+} from './fileStorageService';
+import { unlockVaultKey, lockVaultKey, sealValue, openValue } from './vaultCrypto';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import { DEFAULT_FX_RATES, HOME_CURRENCY } from './currencyService';
+import { DEFAULT_BUDGET_CYCLE } from './budgetCycleService';
+
+/**
+ * Fire Finance - Vault Repository
+ * Typed access to the per-collection IndexedDB stores, with schema migrations
+ * and incremental (per-record) writes. Personal collections are namespaced by the
+ * signed-in username; the project workspace (events, contacts) and accounts are shared.
+ * Everything except the account registry is encrypted at rest (see vaultCrypto).
+ */
+
+export interface VaultCollections {
+  transactions: Transaction[];
+  recurringExpenses: RecurringExpense[];
+  recurringIncomes: RecurringIncome[];
+  savingGoals: SavingGoal[];
+  investmentGoals: InvestmentGoal[];
+  categoryBudgets: Record<string, number>;
+  bankConnections: BankConnection[];
+  investments: InvestmentAccount[];
+  events: BudgetEvent[];
+  calendarItems: CalendarItem[];
+  contacts: Contact[];
+  netWorthHistory: NetWorthSnapshot[];
+  importProfiles: ImportProfile[];
+  categoryRules: CategoryRule[];
+  categories: Category[];
+  fxRates: FxRate[];
+  reconciliations: Reconciliation[];
+  syncLog: SyncLogEntry[];
+  priceHistory: PricePoint[];
+  liabilities: Liability[];
+  verificationQueue: QueuedItem[];
+  users: StoredUser[];
+}
+
+export type CollectionName = keyof VaultCollections;
+
+export interface VaultSettings {
+  cashOpeningBalance: number;
+  salary: number;
+  baseCurrency: string;
+  budgetCycle: BudgetCycle;
+}
+
+export const DEFAULT_SETTINGS: VaultSettings = { cashOpeningBalance: 0, salary: 0, baseCurrency: HOME_CURRENCY, budgetCycle: DEFAULT_BUDGET_CYCLE };
+
+export type VaultSnapshot = VaultCollections & VaultSettings;
+
+// Everything that travels inside backups: the whole vault except the account registry.
+export type PortableCollections = Omit<VaultCollections, 'users'>;
+
+interface CollectionSpec<T> {
+  store: string;
+  shared?: boolean;
+  fallback: T;
+  toEntries: (value: T) => [string, unknown][];
+  fromEntries: (entries: [string, any][]) => T;
+}
+
+// IndexedDB hands records back in key order, so list collections declare their display order.
+const listSpec = <R>(
+  store: string,
+  keyOf: (record: R) => string,
+  order: (a: R, b: R) => number,
+  shared: boolean = false
+): CollectionSpec<R[]> => ({
+  store,
+  shared,
+  fallback: [],
+  toEntries: (records) => records.map(r => [keyOf(r), r] as [string, unknown]),
+  fromEntries: (entries) => entries.map(([, r]) => r as R).sort(order)
+});
+
+const byText = (a: string = '', b: string = '') => a.localeCompare(b);
+
+const COLLECTIONS: { [K in CollectionName]: CollectionSpec<VaultCollections[K]> } = {
+  transactions: listSpec<Transaction>(STORAGE_KEYS.TRANSACTIONS, t => t.id, (a, b) => byText(b.date, a.date)),
+  recurringExpenses: listSpec<RecurringExpense>(STORAGE_KEYS.RECURRING_EXPENSES, e => e.id, (a, b) => a.dayOfMonth - b.dayOfMonth),
+  recurringIncomes: listSpec<RecurringIncome>(STORAGE_KEYS.RECURRING_INCOMES, i => i.id, (a, b) => a.dayOfMonth - b.dayOfMonth),
+  savingGoals: listSpec<SavingGoal>(STORAGE_KEYS.SAVINGS_GOALS, g => g.id, (a, b) => byText(a.name, b.name)),
+  investmentGoals: listSpec<InvestmentGoal>(STORAGE_KEYS.INVESTMENT_GOALS, g => g.id, (a, b) => byText(a.name, b.name)),
+  categoryBudgets: {
+    store: STORAGE_KEYS.CATEGORY_LIMITS,
+    fallback: {},
+    toEntries: (budgets) => Object.entries(budgets),
+    fromEntries: (entries) => Object.fromEntries(entries)
+  },
+  bankConnections: listSpec<BankConnection>(STORAGE_KEYS.BANK_CONNECTIONS, c => c.institution, (a, b) => byText(a.institution, b.institution)),
+  investments: listSpec<InvestmentAccount>(STORAGE_KEYS.INVESTMENTS, i => i.id, (a, b) => byText(a.name, b.name)),
+  events: listSpec<BudgetEvent>(STORAGE_KEYS.EVENTS, e => e.id, (a, b) => byText(b.lastUpdated, a.lastUpdated), true),
+  calendarItems: listSpec<CalendarItem>(STORAGE_KEYS.CALENDAR_ITEMS, c => c.id, (a, b) => byText(a.date, b.date)),
+  contacts: listSpec<Contact>(STORAGE_KEYS.CONTACTS, c => c.id, (a, b) => byText(a.name, b.name), true),
+  netWorthHistory: listSpec<NetWorthSnapshot>(STORAGE_KEYS.NETWORTH_HISTORY, s => s.date, (a, b) => byText(a.date, b.date)),
+  importProfiles: listSpec<ImportProfile>(STORAGE_KEYS.IMPORT_PROFILES, p => p.institution, (a, b) => byText(a.institution, b.institution)),
+  categoryRules: listSpec<CategoryRule>(STORAGE_KEYS.CATEGORY_RULES, r => r.id, (a, b) => byText(a.createdAt, b.createdAt)),
+  // Vaults without a catalogue yet start from the default categories
+  categories: {
+    ...listSpec<Category>(STORAGE_KEYS.CATEGORIES, c => c.id, (a, b) => byText(a.createdAt, b.createdAt) || byText(a.name, b.name)),
+    fallback: DEFAULT_CATEGORIES
+  },
+  // The XCD/USD peg is always known, even before any rate has been entered
+  fxRates: {
+    ...listSpec<FxRate>(STORAGE_KEYS.FX_RATES, r => r.id, (a, b) => byText(b.date, a.date) || byText(a.base + a.quote, b.base + b.quote)),
+    fallback: DEFAULT_FX_RATES
+  },
+  reconciliations: listSpec<Reconciliation>(STORAGE_KEYS.RECONCILIATIONS, r => r.id, (a, b) => byText(a.institution, b.institution) || byText(a.statementDate, b.statementDate)),
+  syncLog: listSpec<SyncLogEntry>(STORAGE_KEYS.SYNC_LOG, e => e.id, (a, b) => byText(b.at, a.at)),
+  priceHistory: listSpec<PricePoint>(STORAGE_KEYS.PRICE_HISTORY, p => p.id, (a, b) => byText(a.symbol, b.symbol) || byText(a.date, b.date)),
+  liabilities: listSpec<Liability>(STORAGE_KEYS.LIABILITIES, l => l.id, (a, b) => byText(a.name, b.name)),
+  verificationQueue: listSpec<QueuedItem>(STORAGE_KEYS.VERIFICATION_QUEUE, q => q.id, (a, b) => a.position - b.position),
+  users: listSpec<StoredUser>(STORAGE_KEYS.USERS_LIST, u => u.username, (a, b) => byText(a.createdAt, b.createdAt), true)
+};
+
+export const COLLECTION_NAMES = Object.keys(COLLECTIONS) as CollectionName[];
+
+// Accounts never travel inside ledger backups.
+export const PORTABLE_COLLECTIONS = COLLECTION_NAMES.filter(name => name !== 'users') as (keyof PortableCollections)[];
+const PERSONAL_COLLECTIONS = COLLECTION_NAMES.filter(name => !COLLECTIONS[name].shared);
+const SEALED_COLLECTIONS = COLLECTION_NAMES.filter(name => name !== 'users');
+
+const SETTING_KEYS: { [K in keyof VaultSettings]: string } = {
+  cashOpeningBalance: STORAGE_KEYS.CASH_OPENING,
+  salary: STORAGE_KEYS.SALARY,
+  baseCurrency: STORAGE_KEYS.BASE_CURRENCY,
+  budgetCycle: STORAGE_KEYS.BUDGET_CYCLE
+};
+
+const SCHEMA_VERSION_KEY = 'schema_version';
+const OWNER_SEPARATOR = '::';
+
+let vaultOwner: string | null = null;
+
+/**
+ * Last state known to be on disk, per collection. Writes diff against this so an
+ * edited transaction costs one put instead of rewriting the whole ledger.
+ */
+const persistedEntries: Partial<Record<CollectionName, Map<string, unknown>>> = {};
+
+const vaultChannel: BroadcastChannel | null = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('FireFinance_vault') : null;
+
+const toEntryMap = <K extends CollectionName>(name: K, value: VaultCollections[K]) =>
+  new Map(COLLECTIONS[name].toEntries(value));
+
+const ownerPrefix = (owner: string | null = vaultOwner) => {
+  if (!owner) throw new Error('Vault is locked: no signed-in user');
+  return `${owner}${OWNER_SEPARATOR}`;
+};
+
+const scopeOf = (name: CollectionName) => COLLECTIONS[name].shared ? '' : ownerPrefix();
+
+const settingKey = (setting: keyof VaultSettings) => ownerPrefix() + SETTING_KEYS[setting];
+
+/**
+ * Schema Migrations
+ * Each step runs once, in order, and the reached version is recorded in app_state.
+ * Steps run inside openVault, so personal data found during an upgrade is claimed
+ * by the first user to sign in afterwards.
+ */
+interface VaultMigration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+const readLegacyJson = (raw: string | null) => {
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Reads a legacy flat layout ({ [STORAGE_KEYS.*]: JSON string }), as kept in localStorage
+ * and in pre-IndexedDB backup files. Keys that are missing or unreadable are left out.
+ */
+export const parseStorageLayout = (layout: Record<string, unknown>): { collections: Partial<PortableCollections>; settings: Partial<VaultSettings> } => {
+  const collections: Partial<PortableCollections> = {};
+  const settings: Partial<VaultSettings> = {};
+  for (const name of PORTABLE_COLLECTIONS) {
+    const raw = layout[COLLECTIONS[name].store];
+    const legacy = typeof raw === 'string' ? readLegacyJson(raw) : undefined;
+    if (legacy !== undefined) (collections as any)[name] = legacy;
+  }
+  for (const setting of Object.keys(SETTING_KEYS) as (keyof VaultSettings)[]) {
+    const raw = layout[SETTING_KEYS[setting]];
+    if (typeof raw !== 'string') continue;
+    const fallback = DEFAULT_SETTINGS[setting];
+    const value = typeof fallback === 'number' ? parseFloat(raw) || 0 : typeof fallback === 'string' ? raw : readLegacyJson(raw);
+    if (value !== undefined) (settings as any)[setting] = value;
+  }
+  return { collections, settings };
+};
+
+const MIGRATIONS: VaultMigration[] = [
+  {
+    version: 1,
+    description: 'Move localStorage collections into per-collection object stores',
+    migrate: async () => {
+      const legacyKeys = [...PORTABLE_COLLECTIONS.map(name => COLLECTIONS[name].store), ...Object.values(SETTING_KEYS)];
+      const layout: Record<string, string | null> = {};
+      legacyKeys.forEach(key => { layout[key] = localStorage.getItem(key); });
+      const { collections, settings } = parseStorageLayout(layout);
+      for (const name of Object.keys(collections) as (keyof PortableCollections)[]) {
+        await replaceCollection(name, collections[name] as any);
+      }
+      for (const setting of Object.keys(settings) as (keyof VaultSettings)[]) {
+        await persistSetting(setting, settings[setting]!);
+      }
+      legacyKeys.forEach(key => localStorage.removeItem(key));
+    }
+  },
+  {
+    version: 2,
+    description: 'Namespace personal collections by owner',
+    migrate: async () => {
+      const prefix = ownerPrefix();
+      for (const name of PERSONAL_COLLECTIONS) {
+        const store = COLLECTIONS[name].store;
+        const unscoped = (await readStoreEntries(store)).filter(([key]) => !key.includes(OWNER_SEPARATOR));
+        if (unscoped.length === 0) continue;
+        await writeStoreEntries(store, [], unscoped.map(([key]) => key));
+        await writeStoreEntries(store, unscoped, [], prefix);
+      }
+      for (const setting of Object.keys(SETTING_KEYS) as (keyof VaultSettings)[]) {
+        const legacy = await readStateValue<number>(SETTING_KEYS[setting]);
+        if (legacy === undefined) continue;
+        await writeStateValue(settingKey(setting), legacy);
+        await deleteStateValue(SETTING_KEYS[setting]);
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Encrypt records and documents with the vault key',
+    migrate: async () => {
+      await sealPlaintextRecords();
+      for (const setting of Object.keys(SETTING_KEYS) as (keyof VaultSettings)[]) {
+        const plain = await readStateValue<number>(settingKey(setting));
+        if (typeof plain === 'number') await writeStateValue(settingKey(setting), await sealValue(plain));
+      }
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const runMigrations = async () => {
+  const current = (await readStateValue<number>(SCHEMA_VERSION_KEY)) || 0;
+  for (const step of MIGRATIONS) {
+    if (step.version <= current) continue;
+    console.info(`Vault migration v${step.version}: ${step.description}`);
+    await step.migrate();
+    await writeStateValue(SCHEMA_VERSION_KEY, step.version);
+  }
+};
+
+/**
+ * Collection Access
+ */
+const readCollection = async <K extends CollectionName>(name: K): Promise<VaultCollections[K]> => {
+  const spec = COLLECTIONS[name];
+  const entries = await readStoreEntries(spec.store, scopeOf(name));
+  return entries.length > 0 ? spec.fromEntries(entries) : spec.fallback;
+};
+
+/**
+ * Record identity used for diffs and merges (id, or the natural key for keyed collections).
+ */
+export const toCollectionEntries = <K extends CollectionName>(name: K, value: VaultCollections[K]): [string, unknown][] =>
+  COLLECTIONS[name].toEntries(value);
+
+export const fromCollectionEntries = <K extends CollectionName>(name: K, entries: [string, unknown][]): VaultCollections[K] =>
+  COLLECTIONS[name].fromEntries(entries);
+
+/**
+ * Reads a collection and makes it the baseline for the next persistCollection diff.
+ */
+export const loadCollection = async <K extends CollectionName>(name: K): Promise<VaultCollections[K]> => {
+  const value = await readCollection(name);
+  persistedEntries[name] = toEntryMap(name, value);
+  return value;
+};
+
+export const loadSetting = async <K extends keyof VaultSettings>(setting: K): Promise<VaultSettings[K]> => {
+  const stored = await readStateValue<unknown>(settingKey(setting));
+  if (stored === undefined) return DEFAULT_SETTINGS[setting];
+  return openValue<VaultSettings[K]>(stored);
+};
+
+export const loadVault = async (): Promise<VaultSnapshot> => {
+  const snapshot = {} as VaultSnapshot;
+  for (const name of COLLECTION_NAMES) {
+    (snapshot as any)[name] = await loadCollection(name);
+  }
+  snapshot.cashOpeningBalance = await loadSetting('cashOpeningBalance');
+  snapshot.salary = await loadSetting('salary');
+  snapshot.baseCurrency = await loadSetting('baseCurrency');
+  snapshot.budgetCycle = await loadSetting('budgetCycle');
+  return snapshot;
+};
+
+/**
+ * Snapshot of the portable vault for backups. Leaves the persist baselines untouched.
+ */
+export const readPortableVault = async (): Promise<{ collections: PortableCollections; settings: VaultSettings }> => {
+  const collections = {} as PortableCollections;
+  for (const name of PORTABLE_COLLECTIONS) {
+    (collections as any)[name] = await readCollection(name);
+  }
+  return {
+    collections,
+    settings: {
+      cashOpeningBalance: await loadSetting('cashOpeningBalance'),
+      salary: await loadSetting('salary'),
+      baseCurrency: await loadSetting('baseCurrency'),
+      budgetCycle: await loadSetting('budgetCycle')
+    }
+  };
+};
+
+/**
+ * Unlocks the vault for one user with the key unwrapped at sign-in: runs pending
+ * migrations and returns their hydrated data.
+ */
+export const openVault = async (owner: string, key: CryptoKey): Promise<VaultSnapshot> => {
+  unlockVaultKey(key);
+  vaultOwner = owner;
+  SEALED_COLLECTIONS.forEach(name => { persistedEntries[name] = undefined; });
+  await runMigrations();
+  return loadVault();
+};
+
+/**
+ * Locks the vault: forgets the owner, the in-memory key and the diff baselines of
+ * everything encrypted (only the account registry stays readable).
+ */
+export const closeVault = () => {
+  lockVaultKey();
+  vaultOwner = null;
+  SEALED_COLLECTIONS.forEach(name => { persistedEntries[name] = undefined; });
+};
+
+/**
+ * Persists only the records that changed since the last load/persist of this collection.
+ * React state is immutable, so an unchanged record keeps its object identity.
+ */
+export const persistCollection = async <K extends CollectionName>(name: K, value: VaultCollections[K]): Promise<void> => {
+  const scope = scopeOf(name);
+  const previous = persistedEntries[name] || new Map<string, unknown>();
+  const next = toEntryMap(name, value);
+
+  const puts: [string, unknown][] = [];
+  next.forEach((record, key) => {
+    if (previous.get(key) !== record) puts.push([key, record]);
+  });
+  const deletes = Array.from(previous.keys()).filter(key => !next.has(key));
+
+  persistedEntries[name] = next;
+  if (puts.length === 0 && deletes.length === 0) return;
+
+  await writeStoreEntries(COLLECTIONS[name].store, puts, deletes, scope);
+  vaultChannel?.postMessage({ collection: name, owner: COLLECTIONS[name].shared ? null : vaultOwner });
+};
+
+/**
+ * Rewrites a whole collection (restores). Other tabs and the caller must reload it afterwards.
+ */
+export const replaceCollection = async <K extends CollectionName>(name: K, value: VaultCollections[K]): Promise<void> => {
+  const spec = COLLECTIONS[name];
+  const scope = scopeOf(name);
+  if (scope) await deleteStoreRange(spec.store, scope);
+  else await clearStores([spec.store]);
+  await writeStoreEntries(spec.store, spec.toEntries(value), [], scope);
+  persistedEntries[name] = undefined;
+  vaultChannel?.postMessage({ collection: name, owner: spec.shared ? null : vaultOwner });
+};
+
+export const persistSetting = async <K extends keyof VaultSettings>(setting: K, value: VaultSettings[K]): Promise<void> => {
+  await writeStateValue(settingKey(setting), await sealValue(value));
+  vaultChannel?.postMessage({ setting, owner: vaultOwner });
+};
+
+/**
+ * Cross-tab sync: notifies when another tab has written a shared collection, or
+ * a personal collection/setting belonging to the user signed in here. While locked,
+ * only account registry changes get through.
+ */
+export const subscribeToVaultChanges = (
+  listener: (change: { collection?: CollectionName; setting?: keyof VaultSettings }) => void
+): (() => void) => {
+  if (!vaultChannel) return () => {};
+  const handler = (e: MessageEvent) => {
+    if (e.data.owner && e.data.owner !== vaultOwner) return;
+    if (!vaultOwner && e.data.collection !== 'users') return;
+    listener(e.data);
+  };
+  vaultChannel.addEventListener('message', handler);
+  return () => vaultChannel.removeEventListener('message', handler);
+};
+
+/**
+ * Removes one user's personal collections and settings (used when an account is deleted).
+ */
+export const purgeUserVault = async (owner: string): Promise<void> => {
+  const prefix = ownerPrefix(owner);
+  for (const name of PERSONAL_COLLECTIONS) {
+    await deleteStoreRange(COLLECTIONS[name].store, prefix);
+  }
+  for (const key of Object.values(SETTING_KEYS)) {
+    await deleteStateValue(prefix + key);
+  }
+};
+
+export const purgeVault = async (): Promise<void> => {
+  await purgeVaultStores();
+  COLLECTION_NAMES.forEach(name => { persistedEntries[name] = undefined; });
+};
@@ -1,19 +1,26 @@
 
 export type TransactionType = 'expense' | 'income' | 'savings' | 'withdrawal' | 'transfer';
 export type InstitutionType = 'bank' | 'credit_union' | 'investment';
+export type CurrencyCode = string; // ISO 4217, e.g. 'XCD', 'USD'
 
 export interface User {
   id: string;
   name: string;
-  role: 'admin' | 'collaborator';
+  role: UserRole;
   avatar?: string;
   online: boolean;
 }
 
+export type UserRole = 'admin' | 'collaborator';
+
 export interface StoredUser {
   username: string;
-  password?: string; // Only stored locally for this demo
-  role: 'admin' | 'collaborator';
+  passwordHash: string; // PBKDF2-SHA256, base64
+  passwordSalt: string; // base64
+  hashIterations: number;
+  keySalt?: string; // base64, salt for the key that wraps the vault key
+  wrappedVaultKey?: string; // AES-KW, base64; absent on accounts created before encryption
+  role: UserRole;
   createdAt: string;
 }
 
@@ -26,35 +33,154 @@ export interface LineItem {
 export interface BankConnection {
   institution: string;
   institutionType: InstitutionType;
-  status: 'linked' | 'unlinked' | 'syncing';
+  status: 'linked' | 'unlinked' | 'syncing' | 'error'; // 'error': the institution needs signing in again
   lastSynced?: string;
   accountLastFour?: string;
   openingBalance: number;
+  currency?: CurrencyCode; // account currency; unset reads as XCD (USD for investment platforms)
+  // Set when linked through an institution connector
+  externalAccountId?: string;
+  accessToken?: string;
+  tokenExpiresAt?: string;
+  syncCursor?: string; // opaque position in the institution's transaction feed
+  syncFailures?: number; // consecutive failed attempts, drives the retry backoff
+  nextSyncAt?: string;
+  lastError?: string;
+}
+
+export interface SyncLogEntry {
+  id: string;
+  institution: string;
+  at: string;
+  trigger: 'scheduled' | 'manual';
+  outcome: 'success' | 'failure';
+  newItems: number; // transactions routed to the Verification Queue
+  message?: string;
+}
+
+/**
+ * A checkpoint where the ledger was agreed with a bank statement. `clearedIds` are the
+ * transactions ticked off against it; balances are in the account's currency.
+ */
+export interface Reconciliation {
+  id: string;
+  institution: string;
+  statementDate: string;
+  statementBalance: number;
+  clearedBalance: number;
+  discrepancy: number;
+  clearedIds: string[];
+  reconciledAt: string;
 }
 
 export interface Holding {
   symbol: string;
   quantity: number;
-  purchasePrice: number;
+  purchasePrice: number; // average cost per unit of the open lots when lots are known
+  currency?: CurrencyCode; // currency of purchasePrice; unset reads as USD
+  lots?: HoldingLot[];
+}
+
+// Units still held from one purchase, at what they cost (fees included)
+export interface HoldingLot {
+  tradeId: string;
+  acquiredAt: string;
+  quantity: number;
+  unitCost: number;
+}
+
+/**
+ * One buy or sell read from a provider export. `estimated` marks balancing entries
+ * added where a holdings report shows units the trade history does not explain.
+ */
+export interface InvestmentTrade {
+  id: string;
+  date: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number; // in `currency`, added to the cost of buys and taken from sale proceeds
+  currency: CurrencyCode;
+  estimated?: boolean;
 }
 
+// Which lots a sale consumes; 'average' sells at the pooled cost of every open lot
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export type AssetClass = 'crypto' | 'equity_etf' | 'bond' | 'cash' | 'pension' | 'real_estate';
+
 export interface InvestmentAccount {
   id: string;
-  provider: 'Binance' | 'Vanguard';
+  provider: string; // the institution transactions name when moving money in or out
   name: string;
+  assetClass?: AssetClass; // unset reads as crypto for Binance, equity ETF otherwise
+  currency?: CurrencyCode; // unset reads as USD
   holdings: Holding[];
+  trades?: InvestmentTrade[];
+  costBasisMethod?: CostBasisMethod; // unset reads as 'fifo'
+}
+
+export type LiabilityKind = 'loan' | 'credit_card' | 'mortgage';
+
+/**
+ * Money owed. The name is the account payments are transferred to and card purchases are
+ * booked against; what is owed now is derived from those transactions and the APR.
+ */
+export interface Liability {
+  id: string;
+  name: string;
+  kind: LiabilityKind;
+  lender?: string;
+  principal: number; // owed on openedOn
+  apr: number; // annual percentage rate, e.g. 6.5
+  minimumPayment: number; // monthly
+  paymentDay: number; // day of the month a payment is due
+  openedOn: string; // YYYY-MM-DD
+  currency?: CurrencyCode; // unset reads as the home currency
 }
 
 export interface MarketPrice {
   symbol: string;
   price: number;
-  change24h: number;
+  change24h: number; // against the previous day's close in the price history
+  currency?: CurrencyCode; // quote currency; unset reads as USD
+  asOf?: string; // ISO time the quote was observed
+  source?: PricePoint['source'];
+}
+
+/**
+ * One day's price for a symbol. The id is `${symbol}:${date}`, so a later quote on the
+ * same day replaces the earlier one and the store stays a daily history.
+ */
+export interface PricePoint {
+  id: string;
+  symbol: string;
+  date: string;
+  price: number;
+  currency: CurrencyCode;
+  source: 'feed' | 'manual' | 'import';
+  quotedAt: string;
+}
+
+/**
+ * One dated FX quote: 1 unit of `base` buys `rate` units of `quote`.
+ * A rate applies from its date until the next entry for the same pair.
+ */
+export interface FxRate {
+  id: string;
+  date: string;
+  base: CurrencyCode;
+  quote: CurrencyCode;
+  rate: number;
+  source: 'peg' | 'manual';
 }
 
 export interface Transaction {
   id: string;
   date: string;
   amount: number;
+  currency?: CurrencyCode; // unset: the currency of the account it was booked against
   category: string;
   description: string;
   type: TransactionType;
@@ -65,12 +191,14 @@ export interface Transaction {
   savingGoalId?: string;
   institution?: string;
   destinationInstitution?: string; 
+  externalId?: string; // bank-issued id (OFX FITID) for statement imports
+  notDuplicateOf?: string[]; // ids the user confirmed are separate transactions ("keep both")
 }
 
 export interface PortfolioUpdate {
   symbol: string;
   quantity: number;
-  provider: 'Binance' | 'Vanguard';
+  provider: string;
 }
 
 export interface AIAnalysisResult {
@@ -84,10 +212,77 @@ export interface AIAnalysisResult {
     date?: string;
     vendor?: string;
     lineItems?: LineItem[];
+    institution?: string;
+    destinationInstitution?: string;
+    externalId?: string;
+    appliedRuleId?: string; // set when a CategoryRule overrode the suggested category
   };
   portfolio?: PortfolioUpdate;
 }
 
+// An AIAnalysisResult waiting in the Verification Queue, kept in the vault until approved or discarded
+export interface QueuedItem extends AIAnalysisResult {
+  id: string;
+  position: number; // queue order, oldest first
+}
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD-MMM-YYYY' | 'YYYYMMDD';
+
+/**
+ * Column mapping for one institution's CSV export. Column values are zero-based indices;
+ * statements use either a single signed amount column or separate debit/credit columns.
+ */
+export interface ImportProfile {
+  institution: string;
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn?: number;
+  debitColumn?: number;
+  creditColumn?: number;
+  dateFormat: StatementDateFormat;
+  decimalSeparator: '.' | ',';
+  invertAmounts: boolean; // exports (often credit cards) where spending is positive
+  updatedAt: string;
+}
+
+export type CategoryKind = 'expense' | 'income' | 'transfer';
+
+/**
+ * User-managed ledger category. Transactions, budgets and rules reference categories by
+ * name; hierarchy is one level deep (a sub-category's parent is always top-level).
+ */
+export interface Category {
+  id: string;
+  name: string;
+  parentId?: string;
+  kind: CategoryKind;
+  color: string; // hex
+  icon: string; // Font Awesome class, e.g. 'fa-utensils'
+  archived: boolean;
+  createdAt: string;
+}
+
+export type CategoryRuleField = 'vendor' | 'description';
+export type CategoryRuleOperator = 'contains' | 'equals' | 'startsWith';
+
+/**
+ * Local categorization rule: "<field> <operator> <pattern> → category (and account)".
+ * Learned rules are proposed from the user's corrections; manual ones come from Settings.
+ */
+export interface CategoryRule {
+  id: string;
+  field: CategoryRuleField;
+  operator: CategoryRuleOperator;
+  pattern: string;
+  category: string;
+  institution?: string; // assigned when the incoming entry has no account of its own
+  enabled: boolean;
+  source: 'learned' | 'manual';
+  createdAt: string;
+}
+
 export interface SavingGoal {
   id: string;
   name: string;
@@ -97,6 +292,7 @@ export interface SavingGoal {
   currentAmount: number;
   openingBalance: number;
   category: string;
+  currency?: CurrencyCode; // unset reads as the home currency
 }
 
 export interface InvestmentGoal {
@@ -104,6 +300,7 @@ export interface InvestmentGoal {
   name: string;
   targetAmount: number;
   provider: string;
+  currency?: CurrencyCode; // unset reads as the home currency
 }
 
 export interface RecurringExpense {
@@ -118,6 +315,8 @@ export interface RecurringExpense {
   externalPortalUrl?: string; 
   externalSyncEnabled?: boolean;
   isSubscription?: boolean;
+  liabilityId?: string; // set by a debt payoff plan; paying it is a transfer into that liability
+  currency?: CurrencyCode; // unset reads as the home currency
 }
 
 export interface RecurringIncome {
@@ -129,6 +328,20 @@ export interface RecurringIncome {
   nextConfirmationDate: string; 
   lastConfirmedDate?: string;
   accumulatedReceived?: number; 
+  currency?: CurrencyCode; // unset reads as the home currency
+}
+
+/**
+ * How budget cycles are cut. 'recurring_income' follows the day a RecurringIncome
+ * lands; weekly and bi-weekly cycles count from anchorDate (any day a cycle started on).
+ */
+export type BudgetCycleKind = 'calendar_month' | 'day_of_month' | 'biweekly' | 'weekly' | 'recurring_income';
+
+export interface BudgetCycle {
+  kind: BudgetCycleKind;
+  dayOfMonth?: number;
+  anchorDate?: string;
+  recurringIncomeId?: string;
 }
 
 export interface Contact {
@@ -231,12 +444,15 @@ export interface EventItem {
 export interface NetWorthSnapshot {
   date: string;
   value: number;
+  currency?: CurrencyCode; // the base currency when recorded
+  bank?: number;
+  creditUnion?: number;
+  investment?: number;
+  cash?: number;
+  liabilities?: number; // negative: what is owed
+  backfilled?: boolean; // rebuilt from the ledger rather than recorded on the day
 }
 
-export const CATEGORIES = [
-  'Food', 'Transport', 'Housing', 'Entertainment', 'Utilities', 
-  'Health', 'Shopping', 'Education', 'Personal', 'Income', 'Savings', 'Other', 'Investments', 'Transfer'
-];
 
 export const EVENT_ITEM_CATEGORIES = [
   'Venue', 'Catering', 'Decor', 'Entertainment', 'Staff', 'Marketing', 'Tickets', 'Donation', 'Other'
@@ -259,9 +475,21 @@ export const STORAGE_KEYS = {
   CALENDAR_ITEMS: 'budget_calendar_items',
   CONTACTS: 'ff_contacts',
   NETWORTH_HISTORY: 'ff_networth_history',
+  IMPORT_PROFILES: 'ff_import_profiles',
+  CATEGORY_RULES: 'ff_category_rules',
+  CATEGORIES: 'ff_categories',
+  FX_RATES: 'ff_fx_rates',
+  RECONCILIATIONS: 'ff_reconciliations',
+  SYNC_LOG: 'ff_sync_log',
+  PRICE_HISTORY: 'ff_price_history',
+  LIABILITIES: 'ff_liabilities',
+  VERIFICATION_QUEUE: 'ff_verification_queue',
+  BASE_CURRENCY: 'ff_base_currency',
+  BUDGET_CYCLE: 'ff_budget_cycle',
   AUTH: 'ff_auth',
   AUTH_USER: 'ff_auth_username',
   USERS_LIST: 'ff_users_list',
   REMINDERS: 'ff_reminders_enabled',
-  PASSWORD: 'ff_custom_password'
+  PASSWORD: 'ff_custom_password',
+  AUTO_LOCK: 'ff_auto_lock_minutes'
 };
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.BANK_API_URL': JSON.stringify(env.BANK_API_URL || 'http://localhost:4010'),
+        'process.env.PRICE_FEED_URL': JSON.stringify(env.PRICE_FEED_URL || env.BANK_API_URL || 'http://localhost:4010')
       },
       resolve: {
         alias: {